@@ -0,0 +1,36 @@
+## Shared terms
+
+-brand-name = Acme Mail
+
+# Shown after signing in
+welcome = Welcome to { -brand-name }, { $user }!
+
+# Inbox counter
+emails =
+    { $count ->
+        [0] Your inbox is empty.
+        [one] You have one new email.
+       *[other] You have { $count } new emails.
+    }
+
+login-input = Sign in
+    .placeholder = Email address
+    .aria-label = Login input
+
+about = Read the { help-link } or write to
+    support@example.com.
+
+finished =
+    { NUMBER($place, type: "ordinal") ->
+        [one] You finished { $place }st!
+        [two] You finished { $place }nd!
+        [few] You finished { $place }rd!
+       *[other] You finished { $place }th!
+    }
+
+shared-photos =
+    { $gender ->
+        [male] He shared a photo.
+        [female] She shared a photo.
+       *[other] They shared a photo.
+    }
@@ -0,0 +1,95 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * A request received by the stand-in server
+ */
+export interface ReceivedRequest {
+  method: string;
+  /** Path and query */
+  url: string;
+  /** Path without the query */
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * A response of the stand-in server. String bodies are sent as they are, other
+ * bodies as JSON.
+ */
+export interface StandInResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * A running stand-in server
+ */
+export interface StandInServer {
+  baseUrl: string;
+  received: ReceivedRequest[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a local HTTP server that stands in for a provider API
+ */
+export async function startServer(
+  handler: (request: ReceivedRequest, baseUrl: string) => StandInResponse
+): Promise<StandInServer> {
+  const received: ReceivedRequest[] = [];
+  let baseUrl = '';
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const request: ReceivedRequest = {
+        method: req.method ?? 'GET',
+        url: req.url ?? '',
+        path: (req.url ?? '').split('?')[0] ?? '',
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString('utf-8'),
+      };
+      received.push(request);
+
+      const { status = 200, headers, body } = handler(request, baseUrl);
+      res.writeHead(status, {
+        'Content-Type': typeof body === 'string' ? 'application/binary' : 'application/json',
+        ...headers,
+      });
+      res.end(typeof body === 'string' ? body : JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    received,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Translate the units of a prompt the way a model would, as "[de] <source>"
+ */
+export function translatePrompt(prompt: string): Array<{ id: string; translation: string }> {
+  const items = [...prompt.matchAll(/^ID: (.+)\nSource: (.*)$/gm)];
+  return items.map(match => ({ id: match[1] ?? '', translation: `[de] ${match[2] ?? ''}` }));
+}
+
+/**
+ * Create a chat completion with the given message
+ */
+export function chatCompletion(message: Record<string, unknown>): Record<string, unknown> {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', ...message } }],
+    usage: { prompt_tokens: 40, completion_tokens: 12, total_tokens: 52 },
+  };
+}
@@ -1,9 +1,61 @@
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { extractFromFile } from '../../src/extractors/factory';
-import { diffAgainstStore } from '../../src/differ/differ';
-import { createHashStore, addToHashStore } from '../../src/differ/hasher';
-import { formatTranslations } from '../../src/formatters/factory';
-import type { TranslationUnit } from '../../src/types/translation';
+import {
+  diffAgainstStore,
+  getUnitsNeedingTranslation,
+  isHumanTranslation,
+} from '../../src/differ/differ';
+import { createHashStore, addToHashStore, getTargetHash } from '../../src/differ/hasher';
+import {
+  createTranslationFile,
+  formatTranslations,
+  writeTranslations,
+} from '../../src/formatters/factory';
+import {
+  DEFAULT_PSEUDO_LOCALIZATION_OPTIONS,
+  pseudoLocalize,
+} from '../../src/translators/providers/pseudo';
+import { readTextFile } from '../../src/utils/encoding';
+import { getOutputFilePath } from '../../src/utils/output-path';
+import type { ExtractResult, TranslationUnit } from '../../src/types/translation';
+
+/**
+ * Write translations to the output file of a source file, merging them into the file
+ * when it exists, as the action does
+ */
+const writeOutput = (
+  extractResult: ExtractResult,
+  units: TranslationUnit[],
+  outputPath: string
+): void => {
+  if (!fs.existsSync(outputPath)) {
+    createTranslationFile(outputPath, units, extractResult.formatInfo.format, 'en', 'pl', {
+      markAsTranslated: true,
+      template: {
+        content: extractResult.originalContent,
+        encoding: extractResult.formatInfo.encoding,
+      },
+    });
+    return;
+  }
+
+  const { content } = readTextFile(outputPath);
+  const existing = extractFromFile(outputPath, 'pl');
+  const targets = new Map(units.map(unit => [unit.id, unit.target]));
+  const merged = existing.units.map(unit => ({ ...unit, target: targets.get(unit.id) }));
+  writeTranslations(outputPath, content, merged, existing, { markAsTranslated: true });
+};
+
+/**
+ * Read the targets of an output file. Monolingual files hold them as sources.
+ */
+const readOutput = (outputPath: string): Map<string, TranslationUnit> => {
+  const { units } = extractFromFile(outputPath, 'pl');
+  const bilingual = units.some(unit => unit.target !== undefined);
+  return new Map(units.map(unit => [unit.id, bilingual ? unit : { ...unit, target: unit.source }]));
+};
 
 describe('Integration: Translation Pipeline', () => {
   describe('XLIFF 2.0 Pipeline', () => {
@@ -120,7 +172,7 @@ describe('Integration: Translation Pipeline', () => {
 
       // Add original hashes to store
       const hashStore = createHashStore();
-      addToHashStore(hashStore, fixturePath, extractResult.units);
+      addToHashStore(hashStore, fixturePath, 'de', extractResult.units);
 
       // Modify a unit's source
       const modifiedUnits = extractResult.units.map(unit => {
@@ -131,9 +183,99 @@ describe('Integration: Translation Pipeline', () => {
       });
 
       // Diff should show one modified
-      const diffResult = diffAgainstStore(fixturePath, modifiedUnits, hashStore);
+      const diffResult = diffAgainstStore(fixturePath, 'de', modifiedUnits, hashStore);
 
       expect(diffResult.summary.modified).toBe(1);
     });
+
+    it('should track each target language separately', () => {
+      const fixturePath = path.join(__dirname, '../fixtures/json-flat/en.json');
+      const extractResult = extractFromFile(fixturePath, 'de');
+
+      const hashStore = createHashStore();
+      addToHashStore(hashStore, fixturePath, 'de', extractResult.units);
+
+      const germanDiff = diffAgainstStore(fixturePath, 'de', extractResult.units, hashStore);
+      const frenchDiff = diffAgainstStore(fixturePath, 'fr', extractResult.units, hashStore);
+
+      expect(getUnitsNeedingTranslation(germanDiff, 'de')).toHaveLength(0);
+      expect(getUnitsNeedingTranslation(frenchDiff, 'fr')).toHaveLength(extractResult.units.length);
+    });
+  });
+
+  describe('Write Round Trip', () => {
+    const fixturesDir = path.join(__dirname, '../fixtures');
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pipeline-test-'));
+      fs.cpSync(fixturesDir, dir, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it.each([
+      'android/values/strings.xml',
+      'arb/app_en.arb',
+      'fluent/en-US/main.ftl',
+      'i18next/en/translation.json',
+      'ios/Localizable.xcstrings',
+      'ios/en.lproj/Localizable.strings',
+      'ios/en.lproj/Localizable.stringsdict',
+      'json-flat/en.json',
+      'json-nested/en.json',
+      'po/messages.pot',
+      'properties/messages.properties',
+      'resx/Resources.resx',
+      'xliff-1.2/messages.xliff',
+      'xliff-2.0/messages.xliff',
+      'yaml/en.yml',
+    ])('should not take the written targets of %s for reviewer edits', fixture => {
+      const sourcePath = path.join(dir, fixture);
+      const extractResult = extractFromFile(sourcePath, 'pl');
+      const outputPath = getOutputFilePath(
+        sourcePath,
+        'pl',
+        'en',
+        'auto',
+        extractResult.formatInfo.format
+      );
+
+      // Without brackets, plurals stay ICU plurals
+      const units = extractResult.units.map(unit => ({
+        ...unit,
+        target: pseudoLocalize(unit.source, {
+          ...DEFAULT_PSEUDO_LOCALIZATION_OPTIONS,
+          brackets: false,
+        }),
+      }));
+      expect(units.length).toBeGreaterThan(0);
+
+      // Hash the targets as they read back from the file, as the action does
+      writeOutput(extractResult, units, outputPath);
+      const written = readOutput(outputPath);
+      const hashStore = createHashStore();
+      addToHashStore(
+        hashStore,
+        fixture,
+        'pl',
+        units.map(unit => ({ ...unit, target: written.get(unit.id)?.target ?? unit.target }))
+      );
+
+      // A later run merges the same translations into the file
+      writeOutput(extractResult, units, outputPath);
+      const rewritten = readOutput(outputPath);
+
+      const edited = units.filter(unit => {
+        const existing = rewritten.get(unit.id);
+        return (
+          !existing ||
+          isHumanTranslation(existing, getTargetHash(hashStore, fixture, 'pl', unit.id))
+        );
+      });
+      expect(edited.map(unit => unit.id)).toEqual([]);
+    });
   });
 });
@@ -0,0 +1,306 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig, loadConfigFile } from '../../../src/config/loader';
+import type { ActionInputs } from '../../../src/config/types';
+
+const createInputs = (configFile: string): ActionInputs => ({
+  provider: 'anthropic',
+  apiKey: 'test-key',
+  sourceLanguage: 'en',
+  targetLanguages: 'de',
+  files: 'locales/en.json',
+  format: '',
+  configFile,
+  commit: 'false',
+  commitMessage: '',
+  batchSize: '',
+  maxRetries: '',
+  dryRun: 'false',
+});
+
+describe('Config loader', () => {
+  let dir: string;
+  let configFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+    configFile = path.join(dir, '.i18n-translate.yml');
+    process.env['ANTHROPIC_API_KEY'] = 'anthropic-key';
+    process.env['OPENAI_API_KEY'] = 'openai-key';
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    delete process.env['ANTHROPIC_API_KEY'];
+    delete process.env['OPENAI_API_KEY'];
+  });
+
+  describe('fallbacks', () => {
+    it('should keep the order of fallbacks that list a provider more than once', () => {
+      fs.writeFileSync(
+        configFile,
+        `provider:
+  name: anthropic
+  fallbacks:
+    - provider: openai
+      model: gpt-4o
+    - provider: anthropic
+      model: claude-3-5-haiku-latest
+      maxTokens: 2048
+    - provider: openai
+      model: gpt-4o-mini
+  circuitBreakerThreshold: 2
+`
+      );
+
+      const config = loadConfig(createInputs(configFile));
+
+      expect(
+        config.fallback.providers.map(({ provider, model, apiKey }) => [provider, model, apiKey])
+      ).toEqual([
+        ['openai', 'gpt-4o', 'openai-key'],
+        ['anthropic', 'claude-3-5-haiku-latest', 'anthropic-key'],
+        ['openai', 'gpt-4o-mini', 'openai-key'],
+      ]);
+      expect(config.fallback.providers[1]?.maxTokens).toBe(2048);
+      expect(config.fallback.circuitBreakerThreshold).toBe(2);
+    });
+
+    it('should name the position of a fallback that is missing its API key', () => {
+      delete process.env['OPENAI_API_KEY'];
+      fs.writeFileSync(
+        configFile,
+        `provider:
+  fallbacks:
+    - provider: anthropic
+    - provider: openai
+`
+      );
+
+      expect(() => loadConfig(createInputs(configFile))).toThrow(
+        'API key is required for fallback provider 2 (openai)'
+      );
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    it('should read lists of scalars and maps', () => {
+      fs.writeFileSync(
+        configFile,
+        `glossary:
+  doNotTranslate:
+    - Acme
+    - "Note: keep"
+routes:
+  docs:
+    files:
+      - docs/**
+provider:
+  fallbacks:
+    - provider: ollama
+      model: llama3.2
+      features:
+        tools: false
+    - provider: openai
+files:
+  targetLanguages:
+    - de
+`
+      );
+
+      expect(loadConfigFile(configFile)).toMatchObject({
+        glossary: { doNotTranslate: ['Acme', 'Note: keep'] },
+        routes: { docs: { files: ['docs/**'] } },
+        provider: {
+          fallbacks: [
+            { provider: 'ollama', model: 'llama3.2', features: { tools: false } },
+            { provider: 'openai' },
+          ],
+        },
+        files: { targetLanguages: ['de'] },
+      });
+    });
+
+    it('should read the configuration example of the README', () => {
+      fs.writeFileSync(
+        configFile,
+        `provider:
+  name: anthropic
+  model: claude-3-haiku-20240307
+  temperature: 0.3
+  fallbacks:  # tried in order when the provider is unavailable
+    - provider: openai
+      model: gpt-4o-mini
+
+translation:
+  mode: sync  # or batch
+  batchSize: 15
+  maxRetries: 3
+  maxValidationRetries: 2  # times a translation that fails validation is sent back
+  context: "Mobile app UI translations"
+  styleGuide: docs/translation-style.md  # sent with every batch
+  examples:  # example translations by target language
+    de:
+      Your changes were saved.: Deine Änderungen wurden gespeichert.
+  preserveFormatting: true
+  preservePlaceholders: true
+  humanEdits: skip  # skip, update or overwrite translations edited or approved by a reviewer
+
+glossary:
+  files:
+    - glossary.csv  # or .tbx
+  doNotTranslate:
+    - Acme
+  terms:
+    de:
+      Sign in: Anmelden
+
+memory:
+  enabled: false
+  fuzzyThreshold: 75  # similarity from 0 to 100 of near matches
+  maxReferences: 3
+  importTmx:
+    - i18n/vendor.tmx
+  exportTmx: i18n/tmx  # writes a TMX file per language pair
+
+review:
+  enabled: false
+  threshold: 70  # translations scoring below it need review
+
+git:
+  enabled: true
+  commitMessage: "chore(i18n): update translations"
+
+files:
+  pattern: "locales/**/*.json"
+  format: json-nested
+  sourceLanguage: en
+  targetLanguages:
+    - de
+    - fr
+    - es
+    - ja
+  exclude:
+    - "**/node_modules/**"
+  layout: auto  # auto, suffix (messages.de.json), android (values-de/strings.xml) or apple (de.lproj/Localizable.strings)
+`
+      );
+
+      expect(loadConfigFile(configFile)).toMatchObject({
+        provider: { fallbacks: [{ provider: 'openai', model: 'gpt-4o-mini' }] },
+        translation: {
+          mode: 'sync',
+          maxValidationRetries: 2,
+          context: 'Mobile app UI translations',
+          styleGuide: 'docs/translation-style.md',
+          examples: {
+            de: { 'Your changes were saved.': 'Deine Änderungen wurden gespeichert.' },
+          },
+          humanEdits: 'skip',
+        },
+        glossary: { files: ['glossary.csv'], terms: { de: { 'Sign in': 'Anmelden' } } },
+        memory: { fuzzyThreshold: 75, exportTmx: 'i18n/tmx' },
+        review: { threshold: 70 },
+        git: { commitMessage: 'chore(i18n): update translations' },
+        files: { format: 'json-nested', targetLanguages: ['de', 'fr', 'es', 'ja'], layout: 'auto' },
+      });
+    });
+
+    it('should read the provider examples of the README', () => {
+      fs.writeFileSync(
+        configFile,
+        `provider:
+  name: openai-compatible
+  baseUrl: https://my-resource.openai.azure.com/openai/deployments/my-deployment
+  model: my-deployment
+  authScheme: api-key  # bearer (default with api-key input), api-key or none
+  apiVersion: 2024-10-21
+  headers:
+    X-Team: localization
+  features:
+    jsonMode: json_schema  # json_schema, json_object or none (default)
+    tools: false  # force a function call with the translations
+    usage: true  # read token usage from responses
+`
+      );
+
+      expect(loadConfigFile(configFile)?.provider).toMatchObject({
+        authScheme: 'api-key',
+        apiVersion: '2024-10-21',
+        headers: { 'X-Team': 'localization' },
+        features: { jsonMode: 'json_schema', tools: false, usage: true },
+      });
+
+      fs.writeFileSync(
+        configFile,
+        `provider:
+  name: anthropic
+  fallbacks:
+    - provider: anthropic
+      model: claude-3-5-haiku-latest
+    - provider: openai
+      model: gpt-4o-mini
+    - provider: ollama
+      model: llama3.2
+      baseUrl: http://localhost:11434
+  circuitBreakerThreshold: 3  # consecutive failed batches before moving on
+`
+      );
+
+      expect(loadConfigFile(configFile)?.provider).toMatchObject({
+        fallbacks: [
+          { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+          { provider: 'openai', model: 'gpt-4o-mini' },
+          { provider: 'ollama', model: 'llama3.2', baseUrl: 'http://localhost:11434' },
+        ],
+        circuitBreakerThreshold: 3,
+      });
+    });
+
+    it('should read the glossary and route examples of the README', () => {
+      fs.writeFileSync(
+        configFile,
+        `routes:
+  cjk:
+    languages:
+      - ja
+      - zh  # also covers zh-TW, zh-Hans, ...
+    model: claude-3-5-sonnet-20241022
+  legal:
+    files:
+      - "**/legal/**"
+    provider: openai
+    model: gpt-4o
+    temperature: 0
+
+glossary:
+  doNotTranslate:  # all languages
+    - Acme
+    - GitHub
+  terms:
+    de:
+      Sign in: Anmelden
+      file: Datei
+    fr:
+      Sign in: Se connecter
+  files:
+    - i18n/glossary.csv
+    - i18n/termbase.tbx
+`
+      );
+
+      expect(loadConfigFile(configFile)).toMatchObject({
+        routes: {
+          cjk: { languages: ['ja', 'zh'] },
+          legal: { files: ['**/legal/**'], provider: 'openai', temperature: 0 },
+        },
+        glossary: {
+          doNotTranslate: ['Acme', 'GitHub'],
+          terms: { de: { 'Sign in': 'Anmelden', file: 'Datei' } },
+          files: ['i18n/glossary.csv', 'i18n/termbase.tbx'],
+        },
+      });
+    });
+  });
+});
@@ -4,6 +4,7 @@ import {
   languageCodeSchema,
   providerConfigSchema,
   translationConfigSchema,
+  routeConfigSchema,
   isValidProvider,
   isValidFileFormat,
 } from '../../../src/config/schema';
@@ -14,6 +15,7 @@ describe('Config Schema', () => {
       expect(providerSchema.parse('anthropic')).toBe('anthropic');
       expect(providerSchema.parse('openai')).toBe('openai');
       expect(providerSchema.parse('ollama')).toBe('ollama');
+      expect(providerSchema.parse('openai-compatible')).toBe('openai-compatible');
     });
 
     it('should reject invalid providers', () => {
@@ -27,11 +29,12 @@ describe('Config Schema', () => {
       expect(fileFormatSchema.parse('xliff-2.0')).toBe('xliff-2.0');
       expect(fileFormatSchema.parse('json-flat')).toBe('json-flat');
       expect(fileFormatSchema.parse('json-nested')).toBe('json-nested');
+      expect(fileFormatSchema.parse('yaml')).toBe('yaml');
       expect(fileFormatSchema.parse('auto')).toBe('auto');
     });
 
     it('should reject invalid formats', () => {
-      expect(() => fileFormatSchema.parse('yaml')).toThrow();
+      expect(() => fileFormatSchema.parse('toml')).toThrow();
     });
   });
 
@@ -101,6 +104,38 @@ describe('Config Schema', () => {
 
       expect(() => providerConfigSchema.parse(config)).toThrow();
     });
+
+    it('should accept openai-compatible config with headers and features', () => {
+      const config = {
+        provider: 'openai-compatible',
+        baseUrl: 'https://example.openai.azure.com/openai/deployments/gpt-4o',
+        model: 'gpt-4o',
+        apiKey: 'test-key',
+        authScheme: 'api-key',
+        apiVersion: '2024-10-21',
+        headers: { 'X-Team': 'localization' },
+        features: { jsonMode: 'json_object', usage: false },
+      };
+
+      const result = providerConfigSchema.parse(config);
+
+      expect(result.authScheme).toBe('api-key');
+      expect(result.features).toEqual({ jsonMode: 'json_object', usage: false });
+    });
+
+    it('should reject openai-compatible without baseUrl or with api-key auth and no key', () => {
+      expect(() =>
+        providerConfigSchema.parse({ provider: 'openai-compatible', model: 'local' })
+      ).toThrow();
+      expect(() =>
+        providerConfigSchema.parse({
+          provider: 'openai-compatible',
+          baseUrl: 'http://localhost:8000/v1',
+          model: 'local',
+          authScheme: 'api-key',
+        })
+      ).toThrow();
+    });
   });
 
   describe('translationConfigSchema', () => {
@@ -109,6 +144,7 @@ describe('Config Schema', () => {
 
       const result = translationConfigSchema.parse(config);
 
+      expect(result.mode).toBe('sync');
       expect(result.batchSize).toBe(10);
       expect(result.maxRetries).toBe(3);
       expect(result.retryDelayMs).toBe(1000);
@@ -130,6 +166,17 @@ describe('Config Schema', () => {
       expect(result.context).toBe('Mobile app translations');
     });
 
+    it('should accept a style guide and examples', () => {
+      const result = translationConfigSchema.parse({
+        styleGuide: 'Address the user informally.',
+        examples: [{ source: 'Goodbye', target: 'Tschüss', language: 'de' }],
+      });
+
+      expect(result.styleGuide).toBe('Address the user informally.');
+      expect(result.examples).toEqual([{ source: 'Goodbye', target: 'Tschüss', language: 'de' }]);
+      expect(translationConfigSchema.parse({}).examples).toEqual([]);
+    });
+
     it('should reject invalid batch size', () => {
       const config = { batchSize: 201 };
 
@@ -137,11 +184,35 @@ describe('Config Schema', () => {
     });
   });
 
+  describe('routeConfigSchema', () => {
+    const provider = { provider: 'anthropic', apiKey: 'test-key' };
+
+    it('should accept a route with languages and files', () => {
+      const result = routeConfigSchema.parse({
+        name: 'cjk',
+        languages: ['ja', 'zh-TW'],
+        files: ['src/**/*.json'],
+        provider,
+      });
+
+      expect(result.languages).toEqual(['ja', 'zh-TW']);
+    });
+
+    it('should reject the reserved default route name', () => {
+      const result = routeConfigSchema.safeParse({ name: 'default', provider });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]?.message).toBe('The route name "default" is reserved');
+    });
+  });
+
   describe('isValidProvider', () => {
     it('should return true for valid providers', () => {
       expect(isValidProvider('anthropic')).toBe(true);
       expect(isValidProvider('openai')).toBe(true);
       expect(isValidProvider('ollama')).toBe(true);
+      expect(isValidProvider('openai-compatible')).toBe(true);
+      expect(isValidProvider('pseudo')).toBe(true);
     });
 
     it('should return false for invalid providers', () => {
@@ -158,7 +229,7 @@ describe('Config Schema', () => {
     });
 
     it('should return false for invalid formats', () => {
-      expect(isValidFileFormat('yaml')).toBe(false);
+      expect(isValidFileFormat('toml')).toBe(false);
       expect(isValidFileFormat('')).toBe(false);
     });
   });
@@ -1,4 +1,4 @@
-import { diffUnits, mergeDiffResults } from '../../../src/differ/differ';
+import { diffUnits, isHumanTranslation, mergeDiffResults } from '../../../src/differ/differ';
 import { hashContent } from '../../../src/differ/hasher';
 import type { TranslationUnit } from '../../../src/types/translation';
 
@@ -87,6 +87,29 @@ describe('Differ', () => {
     });
   });
 
+  describe('isHumanTranslation', () => {
+    it('should detect targets that differ from the written one', () => {
+      const unit = createUnit('1', 'Hello', 'Hallo!');
+
+      expect(isHumanTranslation(unit, hashContent('Hallo'))).toBe(true);
+      expect(isHumanTranslation(unit, hashContent('Hallo!'))).toBe(false);
+      expect(isHumanTranslation(unit)).toBe(false);
+    });
+
+    it('should detect approved and final translations', () => {
+      const unit = createUnit('1', 'Hello', 'Hallo');
+      const written = hashContent('Hallo');
+
+      expect(isHumanTranslation({ ...unit, metadata: { file: '', approved: true } }, written)).toBe(
+        true
+      );
+      expect(isHumanTranslation({ ...unit, metadata: { file: '', state: 'final' } }, written)).toBe(
+        true
+      );
+      expect(isHumanTranslation(createUnit('1', 'Hello'), written)).toBe(false);
+    });
+  });
+
   describe('mergeDiffResults', () => {
     it('should merge multiple diff results', () => {
       const result1 = diffUnits([createUnit('1', 'Hello')], new Map());
@@ -5,7 +5,10 @@ import {
   hashesMatch,
   createHashStore,
   addToHashStore,
+  getPreviousSource,
+  getTargetHash,
   getUnitHash,
+  getHashStoreEntry,
   serializeHashStore,
   parseHashStore,
 } from '../../../src/differ/hasher';
@@ -110,7 +113,7 @@ describe('Hasher', () => {
     it('should create empty store', () => {
       const store = createHashStore();
 
-      expect(store.version).toBe(1);
+      expect(store.version).toBe(2);
       expect(Object.keys(store.files).length).toBe(0);
     });
 
@@ -121,18 +124,36 @@ describe('Hasher', () => {
         { id: '2', source: 'World' },
       ];
 
-      addToHashStore(store, 'test.json', units);
+      addToHashStore(store, 'test.json', 'de', units);
 
       expect(store.files['test.json']).toBeDefined();
-      expect(store.files['test.json']?.units['1']).toBeDefined();
-      expect(store.files['test.json']?.units['2']).toBeDefined();
+      expect(store.files['test.json']?.languages['de']?.units['1']).toBeDefined();
+      expect(store.files['test.json']?.languages['de']?.units['2']).toBeDefined();
+    });
+
+    it('should record hashes of written targets', () => {
+      const store = createHashStore();
+      addToHashStore(store, 'test.json', 'de', [{ id: '1', source: 'Hello', target: 'Hallo' }]);
+      addToHashStore(store, 'test.json', 'de', [{ id: '2', source: 'World' }]);
+
+      expect(getTargetHash(store, 'test.json', 'de', '1')).toBe(hashContent('Hallo'));
+      expect(getTargetHash(store, 'test.json', 'de', '2')).toBeUndefined();
+    });
+
+    it('should record the source texts that were translated', () => {
+      const store = createHashStore();
+      addToHashStore(store, 'test.json', 'de', [{ id: '1', source: 'Hello' }]);
+      addToHashStore(store, 'test.json', 'de', [{ id: '1', source: 'Hello there' }]);
+
+      expect(getPreviousSource(store, 'test.json', 'de', '1')).toBe('Hello there');
+      expect(getPreviousSource(store, 'test.json', 'fr', '1')).toBeUndefined();
     });
 
     it('should get unit hash from store', () => {
       const store = createHashStore();
-      addToHashStore(store, 'test.json', [{ id: '1', source: 'Hello' }]);
+      addToHashStore(store, 'test.json', 'de', [{ id: '1', source: 'Hello' }]);
 
-      const hash = getUnitHash(store, 'test.json', '1');
+      const hash = getUnitHash(store, 'test.json', 'de', '1');
 
       expect(hash).toBe(hashContent('Hello'));
     });
@@ -140,20 +161,56 @@ describe('Hasher', () => {
     it('should return undefined for missing unit', () => {
       const store = createHashStore();
 
-      const hash = getUnitHash(store, 'test.json', 'missing');
+      const hash = getUnitHash(store, 'test.json', 'de', 'missing');
 
       expect(hash).toBeUndefined();
     });
 
     it('should serialize and parse store', () => {
       const store = createHashStore();
-      addToHashStore(store, 'test.json', [{ id: '1', source: 'Hello' }]);
+      addToHashStore(store, 'test.json', 'de', [{ id: '1', source: 'Hello' }]);
 
       const serialized = serializeHashStore(store);
       const parsed = parseHashStore(serialized);
 
       expect(parsed.version).toBe(store.version);
-      expect(parsed.files['test.json']?.units['1']).toBe(store.files['test.json']?.units['1']);
+      expect(getUnitHash(parsed, 'test.json', 'de', '1')).toBe(
+        getUnitHash(store, 'test.json', 'de', '1')
+      );
+    });
+
+    it('should keep hashes for different languages separate', () => {
+      const store = createHashStore();
+      addToHashStore(store, 'test.json', 'de', [{ id: '1', source: 'Hello' }]);
+
+      expect(getHashStoreEntry(store, 'test.json', 'de')).toBeDefined();
+      expect(getHashStoreEntry(store, 'test.json', 'fr')).toBeUndefined();
+    });
+
+    it('should migrate version 1 stores to the resolved languages', () => {
+      const v1 = JSON.stringify({
+        version: 1,
+        generated: '2024-01-01T00:00:00.000Z',
+        files: {
+          'a.json': { fileHash: 'abc', units: { '1': hashContent('Hello') } },
+          'b.json': { fileHash: 'def', units: { '2': hashContent('World') } },
+        },
+      });
+
+      const parsed = parseHashStore(v1, {
+        resolveLanguages: filePath => (filePath === 'a.json' ? ['de', 'fr'] : []),
+      });
+
+      expect(parsed.version).toBe(2);
+      expect(getUnitHash(parsed, 'a.json', 'de', '1')).toBe(hashContent('Hello'));
+      expect(getUnitHash(parsed, 'a.json', 'fr', '1')).toBe(hashContent('Hello'));
+      expect(parsed.files['b.json']).toBeUndefined();
+    });
+
+    it('should reject unknown store versions', () => {
+      expect(() => parseHashStore(JSON.stringify({ version: 99, files: {} }))).toThrow(
+        'Unsupported hash store version'
+      );
     });
   });
 });
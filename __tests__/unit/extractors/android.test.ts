@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  AndroidExtractor,
+  decodeAndroidString,
+  encodeAndroidString,
+  splitAndroidPluralMessage,
+} from '../../../src/extractors/android';
+
+describe('AndroidExtractor', () => {
+  let extractor: AndroidExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/android/values/strings.xml');
+
+  beforeEach(() => {
+    extractor = new AndroidExtractor();
+  });
+
+  describe('detect', () => {
+    it('should detect Android resource files', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      expect(extractor.detect(content)?.format).toBe('android-xml');
+    });
+
+    it('should not detect XLIFF files', () => {
+      const content = `<?xml version="1.0"?>
+<xliff version="1.2"><file><body><trans-unit id="a"><source>A</source></trans-unit></body></file></xliff>`;
+
+      expect(extractor.detect(content)).toBeNull();
+    });
+  });
+
+  describe('extract', () => {
+    it('should extract strings, plurals and array items', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract('res/values/strings.xml', content, 'de');
+
+      expect(result.units.map(u => u.id)).toEqual([
+        'inbox_title',
+        'welcome',
+        'dont_go',
+        'handle',
+        'messages_count',
+        'planets[0]',
+        'planets[1]',
+      ]);
+    });
+
+    it('should skip translatable="false" resources', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract('res/values/strings.xml', content, 'de');
+
+      expect(result.units.find(u => u.id === 'app_name')).toBeUndefined();
+    });
+
+    it('should use preceding comments as notes', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract('res/values/strings.xml', content, 'de');
+      const unit = result.units.find(u => u.id === 'inbox_title');
+
+      expect(unit?.metadata.notes).toBe('Title of the inbox screen');
+      expect(unit?.metadata.line).toBe(6);
+    });
+
+    it('should decode escapes and keep inline markup', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract('res/values/strings.xml', content, 'de');
+
+      expect(result.units.find(u => u.id === 'dont_go')?.source).toBe("Don't go & stay");
+      expect(result.units.find(u => u.id === 'handle')?.source).toBe('@demo');
+      expect(result.units.find(u => u.id === 'welcome')?.source).toBe(
+        'Welcome, <xliff:g id="name">%1$s</xliff:g>!'
+      );
+    });
+
+    it('should represent plurals as ICU messages', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract('res/values/strings.xml', content, 'de');
+      const unit = result.units.find(u => u.id === 'messages_count');
+
+      expect(unit?.source).toBe('{count, plural, one {%d new message} other {%d new messages}}');
+      expect(unit?.metadata.flags).toEqual(['plurals']);
+    });
+
+    it('should use the array name as context for array items', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract('res/values/strings.xml', content, 'de');
+
+      expect(result.units.find(u => u.id === 'planets[1]')?.context).toBe('planets');
+    });
+  });
+
+  describe('escaping', () => {
+    it('should escape Android special characters', () => {
+      expect(encodeAndroidString('L\'app "Demo"\nneu')).toBe('L\\\'app \\"Demo\\"\\nneu');
+      expect(encodeAndroidString('@home & a < b')).toBe('\\@home &amp; a &lt; b');
+      expect(encodeAndroidString('?help')).toBe('\\?help');
+    });
+
+    it('should keep markup attributes unescaped', () => {
+      expect(encodeAndroidString('Hallo, <xliff:g id="name">%1$s</xliff:g>!')).toBe(
+        'Hallo, <xliff:g id="name">%1$s</xliff:g>!'
+      );
+    });
+
+    it('should round-trip values', () => {
+      const values = ["It's \\ 100%", 'Tab\there', '%1$s & %2$d', 'Line\nbreak'];
+
+      for (const value of values) {
+        expect(decodeAndroidString(encodeAndroidString(value))).toBe(value);
+      }
+    });
+
+    it('should decode quoted strings and unicode escapes', () => {
+      expect(decodeAndroidString('"  spaced  "')).toBe('  spaced  ');
+      expect(decodeAndroidString('caf\\u00e9')).toBe('café');
+    });
+  });
+
+  describe('splitAndroidPluralMessage', () => {
+    it('should produce items for the target language categories', () => {
+      const items = splitAndroidPluralMessage(
+        '{count, plural, one {%d plik} few {%d pliki} many {%d plików} other {%d pliku}}',
+        'pl'
+      );
+
+      expect(items).toEqual([
+        { quantity: 'one', text: '%d plik' },
+        { quantity: 'few', text: '%d pliki' },
+        { quantity: 'many', text: '%d plików' },
+        { quantity: 'other', text: '%d pliku' },
+      ]);
+    });
+
+    it('should fill missing categories from other', () => {
+      const items = splitAndroidPluralMessage(
+        '{count, plural, one {# Datei} other {# Dateien}}',
+        'ja'
+      );
+
+      expect(items).toEqual([{ quantity: 'other', text: '# Dateien' }]);
+    });
+  });
+});
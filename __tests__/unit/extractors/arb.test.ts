@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ArbExtractor, detectArbLanguage } from '../../../src/extractors/arb';
+import { getExtractor } from '../../../src/extractors/factory';
+
+describe('ArbExtractor', () => {
+  let extractor: ArbExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/arb/app_en.arb');
+
+  beforeEach(() => {
+    extractor = new ArbExtractor();
+  });
+
+  describe('detect', () => {
+    it('should be detected before plain JSON', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      expect(getExtractor(fixturePath, content).formatInfo.format).toBe('arb');
+    });
+
+    it('should not detect JSON without ARB attributes', () => {
+      expect(extractor.detect('{ "greeting": "Hello" }')).toBeNull();
+    });
+  });
+
+  describe('extract', () => {
+    it('should skip @-metadata and use descriptions as notes', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract(fixturePath, content, 'de');
+
+      expect(result.sourceLanguage).toBe('en');
+      expect(result.units.map(u => [u.id, u.metadata.notes])).toEqual([
+        ['appTitle', 'The application title'],
+        ['greeting', 'Greeting on the home screen'],
+        ['unreadCount', undefined],
+      ]);
+    });
+
+    it('should keep the declared placeholders', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract(fixturePath, content, 'de');
+
+      expect(result.units[0]?.metadata.declaredPlaceholders).toBeUndefined();
+      expect(result.units[1]?.metadata.declaredPlaceholders).toEqual(['name']);
+      expect(result.units[2]?.metadata.declaredPlaceholders).toEqual(['count', 'sender']);
+    });
+
+    it('should fall back to the locale in the file name', () => {
+      const result = extractor.extract('lib/l10n/app_pt_BR.arb', '{ "title": "Início" }', 'en');
+
+      expect(result.sourceLanguage).toBe('pt_BR');
+    });
+  });
+
+  describe('detectArbLanguage', () => {
+    it('should read the locale suffix of the file name', () => {
+      expect(detectArbLanguage('lib/l10n/app_en.arb')).toBe('en');
+      expect(detectArbLanguage('lib/l10n/my_app_zh_Hant_TW.arb')).toBe('zh_Hant_TW');
+      expect(detectArbLanguage('lib/l10n/intl_messages.arb')).toBeNull();
+    });
+  });
+});
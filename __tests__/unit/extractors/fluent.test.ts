@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  FluentExtractor,
+  detectFluentLanguage,
+  parseFluentResource,
+} from '../../../src/extractors/fluent';
+import { getExtractor } from '../../../src/extractors/factory';
+
+describe('FluentExtractor', () => {
+  let extractor: FluentExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/fluent/en-US/main.ftl');
+
+  beforeEach(() => {
+    extractor = new FluentExtractor();
+  });
+
+  describe('detect', () => {
+    it('should detect Fluent resources', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      expect(extractor.detect(content)?.format).toBe('fluent');
+    });
+
+    it('should not detect other formats', () => {
+      expect(extractor.detect('"greeting" = "Hello";')).toBeNull();
+      expect(extractor.detect('login.title=Sign in')).toBeNull();
+    });
+
+    it('should prefer the file extension over content detection', () => {
+      expect(getExtractor('messages.properties', 'title = Title').formatInfo.format).toBe(
+        'properties'
+      );
+      expect(getExtractor('main.ftl', 'title = Title').formatInfo.format).toBe('fluent');
+    });
+  });
+
+  describe('extract', () => {
+    it('should extract messages and attributes with comments as notes', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract(fixturePath, content, 'de');
+
+      expect(result.sourceLanguage).toBe('en-US');
+      expect(result.units.map(u => [u.id, u.source, u.metadata.notes])).toEqual([
+        ['welcome', 'Welcome to {{-brand-name}}, {user}!', 'Shown after signing in'],
+        [
+          'emails',
+          '{count, plural, =0 {Your inbox is empty.} one {You have one new email.} other {You have {count} new emails.}}',
+          'Inbox counter',
+        ],
+        ['login-input', 'Sign in', undefined],
+        ['login-input.placeholder', 'Email address', undefined],
+        ['login-input.aria-label', 'Login input', undefined],
+        ['about', 'Read the {{help-link}} or write to\nsupport@example.com.', undefined],
+        [
+          'finished',
+          '{place, selectordinal, one {You finished {place}st!} two {You finished {place}nd!} few {You finished {place}rd!} other {You finished {place}th!}}',
+          undefined,
+        ],
+        [
+          'shared-photos',
+          '{gender, select, male {He shared a photo.} female {She shared a photo.} other {They shared a photo.}}',
+          undefined,
+        ],
+      ]);
+    });
+
+    it('should keep selects on other expressions as markers', () => {
+      const content = [
+        'download =',
+        '    { PLATFORM() ->',
+        '        [windows] Download for Windows',
+        '       *[other] Download',
+        '    }',
+        '',
+      ].join('\n');
+
+      const result = extractor.extract('main.ftl', content, 'de');
+
+      expect(result.units[0]?.source).toBe(
+        '{{PLATFORM() ->\n[windows] Download for Windows\n*[other] Download\n}}'
+      );
+    });
+
+    it('should fail on unterminated placeables', () => {
+      expect(() => extractor.extract('main.ftl', 'broken = Hello { $name', 'de')).toThrow(
+        'Failed to parse Fluent file'
+      );
+    });
+  });
+
+  describe('parseFluentResource', () => {
+    it('should record terms and the spans of values and attributes', () => {
+      const content = '-brand = Acme\n\nlogin =\n    .title = Sign in\n';
+
+      const [term, message] = parseFluentResource(content);
+
+      expect(term).toMatchObject({ id: '-brand', term: true });
+      expect(message?.value.raw).toBe('');
+      expect(message?.attributes.map(a => [a.name, a.pattern.raw])).toEqual([
+        ['title', ' Sign in'],
+      ]);
+    });
+
+    it('should detect the locale from the directory name', () => {
+      expect(detectFluentLanguage('locales/pt-BR/main.ftl')).toBe('pt-BR');
+      expect(detectFluentLanguage('l10n/main.ftl')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  I18nextExtractor,
+  detectI18nextLanguage,
+  protectNesting,
+  restoreNesting,
+} from '../../../src/extractors/i18next';
+import { getExtractor } from '../../../src/extractors/factory';
+
+describe('I18nextExtractor', () => {
+  let extractor: I18nextExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/i18next/en/translation.json');
+
+  beforeEach(() => {
+    extractor = new I18nextExtractor();
+  });
+
+  describe('detect', () => {
+    it('should detect resources with plural suffix keys', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      expect(extractor.detect(content)?.format).toBe('i18next');
+      expect(getExtractor(fixturePath, content).formatInfo.format).toBe('i18next');
+    });
+
+    it('should leave other JSON to the JSON extractor', () => {
+      const content = '{"item_one": "One", "greeting": "Hello"}';
+
+      expect(extractor.detect(content)).toBeNull();
+      expect(getExtractor('en.json', content).formatInfo.format).toBe('json-flat');
+    });
+  });
+
+  describe('extract', () => {
+    it('should group plural keys and mark context variants', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract(fixturePath, content, 'pl');
+
+      expect(result.sourceLanguage).toBe('en');
+      expect(result.units.map(u => [u.id, u.source, u.context])).toEqual([
+        ['appName', 'Acme', undefined],
+        ['inbox.title', 'Inbox', undefined],
+        [
+          'inbox.messages',
+          '{count, plural, =0 {No messages} one {You have {{count}} message} other {You have {{count}} messages}}',
+          undefined,
+        ],
+        ['friend', 'A friend', undefined],
+        ['friend_male', 'A boyfriend', 'Variant of "friend" for the context "male"'],
+        ['friend_female', 'A girlfriend', 'Variant of "friend" for the context "female"'],
+        [
+          'place_ordinal',
+          '{count, selectordinal, one {{{count}}st place} two {{{count}}nd place} few {{{count}}rd place} other {{{count}}th place}}',
+          undefined,
+        ],
+        ['signature', 'Sent with {{$t(appName)}}', undefined],
+      ]);
+    });
+
+    it('should keep plural keys separate when the base key exists', () => {
+      const content = '{"item": "Item", "item_one": "One item", "item_other": "Items"}';
+
+      const result = extractor.extract('en.json', content, 'de');
+
+      expect(result.units.map(u => u.id)).toEqual(['item', 'item_one', 'item_other']);
+    });
+  });
+
+  describe('nesting', () => {
+    it('should protect and restore $t() calls with options', () => {
+      const text = 'See $t(help.link, {"count": {{count}}}) or $t(faq)';
+      const protectedText = 'See {{$t(help.link, {"count": {{count}}})}} or {{$t(faq)}}';
+
+      expect(protectNesting(text)).toBe(protectedText);
+      expect(restoreNesting(protectedText)).toBe(text);
+    });
+
+    it('should detect the language from the directory or file name', () => {
+      expect(detectI18nextLanguage('public/locales/pt-BR/common.json')).toBe('pt-BR');
+      expect(detectI18nextLanguage('locales/de.json')).toBe('de');
+      expect(detectI18nextLanguage('i18n/common.json')).toBeNull();
+    });
+  });
+});
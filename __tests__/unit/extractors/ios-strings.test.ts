@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  IosStringsExtractor,
+  detectLprojLanguage,
+  escapeStringsValue,
+  parseStringsFile,
+  unescapeStringsValue,
+} from '../../../src/extractors/ios-strings';
+
+describe('IosStringsExtractor', () => {
+  let extractor: IosStringsExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/ios/en.lproj/Localizable.strings');
+
+  beforeEach(() => {
+    extractor = new IosStringsExtractor();
+  });
+
+  describe('detect', () => {
+    it('should detect .strings files', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      expect(extractor.detect(content)?.format).toBe('ios-strings');
+    });
+
+    it('should not detect JSON files', () => {
+      expect(extractor.detect('{ "greeting": "Hello" }')).toBeNull();
+    });
+  });
+
+  describe('extract', () => {
+    it('should extract entries with comments as notes', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract(fixturePath, content, 'de');
+
+      expect(result.sourceLanguage).toBe('en');
+      expect(result.units.map(u => [u.id, u.source, u.metadata.notes])).toEqual([
+        ['inbox_title', 'Inbox', 'Title of the inbox screen'],
+        ['greeting', 'Hello, %@!', undefined],
+        ['download_failed', 'Download failed:\n"%@"', 'Shown when a download fails'],
+        ['Cancel', 'Cancel', undefined],
+      ]);
+    });
+
+    it('should accept unquoted keys and a byte order mark', () => {
+      const entries = parseStringsFile('\ufeffcancel_button = "Cancel";');
+
+      expect(entries.map(e => [e.key, e.value])).toEqual([['cancel_button', 'Cancel']]);
+    });
+
+    it('should report the line of a syntax error', () => {
+      expect(() => parseStringsFile('"a" = "A";\n"b" "B";')).toThrow(/line 2/);
+    });
+  });
+
+  describe('escaping', () => {
+    it('should round-trip escapes', () => {
+      const value = 'Say "hi"\n\tand \\ leave';
+
+      expect(escapeStringsValue(value)).toBe('Say \\"hi\\"\\n\\tand \\\\ leave');
+      expect(unescapeStringsValue(escapeStringsValue(value))).toBe(value);
+    });
+
+    it('should decode unicode escapes', () => {
+      expect(unescapeStringsValue('caf\\U00e9')).toBe('café');
+    });
+  });
+
+  describe('detectLprojLanguage', () => {
+    it('should read the language from the .lproj directory', () => {
+      expect(detectLprojLanguage('App/pt-BR.lproj/Localizable.strings')).toBe('pt-BR');
+      expect(detectLprojLanguage('App/Base.lproj/Main.strings')).toBeNull();
+      expect(detectLprojLanguage('App/Localizable.strings')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  PoExtractor,
+  buildPoUnitId,
+  parsePoBlocks,
+  splitPoPluralMessage,
+  getPoPluralCategories,
+} from '../../../src/extractors/po';
+
+describe('PoExtractor', () => {
+  let extractor: PoExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/po/messages.pot');
+
+  beforeEach(() => {
+    extractor = new PoExtractor();
+  });
+
+  describe('detect', () => {
+    it('should detect PO content', () => {
+      const result = extractor.detect('msgid "Hello"\nmsgstr "Hallo"\n');
+
+      expect(result?.format).toBe('po');
+    });
+
+    it('should return null for non-PO content', () => {
+      expect(extractor.detect('{"key": "value"}')).toBeNull();
+    });
+  });
+
+  describe('extract', () => {
+    it('should extract units from a POT template', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract('messages.pot', content, 'de');
+
+      expect(result.sourceLanguage).toBe('en');
+      expect(result.units).toHaveLength(5);
+      expect(result.units.every(u => u.target === undefined)).toBe(true);
+    });
+
+    it('should map extracted comments, references and flags to metadata', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract('messages.pot', content, 'de');
+      const inbox = result.units.find(u => u.id === 'Inbox');
+
+      expect(inbox?.metadata.notes).toBe('Title of the inbox page');
+      expect(inbox?.metadata.line).toBe(12);
+      expect(inbox?.metadata.references).toEqual(['src/inbox.py:12']);
+    });
+
+    it('should use msgctxt as context and part of the ID', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract('messages.pot', content, 'de');
+      const menu = result.units.find(u => u.id === buildPoUnitId('Open', 'menu'));
+      const status = result.units.find(u => u.id === buildPoUnitId('Open', 'status'));
+
+      expect(menu?.context).toBe('menu');
+      expect(status?.context).toBe('status');
+      expect(menu?.source).toBe('Open');
+    });
+
+    it('should represent plural entries as ICU plurals', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract('messages.pot', content, 'de');
+      const plural = result.units.find(u => u.id === '%(count)d new message');
+
+      expect(plural?.source).toBe(
+        '{n, plural, one {%(count)d new message} other {%(count)d new messages}}'
+      );
+      expect(plural?.metadata.flags).toEqual(['python-format']);
+    });
+
+    it('should join multi-line strings', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract('messages.pot', content, 'de');
+
+      expect(result.units[4]?.source).toBe('First line\nSecond line with "quotes"');
+    });
+
+    it('should map plural msgstr values using the Plural-Forms header', () => {
+      const content = `msgid ""
+msgstr ""
+"Language: ru\\n"
+"Plural-Forms: nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);\\n"
+
+msgid "%d file"
+msgid_plural "%d files"
+msgstr[0] "%d файл"
+msgstr[1] "%d файла"
+msgstr[2] "%d файлов"
+`;
+
+      const result = extractor.extract('messages.ru.po', content, 'ru');
+
+      expect(result.units[0]?.target).toBe(
+        '{n, plural, one {%d файл} few {%d файла} many {%d файлов} other {%d файлов}}'
+      );
+      expect(result.units[0]?.metadata.state).toBe('translated');
+    });
+
+    it('should mark fuzzy entries', () => {
+      const content = `#, fuzzy, c-format
+msgid "Save %s"
+msgstr "Speichern %s"
+`;
+
+      const result = extractor.extract('messages.de.po', content, 'de');
+
+      expect(result.units[0]?.metadata.state).toBe('fuzzy');
+      expect(result.units[0]?.metadata.flags).toEqual(['fuzzy', 'c-format']);
+    });
+  });
+
+  describe('parsePoBlocks', () => {
+    it('should keep obsolete entries without parsing them', () => {
+      const blocks = parsePoBlocks('msgid "a"\nmsgstr "b"\n\n#~ msgid "old"\n#~ msgstr "alt"\n');
+
+      expect(blocks).toHaveLength(2);
+      expect(blocks[1]?.entry).toBeUndefined();
+      expect(blocks[1]?.raw).toContain('#~ msgid "old"');
+    });
+  });
+
+  describe('plural helpers', () => {
+    it('should use CLDR categories for msgstr indices', () => {
+      expect(getPoPluralCategories('pl')).toEqual(['one', 'few', 'many']);
+      expect(getPoPluralCategories('de', 3)).toEqual(['one', 'other', 'other']);
+    });
+
+    it('should split an ICU plural into msgstr values', () => {
+      const values = splitPoPluralMessage(
+        '{n, plural, one {%d plik} few {%d pliki} many {%d plików} other {%d pliku}}',
+        'pl'
+      );
+
+      expect(values).toEqual(['%d plik', '%d pliki', '%d plików']);
+    });
+
+    it('should repeat plain text for every form', () => {
+      expect(splitPoPluralMessage('%d Dateien', 'de')).toEqual(['%d Dateien', '%d Dateien']);
+    });
+  });
+});
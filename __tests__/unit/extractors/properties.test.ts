@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  PropertiesExtractor,
+  detectPropertiesLanguage,
+  escapePropertiesKey,
+  escapePropertiesValue,
+  parsePropertiesFile,
+  unescapePropertiesValue,
+} from '../../../src/extractors/properties';
+
+describe('PropertiesExtractor', () => {
+  let extractor: PropertiesExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/properties/messages.properties');
+
+  beforeEach(() => {
+    extractor = new PropertiesExtractor();
+  });
+
+  describe('detect', () => {
+    it('should detect .properties files', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      expect(extractor.detect(content)?.format).toBe('properties');
+    });
+
+    it('should not detect plain text', () => {
+      expect(extractor.detect('Just some notes\nabout nothing')).toBeNull();
+    });
+  });
+
+  describe('extract', () => {
+    it('should extract entries with comments as notes', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract(fixturePath, content, 'de');
+
+      expect(result.sourceLanguage).toBe('en');
+      expect(result.units.map(u => [u.id, u.source, u.metadata.notes])).toEqual([
+        ['login.welcome', 'Welcome back, {0}!', 'Shown on the login page'],
+        ['login.hint', "Don''t share your password with anyone.", undefined],
+        ['menu.cafe', 'Café menu', undefined],
+        ['logout', 'Log out', 'Legacy comment style'],
+      ]);
+    });
+
+    it('should detect the source language from the file name', () => {
+      expect(detectPropertiesLanguage('i18n/messages_pt_BR.properties')).toBe('pt_BR');
+      expect(detectPropertiesLanguage('i18n/messages.properties')).toBeNull();
+    });
+  });
+
+  describe('parsePropertiesFile', () => {
+    it('should accept whitespace separators, escaped keys and CRLF line endings', () => {
+      const entries = parsePropertiesFile('first\\ key  value\r\nsecond\\:key=a\\\r\n  b\r\n');
+
+      expect(entries.map(e => [e.key, e.value, e.line])).toEqual([
+        ['first key', 'value', 1],
+        ['second:key', 'ab', 2],
+      ]);
+    });
+
+    it('should not treat an escaped backslash as a continuation', () => {
+      const entries = parsePropertiesFile('path=C:\\\\\nnext=1');
+
+      expect(entries.map(e => [e.key, e.value])).toEqual([
+        ['path', 'C:\\'],
+        ['next', '1'],
+      ]);
+    });
+
+    it('should record the raw value span of continued values', () => {
+      const content = 'key = \\\n    value\nother=1';
+      const [entry] = parsePropertiesFile(content);
+
+      expect(entry?.value).toBe('value');
+      expect(content.slice(entry?.valueStart, entry?.end)).toBe('\\\n    value');
+    });
+  });
+
+  describe('escaping', () => {
+    it('should round-trip values', () => {
+      const value = ' Tab\there\nand \\ Ünïcode';
+
+      expect(unescapePropertiesValue(escapePropertiesValue(value, true))).toBe(value);
+      expect(escapePropertiesValue(value, true)).toBe(
+        '\\ Tab\\there\\nand \\\\ \\u00DCn\\u00EFcode'
+      );
+      expect(escapePropertiesValue('Ünïcode', false)).toBe('Ünïcode');
+    });
+
+    it('should escape separators in keys', () => {
+      expect(escapePropertiesKey('a key=b:c', true)).toBe('a\\ key\\=b\\:c');
+    });
+  });
+});
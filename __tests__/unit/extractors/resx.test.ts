@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ResxExtractor,
+  detectResxLanguage,
+  protectFormatItems,
+  restoreFormatItems,
+} from '../../../src/extractors/resx';
+
+describe('ResxExtractor', () => {
+  let extractor: ResxExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/resx/Resources.resx');
+
+  beforeEach(() => {
+    extractor = new ResxExtractor();
+  });
+
+  describe('detect', () => {
+    it('should detect .resx files', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      expect(extractor.detect(content)?.format).toBe('resx');
+    });
+
+    it('should not detect Android resources', () => {
+      expect(extractor.detect('<resources><string name="a">A</string></resources>')).toBeNull();
+    });
+  });
+
+  describe('extract', () => {
+    it('should extract string resources with comments as notes', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract(fixturePath, content, 'de');
+
+      expect(result.sourceLanguage).toBe('en');
+      expect(result.units.map(u => [u.id, u.source, u.metadata.notes])).toEqual([
+        ['WindowTitle', 'Order & Shipping', 'Title of the main window'],
+        ['OrderTotal', 'Total: {{0:C2}} for {1} items', undefined],
+      ]);
+    });
+
+    it('should detect the culture from the file name', () => {
+      expect(detectResxLanguage('Properties/Resources.de-DE.resx')).toBe('de-DE');
+      expect(detectResxLanguage('Properties/Resources.resx')).toBeNull();
+    });
+  });
+
+  describe('format items', () => {
+    it('should protect items with an alignment or format string', () => {
+      const text = 'Due {0:d} at {0:t}, {1,-10}|{{2:N0}} {3}';
+
+      expect(protectFormatItems(text)).toBe('Due {{0:d}} at {{0:t}}, {{1,-10}}|{{2:N0}} {3}');
+    });
+
+    it('should restore protected items', () => {
+      expect(restoreFormatItems('Gesamt: {{0:C2}} für {1} Artikel')).toBe(
+        'Gesamt: {0:C2} für {1} Artikel'
+      );
+      expect(restoreFormatItems('Keep {{PH}} markers')).toBe('Keep {{PH}} markers');
+    });
+  });
+});
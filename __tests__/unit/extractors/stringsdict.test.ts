@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StringsdictExtractor } from '../../../src/extractors/stringsdict';
+
+describe('StringsdictExtractor', () => {
+  let extractor: StringsdictExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/ios/en.lproj/Localizable.stringsdict');
+
+  beforeEach(() => {
+    extractor = new StringsdictExtractor();
+  });
+
+  it('should detect .stringsdict files', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+
+    expect(extractor.detect(content)?.format).toBe('ios-stringsdict');
+    expect(extractor.detect('<plist version="1.0"><dict/></plist>')).toBeNull();
+  });
+
+  it('should extract entries as ICU plurals named after their variables', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+
+    const result = extractor.extract(fixturePath, content, 'ru');
+
+    expect(result.sourceLanguage).toBe('en');
+    expect(result.units).toHaveLength(1);
+    expect(result.units[0]?.id).toBe('files_selected');
+    expect(result.units[0]?.source).toBe(
+      '{files, plural, one {%d file} other {%d files}} selected'
+    );
+  });
+
+  it('should combine several variables in one format key', () => {
+    const content = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+  <key>summary</key>
+  <dict>
+    <key>NSStringLocalizedFormatKey</key>
+    <string>%#@files@ in %#@folders@</string>
+    <key>files</key>
+    <dict>
+      <key>NSStringFormatSpecTypeKey</key>
+      <string>NSStringPluralRuleType</string>
+      <key>one</key>
+      <string>%d file</string>
+      <key>other</key>
+      <string>%d files</string>
+    </dict>
+    <key>folders</key>
+    <dict>
+      <key>NSStringFormatSpecTypeKey</key>
+      <string>NSStringPluralRuleType</string>
+      <key>one</key>
+      <string>%d folder</string>
+      <key>other</key>
+      <string>%d folders</string>
+    </dict>
+  </dict>
+</dict>
+</plist>`;
+
+    const result = extractor.extract('Localizable.stringsdict', content, 'de');
+
+    expect(result.units[0]?.source).toBe(
+      '{files, plural, one {%d file} other {%d files}} in {folders, plural, one {%d folder} other {%d folders}}'
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { XcstringsExtractor } from '../../../src/extractors/xcstrings';
+import { getExtractor } from '../../../src/extractors/factory';
+
+describe('XcstringsExtractor', () => {
+  let extractor: XcstringsExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/ios/Localizable.xcstrings');
+
+  beforeEach(() => {
+    extractor = new XcstringsExtractor();
+  });
+
+  it('should be detected before plain JSON', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+
+    expect(getExtractor(fixturePath, content).formatInfo).toEqual({
+      format: 'xcstrings',
+      version: '1.0',
+    });
+    expect(extractor.detect('{ "greeting": "Hello" }')).toBeNull();
+  });
+
+  it('should skip entries that should not be translated or are stale', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+
+    const result = extractor.extract(fixturePath, content, 'de');
+
+    expect(result.sourceLanguage).toBe('en');
+    expect(result.units.map(u => u.id)).toEqual(['Cancel', 'inbox_title', 'messages_count']);
+  });
+
+  it('should use the key as source when there is no source localization', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+
+    const result = extractor.extract(fixturePath, content, 'de');
+
+    expect(result.units[0]?.source).toBe('Cancel');
+    expect(result.units[1]?.metadata.notes).toBe('Title of the inbox screen');
+    expect(result.units[2]?.source).toBe(
+      '{count, plural, one {%lld new message} other {%lld new messages}}'
+    );
+  });
+
+  it('should extract the target language value and state', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+
+    const result = extractor.extract(fixturePath, content, 'fr');
+    const inbox = result.units.find(u => u.id === 'inbox_title');
+
+    expect(inbox?.target).toBe('Boîte de réception');
+    expect(inbox?.metadata.state).toBe('needs_review');
+  });
+});
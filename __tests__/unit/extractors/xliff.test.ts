@@ -79,6 +79,24 @@ describe('XliffExtractor', () => {
       expect(pluralUnit).toBeDefined();
       expect(pluralUnit?.source).toContain('{count, plural,');
     });
+
+    it('should extract the state of targets and approval', () => {
+      const content = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file source-language="en" target-language="de" datatype="plaintext" original="messages">
+    <body>
+      <trans-unit id="save" approved="yes">
+        <source>Save</source>
+        <target state="final">Speichern</target>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>`;
+
+      const result = extractor.extract('messages.de.xliff', content, 'de');
+
+      expect(result.units[0]?.metadata).toMatchObject({ state: 'final', approved: true });
+    });
   });
 
   describe('extract XLIFF 2.0', () => {
@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { YamlExtractor, parseYamlUnitId } from '../../../src/extractors/yaml';
+import { getExtractor } from '../../../src/extractors/factory';
+
+describe('YamlExtractor', () => {
+  let extractor: YamlExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/yaml/en.yml');
+
+  beforeEach(() => {
+    extractor = new YamlExtractor();
+  });
+
+  describe('detect', () => {
+    it('should detect locale files with a root locale key', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      expect(extractor.detect(content)?.format).toBe('yaml');
+    });
+
+    it('should not detect YAML without a single root locale key', () => {
+      expect(extractor.detect('name: ci\non: push\n')).toBeNull();
+      expect(extractor.detect('en: Hello\n')).toBeNull();
+    });
+
+    it('should leave JSON files to the JSON extractor', () => {
+      const content = '{ "en": { "greeting": "Hello" } }';
+
+      expect(getExtractor('en.json', content).formatInfo.format).toBe('json-nested');
+    });
+  });
+
+  describe('extract', () => {
+    it('should strip the root locale key from unit IDs', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const result = extractor.extract(fixturePath, content, 'de');
+
+      expect(result.sourceLanguage).toBe('en');
+      expect(result.units.map(u => u.id)).toEqual([
+        'inbox_title',
+        'greeting',
+        'buttons.save',
+        'buttons.cancel',
+        'dialog.title',
+        'messages',
+        'date.day_names[0]',
+        'date.day_names[1]',
+      ]);
+    });
+
+    it('should skip aliases, symbols and non-string values', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const ids = extractor.extract(fixturePath, content, 'de').units.map(u => u.id);
+
+      expect(ids).not.toContain('dialog.save');
+      expect(ids).not.toContain('date.format');
+      expect(ids).not.toContain('per_page');
+    });
+
+    it('should extract pluralization maps as ICU plurals', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const unit = extractor
+        .extract(fixturePath, content, 'de')
+        .units.find(u => u.id === 'messages');
+
+      expect(unit?.source).toBe(
+        '{count, plural, one {%{count} new message} other {%{count} new messages}}'
+      );
+      expect(unit?.metadata.flags).toEqual(['plurals']);
+    });
+
+    it('should use comments as notes', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+
+      const units = extractor.extract(fixturePath, content, 'de').units;
+
+      expect(units[0]?.metadata.notes).toBe('Title of the inbox screen');
+      expect(units[1]?.metadata.notes).toBeUndefined();
+      expect(units.find(u => u.id === 'messages')?.metadata.notes).toBe('Unread message counter');
+    });
+  });
+
+  describe('parseYamlUnitId', () => {
+    it('should split key paths and sequence indexes', () => {
+      expect(parseYamlUnitId('date.day_names[1]')).toEqual(['date', 'day_names', 1]);
+      expect(parseYamlUnitId('title')).toEqual(['title']);
+    });
+  });
+});
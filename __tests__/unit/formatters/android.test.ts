@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AndroidExtractor } from '../../../src/extractors/android';
+import { AndroidFormatter, createAndroidStringsFile } from '../../../src/formatters/android';
+import type { TranslationUnit } from '../../../src/types/translation';
+
+describe('AndroidFormatter', () => {
+  let formatter: AndroidFormatter;
+  let extractor: AndroidExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/android/values/strings.xml');
+
+  beforeEach(() => {
+    formatter = new AndroidFormatter();
+    extractor = new AndroidExtractor();
+  });
+
+  const translate = (
+    units: TranslationUnit[],
+    targets: Record<string, string>
+  ): TranslationUnit[] =>
+    units.map(unit => (targets[unit.id] ? { ...unit, target: targets[unit.id] } : unit));
+
+  const germanTargets: Record<string, string> = {
+    inbox_title: 'Posteingang',
+    welcome: 'Willkommen, <xliff:g id="name">%1$s</xliff:g>!',
+    dont_go: "Geh nicht & bleib'",
+    handle: '@demo',
+    messages_count: '{count, plural, one {%d neue Nachricht} other {%d neue Nachrichten}}',
+    'planets[0]': 'Merkur',
+    'planets[1]': 'Venus',
+  };
+
+  describe('format', () => {
+    it('should replace values in place and keep the rest of the file', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract('res/values-de/strings.xml', content, 'de');
+
+      const result = formatter.format(
+        content,
+        translate(extractResult.units, { inbox_title: 'Posteingang', 'planets[0]': 'Merkur' }),
+        extractResult
+      );
+
+      expect(result.content).toContain(
+        '    <!-- Title of the inbox screen -->\n    <string name="inbox_title">Posteingang</string>'
+      );
+      expect(result.content).toContain(
+        '<string name="app_name" translatable="false">Demo</string>'
+      );
+      expect(result.content).toContain('        <item>Merkur</item>\n        <item>Venus</item>');
+      expect(result.updatedCount).toBe(2);
+    });
+
+    it('should escape translated values', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract('res/values-de/strings.xml', content, 'de');
+
+      const result = formatter.format(
+        content,
+        translate(extractResult.units, germanTargets),
+        extractResult
+      );
+
+      expect(result.content).toContain(`<string name="dont_go">Geh nicht &amp; bleib\\'</string>`);
+      expect(result.content).toContain('<string name="handle">\\@demo</string>');
+      expect(result.content).toContain(
+        '<string name="welcome">Willkommen, <xliff:g id="name">%1$s</xliff:g>!</string>'
+      );
+    });
+
+    it('should write plural items for the target language categories', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract('res/values-ru/strings.xml', content, 'ru');
+
+      const result = formatter.format(
+        content,
+        translate(extractResult.units, {
+          messages_count:
+            '{count, plural, one {%d новое сообщение} few {%d новых сообщения} many {%d новых сообщений} other {%d нового сообщения}}',
+        }),
+        extractResult
+      );
+
+      expect(result.content).toContain(`    <plurals name="messages_count">
+        <item quantity="one">%d новое сообщение</item>
+        <item quantity="few">%d новых сообщения</item>
+        <item quantity="many">%d новых сообщений</item>
+        <item quantity="other">%d нового сообщения</item>
+    </plurals>`);
+    });
+
+    it('should append resources missing from the target file', () => {
+      const content = `<?xml version="1.0" encoding="utf-8"?>
+<resources>
+    <string name="inbox_title">Posteingang</string>
+    <string-array name="planets">
+        <item>Merkur</item>
+    </string-array>
+</resources>
+`;
+      const source = extractor.extract(
+        'res/values/strings.xml',
+        fs.readFileSync(fixturePath, 'utf-8'),
+        'de'
+      );
+      const extractResult = extractor.extract('res/values-de/strings.xml', content, 'de');
+
+      const result = formatter.format(
+        content,
+        translate(source.units, germanTargets),
+        extractResult
+      );
+
+      expect(result.content).toContain(
+        '        <item>Merkur</item>\n        <item>Venus</item>\n    </string-array>'
+      );
+      expect(result.content).toContain(
+        '    <string name="dont_go">Geh nicht &amp; bleib\\\'</string>\n'
+      );
+      expect(result.content.trimEnd().endsWith('</resources>')).toBe(true);
+
+      const reparsed = extractor.extract('res/values-de/strings.xml', result.content, 'de');
+      expect(reparsed.units.map(u => u.id).sort()).toEqual(Object.keys(germanTargets).sort());
+    });
+  });
+
+  describe('createAndroidStringsFile', () => {
+    it('should create a resource file with translated units only', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract('res/values/strings.xml', content, 'de');
+
+      const created = createAndroidStringsFile(
+        translate(extractResult.units, { ...germanTargets, handle: '' }),
+        'de'
+      );
+
+      expect(created).toContain(
+        '<?xml version="1.0" encoding="utf-8"?>\n<resources xmlns:xliff="urn:oasis:names:tc:xliff:document:1.2">\n'
+      );
+      expect(created).toContain(
+        '    <!-- Title of the inbox screen -->\n    <string name="inbox_title">Posteingang</string>\n'
+      );
+      expect(created).toContain(`    <plurals name="messages_count">
+        <item quantity="one">%d neue Nachricht</item>
+        <item quantity="other">%d neue Nachrichten</item>
+    </plurals>`);
+      expect(created).toContain(`    <string-array name="planets">
+        <item>Merkur</item>
+        <item>Venus</item>
+    </string-array>`);
+      expect(created).not.toContain('name="handle"');
+
+      const reparsed = extractor.extract('res/values-de/strings.xml', created, 'de');
+      expect(reparsed.units.find(u => u.id === 'dont_go')?.source).toBe("Geh nicht & bleib'");
+    });
+
+    it('should keep the root attributes of the template', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract('res/values/strings.xml', content, 'de');
+
+      const created = createAndroidStringsFile(
+        translate(extractResult.units, germanTargets),
+        'de',
+        {
+          template: { content },
+        }
+      );
+
+      expect(created).toContain(
+        '<resources xmlns:xliff="urn:oasis:names:tc:xliff:document:1.2">\n'
+      );
+      expect(created).toContain(
+        '<string name="welcome">Willkommen, <xliff:g id="name">%1$s</xliff:g>!</string>'
+      );
+      expect(created.match(/xmlns:xliff/g)).toHaveLength(1);
+    });
+
+    it('should leave out the xliff namespace when no <xliff:g> element is written', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract('res/values/strings.xml', content, 'de');
+
+      const created = createAndroidStringsFile(
+        translate(extractResult.units, { inbox_title: 'Posteingang' }),
+        'de'
+      );
+
+      expect(created).toContain('<?xml version="1.0" encoding="utf-8"?>\n<resources>\n');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ArbExtractor } from '../../../src/extractors/arb';
+import { ArbFormatter, createArbFile } from '../../../src/formatters/arb';
+import type { TranslationUnit } from '../../../src/types/translation';
+
+describe('ArbFormatter', () => {
+  let formatter: ArbFormatter;
+  let extractor: ArbExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/arb/app_en.arb');
+
+  beforeEach(() => {
+    formatter = new ArbFormatter();
+    extractor = new ArbExtractor();
+  });
+
+  const translate = (
+    units: TranslationUnit[],
+    targets: Record<string, string>
+  ): TranslationUnit[] =>
+    units.map(unit => (targets[unit.id] ? { ...unit, target: targets[unit.id] } : unit));
+
+  it('should create files with @@locale and translated messages only', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+    const { units } = extractor.extract(fixturePath, content, 'pt-BR');
+
+    const result = createArbFile(
+      translate(units, { appTitle: 'Demonstração', greeting: 'Olá {name}!' }),
+      'pt-BR'
+    );
+
+    expect(JSON.parse(result)).toEqual({
+      '@@locale': 'pt_BR',
+      appTitle: 'Demonstração',
+      greeting: 'Olá {name}!',
+    });
+  });
+
+  it('should update messages, keep target metadata and fix @@locale', () => {
+    const content = JSON.stringify(
+      {
+        '@@locale': 'en',
+        appTitle: 'Demo',
+        '@appTitle': { description: 'Kept' },
+      },
+      null,
+      4
+    );
+    const extractResult = extractor.extract('lib/l10n/app_de.arb', content, 'de');
+
+    const result = formatter.format(
+      content,
+      [
+        ...translate(extractResult.units, { appTitle: 'Demo-App' }),
+        {
+          id: 'greeting',
+          source: 'Hello {name}!',
+          target: 'Hallo {name}!',
+          metadata: { file: 'lib/l10n/app_en.arb' },
+          hash: '',
+        },
+      ],
+      extractResult
+    );
+
+    expect(result.updatedCount).toBe(1);
+    expect(result.content).toBe(
+      `{
+    "@@locale": "de",
+    "appTitle": "Demo-App",
+    "@appTitle": {
+        "description": "Kept"
+    },
+    "greeting": "Hallo {name}!"
+}
+`
+    );
+  });
+});
@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FluentExtractor } from '../../../src/extractors/fluent';
+import { FluentFormatter, createFluentFile } from '../../../src/formatters/fluent';
+import type { TranslationUnit } from '../../../src/types/translation';
+
+describe('FluentFormatter', () => {
+  let formatter: FluentFormatter;
+  let extractor: FluentExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/fluent/en-US/main.ftl');
+
+  beforeEach(() => {
+    formatter = new FluentFormatter();
+    extractor = new FluentExtractor();
+  });
+
+  const translate = (
+    units: TranslationUnit[],
+    targets: Record<string, string>
+  ): TranslationUnit[] =>
+    units.map(unit => (targets[unit.id] ? { ...unit, target: targets[unit.id] } : unit));
+
+  it('should replace values and attributes and keep terms and comments', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+    const extractResult = extractor.extract(fixturePath, content, 'de');
+
+    const result = formatter.format(
+      content,
+      translate(extractResult.units, {
+        welcome: 'Willkommen bei {{-brand-name}}, {user}!',
+        'login-input.placeholder': 'E-Mail-Adresse',
+      }),
+      extractResult
+    );
+
+    expect(result.updatedCount).toBe(2);
+    expect(result.content).toBe(
+      content
+        .replace(
+          'Welcome to { -brand-name }, { $user }!',
+          'Willkommen bei { -brand-name }, { $user }!'
+        )
+        .replace('.placeholder = Email address', '.placeholder = E-Mail-Adresse')
+    );
+  });
+
+  it('should rebuild plurals with the target language categories', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+    const extractResult = extractor.extract(fixturePath, content, 'pl');
+
+    const result = formatter.format(
+      content,
+      translate(extractResult.units, {
+        emails:
+          '{count, plural, =0 {Skrzynka jest pusta.} one {Masz jedną nową wiadomość.} other {Masz {count} nowych wiadomości.}}',
+      }),
+      extractResult
+    );
+
+    expect(result.content).toContain(
+      [
+        'emails =',
+        '    { $count ->',
+        '        [0] Skrzynka jest pusta.',
+        '        [one] Masz jedną nową wiadomość.',
+        '        [few] Masz { $count } nowych wiadomości.',
+        '        [many] Masz { $count } nowych wiadomości.',
+        '       *[other] Masz { $count } nowych wiadomości.',
+        '    }',
+      ].join('\n')
+    );
+  });
+
+  it('should keep NUMBER() selectors, escape braces and append new messages', () => {
+    const content =
+      'items = { NUMBER($n, minimumFractionDigits: 1) ->\r\n   *[other] { $n } items\r\n  }\r\n';
+    const extractResult = extractor.extract('main.ftl', content, 'fr');
+
+    const result = formatter.format(
+      content,
+      [
+        {
+          ...extractResult.units[0]!,
+          target: '{n, plural, one {{n} article} other {{n} articles}}',
+        },
+        { id: 'braces', source: 'a {b}', target: 'Accolade {', metadata: { file: '' }, hash: '' },
+        {
+          id: 'items.title',
+          source: 'Items',
+          target: 'Articles',
+          metadata: { file: '' },
+          hash: '',
+        },
+      ],
+      extractResult
+    );
+
+    expect(result.content).toBe(
+      [
+        'items =',
+        '    { NUMBER($n, minimumFractionDigits: 1) ->',
+        '        [one] { $n } article',
+        '        [many] { $n } articles',
+        '       *[other] { $n } articles',
+        '    }',
+        '    .title = Articles',
+        '',
+        'braces = Accolade { "{" }',
+        '',
+      ].join('\r\n')
+    );
+  });
+
+  describe('createFluentFile', () => {
+    it('should follow the source template and leave out untranslated messages', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract(fixturePath, content, 'de');
+
+      const output = createFluentFile(
+        translate(extractResult.units, {
+          welcome: 'Willkommen bei {{-brand-name}}, {user}!',
+          'login-input.aria-label': 'Anmeldefeld',
+          about: 'Lies die {{help-link}} oder schreib an\nsupport@example.com.',
+        }),
+        'de',
+        { template: { content } }
+      );
+
+      expect(output).toBe(
+        [
+          '## Shared terms',
+          '',
+          '-brand-name = Acme Mail',
+          '',
+          '# Shown after signing in',
+          'welcome = Willkommen bei { -brand-name }, { $user }!',
+          '',
+          'login-input =',
+          '    .aria-label = Anmeldefeld',
+          '',
+          'about =',
+          '    Lies die { help-link } oder schreib an',
+          '    support@example.com.',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should write notes, messages and attributes without a template', () => {
+      const output = createFluentFile(
+        [
+          {
+            id: 'greeting',
+            source: 'Hello {name}',
+            target: 'Hallo {name}',
+            metadata: { file: '', notes: 'Home screen' },
+            hash: '',
+          },
+          { id: 'greeting.title', source: 'Hi', target: 'Hallo', metadata: { file: '' }, hash: '' },
+          { id: 'bye', source: 'Bye', metadata: { file: '' }, hash: '' },
+        ],
+        'de'
+      );
+
+      expect(output).toBe('# Home screen\ngreeting = Hallo { $name }\n    .title = Hallo\n');
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { I18nextExtractor } from '../../../src/extractors/i18next';
+import { I18nextFormatter, createI18nextFile } from '../../../src/formatters/i18next';
+import type { TranslationUnit } from '../../../src/types/translation';
+
+describe('I18nextFormatter', () => {
+  let formatter: I18nextFormatter;
+  let extractor: I18nextExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/i18next/en/translation.json');
+
+  beforeEach(() => {
+    formatter = new I18nextFormatter();
+    extractor = new I18nextExtractor();
+  });
+
+  const translate = (
+    units: TranslationUnit[],
+    targets: Record<string, string>
+  ): TranslationUnit[] =>
+    units.map(unit => (targets[unit.id] ? { ...unit, target: targets[unit.id] } : unit));
+
+  describe('createI18nextFile', () => {
+    it('should write the plural suffixes of the target language', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract(fixturePath, content, 'pl');
+
+      const output = createI18nextFile(
+        translate(extractResult.units, {
+          'inbox.messages':
+            '{count, plural, =0 {Brak wiadomości} one {Masz {{count}} wiadomość} few {Masz {{count}} wiadomości} many {Masz {{count}} wiadomości} other {Masz {{count}} wiadomości}}',
+          place_ordinal: '{count, selectordinal, other {{{count}}. miejsce}}',
+          signature: 'Wysłano z {{$t(appName)}}',
+        }),
+        'pl',
+        { template: { content } }
+      );
+
+      expect(JSON.parse(output)).toEqual({
+        inbox: {
+          messages_zero: 'Brak wiadomości',
+          messages_one: 'Masz {{count}} wiadomość',
+          messages_few: 'Masz {{count}} wiadomości',
+          messages_many: 'Masz {{count}} wiadomości',
+          messages_other: 'Masz {{count}} wiadomości',
+        },
+        place_ordinal_other: '{{count}}. miejsce',
+        signature: 'Wysłano z $t(appName)',
+      });
+    });
+
+    it('should fill missing categories from other', () => {
+      const output = createI18nextFile(
+        [
+          {
+            id: 'files',
+            source: '{count, plural, one {# file} other {# files}}',
+            target: '{count, plural, one {{{count}} plik} other {{{count}} pliku}}',
+            metadata: { file: '' },
+            hash: '',
+          },
+        ],
+        'pl'
+      );
+
+      expect(JSON.parse(output)).toEqual({
+        files_one: '{{count}} plik',
+        files_few: '{{count}} pliku',
+        files_many: '{{count}} pliku',
+        files_other: '{{count}} pliku',
+      });
+    });
+  });
+
+  it('should replace plural keys in an existing file and keep other keys', () => {
+    const content = [
+      '{',
+      '    "title": "Posteingang",',
+      '    "messages_one": "Eine Nachricht",',
+      '    "messages_other": "{{count}} Nachrichten",',
+      '    "footer": "Fußzeile"',
+      '}',
+      '',
+    ].join('\n');
+    const extractResult = extractor.extract('locales/de/translation.json', content, 'de');
+
+    const result = formatter.format(
+      content,
+      [
+        {
+          id: 'messages',
+          source: '{count, plural, one {One message} other {{{count}} messages}}',
+          target: '{count, plural, one {{{count}} Nachricht} other {{{count}} Nachrichten}}',
+          metadata: { file: '' },
+          hash: '',
+        },
+        { id: 'search', source: 'Search', target: 'Suche', metadata: { file: '' }, hash: '' },
+      ],
+      extractResult
+    );
+
+    expect(result.content).toBe(
+      [
+        '{',
+        '    "title": "Posteingang",',
+        '    "messages_one": "{{count}} Nachricht",',
+        '    "messages_other": "{{count}} Nachrichten",',
+        '    "footer": "Fußzeile",',
+        '    "search": "Suche"',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IosStringsExtractor } from '../../../src/extractors/ios-strings';
+import { IosStringsFormatter, createIosStringsFile } from '../../../src/formatters/ios-strings';
+import type { TranslationUnit } from '../../../src/types/translation';
+
+describe('IosStringsFormatter', () => {
+  let formatter: IosStringsFormatter;
+  let extractor: IosStringsExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/ios/en.lproj/Localizable.strings');
+
+  beforeEach(() => {
+    formatter = new IosStringsFormatter();
+    extractor = new IosStringsExtractor();
+  });
+
+  const translate = (
+    units: TranslationUnit[],
+    targets: Record<string, string>
+  ): TranslationUnit[] =>
+    units.map(unit => (targets[unit.id] ? { ...unit, target: targets[unit.id] } : unit));
+
+  it('should replace values and keep comments and layout', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+    const extractResult = extractor.extract('de.lproj/Localizable.strings', content, 'de');
+
+    const result = formatter.format(
+      content,
+      translate(extractResult.units, {
+        inbox_title: 'Posteingang',
+        download_failed: 'Download fehlgeschlagen:\n"%@"',
+      }),
+      extractResult
+    );
+
+    expect(result.updatedCount).toBe(2);
+    expect(result.content).toContain(
+      '/* Title of the inbox screen */\n"inbox_title" = "Posteingang";'
+    );
+    expect(result.content).toContain(
+      '// Shown when a download fails\n"download_failed" = "Download fehlgeschlagen:\\n\\"%@\\"";'
+    );
+    expect(result.content).toContain('"greeting" = "Hello, %@!";');
+  });
+
+  it('should append units missing from the file', () => {
+    const content = '"a" = "A";\n';
+    const extractResult = extractor.extract('de.lproj/Localizable.strings', content, 'de');
+
+    const result = formatter.format(
+      content,
+      [
+        ...extractResult.units,
+        {
+          id: 'b',
+          source: 'B',
+          target: 'Bé',
+          metadata: { file: 'Localizable.strings', notes: 'Second' },
+          hash: '',
+        },
+      ],
+      extractResult
+    );
+
+    expect(result.content).toBe('"a" = "A";\n\n/* Second */\n"b" = "Bé";\n');
+  });
+
+  it('should create files with translated units only', () => {
+    const content = createIosStringsFile([
+      { id: 'a', source: 'A', target: 'Ä', metadata: { file: 'Localizable.strings' }, hash: '' },
+      { id: 'b', source: 'B', metadata: { file: 'Localizable.strings' }, hash: '' },
+    ]);
+
+    expect(content).toBe('"a" = "Ä";\n');
+  });
+});
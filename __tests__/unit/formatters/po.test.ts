@@ -0,0 +1,230 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PoExtractor } from '../../../src/extractors/po';
+import { PoFormatter, createPoFile } from '../../../src/formatters/po';
+import { createTranslationFile } from '../../../src/formatters/factory';
+import type { TranslationUnit } from '../../../src/types/translation';
+
+describe('PoFormatter', () => {
+  let formatter: PoFormatter;
+  let extractor: PoExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/po/messages.pot');
+
+  beforeEach(() => {
+    formatter = new PoFormatter();
+    extractor = new PoExtractor();
+  });
+
+  const translate = (
+    units: TranslationUnit[],
+    targets: Record<string, string>
+  ): TranslationUnit[] =>
+    units.map(unit => (targets[unit.id] ? { ...unit, target: targets[unit.id] } : unit));
+
+  describe('format', () => {
+    it('should write singular translations and keep comments', () => {
+      const content = `# Translator note
+#. Button label
+#: src/app.py:3
+msgid "Save"
+msgstr ""
+
+msgid "Cancel"
+msgstr ""
+`;
+      const extractResult = extractor.extract('messages.de.po', content, 'de');
+
+      const result = formatter.format(
+        content,
+        translate(extractResult.units, { Save: 'Speichern' }),
+        extractResult
+      );
+
+      expect(result.content).toContain(
+        '# Translator note\n#. Button label\n#: src/app.py:3\nmsgid "Save"\nmsgstr "Speichern"'
+      );
+      expect(result.content).toContain('msgid "Cancel"\nmsgstr ""');
+      expect(result.updatedCount).toBe(1);
+    });
+
+    it('should write plural forms for the target language', () => {
+      const content = `msgid ""
+msgstr ""
+"Language: pl\\n"
+
+msgid "%d file"
+msgid_plural "%d files"
+msgstr[0] ""
+msgstr[1] ""
+`;
+      const extractResult = extractor.extract('messages.pl.po', content, 'pl');
+
+      const result = formatter.format(
+        content,
+        translate(extractResult.units, {
+          '%d file': '{n, plural, one {%d plik} few {%d pliki} many {%d plików} other {%d pliku}}',
+        }),
+        extractResult
+      );
+
+      expect(result.content).toContain(
+        'msgstr[0] "%d plik"\nmsgstr[1] "%d pliki"\nmsgstr[2] "%d plików"'
+      );
+      expect(result.content).toContain(
+        '"Plural-Forms: nplurals=3; plural=n == 1 ? 0 : n % 10 >= 2'
+      );
+    });
+
+    it('should remove the fuzzy flag when marking as translated', () => {
+      const content = `#, fuzzy, python-format
+msgid "Hello %(name)s"
+msgstr "Hallo %(name)s"
+`;
+      const extractResult = extractor.extract('messages.de.po', content, 'de');
+
+      const result = formatter.format(
+        content,
+        translate(extractResult.units, { 'Hello %(name)s': 'Guten Tag %(name)s' }),
+        extractResult,
+        { markAsTranslated: true }
+      );
+
+      expect(result.content).toContain('#, python-format\nmsgid "Hello %(name)s"');
+      expect(result.content).not.toContain('fuzzy');
+    });
+
+    it('should keep the fuzzy flag when not marking as translated', () => {
+      const content = `#, fuzzy
+msgid "Hello"
+msgstr "Hallo"
+`;
+      const extractResult = extractor.extract('messages.de.po', content, 'de');
+
+      const result = formatter.format(
+        content,
+        translate(extractResult.units, { Hello: 'Servus' }),
+        extractResult
+      );
+
+      expect(result.content).toContain('#, fuzzy\nmsgid "Hello"\nmsgstr "Servus"');
+    });
+
+    it('should leave unchanged entries and obsolete blocks verbatim', () => {
+      const content = `msgid "A"
+msgstr   "a"
+
+#~ msgid "Old"
+#~ msgstr "Alt"
+`;
+      const extractResult = extractor.extract('messages.de.po', content, 'de');
+
+      const result = formatter.format(content, extractResult.units, extractResult);
+
+      expect(result.content).toContain('msgid "A"\nmsgstr   "a"');
+      expect(result.content).toContain('#~ msgid "Old"\n#~ msgstr "Alt"');
+    });
+
+    it('should append entries that are not in the original file', () => {
+      const content = `msgid "Save"
+msgstr "Speichern"
+`;
+      const extractResult = extractor.extract('messages.de.po', content, 'de');
+      const added: TranslationUnit = {
+        id: 'menu|Open',
+        source: 'Open',
+        target: 'Öffnen',
+        context: 'menu',
+        hash: 'hash',
+        metadata: { file: 'messages.pot', references: ['src/menu.py:4'] },
+      };
+
+      const result = formatter.format(content, [...extractResult.units, added], extractResult);
+
+      expect(result.content).toContain(
+        'msgstr "Speichern"\n\n#: src/menu.py:4\nmsgctxt "menu"\nmsgid "Open"\nmsgstr "Öffnen"\n'
+      );
+    });
+
+    it('should round-trip through the extractor', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract('messages.pot', content, 'de');
+
+      const result = formatter.format(
+        content,
+        translate(extractResult.units, {
+          'menu|Open': 'Öffnen',
+          'status|Open': 'Offen',
+          'First line\nSecond line with "quotes"':
+            'Erste Zeile\nZweite Zeile mit "Anführungszeichen"',
+        }),
+        extractResult
+      );
+      const reparsed = extractor.extract('messages.de.po', result.content, 'de');
+
+      expect(reparsed.units.find(u => u.id === 'menu|Open')?.target).toBe('Öffnen');
+      expect(reparsed.units.find(u => u.id === 'status|Open')?.target).toBe('Offen');
+      expect(reparsed.units[4]?.target).toBe('Erste Zeile\nZweite Zeile mit "Anführungszeichen"');
+      expect(result.content).toContain('msgstr ""\n"Erste Zeile\\n"\n');
+      expect(result.content).toContain('"Language: de\\n"');
+      expect(result.content).toContain('"Content-Type: text/plain; charset=UTF-8\\n"');
+    });
+  });
+
+  describe('createPoFile', () => {
+    it('should create a catalog from template units', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract('messages.pot', content, 'ru');
+
+      const created = createPoFile(
+        translate(extractResult.units, {
+          Inbox: 'Входящие',
+          '%(count)d new message':
+            '{n, plural, one {%(count)d новое сообщение} few {%(count)d новых сообщения} many {%(count)d новых сообщений} other {%(count)d нового сообщения}}',
+        }),
+        'ru'
+      );
+
+      expect(created).toContain('"Language: ru\\n"');
+      expect(created).toContain('"Plural-Forms: nplurals=3;');
+      expect(created).toContain(
+        '#. Shown above the message list\n#: src/inbox.py:42 src/inbox.py:57\n#, python-format\n'
+      );
+      expect(created).toContain(
+        'msgid "%(count)d new message"\nmsgid_plural "%(count)d new messages"'
+      );
+      expect(created).toContain(
+        'msgstr[0] "%(count)d новое сообщение"\nmsgstr[1] "%(count)d новых сообщения"\nmsgstr[2] "%(count)d новых сообщений"'
+      );
+      expect(created).toContain('msgctxt "menu"\nmsgid "Open"\nmsgstr ""');
+    });
+
+    it('should be used by createTranslationFile for the po format', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'po-test-'));
+      const outputPath = path.join(dir, 'messages.de.po');
+
+      try {
+        const content = fs.readFileSync(fixturePath, 'utf-8');
+        const extractResult = extractor.extract('messages.pot', content, 'de');
+
+        createTranslationFile(
+          outputPath,
+          translate(extractResult.units, { Inbox: 'Posteingang' }),
+          'po',
+          'en',
+          'de'
+        );
+
+        const reparsed = extractor.extract(outputPath, fs.readFileSync(outputPath, 'utf-8'), 'de');
+        expect(reparsed.units).toHaveLength(extractResult.units.length);
+        expect(reparsed.units.find(u => u.id === 'Inbox')?.target).toBe('Posteingang');
+        expect(reparsed.units.find(u => u.id === '%(count)d new message')?.source).toBe(
+          extractResult.units.find(u => u.id === '%(count)d new message')?.source
+        );
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
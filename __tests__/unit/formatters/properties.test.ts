@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PropertiesExtractor } from '../../../src/extractors/properties';
+import { PropertiesFormatter, createPropertiesFile } from '../../../src/formatters/properties';
+import type { TranslationUnit } from '../../../src/types/translation';
+
+describe('PropertiesFormatter', () => {
+  let formatter: PropertiesFormatter;
+  let extractor: PropertiesExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/properties/messages.properties');
+
+  beforeEach(() => {
+    formatter = new PropertiesFormatter();
+    extractor = new PropertiesExtractor();
+  });
+
+  const translate = (
+    units: TranslationUnit[],
+    targets: Record<string, string>
+  ): TranslationUnit[] =>
+    units.map(unit => (targets[unit.id] ? { ...unit, target: targets[unit.id] } : unit));
+
+  it('should replace values and keep comments, separators and continuations', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+    const extractResult = extractor.extract('messages_de.properties', content, 'de');
+
+    const result = formatter.format(
+      content,
+      translate(extractResult.units, {
+        'login.welcome': 'Willkommen zurück, {0}!',
+        logout: 'Abmelden',
+      }),
+      extractResult
+    );
+
+    expect(result.updatedCount).toBe(2);
+    expect(result.content).toBe(
+      content
+        .replace('Welcome back, {0}!', 'Willkommen zur\\u00FCck, {0}!')
+        .replace('Log out', 'Abmelden')
+    );
+  });
+
+  it('should keep raw non-ASCII text in UTF-8 files', () => {
+    const content = 'title=Überschrift\nsave=Save\n';
+    const extractResult = extractor.extract('messages_de.properties', content, 'de');
+    extractResult.formatInfo.encoding = 'UTF-8';
+
+    const result = formatter.format(
+      content,
+      translate(extractResult.units, { save: 'Speichern für später' }),
+      extractResult
+    );
+
+    expect(result.content).toBe('title=Überschrift\nsave=Speichern für später\n');
+  });
+
+  it('should escape non-ASCII text in ISO-8859-1 files', () => {
+    const content = 'title=Überschrift\r\n';
+    const extractResult = extractor.extract('messages_de.properties', content, 'de');
+    extractResult.formatInfo.encoding = 'ISO-8859-1';
+
+    const result = formatter.format(
+      content,
+      [
+        { ...extractResult.units[0]!, target: 'Titre' },
+        { id: 'save', source: 'Save', target: 'Sécurisé', metadata: { file: '' }, hash: '' },
+      ],
+      extractResult
+    );
+
+    expect(result.content).toBe('title=Titre\r\nsave=S\\u00E9curis\\u00E9\r\n');
+  });
+
+  describe('createPropertiesFile', () => {
+    it('should follow the source template and leave out untranslated keys', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract(fixturePath, content, 'fr');
+
+      const output = createPropertiesFile(
+        translate(extractResult.units, {
+          'login.welcome': 'Bon retour, {0} !',
+          'login.hint': "Ne partagez pas votre mot de passe. C''est secret.",
+          'menu.cafe': 'Menu du café',
+        }),
+        { template: { content, encoding: 'UTF-8' } }
+      );
+
+      expect(output).toBe(
+        [
+          '# Application messages',
+          '',
+          '# Shown on the login page',
+          'login.welcome=Bon retour, {0} !',
+          "login.hint: Ne partagez pas votre mot de passe. C''est secret.",
+          'menu.cafe = Menu du caf\\u00E9',
+          'empty.value=',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should write notes and entries without a template', () => {
+      const output = createPropertiesFile([
+        {
+          id: 'greeting',
+          source: 'Hello',
+          target: 'Grüß dich',
+          metadata: { file: '', notes: 'Home screen' },
+          hash: '',
+        },
+        { id: 'bye', source: 'Bye', metadata: { file: '' }, hash: '' },
+      ]);
+
+      expect(output).toBe('# Home screen\ngreeting=Gr\\u00FC\\u00DF dich\n');
+    });
+  });
+});
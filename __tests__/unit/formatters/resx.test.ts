@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ResxExtractor } from '../../../src/extractors/resx';
+import { ResxFormatter, createResxFile } from '../../../src/formatters/resx';
+import type { TranslationUnit } from '../../../src/types/translation';
+
+describe('ResxFormatter', () => {
+  let formatter: ResxFormatter;
+  let extractor: ResxExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/resx/Resources.resx');
+
+  beforeEach(() => {
+    formatter = new ResxFormatter();
+    extractor = new ResxExtractor();
+  });
+
+  const translate = (
+    units: TranslationUnit[],
+    targets: Record<string, string>
+  ): TranslationUnit[] =>
+    units.map(unit => (targets[unit.id] ? { ...unit, target: targets[unit.id] } : unit));
+
+  it('should replace values and keep headers and other resources', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+    const extractResult = extractor.extract('Resources.de.resx', content, 'de');
+
+    const result = formatter.format(
+      content,
+      [
+        ...translate(extractResult.units, { OrderTotal: 'Gesamt: {{0:C2}} für {1} Artikel' }),
+        { id: 'Cancel', source: 'Cancel', target: 'Abbrechen', metadata: { file: '' }, hash: '' },
+      ],
+      extractResult
+    );
+
+    expect(result.updatedCount).toBe(1);
+    expect(result.content).toBe(
+      content
+        .replace('Total: {0:C2} for {1} items', 'Gesamt: {0:C2} für {1} Artikel')
+        .replace(
+          '</root>',
+          '  <data name="Cancel" xml:space="preserve">\n    <value>Abbrechen</value>\n  </data>\n</root>'
+        )
+    );
+  });
+
+  describe('createResxFile', () => {
+    it('should keep the template header and only write translated strings', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract(fixturePath, content, 'de');
+
+      const output = createResxFile(
+        translate(extractResult.units, { WindowTitle: 'Bestellung & Versand' }),
+        { template: { content } }
+      );
+
+      const header = content.slice(0, content.indexOf('  <data name="WindowTitle"'));
+      expect(output).toBe(
+        header +
+          '  <data name="WindowTitle" xml:space="preserve">\n' +
+          '    <value>Bestellung &amp; Versand</value>\n' +
+          '    <comment>Title of the main window</comment>\n' +
+          '  </data>\n' +
+          '</root>\n'
+      );
+    });
+
+    it('should write resource headers without a template', () => {
+      const output = createResxFile([
+        {
+          id: 'Greeting',
+          source: 'Hello',
+          target: 'Hallo',
+          metadata: { file: '', notes: 'Home screen' },
+          hash: '',
+        },
+      ]);
+
+      expect(output).toContain('<value>text/microsoft-resx</value>');
+      expect(output).toContain(
+        '  <data name="Greeting" xml:space="preserve">\n' +
+          '    <value>Hallo</value>\n' +
+          '    <comment>Home screen</comment>\n' +
+          '  </data>\n</root>\n'
+      );
+    });
+  });
+});
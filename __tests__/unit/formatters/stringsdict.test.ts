@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StringsdictExtractor } from '../../../src/extractors/stringsdict';
+import { StringsdictFormatter, createStringsdictFile } from '../../../src/formatters/stringsdict';
+
+describe('StringsdictFormatter', () => {
+  let formatter: StringsdictFormatter;
+  let extractor: StringsdictExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/ios/en.lproj/Localizable.stringsdict');
+
+  beforeEach(() => {
+    formatter = new StringsdictFormatter();
+    extractor = new StringsdictExtractor();
+  });
+
+  it('should write the target language plural categories', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+    const extractResult = extractor.extract('pl.lproj/Localizable.stringsdict', content, 'pl');
+
+    const result = formatter.format(
+      content,
+      extractResult.units.map(unit => ({
+        ...unit,
+        target:
+          'Wybrano {files, plural, one {%d plik} few {%d pliki} many {%d plików} other {%d pliku}}',
+      })),
+      extractResult
+    );
+    const reextracted = extractor.extract('pl.lproj/Localizable.stringsdict', result.content, 'pl');
+
+    expect(result.updatedCount).toBe(1);
+    expect(result.content).toContain('<string>Wybrano %#@files@</string>');
+    expect(result.content).toContain(
+      '<key>NSStringFormatValueTypeKey</key>\n\t\t\t<string>d</string>'
+    );
+    expect(reextracted.units[0]?.source).toBe(
+      'Wybrano {files, plural, one {%d plik} few {%d pliki} many {%d plików} other {%d pliku}}'
+    );
+  });
+
+  it('should fill missing categories from other and keep a translated zero', () => {
+    const content = createStringsdictFile(
+      [
+        {
+          id: 'files_selected',
+          source: '{files, plural, one {%d file} other {%d files}}',
+          target: '{files, plural, zero {Keine Datei} one {%d Datei} other {%d Dateien}}',
+          metadata: { file: 'Localizable.stringsdict' },
+          hash: '',
+        },
+      ],
+      'ru'
+    );
+    const result = extractor.extract('ru.lproj/Localizable.stringsdict', content, 'ru');
+
+    expect(result.units[0]?.source).toBe(
+      '{files, plural, zero {Keine Datei} one {%d Datei} few {%d Dateien} many {%d Dateien} other {%d Dateien}}'
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { XcstringsExtractor } from '../../../src/extractors/xcstrings';
+import { XcstringsFormatter, createXcstringsFile } from '../../../src/formatters/xcstrings';
+import type { TranslationUnit } from '../../../src/types/translation';
+
+describe('XcstringsFormatter', () => {
+  let formatter: XcstringsFormatter;
+  let extractor: XcstringsExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/ios/Localizable.xcstrings');
+
+  beforeEach(() => {
+    formatter = new XcstringsFormatter();
+    extractor = new XcstringsExtractor();
+  });
+
+  const translateInto = (
+    content: string,
+    language: string,
+    targets: Record<string, string>,
+    markAsTranslated = true
+  ): string => {
+    const extractResult = extractor.extract(fixturePath, content, language);
+    const units: TranslationUnit[] = extractResult.units.map(unit =>
+      targets[unit.id] ? { ...unit, target: targets[unit.id] } : unit
+    );
+    return formatter.format(content, units, extractResult, { markAsTranslated }).content;
+  };
+
+  it('should write several languages into the same catalog', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+
+    const german = translateInto(content, 'de', { inbox_title: 'Posteingang' });
+    const both = translateInto(german, 'ru', {
+      inbox_title: 'Входящие',
+      messages_count:
+        '{count, plural, one {%lld новое} few {%lld новых} many {%lld новых} other {%lld новых}}',
+    });
+    const document = JSON.parse(both);
+
+    expect(Object.keys(document.strings.inbox_title.localizations)).toEqual([
+      'de',
+      'en',
+      'fr',
+      'ru',
+    ]);
+    expect(document.strings.inbox_title.localizations.de.stringUnit).toEqual({
+      state: 'translated',
+      value: 'Posteingang',
+    });
+    expect(Object.keys(document.strings.messages_count.localizations.ru.variations.plural)).toEqual(
+      ['one', 'few', 'many', 'other']
+    );
+    expect(document.strings.internal_id).toEqual({ shouldTranslate: false });
+  });
+
+  it('should keep Xcode formatting for untouched content', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+
+    const result = translateInto(content, 'de', { inbox_title: 'Posteingang' });
+
+    expect(result).toContain('"sourceLanguage" : "en",');
+    expect(result).toContain('"Cancel" : {\n\n    },');
+  });
+
+  it('should keep the needs_review state unless marked as translated', () => {
+    const content = fs.readFileSync(fixturePath, 'utf-8');
+
+    const review = JSON.parse(translateInto(content, 'fr', { inbox_title: 'Boîte' }, false));
+    const translated = JSON.parse(translateInto(content, 'fr', { inbox_title: 'Boîte' }));
+
+    expect(review.strings.inbox_title.localizations.fr.stringUnit.state).toBe('needs_review');
+    expect(translated.strings.inbox_title.localizations.fr.stringUnit.state).toBe('translated');
+  });
+
+  it('should create a catalog with source and target localizations', () => {
+    const content = createXcstringsFile(
+      [
+        {
+          id: 'inbox_title',
+          source: 'Inbox',
+          target: 'Posteingang',
+          metadata: { file: 'Localizable.xcstrings', notes: 'Title' },
+          hash: '',
+        },
+      ],
+      'en',
+      'de'
+    );
+    const result = extractor.extract('Localizable.xcstrings', content, 'de');
+
+    expect(result.units).toEqual([
+      expect.objectContaining({
+        id: 'inbox_title',
+        source: 'Inbox',
+        target: 'Posteingang',
+        metadata: expect.objectContaining({ notes: 'Title', state: 'translated' }),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { YamlExtractor } from '../../../src/extractors/yaml';
+import { YamlFormatter, createYamlFile } from '../../../src/formatters/yaml';
+import type { TranslationUnit } from '../../../src/types/translation';
+
+describe('YamlFormatter', () => {
+  let formatter: YamlFormatter;
+  let extractor: YamlExtractor;
+
+  const fixturePath = path.join(__dirname, '../../fixtures/yaml/en.yml');
+
+  beforeEach(() => {
+    formatter = new YamlFormatter();
+    extractor = new YamlExtractor();
+  });
+
+  const translate = (
+    units: TranslationUnit[],
+    targets: Record<string, string>
+  ): TranslationUnit[] =>
+    units.map(unit => (targets[unit.id] ? { ...unit, target: targets[unit.id] } : unit));
+
+  const germanTargets: Record<string, string> = {
+    inbox_title: 'Posteingang',
+    greeting: 'Hallo, %{name}!',
+    'buttons.save': 'Speichern',
+    'buttons.cancel': 'Abbrechen',
+    'dialog.title': 'Sind Sie sicher?',
+    messages: '{count, plural, one {%{count} neue Nachricht} other {%{count} neue Nachrichten}}',
+    'date.day_names[0]': 'Sonntag',
+    'date.day_names[1]': 'Montag',
+  };
+
+  describe('format', () => {
+    it('should replace the root key and keep comments, quoting and anchors', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract('de.yml', content, 'de');
+
+      const result = formatter.format(
+        content,
+        translate(extractResult.units, germanTargets),
+        extractResult
+      );
+
+      expect(result.updatedCount).toBe(8);
+      expect(result.content).toBe(`# Application strings
+de:
+  # Title of the inbox screen
+  inbox_title: Posteingang
+  greeting: "Hallo, %{name}!"
+  buttons: &buttons
+    save: Speichern
+    cancel: Abbrechen
+  dialog:
+    <<: *buttons
+    title: Sind Sie sicher?
+  # Unread message counter
+  messages:
+    one: "%{count} neue Nachricht"
+    other: "%{count} neue Nachrichten"
+  date:
+    day_names: [Sonntag, Montag]
+    format: :default
+  per_page: 25
+`);
+    });
+
+    it('should write the target language plural categories', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const extractResult = extractor.extract('pl.yml', content, 'pl');
+
+      const result = formatter.format(
+        content,
+        translate(extractResult.units, {
+          messages:
+            '{count, plural, one {%{count} wiadomość} few {%{count} wiadomości} many {%{count} wiadomości} other {%{count} wiadomości}}',
+        }),
+        extractResult
+      );
+      const reextracted = extractor.extract('pl.yml', result.content, 'pl');
+
+      expect(reextracted.sourceLanguage).toBe('pl');
+      expect(reextracted.units.find(u => u.id === 'messages')?.source).toBe(
+        '{count, plural, one {%{count} wiadomość} few {%{count} wiadomości} many {%{count} wiadomości} other {%{count} wiadomości}}'
+      );
+    });
+
+    it('should add units missing from the target file', () => {
+      const content = 'de:\n  inbox_title: Posteingang\n';
+      const extractResult = extractor.extract('de.yml', content, 'de');
+
+      const result = formatter.format(
+        content,
+        [
+          ...extractResult.units,
+          {
+            id: 'users.title',
+            source: 'Users',
+            target: 'Benutzer',
+            metadata: { file: 'en.yml' },
+            hash: '',
+          },
+        ],
+        extractResult
+      );
+
+      expect(result.content).toBe(
+        'de:\n  inbox_title: Posteingang\n  users:\n    title: Benutzer\n'
+      );
+    });
+  });
+
+  describe('createYamlFile', () => {
+    it('should nest translated units under the target locale', () => {
+      const content = fs.readFileSync(fixturePath, 'utf-8');
+      const { units } = extractor.extract(fixturePath, content, 'ru');
+
+      const result = createYamlFile(
+        translate(units, {
+          inbox_title: 'Входящие',
+          messages:
+            '{count, plural, one {%{count} новое} few {%{count} новых} many {%{count} новых} other {%{count} новых}}',
+        }),
+        'ru'
+      );
+
+      expect(result).toBe(`ru:
+  # Title of the inbox screen
+  inbox_title: Входящие
+  # Unread message counter
+  messages:
+    one: "%{count} новое"
+    few: "%{count} новых"
+    many: "%{count} новых"
+    other: "%{count} новых"
+`);
+    });
+  });
+});
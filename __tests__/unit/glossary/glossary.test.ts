@@ -0,0 +1,71 @@
+import {
+  checkGlossaryTerms,
+  containsTerm,
+  getGlossaryEntries,
+  selectGlossaryTerms,
+} from '../../../src/glossary/glossary';
+import type { GlossaryEntry } from '../../../src/types/translation';
+
+const glossary: GlossaryEntry[] = [
+  { term: 'Acme' },
+  { term: 'Sign in', translation: 'Anmelden', language: 'de' },
+  { term: 'Sign in', translation: 'Einloggen', language: 'de-AT' },
+  { term: 'Sign in', translation: 'Se connecter', language: 'fr' },
+  { term: 'file', translation: 'Datei', language: 'de' },
+];
+
+describe('Glossary', () => {
+  describe('getGlossaryEntries', () => {
+    it('should pick the entries of the closest language', () => {
+      expect(getGlossaryEntries(glossary, 'de')).toEqual([
+        { term: 'Acme' },
+        { term: 'Sign in', translation: 'Anmelden', language: 'de' },
+        { term: 'file', translation: 'Datei', language: 'de' },
+      ]);
+      expect(getGlossaryEntries(glossary, 'de-AT').map(e => e.translation)).toEqual([
+        undefined,
+        'Einloggen',
+        'Datei',
+      ]);
+      expect(getGlossaryEntries(glossary, 'ja')).toEqual([{ term: 'Acme' }]);
+    });
+  });
+
+  describe('containsTerm', () => {
+    it('should match whole words in any case', () => {
+      expect(containsTerm('Open the File', 'file')).toBe(true);
+      expect(containsTerm('{count} files', 'file')).toBe(false);
+      expect(containsTerm('Profile', 'file')).toBe(false);
+    });
+  });
+
+  describe('selectGlossaryTerms', () => {
+    it('should keep the terms the units use', () => {
+      const request = selectGlossaryTerms({
+        units: [{ id: 'a', source: 'Sign in to Acme', hash: 'a', metadata: { file: 'en.json' } }],
+        sourceLanguage: 'en',
+        targetLanguage: 'de',
+        preserveFormatting: true,
+        preservePlaceholders: true,
+        glossary: getGlossaryEntries(glossary, 'de'),
+      });
+
+      expect(request.glossary?.map(e => e.term)).toEqual(['Acme', 'Sign in']);
+    });
+  });
+
+  describe('checkGlossaryTerms', () => {
+    const entries = getGlossaryEntries(glossary, 'de');
+
+    it('should accept translations that follow the glossary', () => {
+      expect(checkGlossaryTerms('Sign in to Acme', 'Bei Acme anmelden', entries)).toEqual([]);
+    });
+
+    it('should flag ignored and translated terms', () => {
+      expect(checkGlossaryTerms('Sign in to Acme', 'Bei ACME einloggen', entries)).toEqual([
+        'Glossary term "Acme" must be kept untranslated',
+        'Glossary term "Sign in" must be translated as "Anmelden"',
+      ]);
+    });
+  });
+});
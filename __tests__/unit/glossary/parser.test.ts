@@ -0,0 +1,78 @@
+import { parseGlossaryCsv, parseTbx } from '../../../src/glossary/parser';
+
+describe('Glossary parsers', () => {
+  describe('parseGlossaryCsv', () => {
+    it('should read one column per target language', () => {
+      const csv = [
+        'term,de,fr',
+        'Sign in,Anmelden,Se connecter',
+        '"Save, then exit","Speichern und beenden",',
+        'Acme,,',
+        '',
+      ].join('\r\n');
+
+      expect(parseGlossaryCsv(csv)).toEqual([
+        { term: 'Sign in', translation: 'Anmelden', language: 'de' },
+        { term: 'Sign in', translation: 'Se connecter', language: 'fr' },
+        { term: 'Save, then exit', translation: 'Speichern und beenden', language: 'de' },
+        { term: 'Acme' },
+      ]);
+    });
+
+    it('should read doubled quotes in quoted fields', () => {
+      expect(parseGlossaryCsv('term,de\n"The ""Inbox"" tab","Der Tab „Posteingang“"')).toEqual([
+        { term: 'The "Inbox" tab', translation: 'Der Tab „Posteingang“', language: 'de' },
+      ]);
+    });
+  });
+
+  describe('parseTbx', () => {
+    it('should read TBX 2 term entries', () => {
+      const tbx = `<?xml version="1.0" encoding="UTF-8"?>
+<martif type="TBX" xml:lang="en">
+  <text>
+    <body>
+      <termEntry id="c1">
+        <langSet xml:lang="en-US"><tig><term>Sign in</term></tig></langSet>
+        <langSet xml:lang="de-DE"><tig><term>Anmelden</term></tig></langSet>
+        <langSet xml:lang="fr"><ntig><termGrp><term>Se connecter</term></termGrp></ntig></langSet>
+      </termEntry>
+      <termEntry id="c2">
+        <langSet xml:lang="en">
+          <tig>
+            <term>Acme</term>
+            <termNote type="translatable">no</termNote>
+          </tig>
+        </langSet>
+      </termEntry>
+      <termEntry id="c3">
+        <langSet xml:lang="de"><tig><term>Nur Deutsch</term></tig></langSet>
+      </termEntry>
+    </body>
+  </text>
+</martif>`;
+
+      expect(parseTbx(tbx, 'en')).toEqual([
+        { term: 'Sign in', translation: 'Anmelden', language: 'de-DE' },
+        { term: 'Sign in', translation: 'Se connecter', language: 'fr' },
+        { term: 'Acme' },
+      ]);
+    });
+
+    it('should read TBX 3 concept entries', () => {
+      const tbx = `<?xml version="1.0" encoding="UTF-8"?>
+<tbx type="TBX-Basic" style="dca" xml:lang="en" xmlns="urn:iso:std:iso:30042:ed-2">
+  <text>
+    <body>
+      <conceptEntry id="c1">
+        <langSec xml:lang="en"><termSec><term>file</term></termSec></langSec>
+        <langSec xml:lang="de"><termSec><term>Datei</term></termSec></langSec>
+      </conceptEntry>
+    </body>
+  </text>
+</tbx>`;
+
+      expect(parseTbx(tbx, 'en')).toEqual([{ term: 'file', translation: 'Datei', language: 'de' }]);
+    });
+  });
+});
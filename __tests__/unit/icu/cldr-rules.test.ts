@@ -4,6 +4,8 @@ import {
   getOrdinalCategories,
   getCategoryExamples,
   formatCategoryDescription,
+  getGettextPluralForms,
+  formatGettextPluralFormsHeader,
 } from '../../../src/icu/cldr-rules';
 
 describe('CLDR Rules', () => {
@@ -98,6 +100,42 @@ describe('CLDR Rules', () => {
     });
   });
 
+  describe('getGettextPluralForms', () => {
+    it('should use two forms for English and German', () => {
+      expect(getGettextPluralForms('en')).toEqual({
+        nplurals: 2,
+        plural: 'n != 1',
+        categories: ['one', 'other'],
+      });
+      expect(formatGettextPluralFormsHeader('de')).toBe('nplurals=2; plural=n != 1;');
+    });
+
+    it('should drop fraction-only categories for Russian', () => {
+      const forms = getGettextPluralForms('ru');
+
+      expect(forms.nplurals).toBe(3);
+      expect(forms.categories).toEqual(['one', 'few', 'many']);
+    });
+
+    it('should use a single form for languages without plurals', () => {
+      expect(formatGettextPluralFormsHeader('ja')).toBe('nplurals=1; plural=0;');
+    });
+
+    it('should select the CLDR one form for zero in Portuguese', () => {
+      const { plural, categories } = getGettextPluralForms('pt');
+      const select = new Function('n', `return Number(${plural});`) as (n: number) => number;
+
+      expect(categories[select(0)]).toBe('one');
+      expect(categories[select(1)]).toBe('one');
+      expect(categories[select(2)]).toBe('other');
+      expect(categories[select(1000000)]).toBe('many');
+    });
+
+    it('should map all six Arabic categories', () => {
+      expect(getGettextPluralForms('ar').nplurals).toBe(6);
+    });
+  });
+
   describe('language coverage', () => {
     const languages = [
       'en',
@@ -0,0 +1,231 @@
+import {
+  composeResponse,
+  decomposeICUMessage,
+  decomposeRequest,
+  getSentences,
+  reconstructDecomposedMessage,
+} from '../../../src/icu/decomposer';
+import { parseICUMessage } from '../../../src/icu/parser';
+import { createOrchestrator } from '../../../src/translators/factory';
+import type { MessageNode } from '../../../src/icu/decomposer';
+import type { TranslationRequest } from '../../../src/types/translation';
+
+/**
+ * Decompose a message that has plural or select elements
+ */
+const decompose = (id: string, message: string, targetLanguage: string): MessageNode => {
+  const root = decomposeICUMessage(id, message, targetLanguage);
+  if (!root) {
+    throw new Error(`Message was not decomposed: ${message}`);
+  }
+  return root;
+};
+
+/**
+ * Translate every sentence of a decomposed message as "[de] <sentence>"
+ */
+const translateAll = (root: MessageNode): Map<string, string> =>
+  new Map(getSentences(root).map(sentence => [sentence.id, `[de] ${sentence.text}`]));
+
+describe('ICU Decomposer', () => {
+  describe('decomposeICUMessage', () => {
+    it('should move the surrounding text into each plural variant', () => {
+      const root = decompose(
+        'files',
+        'You have {count, plural, one {# file} other {# files}} in {folder}.',
+        'ru'
+      );
+
+      expect(getSentences(root).map(s => [s.id, s.text])).toEqual([
+        ['files#count=one', 'You have # file in {folder}.'],
+        ['files#count=few', 'You have # files in {folder}.'],
+        ['files#count=many', 'You have # files in {folder}.'],
+        ['files#count=other', 'You have # files in {folder}.'],
+      ]);
+      expect(getSentences(root)[1]?.forms[0]).toContain('few: Used for small numbers');
+    });
+
+    it('should return undefined for messages without plural or select elements', () => {
+      expect(decomposeICUMessage('greeting', 'Hello {name}!', 'de')).toBeUndefined();
+    });
+
+    it('should decompose select inside plural and keep the offset', () => {
+      const message =
+        '{count, plural, offset:1 =0 {Nobody liked it} one {{gender, select, female {She} other {They}} liked it} other {{gender, select, female {She and # others} other {They and # others}} liked it}}';
+
+      const root = decompose('likes', message, 'de');
+      const target = reconstructDecomposedMessage(root, translateAll(root));
+
+      expect(getSentences(root)).toHaveLength(5);
+      expect(target).toBe(
+        '{count, plural, offset:1 =0 {[de] Nobody liked it} one {{gender, select, female {[de] She liked it} other {[de] They liked it}}} other {{gender, select, female {[de] She and # others liked it} other {[de] They and # others liked it}}}}'
+      );
+      expect(parseICUMessage(target ?? '').elements).toHaveLength(1);
+    });
+
+    it('should nest later elements inside the variants of the first', () => {
+      const root = decompose(
+        'summary',
+        '{files, plural, one {# file} other {# files}} and {dirs, plural, one {# folder} other {# folders}}',
+        'en'
+      );
+
+      expect(reconstructDecomposedMessage(root, translateAll(root))).toBe(
+        '{files, plural, one {{dirs, plural, one {[de] # file and # folder} other {[de] # file and # folders}}} other {{dirs, plural, one {[de] # files and # folder} other {[de] # files and # folders}}}}'
+      );
+    });
+
+    it('should keep the double-brace interpolations of i18next plurals', () => {
+      const root = decompose(
+        'inbox.messages',
+        '{count, plural, one {You have {{count}} message} other {You have {{count}} messages}}',
+        'pl'
+      );
+
+      expect(getSentences(root).map(s => [s.id, s.text])).toEqual([
+        ['inbox.messages#count=one', 'You have {{count}} message'],
+        ['inbox.messages#count=few', 'You have {{count}} messages'],
+        ['inbox.messages#count=many', 'You have {{count}} messages'],
+        ['inbox.messages#count=other', 'You have {{count}} messages'],
+      ]);
+      expect(reconstructDecomposedMessage(root, translateAll(root))).toBe(
+        '{count, plural, one {[de] You have {{count}} message} few {[de] You have {{count}} messages} many {[de] You have {{count}} messages} other {[de] You have {{count}} messages}}'
+      );
+    });
+
+    it('should return undefined when a sentence has no translation', () => {
+      const root = decompose('files', '{n, plural, one {# file} other {# files}}', 'de');
+      const translations = translateAll(root);
+      translations.delete('files#n=one');
+
+      expect(reconstructDecomposedMessage(root, translations)).toBeUndefined();
+    });
+  });
+
+  describe('decomposeRequest and composeResponse', () => {
+    const request: TranslationRequest = {
+      units: [
+        { id: 'title', source: 'Files', hash: 'h1', metadata: { file: 'en.json' } },
+        {
+          id: 'count',
+          source: '{n, plural, one {# file} other {# files}}',
+          context: 'File list header',
+          hash: 'h2',
+          metadata: { file: 'en.json' },
+        },
+      ],
+      sourceLanguage: 'en',
+      targetLanguage: 'de',
+      preserveFormatting: true,
+      preservePlaceholders: true,
+    };
+
+    it('should send one unit per sentence with the form as context', () => {
+      const { request: decomposed } = decomposeRequest(request);
+
+      expect(decomposed.units.map(u => [u.id, u.source])).toEqual([
+        ['title', 'Files'],
+        ['count#n=one', '# file'],
+        ['count#n=other', '# files'],
+      ]);
+      expect(decomposed.units[1]?.context).toMatch(/^File list header; Variant of an ICU message/);
+      expect(decomposed.units[1]?.hash).toBe('h2');
+    });
+
+    it('should not send the existing translation of a message with its sentences', () => {
+      const { request: decomposed } = decomposeRequest({
+        ...request,
+        units: request.units.map(unit => ({
+          ...unit,
+          metadata: { ...unit.metadata, revision: { translation: 'Dateien' } },
+        })),
+      });
+
+      expect(decomposed.units.map(u => u.metadata.revision)).toEqual([
+        { translation: 'Dateien' },
+        undefined,
+        undefined,
+      ]);
+    });
+
+    it('should not send the correction of a message with its sentences', () => {
+      const correction = {
+        translation: '{count, plural, one {# Datei} other {# Dateien von {user}}}',
+        issues: ['Unexpected argument: {user}'],
+      };
+      const { request: decomposed } = decomposeRequest({
+        ...request,
+        units: request.units.map(unit => ({ ...unit, metadata: { ...unit.metadata, correction } })),
+      });
+
+      expect(decomposed.units.map(u => u.metadata.correction)).toEqual([
+        correction,
+        undefined,
+        undefined,
+      ]);
+    });
+
+    it('should reconstruct messages and report the missing sentences', () => {
+      const decomposed = decomposeRequest(request);
+
+      const complete = composeResponse(decomposed, {
+        translations: [
+          { id: 'title', source: 'Files', target: 'Dateien' },
+          { id: 'count#n=one', source: '# file', target: '# Datei', provider: 'openai' },
+          { id: 'count#n=other', source: '# files', target: '# Dateien', provider: 'openai' },
+        ],
+        failures: [],
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+      });
+
+      expect(complete.translations).toEqual([
+        { id: 'title', source: 'Files', target: 'Dateien' },
+        {
+          id: 'count',
+          source: '{n, plural, one {# file} other {# files}}',
+          target: '{n, plural, one {# Datei} other {# Dateien}}',
+          provider: 'openai',
+        },
+      ]);
+
+      const partial = composeResponse(decomposed, {
+        translations: [{ id: 'count#n=one', source: '# file', target: '# Datei' }],
+        failures: [{ id: 'count#n=other', reason: 'Translation is empty' }],
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+      });
+
+      expect(partial.translations).toEqual([]);
+      expect(partial.failures).toEqual([
+        { id: 'count', reason: expect.stringMatching(/^Translation is empty \(\{n\} in plural/) },
+      ]);
+    });
+  });
+
+  it('should translate complex messages through the orchestrator', async () => {
+    const orchestrator = createOrchestrator({
+      provider: 'pseudo',
+      pseudo: { expansion: 0, brackets: false },
+    });
+
+    const response = await orchestrator.translate({
+      units: [
+        {
+          id: 'files',
+          source: 'You have {count, plural, one {# file} other {# files}}',
+          hash: 'h1',
+          metadata: { file: 'en.json' },
+        },
+      ],
+      sourceLanguage: 'en',
+      targetLanguage: 'pl',
+      preserveFormatting: true,
+      preservePlaceholders: true,
+    });
+
+    expect(response.translations.map(t => t.target)).toEqual([
+      '{count, plural, one {Ýöû ĥåṽé # ƒîļé} few {Ýöû ĥåṽé # ƒîļéš} many {Ýöû ĥåṽé # ƒîļéš} other {Ýöû ĥåṽé # ƒîļéš}}',
+    ]);
+  });
+});
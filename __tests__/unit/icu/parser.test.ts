@@ -1,4 +1,9 @@
-import { parseICUMessage, hasICUPatterns, extractVariables } from '../../../src/icu/parser';
+import {
+  parseICUMessage,
+  hasICUPatterns,
+  extractVariables,
+  splitPluralSegments,
+} from '../../../src/icu/parser';
 
 describe('ICU Parser', () => {
   describe('parseICUMessage', () => {
@@ -39,6 +44,22 @@ describe('ICU Parser', () => {
       }
     });
 
+    it('should parse plural message', () => {
+      const result = parseICUMessage('{count, plural, one {# item} other {# items}}');
+
+      expect(result.hasPlurals).toBe(true);
+
+      const pluralElement = result.elements.find(e => e.type === 'plural');
+      expect(pluralElement?.type).toBe('plural');
+      if (pluralElement?.type === 'plural') {
+        expect(pluralElement.offset).toBeUndefined();
+        expect(pluralElement.variants).toEqual([
+          { category: 'one', text: '# item' },
+          { category: 'other', text: '# items' },
+        ]);
+      }
+    });
+
     it('should parse plural with offset', () => {
       const result = parseICUMessage(
         '{count, plural, offset:1 =0 {No items} one {One item} other {# items}}'
@@ -71,6 +92,10 @@ describe('ICU Parser', () => {
       }
     });
 
+    it('should reject an unmatched closing brace', () => {
+      expect(() => parseICUMessage('Hello } World')).toThrow('Unmatched } in message');
+    });
+
     it('should parse nested ICU patterns', () => {
       const result = parseICUMessage(
         '{gender, select, male {{count, plural, one {He has # item} other {He has # items}}} other {{count, plural, one {They have # item} other {They have # items}}}}'
@@ -109,4 +134,24 @@ describe('ICU Parser', () => {
       expect(variables.length).toBe(2);
     });
   });
+
+  describe('splitPluralSegments', () => {
+    it('should split plurals from verbatim text', () => {
+      const segments = splitPluralSegments(
+        "It's {files, plural, one {# file} other {# files}} here"
+      );
+
+      expect(segments.map(s => (s.type === 'text' ? s.value : s.name))).toEqual([
+        "It's ",
+        'files',
+        ' here',
+      ]);
+    });
+
+    it('should leave simple arguments in the text', () => {
+      expect(splitPluralSegments('Hello {name}')).toEqual([
+        { type: 'text', value: 'Hello {name}' },
+      ]);
+    });
+  });
 });
@@ -0,0 +1,127 @@
+import {
+  addTmxTranslations,
+  createTmxDocument,
+  getTmxExportPath,
+  getTmxTranslations,
+  parseTmx,
+  serializeTmx,
+} from '../../../src/memory/tmx';
+
+const tmx = `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="Vendor" creationtoolversion="2" datatype="html" segtype="sentence" adminlang="en" srclang="en-US" o-tmf="vendor"/>
+  <body>
+    <tu tuid="click">
+      <tuv xml:lang="en-US">
+        <seg>Click <bpt i="1">&lt;b&gt;</bpt>here<ept i="1">&lt;/b&gt;</ept> to continue<ph x="2">&lt;br/&gt;</ph></seg>
+      </tuv>
+      <tuv xml:lang="de-DE">
+        <seg>Klicken Sie <bpt i="1">&lt;b&gt;</bpt>hier<ept i="1">&lt;/b&gt;</ept>, um fortzufahren<ph x="2">&lt;br/&gt;</ph></seg>
+      </tuv>
+    </tu>
+    <tu>
+      <tuv xml:lang="en-US"><seg>Press <hi type="b">Save</hi></seg></tuv>
+      <tuv xml:lang="fr-FR"><seg>Appuyez sur <hi type="b">Enregistrer</hi></seg></tuv>
+    </tu>
+  </body>
+</tmx>
+`;
+
+describe('TMX', () => {
+  describe('parseTmx', () => {
+    it('should map inline tags to placeholder markers', () => {
+      const document = parseTmx(tmx);
+
+      expect(document.sourceLanguage).toBe('en-US');
+      expect(document.units).toHaveLength(2);
+      expect(document.units[0]?.id).toBe('click');
+
+      const [source] = document.units[0]?.variants ?? [];
+      expect(source?.language).toBe('en-US');
+      expect(source?.text).toBe('Click {{1}}here{{1}} to continue{{2}}');
+      expect(source?.placeholders).toEqual([
+        { marker: '{{1}}', tagName: 'bpt', attributes: { i: '1' }, content: '<b>' },
+        { marker: '{{1}}', tagName: 'ept', attributes: { i: '1' }, content: '</b>' },
+        { marker: '{{2}}', tagName: 'ph', attributes: { x: '2' }, content: '<br/>' },
+      ]);
+    });
+
+    it('should keep the text of highlighted spans', () => {
+      const document = parseTmx(tmx);
+
+      expect(document.units[1]?.variants.map(variant => variant.text)).toEqual([
+        'Press Save',
+        'Appuyez sur Enregistrer',
+      ]);
+    });
+
+    it('should reject documents without a tmx element', () => {
+      expect(() => parseTmx('<xliff version="1.2"/>')).toThrow('Missing <tmx> element');
+    });
+  });
+
+  describe('getTmxTranslations', () => {
+    it('should pair the segments of the source and target languages', () => {
+      const document = parseTmx(tmx);
+
+      expect(getTmxTranslations(document, 'en', 'de')).toEqual([
+        {
+          source: 'Click {{1}}here{{1}} to continue{{2}}',
+          target: 'Klicken Sie {{1}}hier{{1}}, um fortzufahren{{2}}',
+        },
+      ]);
+      expect(getTmxTranslations(document, 'en', 'fr')).toEqual([
+        { source: 'Press Save', target: 'Appuyez sur Enregistrer' },
+      ]);
+      expect(getTmxTranslations(document, 'en', 'ja')).toEqual([]);
+    });
+  });
+
+  describe('serializeTmx', () => {
+    it('should write inline tags back from placeholder markers', () => {
+      const document = parseTmx(tmx);
+      const serialized = serializeTmx(document);
+
+      expect(serialized).toContain('srclang="en-US"');
+      expect(serialized).toContain(
+        '<seg>Click <bpt i="1">&lt;b&gt;</bpt>here<ept i="1">&lt;/b&gt;</ept> to continue<ph x="2">&lt;br/&gt;</ph></seg>'
+      );
+      expect(parseTmx(serialized)).toEqual(document);
+    });
+
+    it('should convert XLIFF placeholders to TMX inline tags', () => {
+      const document = createTmxDocument('en');
+
+      addTmxTranslations(document, 'de', [
+        {
+          source: 'Hello {{1}}{{name}}{{2}} & welcome',
+          target: 'Hallo {{1}}{{name}}{{2}} & willkommen',
+          placeholders: [
+            { marker: '{{1}}', tagName: 'bx', attributes: { id: '1', rid: '1' } },
+            {
+              marker: '{{name}}',
+              tagName: 'x',
+              attributes: { id: 'name', 'equiv-text': '{name}' },
+            },
+            { marker: '{{2}}', tagName: 'ex', attributes: { id: '2', rid: '1' } },
+          ],
+        },
+        {
+          source: 'Hello {{1}}{{name}}{{2}} & welcome',
+          target: 'Hallo {{1}}{{name}}{{2}} & willkommen',
+        },
+      ]);
+
+      expect(document.units).toHaveLength(1);
+      expect(serializeTmx(document)).toContain(
+        '<seg>Hallo <bpt i="1"></bpt><ph x="1">{name}</ph><ept i="1"></ept> &amp; willkommen</seg>'
+      );
+    });
+  });
+
+  describe('getTmxExportPath', () => {
+    it('should name files after the language pair', () => {
+      expect(getTmxExportPath('tmx', 'en', 'de-AT')).toBe('tmx/en_de-AT.tmx');
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import {
+  addToTranslationMemory,
+  applyTranslationMemory,
+  createTranslationMemory,
+  findFuzzyMatches,
+  getExactMatch,
+  getSimilarity,
+  MEMORY_PROVIDER,
+  parseTranslationMemory,
+  serializeTranslationMemory,
+  TranslationMemory,
+} from '../../../src/memory/translation-memory';
+import type { TranslationRequest } from '../../../src/types/translation';
+
+const options = { fuzzyThreshold: 75, maxReferences: 3 };
+
+function createMemory(): TranslationMemory {
+  const memory = createTranslationMemory('en');
+  addToTranslationMemory(memory, 'de', [
+    { source: 'Save file', target: 'Datei speichern' },
+    { source: 'Delete file', target: 'Datei löschen' },
+    { source: 'Welcome back', target: 'Willkommen zurück' },
+  ]);
+  return memory;
+}
+
+function createRequest(sources: string[]): TranslationRequest {
+  return {
+    units: sources.map((source, i) => ({
+      id: `u${i}`,
+      source,
+      metadata: { file: 'en.json' },
+      hash: '',
+    })),
+    sourceLanguage: 'en',
+    targetLanguage: 'de',
+    preserveFormatting: true,
+    preservePlaceholders: true,
+  };
+}
+
+describe('Translation memory', () => {
+  describe('addToTranslationMemory', () => {
+    it('should key translations by normalized source and skip empty ones', () => {
+      const memory = createTranslationMemory('en');
+
+      addToTranslationMemory(memory, 'fr', [
+        { source: 'Café', target: 'Café' },
+        { source: 'Empty', target: ' ' },
+      ]);
+
+      expect(getExactMatch(memory, 'fr', 'Café')).toBe('Café');
+      expect(getExactMatch(memory, 'fr', 'Empty')).toBeUndefined();
+      expect(getExactMatch(memory, 'de', 'Café')).toBeUndefined();
+    });
+
+    it('should keep translations of the same source in different contexts apart', () => {
+      const memory = createTranslationMemory('en');
+
+      addToTranslationMemory(memory, 'de', [
+        { source: 'Open', target: 'Öffnen', context: 'menu' },
+        { source: 'Open', target: 'Geöffnet', context: 'status' },
+      ]);
+
+      expect(getExactMatch(memory, 'de', 'Open', 'menu')).toBe('Öffnen');
+      expect(getExactMatch(memory, 'de', 'Open', 'status')).toBe('Geöffnet');
+      expect(getExactMatch(memory, 'de', 'Open')).toBeUndefined();
+    });
+  });
+
+  describe('getSimilarity', () => {
+    it('should score similarity from the edit distance', () => {
+      expect(getSimilarity('Save file', 'Save file')).toBe(100);
+      expect(getSimilarity('Save file', 'Save files')).toBe(90);
+      expect(getSimilarity('abc', 'xyz')).toBe(0);
+      expect(getSimilarity('', '')).toBe(100);
+    });
+  });
+
+  describe('findFuzzyMatches', () => {
+    it('should return near matches above the threshold, most similar first', () => {
+      const matches = findFuzzyMatches(createMemory(), 'de', 'Save files', options);
+
+      expect(matches).toEqual([{ source: 'Save file', target: 'Datei speichern', similarity: 90 }]);
+    });
+
+    it('should compare sources without their context', () => {
+      const memory = createTranslationMemory('en');
+      addToTranslationMemory(memory, 'de', [
+        { source: 'Open', target: 'Öffnen', context: 'menu' },
+        { source: 'Open file', target: 'Datei öffnen', context: 'menu' },
+      ]);
+
+      expect(findFuzzyMatches(memory, 'de', 'Open', options, 'status')).toEqual([
+        { source: 'Open', target: 'Öffnen', similarity: 100 },
+      ]);
+      expect(findFuzzyMatches(memory, 'de', 'Open', options, 'menu')).toEqual([]);
+    });
+
+    it('should skip sources whose length ratio is below the threshold', () => {
+      const memory = createTranslationMemory('en');
+      addToTranslationMemory(memory, 'de', [
+        { source: 'Save', target: 'Speichern' },
+        { source: 'Save all', target: 'Alle speichern' },
+      ]);
+
+      expect(findFuzzyMatches(memory, 'de', 'Save as', { ...options, fuzzyThreshold: 60 })).toEqual(
+        [{ source: 'Save all', target: 'Alle speichern', similarity: 75 }]
+      );
+    });
+
+    it('should leave out exact matches and apply the limit', () => {
+      const memory = createMemory();
+
+      expect(findFuzzyMatches(memory, 'de', 'Save file', options)).toEqual([]);
+      expect(
+        findFuzzyMatches(memory, 'de', 'Save file', { fuzzyThreshold: 50, maxReferences: 1 })
+      ).toEqual([{ source: 'Delete file', target: 'Datei löschen', similarity: 55 }]);
+    });
+
+    it('should include sources whose length ratio rounds up to the threshold', () => {
+      const memory = createTranslationMemory('en');
+      addToTranslationMemory(memory, 'de', [{ source: 'Save all', target: 'Alle speichern' }]);
+
+      // 7 of 8 characters is 87.5%, which rounds to 88
+      expect(findFuzzyMatches(memory, 'de', 'Save al', { ...options, fuzzyThreshold: 88 })).toEqual(
+        [{ source: 'Save all', target: 'Alle speichern', similarity: 88 }]
+      );
+    });
+
+    it('should look up thousands of units in thousands of entries quickly', () => {
+      // Sentences of a fixed vocabulary, from a seeded generator
+      let seed = 1;
+      const random = (): number => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+      const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)] as T;
+      const letters = [...'abcdefghijklmnopqrstuvwxyz'];
+      const words = Array.from({ length: 400 }, () =>
+        Array.from({ length: 1 + Math.floor(random() * 8) }, () => pick(letters)).join('')
+      );
+      const createSentence = (): string =>
+        Array.from({ length: 1 + Math.floor(random() * 10) }, () => pick(words)).join(' ');
+      const edit = (text: string): string =>
+        [...text].map(char => (random() < 0.08 ? 'x' : char)).join('');
+
+      const sources = Array.from({ length: 3000 }, createSentence);
+      const memory = createTranslationMemory('en');
+      addToTranslationMemory(
+        memory,
+        'de',
+        sources.map(source => ({ source, target: source.toUpperCase() }))
+      );
+      const request = createRequest(
+        Array.from({ length: 2000 }, (_, i) =>
+          i % 2 === 0 ? createSentence() : edit(sources[i] ?? '')
+        )
+      );
+
+      const start = Date.now();
+      const lookup = applyTranslationMemory(memory, request, options);
+
+      expect(Date.now() - start).toBeLessThan(10000);
+      expect(lookup.referencedUnits).toBeGreaterThan(500);
+
+      // Narrowing the candidates leaves out no near match
+      for (const unit of lookup.request.units.slice(0, 20)) {
+        const expected = [...new Set(sources)]
+          .map(source => ({ source, similarity: getSimilarity(source, unit.source) }))
+          .filter(
+            match => match.similarity >= options.fuzzyThreshold && match.source !== unit.source
+          );
+        expect(
+          findFuzzyMatches(memory, 'de', unit.source, { ...options, maxReferences: sources.length })
+            .map(match => match.source)
+            .sort()
+        ).toEqual(expected.map(match => match.source).sort());
+      }
+    });
+  });
+
+  describe('applyTranslationMemory', () => {
+    it('should reuse exact matches and send the other units with near matches', () => {
+      const lookup = applyTranslationMemory(
+        createMemory(),
+        createRequest(['Save file', 'Save files', 'Good morning']),
+        options
+      );
+
+      expect(lookup.reused).toEqual([
+        {
+          id: 'u0',
+          source: 'Save file',
+          target: 'Datei speichern',
+          provider: MEMORY_PROVIDER,
+          model: 'exact match',
+        },
+      ]);
+      expect(lookup.request.units.map(unit => unit.id)).toEqual(['u1', 'u2']);
+      expect(lookup.request.units[0]?.metadata.memoryMatches).toEqual([
+        { source: 'Save file', target: 'Datei speichern', similarity: 90 },
+      ]);
+      expect(lookup.request.units[1]?.metadata.memoryMatches).toBeUndefined();
+      expect(lookup.referencedUnits).toBe(1);
+      expect(lookup.estimatedTokensSaved).toBeGreaterThan(0);
+    });
+
+    it('should match units in their context', () => {
+      const memory = createTranslationMemory('en');
+      addToTranslationMemory(memory, 'de', [{ source: 'Open', target: 'Öffnen', context: 'menu' }]);
+      const request = createRequest(['Open', 'Open']);
+      request.units = request.units.map((unit, i) => ({
+        ...unit,
+        context: i === 0 ? 'menu' : 'status',
+      }));
+
+      const lookup = applyTranslationMemory(memory, request, options);
+
+      expect(lookup.reused.map(t => [t.id, t.target])).toEqual([['u0', 'Öffnen']]);
+      expect(lookup.request.units.map(unit => unit.id)).toEqual(['u1']);
+    });
+
+    it('should send units with a translation to revise', () => {
+      const request = createRequest(['Save file']);
+      request.units = request.units.map(unit => ({
+        ...unit,
+        metadata: {
+          ...unit.metadata,
+          revision: { previousSource: 'Save', translation: 'Speichern', reviewed: true },
+        },
+      }));
+
+      const lookup = applyTranslationMemory(createMemory(), request, options);
+
+      expect(lookup.reused).toEqual([]);
+      expect(lookup.request.units.map(unit => unit.id)).toEqual(['u0']);
+    });
+  });
+
+  describe('parseTranslationMemory', () => {
+    it('should round-trip a serialized memory with sorted entries', () => {
+      const json = serializeTranslationMemory(createMemory());
+
+      expect(Object.keys(JSON.parse(json).languages.de)).toEqual([
+        'Delete file',
+        'Save file',
+        'Welcome back',
+      ]);
+      expect(parseTranslationMemory(json, 'en')).toEqual(createMemory());
+    });
+
+    it('should start over for another source language', () => {
+      const json = serializeTranslationMemory(createMemory());
+
+      expect(parseTranslationMemory(json, 'fr')).toEqual(createTranslationMemory('fr'));
+    });
+
+    it('should reject unsupported versions', () => {
+      expect(() => parseTranslationMemory('{"version": 99}', 'en')).toThrow(
+        'Unsupported translation memory version: 99'
+      );
+    });
+  });
+});
@@ -4,7 +4,9 @@ import {
   createErrorEntry,
   getStatusEmoji,
   getReportSummary,
+  countTranslationsByProvider,
 } from '../../../src/reporter/reporter';
+import { generateMarkdownReport } from '../../../src/reporter/markdown';
 
 describe('Reporter', () => {
   describe('ReportBuilder', () => {
@@ -111,6 +113,179 @@ describe('Reporter', () => {
       expect(report.startTime).toBeDefined();
       expect(report.endTime).toBeDefined();
     });
+
+    it('should add up token usage with cache tokens', () => {
+      const builder = new ReportBuilder();
+
+      builder.setConfig({
+        provider: 'anthropic',
+        sourceLanguage: 'en',
+        targetLanguages: ['de'],
+      });
+      builder.addTokenUsage({
+        inputTokens: 100,
+        outputTokens: 40,
+        cacheReadInputTokens: 0,
+        cacheWriteInputTokens: 1200,
+      });
+      builder.addTokenUsage({
+        inputTokens: 80,
+        outputTokens: 30,
+        cacheReadInputTokens: 1200,
+        cacheWriteInputTokens: 0,
+      });
+      builder.addTokenUsage(undefined);
+
+      const report = builder.build();
+
+      expect(report.usage).toEqual({
+        inputTokens: 180,
+        outputTokens: 70,
+        cacheReadInputTokens: 1200,
+        cacheWriteInputTokens: 1200,
+      });
+
+      const markdown = generateMarkdownReport(report);
+      expect(markdown).toContain('| Input Tokens | 180 |');
+      expect(markdown).toContain('| Cache Read Tokens | 1200 |');
+      expect(markdown).toContain('| Cache Write Tokens | 1200 |');
+      expect(markdown).toContain('| Input Read From Cache | 46.5% |');
+    });
+
+    it('should leave out cache rows when no cache tokens were reported', () => {
+      const builder = new ReportBuilder();
+      builder.addTokenUsage({ inputTokens: 10, outputTokens: 5 });
+
+      const report = builder.build();
+
+      expect(report.usage).toEqual({ inputTokens: 10, outputTokens: 5 });
+      expect(generateMarkdownReport(report)).not.toContain('Cache Read Tokens');
+      expect(new ReportBuilder().build().usage).toBeUndefined();
+    });
+
+    it('should count translations by provider and model', () => {
+      const builder = new ReportBuilder();
+      const file = {
+        targetLanguage: 'de',
+        unitsProcessed: 3,
+        unitsTranslated: 3,
+        unitsFailed: 0,
+        unitsSkipped: 0,
+      };
+
+      builder.addFileReport({
+        ...file,
+        filePath: 'de.json',
+        providers: countTranslationsByProvider(
+          [
+            { id: 'a', source: 'A', target: 'A', provider: 'openai', model: 'gpt-4o-mini' },
+            { id: 'b', source: 'B', target: 'B' },
+            { id: 'c', source: 'C', target: 'C' },
+          ],
+          { provider: 'anthropic', model: 'claude-3-haiku-20240307' }
+        ),
+      });
+      builder.addFileReport({
+        ...file,
+        filePath: 'fr.json',
+        providers: [{ provider: 'openai', model: 'gpt-4o-mini', translatedUnits: 3 }],
+      });
+
+      const report = builder.build();
+
+      expect(report.providers).toEqual([
+        { provider: 'openai', model: 'gpt-4o-mini', translatedUnits: 4 },
+        { provider: 'anthropic', model: 'claude-3-haiku-20240307', translatedUnits: 2 },
+      ]);
+      expect(generateMarkdownReport(report)).toContain('| openai | gpt-4o-mini | 4 |');
+    });
+
+    it('should break down translations and usage by route', () => {
+      const builder = new ReportBuilder();
+      const response = (count: number, inputTokens: number) => ({
+        translations: Array.from({ length: count }, (_, i) => ({
+          id: `u${i}`,
+          source: 'Source',
+          target: 'Ziel',
+        })),
+        usage: { inputTokens, outputTokens: inputTokens / 10 },
+        provider: 'anthropic',
+        model: 'claude-3-5-sonnet-20241022',
+      });
+
+      builder.addRouteUsage('cjk', response(2, 300));
+      builder.addRouteUsage('cjk', response(1, 200));
+
+      const report = builder.build();
+
+      expect(report.routes).toEqual([
+        {
+          name: 'cjk',
+          provider: 'anthropic',
+          model: 'claude-3-5-sonnet-20241022',
+          translatedUnits: 3,
+          usage: { inputTokens: 500, outputTokens: 50 },
+        },
+      ]);
+      expect(generateMarkdownReport(report)).toContain(
+        '| cjk | anthropic | claude-3-5-sonnet-20241022 | 3 | 500 | 50 |'
+      );
+      expect(new ReportBuilder().build().routes).toBeUndefined();
+    });
+
+    it('should report the distribution of quality scores', () => {
+      const builder = new ReportBuilder();
+      const translations = [95, 92, 80, 60, 30, undefined].map((confidence, i) => ({
+        id: `u${i}`,
+        source: 'Source',
+        target: 'Ziel',
+        confidence,
+      }));
+
+      builder.addQualityScores(translations, 70);
+
+      const report = builder.build();
+
+      expect(report.quality).toEqual({
+        threshold: 70,
+        reviewedUnits: 5,
+        needsReview: 2,
+        averageScore: 71,
+        distribution: [
+          { range: '90-100', units: 2 },
+          { range: '75-89', units: 1 },
+          { range: '50-74', units: 1 },
+          { range: '0-49', units: 1 },
+        ],
+      });
+
+      const markdown = generateMarkdownReport(report);
+      expect(markdown).toContain(
+        'Average score **71** across 5 reviewed translation(s); **2** scored below 70 and need review.'
+      );
+      expect(markdown).toContain('| 90-100 | 2 |');
+      expect(new ReportBuilder().build().quality).toBeUndefined();
+    });
+
+    it('should report units served from the translation memory', () => {
+      const builder = new ReportBuilder();
+
+      builder.addMemoryUsage({ reusedUnits: 3, referencedUnits: 1, estimatedTokensSaved: 42 });
+      builder.addMemoryUsage({ reusedUnits: 2, referencedUnits: 0, estimatedTokensSaved: 18 });
+
+      const report = builder.build();
+
+      expect(report.memory).toEqual({
+        reusedUnits: 5,
+        referencedUnits: 1,
+        estimatedTokensSaved: 60,
+      });
+
+      const markdown = generateMarkdownReport(report);
+      expect(markdown).toContain('| Reused from memory | 5 |');
+      expect(markdown).toContain('| Estimated tokens saved | 60 |');
+      expect(new ReportBuilder().build().memory).toBeUndefined();
+    });
   });
 
   describe('formatDuration', () => {
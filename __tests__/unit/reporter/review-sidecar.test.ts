@@ -0,0 +1,49 @@
+import {
+  createReviewSidecar,
+  getReviewSidecarPath,
+  parseReviewSidecar,
+  serializeReviewSidecar,
+  updateReviewSidecar,
+} from '../../../src/reporter/review-sidecar';
+
+const quality = (score: number) => ({
+  accuracy: score,
+  fluency: score,
+  terminology: score,
+  rationale: score < 70 ? 'Major: mistranslation' : 'No errors',
+});
+
+describe('Review sidecar', () => {
+  it('should be stored next to the output file', () => {
+    expect(getReviewSidecarPath('locales/de.json')).toBe('locales/de.json.review.json');
+  });
+
+  it('should record translations that need review and drop retranslated ones', () => {
+    const sidecar = createReviewSidecar();
+    const needsReview = (t: { confidence?: number }) => (t.confidence ?? 100) < 70;
+
+    updateReviewSidecar(
+      sidecar,
+      [
+        { id: 'b', source: 'Cancel', target: 'Stornieren', confidence: 50, quality: quality(50) },
+        { id: 'a', source: 'Save', target: 'Sichern', confidence: 60, quality: quality(60) },
+      ],
+      needsReview
+    );
+    updateReviewSidecar(
+      sidecar,
+      [{ id: 'a', source: 'Save', target: 'Speichern', confidence: 95, quality: quality(95) }],
+      needsReview
+    );
+
+    const parsed = parseReviewSidecar(serializeReviewSidecar(sidecar));
+
+    expect(parsed.units).toEqual({
+      b: { source: 'Cancel', target: 'Stornieren', confidence: 50, ...quality(50) },
+    });
+  });
+
+  it('should start over when the file is not a sidecar', () => {
+    expect(parseReviewSidecar('[]')).toEqual(createReviewSidecar());
+  });
+});
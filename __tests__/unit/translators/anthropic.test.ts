@@ -0,0 +1,123 @@
+import { createOrchestrator } from '../../../src/translators/factory';
+import type { TranslationRequest } from '../../../src/types/translation';
+import { ReceivedRequest, startServer, translatePrompt } from '../../helpers/http-server';
+
+/**
+ * Body of a Messages API request
+ */
+interface MessageBody {
+  system: Array<{ type: string; text: string; cache_control?: { type: string } }>;
+  messages: Array<{ content: string }>;
+}
+
+const parseBody = (request: ReceivedRequest | undefined): MessageBody =>
+  JSON.parse(request?.body ?? '{}') as MessageBody;
+
+/**
+ * Start a Messages API server that translates every request with the tool
+ */
+const startAnthropic = () =>
+  startServer(received => ({
+    body: {
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      model: 'claude-3-haiku-20240307',
+      stop_reason: 'tool_use',
+      content: [
+        {
+          type: 'tool_use',
+          id: 'toolu_1',
+          name: 'submit_translations',
+          input: {
+            translations: translatePrompt(parseBody(received).messages[0]?.content ?? ''),
+          },
+        },
+      ],
+      usage: {
+        input_tokens: 40,
+        output_tokens: 12,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 1500,
+      },
+    },
+  }));
+
+const request: TranslationRequest = {
+  units: [{ id: 'greeting', source: 'Hello', hash: 'h1', metadata: { file: 'en.json' } }],
+  sourceLanguage: 'en',
+  targetLanguage: 'de',
+  preserveFormatting: true,
+  preservePlaceholders: true,
+  glossary: [
+    { term: 'Account', translation: 'Konto', language: 'de' },
+    { term: 'Sign in', translation: 'Anmelden', language: 'de' },
+  ],
+  styleGuide: 'Address the user informally.\n',
+  examples: [{ source: 'Goodbye', target: 'Tschüss', language: 'de' }],
+};
+
+describe('AnthropicTranslator', () => {
+  it('should send the glossary, style guide and examples before the cache breakpoint', async () => {
+    const server = await startAnthropic();
+
+    try {
+      const orchestrator = createOrchestrator({
+        provider: 'anthropic',
+        apiKey: 'test-key',
+        baseUrl: server.baseUrl,
+      });
+
+      const response = await orchestrator.translate(request);
+      const { system } = parseBody(server.received[0]);
+
+      expect(system.map(block => block.text.split('\n')[0])).toEqual([
+        'You are a professional translator specializing in software localization.',
+        'GLOSSARY (use these translations consistently):',
+        'STYLE GUIDE (follow it for tone, terminology and punctuation):',
+        'EXAMPLES (translate in the same style):',
+      ]);
+      expect(system.map(block => block.cache_control)).toEqual([
+        undefined,
+        undefined,
+        undefined,
+        { type: 'ephemeral' },
+      ]);
+      // The whole glossary is sent, though the batch uses none of its terms, so the
+      // prefix is the same for every batch
+      expect(system[1]?.text).toContain('"Account" → "Konto"');
+      expect(system[1]?.text).toContain('"Sign in" → "Anmelden"');
+      expect(system[2]?.text).toContain('Address the user informally.');
+      expect(system[3]?.text).toContain('"Goodbye" → "Tschüss"');
+      expect(response.translations[0]?.target).toBe('[de] Hello');
+      expect(response.usage?.cacheReadInputTokens).toBe(1500);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should put the breakpoint on the system prompt when there is nothing else', async () => {
+    const server = await startAnthropic();
+
+    try {
+      const orchestrator = createOrchestrator({
+        provider: 'anthropic',
+        apiKey: 'test-key',
+        baseUrl: server.baseUrl,
+      });
+
+      await orchestrator.translate({
+        ...request,
+        glossary: undefined,
+        styleGuide: undefined,
+        examples: undefined,
+      });
+
+      expect(parseBody(server.received[0]).system).toEqual([
+        expect.objectContaining({ type: 'text', cache_control: { type: 'ephemeral' } }),
+      ]);
+    } finally {
+      await server.close();
+    }
+  });
+});
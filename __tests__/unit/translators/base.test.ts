@@ -0,0 +1,134 @@
+import {
+  parseLLMResponse,
+  parseTranslationResult,
+  sumTokenUsage,
+  toTranslatedUnits,
+} from '../../../src/translators/base';
+import type { TranslationUnit } from '../../../src/types/translation';
+
+describe('Translator base', () => {
+  describe('parseLLMResponse', () => {
+    it('should parse a JSON response', () => {
+      const response = JSON.stringify({
+        translations: [
+          { id: 'greeting', translation: 'Hallo' },
+          { id: 'farewell', translation: 'Tschüss' },
+        ],
+      });
+
+      const parsed = parseLLMResponse(response, ['greeting', 'farewell']);
+
+      expect(parsed.translations.map(t => [t.id, t.translation])).toEqual([
+        ['greeting', 'Hallo'],
+        ['farewell', 'Tschüss'],
+      ]);
+      expect(parsed.failures).toEqual([]);
+    });
+
+    it('should ignore prose and other JSON around the translations', () => {
+      const response = [
+        'Here is an example: {"note": "not this one"}',
+        '```json',
+        '{"translations": [{"id": "braces", "translation": "Ein } in {Text}"}]}',
+        '```',
+        'Let me know if you need {anything} else.',
+      ].join('\n');
+
+      const parsed = parseLLMResponse(response, ['braces']);
+
+      expect(parsed.translations[0]?.translation).toBe('Ein } in {Text}');
+      expect(parsed.failures).toEqual([]);
+    });
+
+    it('should report every unit when no translations are found', () => {
+      const parsed = parseLLMResponse('Sorry, I cannot help with that.', ['a', 'b']);
+
+      expect(parsed.translations).toEqual([]);
+      expect(parsed.failures.map(f => f.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('parseTranslationResult', () => {
+    it('should report invalid and missing items per unit', () => {
+      const parsed = parseTranslationResult(
+        {
+          translations: [
+            { id: 'ok', translation: 'Gut' },
+            { id: 'number', translation: 42 },
+            { id: 'empty', translation: '' },
+            { id: 'unknown', translation: 'Unbekannt' },
+            { translation: 'Ohne ID' },
+            null,
+          ],
+        },
+        ['ok', 'number', 'empty', 'missing']
+      );
+
+      expect(parsed.translations.map(t => t.id)).toEqual(['ok']);
+      expect(parsed.failures).toEqual([
+        { id: 'number', reason: 'Translation is not a string' },
+        { id: 'empty', reason: 'Translation is empty' },
+        { id: 'missing', reason: 'No translation returned' },
+      ]);
+    });
+
+    it('should keep the first of duplicate translations', () => {
+      const parsed = parseTranslationResult(
+        {
+          translations: [
+            { id: 'a', translation: 'Erste' },
+            { id: 'a', translation: 'Zweite' },
+          ],
+        },
+        ['a']
+      );
+
+      expect(parsed.translations.map(t => t.translation)).toEqual(['Erste']);
+    });
+
+    it('should report every unit without a translations array', () => {
+      const parsed = parseTranslationResult({ result: [] }, ['a']);
+
+      expect(parsed.failures).toEqual([{ id: 'a', reason: 'Missing translations array' }]);
+    });
+  });
+
+  describe('toTranslatedUnits', () => {
+    it('should map translations back to units in request order', () => {
+      const units: TranslationUnit[] = ['first', 'second'].map(id => ({
+        id,
+        source: `Source ${id}`,
+        hash: 'hash',
+        metadata: { file: 'test.json' },
+      }));
+
+      const result = toTranslatedUnits(units, {
+        translations: [{ id: 'second', source: '', translation: 'Zweite' }],
+        failures: [{ id: 'first', reason: 'No translation returned' }],
+      });
+
+      expect(result.translations).toEqual([
+        { id: 'second', source: 'Source second', target: 'Zweite' },
+      ]);
+      expect(result.failures).toEqual([{ id: 'first', reason: 'No translation returned' }]);
+    });
+  });
+
+  describe('sumTokenUsage', () => {
+    it('should add up usage and keep cache counts only when reported', () => {
+      expect(
+        sumTokenUsage([
+          { inputTokens: 10, outputTokens: 5 },
+          undefined,
+          { inputTokens: 20, outputTokens: 8, cacheReadInputTokens: 300 },
+        ])
+      ).toEqual({ inputTokens: 30, outputTokens: 13, cacheReadInputTokens: 300 });
+
+      expect(sumTokenUsage([{ inputTokens: 1, outputTokens: 2 }])).toEqual({
+        inputTokens: 1,
+        outputTokens: 2,
+      });
+      expect(sumTokenUsage([undefined])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  createBatchJobState,
+  getPendingUnitIds,
+  parseBatchJobState,
+  serializeBatchJobState,
+} from '../../../src/translators/batch-job';
+import { createOrchestrator } from '../../../src/translators/factory';
+import type { TranslationRequest, TranslationUnit } from '../../../src/types/translation';
+import { startServer, translatePrompt } from '../../helpers/http-server';
+
+const createUnit = (id: string, source: string): TranslationUnit => ({
+  id,
+  source,
+  hash: `hash-${id}`,
+  metadata: { file: 'messages.json' },
+});
+
+const createRequest = (units: TranslationUnit[]): TranslationRequest => ({
+  units,
+  sourceLanguage: 'en',
+  targetLanguage: 'de',
+  preserveFormatting: true,
+  preservePlaceholders: true,
+});
+
+describe('Batch jobs', () => {
+  describe('state', () => {
+    it('should round-trip through JSON', () => {
+      const state = createBatchJobState();
+      state.jobs.push({
+        id: 'job_1',
+        provider: 'anthropic',
+        model: 'claude-3-haiku-20240307',
+        submittedAt: '2024-01-01T00:00:00.000Z',
+        requests: [
+          { customId: 'r0_b0', filePath: 'src/en.json', targetLanguage: 'de', units: { a: 'h1' } },
+        ],
+      });
+
+      expect(parseBatchJobState(serializeBatchJobState(state))).toEqual(state);
+    });
+
+    it('should reject unknown versions', () => {
+      expect(() => parseBatchJobState('{"version": 99, "jobs": []}')).toThrow(
+        'Unsupported batch job state version: 99'
+      );
+    });
+
+    it('should list the pending units of a file and language', () => {
+      const state = createBatchJobState();
+      state.jobs.push({
+        id: 'job_1',
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        submittedAt: '2024-01-01T00:00:00.000Z',
+        requests: [
+          { customId: 'r0_b0', filePath: 'en.json', targetLanguage: 'de', units: { a: '1' } },
+          { customId: 'r0_b1', filePath: 'en.json', targetLanguage: 'de', units: { b: '2' } },
+          { customId: 'r1_b0', filePath: 'en.json', targetLanguage: 'fr', units: { c: '3' } },
+        ],
+      });
+
+      expect([...getPendingUnitIds(state, 'en.json', 'de')]).toEqual(['a', 'b']);
+      expect(getPendingUnitIds(state, 'other.json', 'de').size).toBe(0);
+    });
+  });
+
+  describe('Anthropic Message Batches', () => {
+    let batchEnded = false;
+    let submitted: Array<{ custom_id: string; params: { messages: Array<{ content: string }> } }> =
+      [];
+
+    const startAnthropic = () =>
+      startServer((request, baseUrl) => {
+        if (request.method === 'POST' && request.path === '/v1/messages/batches') {
+          submitted = (JSON.parse(request.body) as { requests: typeof submitted }).requests;
+        }
+
+        if (request.path.endsWith('/results')) {
+          const [first, second] = submitted;
+          const lines = [
+            {
+              custom_id: first?.custom_id,
+              result: {
+                type: 'succeeded',
+                message: {
+                  id: 'msg_1',
+                  type: 'message',
+                  role: 'assistant',
+                  model: 'claude-3-haiku-20240307',
+                  stop_reason: 'tool_use',
+                  content: [
+                    {
+                      type: 'tool_use',
+                      id: 'toolu_1',
+                      name: 'submit_translations',
+                      input: {
+                        translations: translatePrompt(first?.params.messages[0]?.content ?? ''),
+                      },
+                    },
+                  ],
+                  usage: {
+                    input_tokens: 100,
+                    output_tokens: 20,
+                    cache_creation_input_tokens: 0,
+                    cache_read_input_tokens: 1500,
+                  },
+                },
+              },
+            },
+            {
+              custom_id: second?.custom_id,
+              result: {
+                type: 'errored',
+                error: {
+                  type: 'error',
+                  error: { type: 'overloaded_error', message: 'Overloaded' },
+                },
+              },
+            },
+          ];
+          return { body: lines.map(line => JSON.stringify(line)).join('\n') + '\n' };
+        }
+
+        return {
+          body: {
+            id: 'msgbatch_1',
+            type: 'message_batch',
+            processing_status: batchEnded ? 'ended' : 'in_progress',
+            results_url: batchEnded ? `${baseUrl}/v1/messages/batches/msgbatch_1/results` : null,
+          },
+        };
+      });
+
+    it('should submit, poll and collect a message batch', async () => {
+      const server = await startAnthropic();
+      try {
+        const orchestrator = createOrchestrator(
+          { provider: 'anthropic', apiKey: 'test-key', baseUrl: server.baseUrl },
+          { batchSize: 2 }
+        );
+
+        const job = await orchestrator.submitBatchJob([
+          createRequest([
+            createUnit('greeting', 'Hello'),
+            createUnit('farewell', 'Goodbye'),
+            createUnit('thanks', 'Thank you'),
+          ]),
+          createRequest([createUnit('title', 'Welcome')]),
+        ]);
+
+        expect(job.id).toBe('msgbatch_1');
+        expect(job.requests.map(r => [r.customId, r.requestIndex])).toEqual([
+          ['r0_b0', 0],
+          ['r0_b1', 0],
+          ['r1_b0', 1],
+        ]);
+        expect(submitted.map(r => r.custom_id)).toEqual(['r0_b0', 'r0_b1', 'r1_b0']);
+        expect(submitted[0]?.params).toMatchObject({
+          tools: [{ name: 'submit_translations' }],
+          tool_choice: { type: 'tool', name: 'submit_translations' },
+          system: [{ type: 'text', cache_control: { type: 'ephemeral' } }],
+        });
+
+        expect(await orchestrator.getBatchJobStatus(job.id)).toBe('in_progress');
+        batchEnded = true;
+        expect(await orchestrator.getBatchJobStatus(job.id)).toBe('ended');
+
+        const results = await orchestrator.getBatchJobResults(job.id, job.requests);
+
+        expect(results.get('r0_b0')?.translations.map(t => [t.id, t.target])).toEqual([
+          ['greeting', '[de] Hello'],
+          ['farewell', '[de] Goodbye'],
+        ]);
+        expect(results.get('r0_b0')?.usage).toEqual({
+          inputTokens: 100,
+          outputTokens: 20,
+          cacheReadInputTokens: 1500,
+          cacheWriteInputTokens: 0,
+        });
+        expect(results.get('r0_b1')?.failures).toEqual([{ id: 'thanks', reason: 'Overloaded' }]);
+        expect(results.get('r1_b0')?.failures).toEqual([
+          { id: 'title', reason: 'No result in batch job' },
+        ]);
+      } finally {
+        await server.close();
+      }
+    });
+  });
+
+  describe('OpenAI Batch API', () => {
+    it('should upload a JSONL file, poll and collect the output', async () => {
+      let inputLines: Array<{
+        custom_id: string;
+        url: string;
+        body: { messages: Array<{ content: string }>; response_format: { type: string } };
+      }> = [];
+      let status = 'validating';
+
+      const server = await startServer(request => {
+        if (request.method === 'POST' && request.path === '/v1/files') {
+          // Multipart upload: keep the JSON lines of the file part
+          inputLines = request.body
+            .split(/\r?\n/)
+            .filter(line => line.startsWith('{'))
+            .map(line => JSON.parse(line) as (typeof inputLines)[number]);
+          return { body: { id: 'file-in', object: 'file', purpose: 'batch' } };
+        }
+
+        if (request.path === '/v1/files/file-out/content') {
+          const [first, second] = inputLines;
+          const completion = {
+            id: 'chatcmpl-1',
+            object: 'chat.completion',
+            choices: [
+              {
+                index: 0,
+                finish_reason: 'stop',
+                message: {
+                  role: 'assistant',
+                  refusal: null,
+                  content: JSON.stringify({
+                    translations: translatePrompt(first?.body.messages[1]?.content ?? ''),
+                  }),
+                },
+              },
+            ],
+            usage: { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 },
+          };
+          return {
+            body: [
+              { custom_id: first?.custom_id, response: { status_code: 200, body: completion } },
+              {
+                custom_id: second?.custom_id,
+                response: { status_code: 400, body: { error: { message: 'Bad request' } } },
+              },
+            ]
+              .map(line => JSON.stringify(line))
+              .join('\n'),
+          };
+        }
+
+        return {
+          body: {
+            id: 'batch_1',
+            object: 'batch',
+            status,
+            output_file_id: status === 'completed' ? 'file-out' : null,
+            error_file_id: null,
+          },
+        };
+      });
+
+      try {
+        const orchestrator = createOrchestrator(
+          { provider: 'openai', apiKey: 'test-key', baseUrl: `${server.baseUrl}/v1` },
+          { batchSize: 1 }
+        );
+
+        const job = await orchestrator.submitBatchJob([
+          createRequest([createUnit('greeting', 'Hello'), createUnit('farewell', 'Goodbye')]),
+        ]);
+
+        expect(job.id).toBe('batch_1');
+        expect(inputLines.map(line => [line.custom_id, line.url])).toEqual([
+          ['r0_b0', '/v1/chat/completions'],
+          ['r0_b1', '/v1/chat/completions'],
+        ]);
+        expect(inputLines[0]?.body.response_format.type).toBe('json_schema');
+        expect(JSON.parse(server.received[1]?.body ?? '{}')).toMatchObject({
+          input_file_id: 'file-in',
+          endpoint: '/v1/chat/completions',
+          completion_window: '24h',
+        });
+
+        expect(await orchestrator.getBatchJobStatus(job.id)).toBe('in_progress');
+        status = 'completed';
+        expect(await orchestrator.getBatchJobStatus(job.id)).toBe('ended');
+
+        const results = await orchestrator.getBatchJobResults(job.id, job.requests);
+
+        expect(results.get('r0_b0')?.translations).toEqual([
+          { id: 'greeting', source: 'Hello', target: '[de] Hello' },
+        ]);
+        expect(results.get('r0_b1')?.failures).toEqual([{ id: 'farewell', reason: 'Bad request' }]);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should report failed batches', async () => {
+      const server = await startServer(() => ({
+        body: { id: 'batch_2', object: 'batch', status: 'failed' },
+      }));
+
+      try {
+        const orchestrator = createOrchestrator({
+          provider: 'openai',
+          apiKey: 'test-key',
+          baseUrl: `${server.baseUrl}/v1`,
+        });
+
+        expect(await orchestrator.getBatchJobStatus('batch_2')).toBe('failed');
+      } finally {
+        await server.close();
+      }
+    });
+  });
+
+  it('should not be available for Ollama', async () => {
+    const orchestrator = createOrchestrator({
+      provider: 'ollama',
+      model: 'llama3.2',
+      baseUrl: 'http://127.0.0.1:1',
+    });
+
+    expect(orchestrator.supportsBatchJobs()).toBe(false);
+    await expect(orchestrator.submitBatchJob([])).rejects.toThrow(
+      'Batch mode is not supported by the ollama provider'
+    );
+  });
+});
@@ -0,0 +1,246 @@
+import {
+  buildUserPrompt,
+  validateDeclaredPlaceholders,
+  UNDOUBLED_QUOTE_ISSUE,
+  validateTranslation,
+} from '../../../src/translators/context-builder';
+
+describe('Context builder', () => {
+  describe('validateDeclaredPlaceholders', () => {
+    const source = '{count, plural, =0{No new messages} other{{count} new messages from {sender}}}';
+
+    it('should accept translations that keep declared placeholders', () => {
+      const translation =
+        '{count, plural, =0{Keine neuen Nachrichten} other{{count} neue Nachrichten von {sender}}}';
+
+      expect(validateDeclaredPlaceholders(source, translation, ['count', 'sender'])).toEqual([]);
+    });
+
+    it('should report placeholders dropped from plural branches', () => {
+      const translation = '{count, plural, =0{Keine} other{{count} neue Nachrichten}}';
+
+      expect(validateDeclaredPlaceholders(source, translation, ['count', 'sender'])).toEqual([
+        'Missing placeholder: {sender}',
+      ]);
+    });
+
+    it('should ignore declared placeholders the source does not use', () => {
+      expect(validateDeclaredPlaceholders('Hello!', 'Hallo!', ['name'])).toEqual([]);
+    });
+
+    it('should report translations that are not valid ICU messages', () => {
+      expect(validateDeclaredPlaceholders('Hello {name}!', 'Hallo {name!', ['name'])).toEqual([
+        expect.stringMatching(/^Invalid ICU message/),
+      ]);
+    });
+
+    it('should be applied by validateTranslation', () => {
+      const result = validateTranslation('Hello {name}!', 'Hallo!', {}, ['name']);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toContain('Missing placeholder: {name}');
+    });
+  });
+
+  describe('validateTranslation', () => {
+    it('should treat MessageFormat arguments as placeholders', () => {
+      const result = validateTranslation("Don''t delete {0}", 'Ne supprimez pas {1}');
+
+      expect(result.issues).toEqual(['Missing placeholder: {0}', 'Unexpected placeholder: {1}']);
+    });
+
+    it('should accept translations that keep them', () => {
+      expect(validateTranslation("Don''t delete {0}", "N''effacez pas {0}").valid).toBe(true);
+    });
+
+    it('should not treat escaped apostrophes as placeholders', () => {
+      expect(validateTranslation("{0} can''t be empty", '{0} darf nicht leer sein').valid).toBe(
+        true
+      );
+      expect(validateTranslation('Open the file', "Ouvrir l''application").valid).toBe(true);
+    });
+
+    it('should check that single quotes of MessageFormat patterns are doubled', () => {
+      const options = { doubledQuotes: true };
+
+      expect(validateTranslation('Delete {0}', "Supprimer l'élément {0}", options).issues).toEqual([
+        UNDOUBLED_QUOTE_ISSUE,
+      ]);
+      expect(validateTranslation('Delete {0}', "Supprimer l''élément {0}", options).valid).toBe(
+        true
+      );
+      expect(validateTranslation('Delete it', "Supprimer l'élément", options).valid).toBe(true);
+      expect(validateTranslation('Delete {0}', "Supprimer l'élément {0}").valid).toBe(true);
+    });
+
+    it('should compare the arguments of plural and select messages', () => {
+      const source = '{count, plural, one {# file from {sender}} other {# files from {sender}}}';
+
+      expect(
+        validateTranslation(source, '{count, plural, one {# Datei von {sender}} other {# Dateien}}')
+          .valid
+      ).toBe(true);
+      expect(
+        validateTranslation(source, '{count, plural, one {# Datei} other {# Dateien von {user}}}')
+          .issues
+      ).toEqual(['Missing argument: {sender}', 'Unexpected argument: {user}']);
+    });
+
+    it('should compare the double-brace interpolations of i18next plurals', () => {
+      const source =
+        '{count, plural, one {You have {{count}} message} other {You have {{count}} messages}}';
+
+      expect(
+        validateTranslation(
+          source,
+          '{count, plural, one {Masz {{count}} wiadomość} few {Masz {{count}} wiadomości} many {Masz {{count}} wiadomości} other {Masz {{count}} wiadomości}}'
+        ).valid
+      ).toBe(true);
+      expect(
+        validateTranslation(
+          source,
+          '{count, plural, one {Eine Nachricht} other {{{n}} Nachrichten}}'
+        ).issues
+      ).toEqual(['Missing placeholder: {{count}}', 'Unexpected placeholder: {{n}}']);
+    });
+
+    it('should report translations of plural messages that are not valid ICU', () => {
+      const result = validateTranslation(
+        '{count, plural, one {# file} other {# files}}',
+        '{count, plural, one {# Datei}} other {# Dateien}}'
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.issues[0]).toMatch(/^Invalid ICU message: /);
+    });
+  });
+
+  describe('buildUserPrompt', () => {
+    it('should list declared placeholders', () => {
+      const prompt = buildUserPrompt(
+        [
+          {
+            id: 'greeting',
+            source: 'Hello {name}!',
+            metadata: { file: 'app_en.arb', declaredPlaceholders: ['name'] },
+            hash: '',
+          },
+        ],
+        'en',
+        'de'
+      );
+
+      expect(prompt).toContain('Placeholders: {name}\n');
+    });
+
+    it('should send rejected translations back with their issues', () => {
+      const prompt = buildUserPrompt(
+        [
+          {
+            id: 'greeting',
+            source: 'Hello {name}!',
+            metadata: {
+              file: 'en.json',
+              correction: {
+                translation: 'Hallo!',
+                issues: ['Missing placeholder: {name}'],
+              },
+            },
+            hash: '',
+          },
+        ],
+        'en',
+        'de'
+      );
+
+      expect(prompt).toContain(
+        'Rejected translation: Hallo!\nIssues to fix: Missing placeholder: {name}\n'
+      );
+    });
+
+    it('should send changed strings with their previous source and translation', () => {
+      const prompt = buildUserPrompt(
+        [
+          { id: 'title', source: 'Files', metadata: { file: 'en.json' }, hash: '' },
+          {
+            id: 'save',
+            source: 'Save all files',
+            metadata: {
+              file: 'en.json',
+              revision: { previousSource: 'Save all file', translation: 'Alle Datei speichern' },
+            },
+            hash: '',
+          },
+          {
+            id: 'open',
+            source: 'Open a file',
+            metadata: {
+              file: 'en.json',
+              revision: { translation: 'Eine Datei öffnen', reviewed: true },
+            },
+            hash: '',
+          },
+        ],
+        'en',
+        'de'
+      );
+
+      expect(prompt).toContain('Translate the following 1 string(s) from en to de:\n\nID: title\n');
+      expect(prompt).toContain('Update the existing de translations of the following 2 string(s)');
+      expect(prompt).toContain(
+        'ID: save\nPrevious source: Save all file\nSource: Save all files\nExisting translation: Alle Datei speichern\n'
+      );
+      expect(prompt).toContain(
+        'ID: open\nSource: Open a file\nReviewed translation: Eine Datei öffnen\n'
+      );
+      expect(prompt).toMatch(/Respond with JSON containing all translations\.$/);
+    });
+
+    it('should only list changed strings when all strings changed', () => {
+      const prompt = buildUserPrompt(
+        [
+          {
+            id: 'save',
+            source: 'Save all files',
+            metadata: {
+              file: 'en.json',
+              revision: { previousSource: 'Save all file', translation: 'Alle Datei speichern' },
+            },
+            hash: '',
+          },
+        ],
+        'en',
+        'de'
+      );
+
+      expect(prompt).not.toContain('Translate the following');
+      expect(
+        prompt.startsWith('Update the existing de translations of the following 1 string(s)')
+      ).toBe(true);
+    });
+
+    it('should list similar translations from the translation memory', () => {
+      const prompt = buildUserPrompt(
+        [
+          {
+            id: 'save',
+            source: 'Save all files',
+            metadata: {
+              file: 'en.json',
+              memoryMatches: [
+                { source: 'Save all file', target: 'Alle Datei speichern', similarity: 93 },
+              ],
+            },
+            hash: '',
+          },
+        ],
+        'en',
+        'de'
+      );
+
+      expect(prompt).toContain(
+        'Similar translation (93% match): "Save all file" → "Alle Datei speichern"\n'
+      );
+    });
+  });
+});
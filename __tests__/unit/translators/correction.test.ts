@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { I18nextExtractor } from '../../../src/extractors/i18next';
+import { createOrchestrator } from '../../../src/translators/factory';
+import type { TranslationRequest } from '../../../src/types/translation';
+import { chatCompletion, startServer } from '../../helpers/http-server';
+
+const request: TranslationRequest = {
+  units: [
+    { id: 'greeting', source: 'Hello {name}!', hash: 'a', metadata: { file: 'en.json' } },
+    { id: 'farewell', source: 'Goodbye {name}!', hash: 'b', metadata: { file: 'en.json' } },
+  ],
+  sourceLanguage: 'en',
+  targetLanguage: 'de',
+  preserveFormatting: true,
+  preservePlaceholders: true,
+};
+
+/**
+ * Start a chat completions server that drops the placeholder of every unit it has
+ * not been asked to correct, and of "farewell" always
+ */
+const startDroppingServer = () =>
+  startServer(received => {
+    const body = JSON.parse(received.body) as { messages: Array<{ content: string }> };
+    const prompt = body.messages[1]?.content ?? '';
+    const corrected = prompt.includes('Rejected translation:');
+    const translations = [...prompt.matchAll(/^ID: (.+)$/gm)].map(match => ({
+      id: match[1] ?? '',
+      translation:
+        corrected && match[1] === 'greeting' ? 'Hallo {name}!' : `Tschüss${match[1]?.length}!`,
+    }));
+    return { body: chatCompletion({ content: JSON.stringify({ translations }) }) };
+  });
+
+describe('Translation correction', () => {
+  it('should send rejected translations back and fail those that stay invalid', async () => {
+    const server = await startDroppingServer();
+
+    try {
+      const orchestrator = createOrchestrator(
+        { provider: 'openai-compatible', baseUrl: `${server.baseUrl}/v1`, model: 'test' },
+        { maxValidationRetries: 2 }
+      );
+
+      const response = await orchestrator.translate(request);
+      const prompts = server.received.map(
+        r => (JSON.parse(r.body) as { messages: Array<{ content: string }> }).messages[1]?.content
+      );
+
+      expect(server.received).toHaveLength(3);
+      expect(prompts[1]).toContain(
+        'Rejected translation: Tschüss8!\nIssues to fix: Missing placeholder: {name}\n'
+      );
+      expect(response.translations.map(t => [t.id, t.target])).toEqual([
+        ['greeting', 'Hallo {name}!'],
+      ]);
+      expect(response.failures).toEqual([
+        {
+          id: 'farewell',
+          reason: 'Validation failed: Missing placeholder: {name}',
+          issues: ['Missing placeholder: {name}'],
+        },
+      ]);
+      expect(response.usage?.inputTokens).toBe(120);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should send only the batch glossary terms and keep translations that ignore them', async () => {
+    const server = await startServer(() => ({
+      body: chatCompletion({
+        content: JSON.stringify({
+          translations: [{ id: 'signIn', translation: 'Bei Acme einloggen' }],
+        }),
+      }),
+    }));
+
+    try {
+      const orchestrator = createOrchestrator(
+        { provider: 'openai-compatible', baseUrl: `${server.baseUrl}/v1`, model: 'test' },
+        { maxValidationRetries: 2 }
+      );
+
+      const response = await orchestrator.translate({
+        ...request,
+        units: [
+          { id: 'signIn', source: 'Sign in to Acme', hash: 'c', metadata: { file: 'en.json' } },
+        ],
+        glossary: [
+          { term: 'Sign in', translation: 'Anmelden' },
+          { term: 'Acme' },
+          { term: 'Sign out', translation: 'Abmelden' },
+        ],
+      });
+      const [system, user] = (
+        JSON.parse(server.received[1]?.body ?? '{}') as { messages: Array<{ content: string }> }
+      ).messages.map(m => m.content);
+
+      expect(server.received).toHaveLength(2);
+      expect(system).toContain(
+        'GLOSSARY (use these translations consistently):\n- "Sign in" → "Anmelden"\n- "Acme" → keep as is, do not translate\n'
+      );
+      expect(user).toContain(
+        'Issues to fix: Glossary term "Sign in" must be translated as "Anmelden"\n'
+      );
+      expect(response.translations).toMatchObject([
+        {
+          id: 'signIn',
+          target: 'Bei Acme einloggen',
+          issues: ['Glossary term "Sign in" must be translated as "Anmelden"'],
+        },
+      ]);
+      expect(response.failures).toBeUndefined();
+    } finally {
+      await server.close();
+    }
+  });
+
+  it.each(['pl', 'de', 'ja'])(
+    'should accept i18next plurals with double-brace interpolations for %s',
+    async targetLanguage => {
+      const fixturePath = path.join(__dirname, '../../fixtures/i18next/en/translation.json');
+      const { units } = new I18nextExtractor().extract(
+        fixturePath,
+        fs.readFileSync(fixturePath, 'utf-8'),
+        targetLanguage
+      );
+      const orchestrator = createOrchestrator({ provider: 'pseudo' }, { maxValidationRetries: 2 });
+
+      const response = await orchestrator.translate({
+        units,
+        sourceLanguage: 'en',
+        targetLanguage,
+        preserveFormatting: true,
+        preservePlaceholders: true,
+      });
+
+      expect(response.failures ?? []).toEqual([]);
+      expect(response.translations.map(t => t.id).sort()).toEqual(units.map(u => u.id).sort());
+      expect(response.translations.find(t => t.id === 'inbox.messages')?.target).toContain(
+        '{{count}}'
+      );
+    }
+  );
+
+  it('should not send translations back when retries are disabled', async () => {
+    const server = await startDroppingServer();
+
+    try {
+      const orchestrator = createOrchestrator(
+        { provider: 'openai-compatible', baseUrl: `${server.baseUrl}/v1`, model: 'test' },
+        { maxValidationRetries: 0 }
+      );
+
+      const response = await orchestrator.translate(request);
+
+      expect(server.received).toHaveLength(1);
+      expect(response.translations).toEqual([]);
+      expect(response.failures?.map(f => f.id)).toEqual(['greeting', 'farewell']);
+    } finally {
+      await server.close();
+    }
+  });
+});
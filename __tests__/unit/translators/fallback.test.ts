@@ -0,0 +1,174 @@
+import { CircuitBreaker } from '../../../src/translators/circuit-breaker';
+import { createOrchestrator } from '../../../src/translators/factory';
+import { DEFAULT_ROUTE, TranslationRouter } from '../../../src/translators/router';
+import { AuthenticationError, TranslatorError } from '../../../src/utils/errors';
+import type { ProviderConfig } from '../../../src/config/types';
+import type { TranslationUnit } from '../../../src/types/translation';
+import { chatCompletion, startServer, translatePrompt } from '../../helpers/http-server';
+
+const overloaded = () => new TranslatorError('Overloaded', 'anthropic', true);
+
+/**
+ * Start a chat completions server that is down, without asking the SDK to retry
+ */
+const startUnavailableServer = () =>
+  startServer(() => ({
+    status: 503,
+    headers: { 'x-should-retry': 'false' },
+    body: { error: { message: 'Service unavailable' } },
+  }));
+
+/**
+ * Start a chat completions server that translates every request
+ */
+const startAvailableServer = () =>
+  startServer(received => {
+    const body = JSON.parse(received.body) as { messages: Array<{ content: string }> };
+    const translations = translatePrompt(body.messages[1]?.content ?? '');
+    return { body: chatCompletion({ content: JSON.stringify({ translations }) }) };
+  });
+
+const compatibleProvider = (baseUrl: string, model: string): ProviderConfig => ({
+  provider: 'openai-compatible',
+  baseUrl: `${baseUrl}/v1`,
+  model,
+});
+
+const units: TranslationUnit[] = ['Hello', 'Goodbye'].map(source => ({
+  id: source.toLowerCase(),
+  source,
+  hash: source,
+  metadata: { file: 'en.json' },
+}));
+
+describe('Provider fallback', () => {
+  describe('CircuitBreaker', () => {
+    it('should open after consecutive retryable errors', () => {
+      const breaker = new CircuitBreaker('anthropic', 2);
+
+      breaker.recordFailure(overloaded());
+      expect(breaker.isOpen()).toBe(false);
+
+      breaker.recordFailure(overloaded());
+      expect(breaker.isOpen()).toBe(true);
+    });
+
+    it('should reset the count on success', () => {
+      const breaker = new CircuitBreaker('anthropic', 2);
+
+      breaker.recordFailure(overloaded());
+      breaker.recordSuccess();
+      breaker.recordFailure(overloaded());
+
+      expect(breaker.isOpen()).toBe(false);
+    });
+
+    it('should not count errors that are not retryable', () => {
+      const breaker = new CircuitBreaker('anthropic', 1);
+
+      breaker.recordFailure(new AuthenticationError('anthropic'));
+      breaker.recordFailure(new Error('Unexpected'));
+
+      expect(breaker.isOpen()).toBe(false);
+    });
+  });
+
+  describe('TranslationOrchestrator', () => {
+    it('should send batches to the next provider when a provider is unavailable', async () => {
+      const primary = await startUnavailableServer();
+      const fallback = await startAvailableServer();
+
+      try {
+        const orchestrator = createOrchestrator(compatibleProvider(primary.baseUrl, 'primary'), {
+          fallbackProviders: [compatibleProvider(fallback.baseUrl, 'fallback')],
+        });
+
+        await orchestrator.validate();
+        const response = await orchestrator.translate({
+          units,
+          sourceLanguage: 'en',
+          targetLanguage: 'de',
+          preserveFormatting: true,
+          preservePlaceholders: true,
+        });
+
+        expect(primary.received).toHaveLength(1);
+        expect(response.translations).toEqual([
+          {
+            id: 'hello',
+            source: 'Hello',
+            target: '[de] Hello',
+            provider: 'openai-compatible',
+            model: 'fallback',
+          },
+          {
+            id: 'goodbye',
+            source: 'Goodbye',
+            target: '[de] Goodbye',
+            provider: 'openai-compatible',
+            model: 'fallback',
+          },
+        ]);
+      } finally {
+        await primary.close();
+        await fallback.close();
+      }
+    });
+
+    it('should fail validation when no provider is available', async () => {
+      const primary = await startUnavailableServer();
+      const fallback = await startUnavailableServer();
+
+      try {
+        const orchestrator = createOrchestrator(compatibleProvider(primary.baseUrl, 'primary'), {
+          fallbackProviders: [compatibleProvider(fallback.baseUrl, 'fallback')],
+        });
+
+        await expect(orchestrator.validate()).rejects.toThrow(
+          'None of the providers openai-compatible, openai-compatible is available'
+        );
+      } finally {
+        await primary.close();
+        await fallback.close();
+      }
+    });
+  });
+
+  describe('TranslationRouter', () => {
+    it('should skip a provider that is down in every route', async () => {
+      const primary = await startUnavailableServer();
+      const fallback = await startAvailableServer();
+
+      try {
+        const router = new TranslationRouter(
+          compatibleProvider(primary.baseUrl, 'primary'),
+          [
+            {
+              name: 'cjk',
+              languages: ['ja'],
+              provider: { ...compatibleProvider(primary.baseUrl, 'primary'), temperature: 0 },
+            },
+          ],
+          { fallbackProviders: [compatibleProvider(fallback.baseUrl, 'fallback')] }
+        );
+
+        await router.getOrchestrator(DEFAULT_ROUTE).validate();
+        expect(primary.received).toHaveLength(1);
+
+        const response = await router.getOrchestrator('cjk').translate({
+          units,
+          sourceLanguage: 'en',
+          targetLanguage: 'ja',
+          preserveFormatting: true,
+          preservePlaceholders: true,
+        });
+
+        expect(primary.received).toHaveLength(1);
+        expect(response.translations.map(t => t.model)).toEqual(['fallback', 'fallback']);
+      } finally {
+        await primary.close();
+        await fallback.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { OpenAICompatibleTranslator } from '../../../src/translators/providers/openai-compatible';
+import type { ProviderConfig } from '../../../src/config/types';
+import type { TranslationRequest } from '../../../src/types/translation';
+import {
+  ReceivedRequest,
+  chatCompletion,
+  startServer,
+  translatePrompt,
+} from '../../helpers/http-server';
+
+/**
+ * Body of a chat completion request
+ */
+interface CompletionBody {
+  messages: Array<{ content: string }>;
+  response_format?: { type: string };
+  tools?: Array<{ function: { name: string } }>;
+  tool_choice?: unknown;
+}
+
+const parseBody = (request: ReceivedRequest | undefined): CompletionBody =>
+  JSON.parse(request?.body ?? '{}') as CompletionBody;
+
+/**
+ * Answer a chat completion request the way a model would, as JSON text
+ */
+const answer = (request: ReceivedRequest): string =>
+  JSON.stringify({
+    translations: translatePrompt(parseBody(request).messages[1]?.content ?? ''),
+  });
+
+const request: TranslationRequest = {
+  units: [
+    { id: 'greeting', source: 'Hello', hash: 'h1', metadata: { file: 'en.json' } },
+    { id: 'farewell', source: 'Goodbye', hash: 'h2', metadata: { file: 'en.json' } },
+  ],
+  sourceLanguage: 'en',
+  targetLanguage: 'de',
+  preserveFormatting: true,
+  preservePlaceholders: true,
+};
+
+const createTranslator = (baseUrl: string, config: Partial<ProviderConfig> = {}) =>
+  new OpenAICompatibleTranslator({
+    provider: 'openai-compatible',
+    baseUrl: `${baseUrl}/v1`,
+    model: 'local-model',
+    ...config,
+  });
+
+describe('OpenAICompatibleTranslator', () => {
+  it('should send Azure-style auth, api-version and custom headers, and parse plain text', async () => {
+    const server = await startServer(received => ({
+      body: chatCompletion({ content: `Sure!\n${answer(received)}` }),
+    }));
+
+    try {
+      const translator = createTranslator(server.baseUrl, {
+        apiKey: 'azure-key',
+        authScheme: 'api-key',
+        apiVersion: '2024-10-21',
+        headers: { 'X-Team': 'localization' },
+        features: { usage: false },
+      });
+
+      const response = await translator.translate(request);
+
+      const [received] = server.received;
+      expect(received?.url).toBe('/v1/chat/completions?api-version=2024-10-21');
+      expect(received?.headers['api-key']).toBe('azure-key');
+      expect(received?.headers['authorization']).toBeUndefined();
+      expect(received?.headers['x-team']).toBe('localization');
+      expect(parseBody(received).response_format).toBeUndefined();
+      expect(parseBody(received).tools).toBeUndefined();
+
+      expect(response.translations.map(t => t.target)).toEqual(['[de] Hello', '[de] Goodbye']);
+      expect(response.usage).toBeUndefined();
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should force a function call when the server supports tools', async () => {
+    const server = await startServer(received => ({
+      body: chatCompletion({
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'submit_translations', arguments: answer(received) },
+          },
+        ],
+      }),
+    }));
+
+    try {
+      const translator = createTranslator(server.baseUrl, {
+        apiKey: 'local-key',
+        features: { tools: true, jsonMode: 'json_schema' },
+      });
+
+      const response = await translator.translate(request);
+
+      const [received] = server.received;
+      expect(received?.headers['authorization']).toBe('Bearer local-key');
+      expect(parseBody(received).tools?.[0]?.function.name).toBe('submit_translations');
+      expect(parseBody(received).tool_choice).toEqual({
+        type: 'function',
+        function: { name: 'submit_translations' },
+      });
+      expect(parseBody(received).response_format).toBeUndefined();
+
+      expect(response.translations.map(t => t.target)).toEqual(['[de] Hello', '[de] Goodbye']);
+      expect(response.usage).toEqual({ inputTokens: 40, outputTokens: 12 });
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should fall back to plain text when the server rejects structured output', async () => {
+    const server = await startServer(received =>
+      parseBody(received).response_format
+        ? { status: 400, body: { error: { message: 'response_format is not supported' } } }
+        : { body: chatCompletion({ content: answer(received) }) }
+    );
+
+    try {
+      const translator = createTranslator(server.baseUrl, {
+        features: { jsonMode: 'json_object' },
+      });
+
+      const first = await translator.translate(request);
+      const second = await translator.translate(request);
+
+      expect(server.received.map(r => parseBody(r).response_format?.type)).toEqual([
+        'json_object',
+        undefined,
+        undefined,
+      ]);
+      expect(server.received[0]?.headers['authorization']).toBeUndefined();
+      expect(first.translations).toHaveLength(2);
+      expect(second.translations).toHaveLength(2);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should keep structured output when a request is rejected for another reason', async () => {
+    let requests = 0;
+    const server = await startServer(received =>
+      ++requests === 1
+        ? {
+            status: 400,
+            body: { error: { message: "This model's maximum context length is 8192 tokens" } },
+          }
+        : { body: chatCompletion({ content: answer(received) }) }
+    );
+
+    try {
+      const translator = createTranslator(server.baseUrl, {
+        features: { jsonMode: 'json_object' },
+      });
+
+      await expect(translator.translate(request)).rejects.toThrow();
+      const response = await translator.translate(request);
+
+      expect(server.received.map(r => parseBody(r).response_format?.type)).toEqual([
+        'json_object',
+        'json_object',
+      ]);
+      expect(response.translations).toHaveLength(2);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import { PseudoTranslator, pseudoLocalize } from '../../../src/translators/providers/pseudo';
+import { createTranslator } from '../../../src/translators/factory';
+import type { PseudoLocalizationOptions } from '../../../src/config/types';
+
+const plain: PseudoLocalizationOptions = {
+  accents: true,
+  expansion: 0,
+  brackets: false,
+  mirror: false,
+};
+
+describe('pseudoLocalize', () => {
+  it('should accent, expand and bracket text', () => {
+    expect(pseudoLocalize('Save changes')).toBe('[Šåṽé çĥåñĝéš one two]');
+  });
+
+  it('should keep ICU arguments and plural syntax', () => {
+    expect(
+      pseudoLocalize('Hello {name}, you have <b>{count, plural, one {# file} other {# files}}</b>')
+    ).toBe(
+      '[Ĥéļļö {name}, ýöû ĥåṽé <b>{count, plural, one {# ƒîļé one} other {# ƒîļéš one}}</b> one two]'
+    );
+  });
+
+  it('should keep select and selectordinal syntax and typed arguments', () => {
+    expect(
+      pseudoLocalize(
+        '{gender, select, female {She paid {amount, number, currency}} other {They paid}}',
+        plain
+      )
+    ).toBe('{gender, select, female {Šĥé þåîð {amount, number, currency}} other {Ţĥéý þåîð}}');
+    expect(pseudoLocalize('{place, selectordinal, one {#st} other {#th}}', plain)).toBe(
+      '{place, selectordinal, one {#šţ} other {#ţĥ}}'
+    );
+  });
+
+  it('should keep ICU quoting', () => {
+    expect(pseudoLocalize("It''s '{literal}' text", plain)).toBe("Îţ''š '{literal}' ţéẋţ");
+  });
+
+  it('should keep tags, entities and placeholders of messages that are not ICU', () => {
+    expect(
+      pseudoLocalize('Hi {{PH}}, <a href="/x">open</a> %1$s of %d &amp; ${total} { $user }', plain)
+    ).toBe('Ĥî {{PH}}, <a href="/x">öþéñ</a> %1$s öƒ %d &amp; ${total} { $user }');
+    expect(pseudoLocalize('Done } now', plain)).toBe('Ðöñé } ñöŵ');
+  });
+
+  it('should mark words as right-to-left when mirroring', () => {
+    expect(pseudoLocalize('Go {name}', { ...plain, accents: false, mirror: true })).toBe(
+      '\u202eGo\u202c {name}'
+    );
+  });
+});
+
+describe('PseudoTranslator', () => {
+  it('should be created by the factory and translate without a network', async () => {
+    const translator = createTranslator({
+      provider: 'pseudo',
+      pseudo: { expansion: 0, brackets: false },
+    });
+
+    expect(translator).toBeInstanceOf(PseudoTranslator);
+    await expect(translator.checkAvailability()).resolves.toBe(true);
+
+    const response = await translator.translate({
+      units: [{ id: 'save', source: 'Save', hash: 'h1', metadata: { file: 'en.json' } }],
+      sourceLanguage: 'en',
+      targetLanguage: 'en-XA',
+      preserveFormatting: true,
+      preservePlaceholders: true,
+    });
+
+    expect(response).toEqual({
+      translations: [{ id: 'save', source: 'Save', target: 'Šåṽé' }],
+      failures: [],
+      provider: 'pseudo',
+      model: 'pseudo',
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { createQualityReviewer } from '../../../src/translators/factory';
+import {
+  getQualityScore,
+  parseQualityResponse,
+  parseQualityResult,
+} from '../../../src/translators/quality';
+import type { TranslationRequest } from '../../../src/types/translation';
+import { chatCompletion, startServer } from '../../helpers/http-server';
+
+const request: TranslationRequest = {
+  units: [
+    { id: 'save', source: 'Save', hash: 'a', metadata: { file: 'en.json', notes: 'Button' } },
+    { id: 'cancel', source: 'Cancel', hash: 'b', metadata: { file: 'en.json' } },
+  ],
+  sourceLanguage: 'en',
+  targetLanguage: 'de',
+  preserveFormatting: true,
+  preservePlaceholders: true,
+};
+
+const response = {
+  translations: [
+    { id: 'save', source: 'Save', target: 'Speichern' },
+    { id: 'cancel', source: 'Cancel', target: 'Stornieren' },
+  ],
+  usage: { inputTokens: 100, outputTokens: 20 },
+  provider: 'anthropic',
+  model: 'claude-3-haiku-20240307',
+};
+
+/**
+ * Start a chat completions server that scores "Stornieren" low and everything
+ * else high
+ */
+const startReviewServer = () =>
+  startServer(received => {
+    const body = JSON.parse(received.body) as { messages: Array<{ content: string }> };
+    const prompt = body.messages[1]?.content ?? '';
+    const scores = [...prompt.matchAll(/^ID: (.+)\nSource: .*\nTranslation: (.*)$/gm)].map(
+      ([, id, target]) =>
+        target === 'Stornieren'
+          ? { id, accuracy: 60, fluency: 70, terminology: 50, rationale: 'Major: wrong term' }
+          : { id, accuracy: 100, fluency: 95, terminology: 100, rationale: 'No errors' }
+    );
+    return { body: chatCompletion({ content: JSON.stringify({ scores }) }) };
+  });
+
+describe('Quality estimation', () => {
+  describe('parseQualityResult', () => {
+    it('should clamp scores and ignore unknown units and items without scores', () => {
+      const estimates = parseQualityResult(
+        {
+          scores: [
+            { id: 'a', accuracy: 120, fluency: 80.4, terminology: -5, rationale: 'Minor' },
+            { id: 'b', accuracy: 'high', fluency: 80, terminology: 80 },
+            { id: 'unknown', accuracy: 100, fluency: 100, terminology: 100 },
+          ],
+        },
+        ['a', 'b']
+      );
+
+      expect([...estimates]).toEqual([
+        ['a', { accuracy: 100, fluency: 80, terminology: 0, rationale: 'Minor' }],
+      ]);
+    });
+
+    it('should find the scores in text around them', () => {
+      const text =
+        'Here are the scores: {"scores": [{"id": "a", "accuracy": 90, "fluency": 90, "terminology": 60, "rationale": ""}]}';
+
+      const estimate = parseQualityResponse(text, ['a']).get('a');
+
+      expect(estimate && getQualityScore(estimate)).toBe(80);
+    });
+  });
+
+  describe('QualityReviewer', () => {
+    it('should set the confidence of each translation and add the review usage', async () => {
+      const server = await startReviewServer();
+
+      try {
+        const reviewer = createQualityReviewer(
+          { provider: 'openai-compatible', baseUrl: `${server.baseUrl}/v1`, model: 'reviewer' },
+          { threshold: 70 }
+        );
+
+        const reviewed = await reviewer.review(request, response);
+        const [save, cancel] = reviewed.translations;
+
+        expect(save?.confidence).toBe(98);
+        expect(cancel).toMatchObject({
+          confidence: 60,
+          quality: { accuracy: 60, fluency: 70, terminology: 50, rationale: 'Major: wrong term' },
+        });
+        expect(reviewer.needsReview(save ?? {})).toBe(false);
+        expect(reviewer.needsReview(cancel ?? {})).toBe(true);
+        expect(reviewed.usage).toEqual({ inputTokens: 140, outputTokens: 32 });
+        expect(server.received[0]?.body).toContain('Context: Button');
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should leave translations unscored when the review fails', async () => {
+      const server = await startServer(() => ({
+        status: 400,
+        body: { error: { message: 'Bad request' } },
+      }));
+
+      try {
+        const reviewer = createQualityReviewer(
+          { provider: 'openai-compatible', baseUrl: `${server.baseUrl}/v1`, model: 'reviewer' },
+          { threshold: 70 }
+        );
+
+        const reviewed = await reviewer.review(request, response);
+
+        expect(reviewed.translations).toEqual(response.translations);
+        expect(reviewer.needsReview(reviewed.translations[0] ?? {})).toBe(false);
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('should reject providers that cannot review translations', async () => {
+      const reviewer = createQualityReviewer({ provider: 'pseudo' }, { threshold: 70 });
+
+      await expect(reviewer.validate()).rejects.toThrow(
+        'The pseudo provider cannot review translations'
+      );
+    });
+  });
+});
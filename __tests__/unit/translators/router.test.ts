@@ -0,0 +1,60 @@
+import { DEFAULT_ROUTE, TranslationRouter } from '../../../src/translators/router';
+import type { ProviderConfig, RouteConfig } from '../../../src/config/types';
+
+const defaultProvider: ProviderConfig = {
+  provider: 'anthropic',
+  apiKey: 'test-key',
+  model: 'claude-3-haiku-20240307',
+};
+
+const routes: RouteConfig[] = [
+  {
+    name: 'legal',
+    files: ['src/legal/**'],
+    provider: { ...defaultProvider, model: 'claude-3-5-sonnet-20241022', temperature: 0 },
+  },
+  {
+    name: 'cjk',
+    languages: ['ja', 'zh'],
+    provider: { ...defaultProvider, model: 'claude-3-5-sonnet-20241022' },
+  },
+  {
+    name: 'cheap',
+    languages: ['es'],
+    files: ['src/**/*.json'],
+    provider: { provider: 'ollama', baseUrl: 'http://localhost:11434', model: 'llama3.2' },
+  },
+];
+
+describe('TranslationRouter', () => {
+  const router = new TranslationRouter(defaultProvider, routes);
+
+  it('should pick the first route that applies to the file and language', () => {
+    expect(router.resolve('src/legal/terms.json', 'ja')).toBe('legal');
+    expect(router.resolve('src/app/messages.json', 'ja')).toBe('cjk');
+    expect(router.resolve('src/app/messages.json', 'es')).toBe('cheap');
+  });
+
+  it('should apply a route language to its regional variants', () => {
+    expect(router.resolve('src/app/messages.json', 'zh-TW')).toBe('cjk');
+    expect(router.resolve('src/app/messages.json', 'zhx')).toBe(DEFAULT_ROUTE);
+  });
+
+  it('should use the default route when no route applies', () => {
+    expect(router.resolve('src/app/messages.json', 'de')).toBe(DEFAULT_ROUTE);
+    expect(router.resolve('src/app/messages.xlf', 'es')).toBe(DEFAULT_ROUTE);
+  });
+
+  it('should create one orchestrator per route with its provider', () => {
+    expect(router.getOrchestrator(DEFAULT_ROUTE).getModel()).toBe('claude-3-haiku-20240307');
+    expect(router.getOrchestrator('cjk').getModel()).toBe('claude-3-5-sonnet-20241022');
+    expect(router.getOrchestrator('cheap').getProviderName()).toBe('ollama');
+    expect(router.getOrchestrator('cjk')).toBe(router.getOrchestrator('cjk'));
+    expect(() => router.getOrchestrator('missing')).toThrow('Unknown route: missing');
+  });
+
+  it('should list the routes that can apply to the target languages', () => {
+    expect(router.getRouteNames(['de', 'fr'])).toEqual([DEFAULT_ROUTE, 'legal']);
+    expect(router.getRouteNames(['es', 'ja'])).toEqual([DEFAULT_ROUTE, 'legal', 'cjk', 'cheap']);
+  });
+});
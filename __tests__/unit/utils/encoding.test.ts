@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readTextFile, writeTextFile } from '../../../src/utils/encoding';
+
+describe('Text encoding utilities', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'encoding-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read UTF-8 files and keep a byte order mark', () => {
+    const filePath = path.join(dir, 'utf8.txt');
+    fs.writeFileSync(filePath, '\ufeffGrüße', 'utf-8');
+
+    expect(readTextFile(filePath)).toEqual({ content: '\ufeffGrüße', encoding: 'UTF-8' });
+  });
+
+  it('should fall back to ISO-8859-1 and write it back', () => {
+    const filePath = path.join(dir, 'latin1.txt');
+    fs.writeFileSync(filePath, Buffer.from('Grüße', 'latin1'));
+
+    const { content, encoding } = readTextFile(filePath);
+    expect({ content, encoding }).toEqual({ content: 'Grüße', encoding: 'ISO-8859-1' });
+
+    writeTextFile(filePath, 'Größe', encoding);
+    expect(fs.readFileSync(filePath)).toEqual(Buffer.from('Größe', 'latin1'));
+  });
+
+  it('should write UTF-8 when the content does not fit ISO-8859-1', () => {
+    const filePath = path.join(dir, 'latin1.txt');
+
+    writeTextFile(filePath, 'Cześć', 'ISO-8859-1');
+
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('Cześć');
+  });
+});
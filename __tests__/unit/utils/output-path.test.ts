@@ -1,4 +1,8 @@
-import { getOutputFilePath, isLanguageSpecificPath } from '../../../src/utils/output-path';
+import {
+  getOutputFilePath,
+  isLanguageSpecificPath,
+  toAndroidQualifier,
+} from '../../../src/utils/output-path';
 
 describe('Output Path Utilities', () => {
   describe('getOutputFilePath', () => {
@@ -40,6 +44,11 @@ describe('Output Path Utilities', () => {
       expect(getOutputFilePath('strings.xml', 'es', 'en')).toBe('strings.es.xml');
     });
 
+    it('should write gettext catalogs for templates', () => {
+      expect(getOutputFilePath('locale/messages.pot', 'de', 'en')).toBe('locale/messages.de.po');
+      expect(getOutputFilePath('messages.en.po', 'fr', 'en')).toBe('messages.fr.po');
+    });
+
     it('should be case-insensitive for source language matching', () => {
       expect(getOutputFilePath('messages.EN.xlf', 'de', 'en')).toBe('messages.de.xlf');
       expect(getOutputFilePath('EN.json', 'de', 'en')).toBe('de.json');
@@ -51,6 +60,138 @@ describe('Output Path Utilities', () => {
     });
   });
 
+  describe('android layout', () => {
+    it('should write to values-<qualifier> directories', () => {
+      expect(getOutputFilePath('app/src/main/res/values/strings.xml', 'de', 'en')).toBe(
+        'app/src/main/res/values-de/strings.xml'
+      );
+      expect(getOutputFilePath('res/values/strings.xml', 'pt-BR', 'en')).toBe(
+        'res/values-pt-rBR/strings.xml'
+      );
+      expect(getOutputFilePath('res/values/strings.xml', 'sr-Latn', 'en')).toBe(
+        'res/values-b+sr+Latn/strings.xml'
+      );
+    });
+
+    it('should replace a language-qualified source directory', () => {
+      expect(getOutputFilePath('res/values-en/strings.xml', 'fr', 'en')).toBe(
+        'res/values-fr/strings.xml'
+      );
+    });
+
+    it('should respect an explicit layout', () => {
+      expect(getOutputFilePath('res/values/strings.xml', 'de', 'en', 'suffix')).toBe(
+        'res/values/strings.de.xml'
+      );
+      expect(getOutputFilePath('i18n/strings.xml', 'de', 'en', 'android')).toBe(
+        'values-de/strings.xml'
+      );
+    });
+  });
+
+  describe('apple layout', () => {
+    it('should write to sibling .lproj directories', () => {
+      expect(getOutputFilePath('App/en.lproj/Localizable.strings', 'de', 'en')).toBe(
+        'App/de.lproj/Localizable.strings'
+      );
+      expect(getOutputFilePath('App/Base.lproj/Localizable.stringsdict', 'pt-BR', 'en')).toBe(
+        'App/pt-BR.lproj/Localizable.stringsdict'
+      );
+    });
+
+    it('should write String Catalogs in place', () => {
+      expect(getOutputFilePath('App/Localizable.xcstrings', 'de', 'en')).toBe(
+        'App/Localizable.xcstrings'
+      );
+    });
+  });
+
+  describe('Flutter ARB files', () => {
+    it('should use underscore locales in file names', () => {
+      expect(getOutputFilePath('lib/l10n/app_en.arb', 'de', 'en')).toBe('lib/l10n/app_de.arb');
+      expect(getOutputFilePath('lib/l10n/app_en.arb', 'pt-BR', 'en')).toBe(
+        'lib/l10n/app_pt_BR.arb'
+      );
+      expect(getOutputFilePath('lib/l10n/app_en_US.arb', 'zh-Hant', 'en-US')).toBe(
+        'lib/l10n/app_zh_Hant.arb'
+      );
+    });
+  });
+
+  describe('Java .properties files', () => {
+    it('should append underscore locales to the bundle name', () => {
+      expect(getOutputFilePath('i18n/messages.properties', 'de', 'en')).toBe(
+        'i18n/messages_de.properties'
+      );
+      expect(getOutputFilePath('i18n/messages_en.properties', 'pt-BR', 'en')).toBe(
+        'i18n/messages_pt_BR.properties'
+      );
+    });
+  });
+
+  describe('Fluent resources', () => {
+    it('should write to a sibling locale directory', () => {
+      expect(getOutputFilePath('locales/en-US/main.ftl', 'de', 'en-US')).toBe(
+        'locales/de/main.ftl'
+      );
+      expect(getOutputFilePath('locales/en/main.ftl', 'pt-BR', 'en')).toBe(
+        'locales/pt-BR/main.ftl'
+      );
+    });
+
+    it('should insert the locale into the file name outside locale directories', () => {
+      expect(getOutputFilePath('l10n/main.ftl', 'de', 'en')).toBe('l10n/main.de.ftl');
+    });
+
+    it('should not take a directory of a regional variant for the source locale', () => {
+      expect(getOutputFilePath('locales/en-GB/main.ftl', 'de', 'en')).toBe(
+        'locales/en-GB/main.de.ftl'
+      );
+    });
+  });
+
+  describe('i18next namespaces', () => {
+    it('should write to a sibling language directory', () => {
+      expect(getOutputFilePath('locales/en/translation.json', 'pl', 'en', 'auto', 'i18next')).toBe(
+        'locales/pl/translation.json'
+      );
+      expect(
+        getOutputFilePath('public/locales/en-US/common.json', 'pt-BR', 'en-US', 'auto', 'i18next')
+      ).toBe('public/locales/pt-BR/common.json');
+    });
+
+    it('should keep the file name layout outside language directories', () => {
+      expect(getOutputFilePath('locale/en.json', 'de', 'en', 'auto', 'i18next')).toBe(
+        'locale/de.json'
+      );
+      expect(getOutputFilePath('locales/messages.json', 'de', 'en', 'auto', 'i18next')).toBe(
+        'locales/messages.de.json'
+      );
+    });
+
+    it('should keep the file name layout of other JSON files in language directories', () => {
+      expect(getOutputFilePath('locales/en/common.json', 'de', 'en', 'auto', 'json-flat')).toBe(
+        'locales/en/common.de.json'
+      );
+      expect(getOutputFilePath('locales/en/common.json', 'de', 'en', 'auto', 'json-nested')).toBe(
+        'locales/en/common.de.json'
+      );
+      expect(getOutputFilePath('locales/en/common.json', 'de', 'en')).toBe(
+        'locales/en/common.de.json'
+      );
+    });
+  });
+
+  describe('toAndroidQualifier', () => {
+    it('should convert language codes to resource qualifiers', () => {
+      expect(toAndroidQualifier('de')).toBe('de');
+      expect(toAndroidQualifier('zh-TW')).toBe('zh-rTW');
+      expect(toAndroidQualifier('sr-latn')).toBe('b+sr+Latn');
+      expect(toAndroidQualifier('zh-Hans-CN')).toBe('b+zh+Hans+CN');
+      expect(toAndroidQualifier('es-419')).toBe('b+es+419');
+    });
+  });
+
   describe('isLanguageSpecificPath', () => {
     it('should return true for files with language code before extension', () => {
       expect(isLanguageSpecificPath('messages.de.xlf', 'de')).toBe(true);
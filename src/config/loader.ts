@@ -1,128 +1,32 @@
 import * as core from '@actions/core';
 import * as fs from 'fs';
 import * as path from 'path';
+import { parse } from 'yaml';
 import { z } from 'zod';
+import { loadGlossaryFile } from '../glossary/parser';
+import type { GlossaryEntry, TranslationExample } from '../types/translation';
 import { ConfigError, ValidationError, ValidationIssue } from '../utils/errors';
 import { logger } from '../utils/logger';
-import { actionConfigSchema, configFileSchema, isValidFileFormat, isValidProvider } from './schema';
+import {
+  actionConfigSchema,
+  configFileSchema,
+  isValidFileFormat,
+  isValidProvider,
+  translationModeSchema,
+} from './schema';
 import type {
   ActionConfig,
   ActionInputs,
   ConfigFile,
+  FallbackProviderSettings,
   FileFormat,
   Provider,
   ProviderConfig,
+  ReviewConfig,
+  RouteConfig,
 } from './types';
 import { DEFAULT_CONFIG } from './types';
 
-/**
- * Parse YAML content (simple implementation for basic structure)
- * For production, consider using a proper YAML parser like js-yaml
- */
-function parseYaml(content: string): Record<string, unknown> {
-  const result: Record<string, unknown> = {};
-  const lines = content.split('\n');
-  const stack: Array<{ obj: Record<string, unknown>; indent: number }> = [
-    { obj: result, indent: -1 },
-  ];
-
-  for (const line of lines) {
-    // Skip empty lines and comments
-    if (line.trim() === '' || line.trim().startsWith('#')) {
-      continue;
-    }
-
-    const indent = line.search(/\S/);
-    const trimmedLine = line.trim();
-
-    // Handle array items
-    if (trimmedLine.startsWith('- ')) {
-      const value = trimmedLine.slice(2).trim();
-      const current = stack[stack.length - 1];
-      if (current) {
-        const keys = Object.keys(current.obj);
-        const lastKey = keys[keys.length - 1];
-        if (lastKey !== undefined) {
-          const lastValue = current.obj[lastKey];
-          if (Array.isArray(lastValue)) {
-            lastValue.push(parseValue(value));
-          }
-        }
-      }
-      continue;
-    }
-
-    // Handle key-value pairs
-    const colonIndex = trimmedLine.indexOf(':');
-    if (colonIndex === -1) {
-      continue;
-    }
-
-    const key = trimmedLine.slice(0, colonIndex).trim();
-    const valueStr = trimmedLine.slice(colonIndex + 1).trim();
-
-    // Pop stack until we find the right parent
-    while (stack.length > 1 && (stack[stack.length - 1]?.indent ?? 0) >= indent) {
-      stack.pop();
-    }
-
-    const current = stack[stack.length - 1];
-    if (!current) {
-      continue;
-    }
-
-    if (valueStr === '') {
-      // This is a nested object or array
-      const nextLine = lines[lines.indexOf(line) + 1];
-      if (nextLine?.trim().startsWith('- ')) {
-        current.obj[key] = [];
-      } else {
-        const newObj: Record<string, unknown> = {};
-        current.obj[key] = newObj;
-        stack.push({ obj: newObj, indent });
-      }
-    } else {
-      current.obj[key] = parseValue(valueStr);
-    }
-  }
-
-  return result;
-}
-
-/**
- * Parse a YAML value to its appropriate type
- */
-function parseValue(value: string): unknown {
-  // Handle quoted strings
-  if (
-    (value.startsWith('"') && value.endsWith('"')) ||
-    (value.startsWith("'") && value.endsWith("'"))
-  ) {
-    return value.slice(1, -1);
-  }
-
-  // Handle booleans
-  if (value === 'true') {
-    return true;
-  }
-  if (value === 'false') {
-    return false;
-  }
-
-  // Handle null
-  if (value === 'null' || value === '~') {
-    return null;
-  }
-
-  // Handle numbers
-  const num = Number(value);
-  if (!isNaN(num) && value !== '') {
-    return num;
-  }
-
-  return value;
-}
-
 /**
  * Load configuration from file
  */
@@ -136,7 +40,7 @@ export function loadConfigFile(configPath: string): ConfigFile | null {
 
   try {
     const content = fs.readFileSync(absolutePath, 'utf-8');
-    const parsed = parseYaml(content);
+    const parsed: unknown = parse(content) ?? {};
     const validated = configFileSchema.parse(parsed);
     logger.info(`Loaded configuration from ${configPath}`);
     return validated;
@@ -173,8 +77,10 @@ export function getActionInputs(): ActionInputs {
     batchSize: core.getInput('batch-size') || String(DEFAULT_CONFIG.translation.batchSize),
     maxRetries: core.getInput('max-retries') || String(DEFAULT_CONFIG.translation.maxRetries),
     ollamaUrl: core.getInput('ollama-url') || undefined,
+    baseUrl: core.getInput('base-url') || undefined,
     dryRun: core.getInput('dry-run') || 'false',
     context: core.getInput('context') || undefined,
+    mode: core.getInput('mode') || undefined,
   };
 }
 
@@ -202,6 +108,7 @@ function buildProviderConfig(inputs: ActionInputs, fileConfig: ConfigFile | null
     case 'anthropic':
     case 'openai':
       config.apiKey = inputs.apiKey;
+      config.baseUrl = inputs.baseUrl ?? fileConfig?.provider?.baseUrl;
       if (!config.apiKey) {
         throw new ConfigError(`API key is required for ${provider} provider`);
       }
@@ -213,11 +120,204 @@ function buildProviderConfig(inputs: ActionInputs, fileConfig: ConfigFile | null
         throw new ConfigError('Model is required for Ollama provider');
       }
       break;
+    case 'openai-compatible':
+      config.apiKey = inputs.apiKey;
+      config.baseUrl = inputs.baseUrl ?? fileConfig?.provider?.baseUrl;
+      config.headers = fileConfig?.provider?.headers;
+      config.authScheme = fileConfig?.provider?.authScheme;
+      config.apiVersion = fileConfig?.provider?.apiVersion;
+      config.features = fileConfig?.provider?.features;
+      if (!config.baseUrl) {
+        throw new ConfigError('Base URL is required for openai-compatible provider');
+      }
+      if (!config.model) {
+        throw new ConfigError('Model is required for openai-compatible provider');
+      }
+      break;
+    case 'pseudo':
+      config.pseudo = fileConfig?.provider?.pseudo;
+      break;
+  }
+
+  return config;
+}
+
+/**
+ * Get the environment variable that holds the API key of a fallback provider
+ */
+export function getFallbackApiKeyVariable(provider: Provider): string {
+  return `${provider.toUpperCase().replace(/-/g, '_')}_API_KEY`;
+}
+
+/**
+ * Build the configuration of a provider other than the one given by the action
+ * inputs. Its API key is read from an environment variable such as OPENAI_API_KEY.
+ */
+function buildAdditionalProviderConfig(
+  provider: Provider,
+  settings: FallbackProviderSettings | undefined,
+  label: string
+): ProviderConfig {
+  const apiKeyVariable = getFallbackApiKeyVariable(provider);
+
+  const config: ProviderConfig = {
+    ...settings,
+    provider,
+    apiKey: process.env[apiKeyVariable] || undefined,
+    maxTokens: settings?.maxTokens ?? DEFAULT_CONFIG.provider.maxTokens,
+    temperature: settings?.temperature ?? DEFAULT_CONFIG.provider.temperature,
+  };
+
+  switch (provider) {
+    case 'anthropic':
+    case 'openai':
+      if (!config.apiKey) {
+        throw new ConfigError(
+          `API key is required for ${label}. Set ${apiKeyVariable} in the environment.`
+        );
+      }
+      break;
+    case 'ollama':
+      config.baseUrl = config.baseUrl ?? 'http://localhost:11434';
+      if (!config.model) {
+        throw new ConfigError(`Model is required for ${label}`);
+      }
+      break;
+    case 'openai-compatible':
+      if (!config.baseUrl || !config.model) {
+        throw new ConfigError(`Base URL and model are required for ${label}`);
+      }
+      break;
   }
 
   return config;
 }
 
+/**
+ * Build fallback provider configurations from the configuration file, in the order
+ * they are listed
+ */
+function buildFallbackProviderConfigs(fileConfig: ConfigFile | null): ProviderConfig[] {
+  const fallbacks = fileConfig?.provider?.fallbacks ?? [];
+
+  return fallbacks.map(({ provider, ...settings }, index) =>
+    buildAdditionalProviderConfig(
+      provider,
+      settings,
+      `fallback provider ${index + 1} (${provider})`
+    )
+  );
+}
+
+/**
+ * Build route configurations from the configuration file. A route that keeps the
+ * main provider overrides its settings; one that switches provider is configured
+ * like a fallback provider.
+ */
+function buildRouteConfigs(
+  fileConfig: ConfigFile | null,
+  providerConfig: ProviderConfig
+): RouteConfig[] {
+  const routes = fileConfig?.routes ?? {};
+
+  return Object.entries(routes).map(([name, route]) => {
+    const { languages, files, provider, ...settings } = route;
+
+    return {
+      name,
+      languages,
+      files,
+      provider:
+        provider && provider !== providerConfig.provider
+          ? buildAdditionalProviderConfig(provider, settings, `route ${name} (${provider})`)
+          : {
+              ...providerConfig,
+              model: settings.model ?? providerConfig.model,
+              baseUrl: settings.baseUrl ?? providerConfig.baseUrl,
+              maxTokens: settings.maxTokens ?? providerConfig.maxTokens,
+              temperature: settings.temperature ?? providerConfig.temperature,
+              pseudo: settings.pseudo ?? providerConfig.pseudo,
+            },
+    };
+  });
+}
+
+/**
+ * Build the quality review configuration from the configuration file. The review
+ * uses the main provider unless it names another one, which is configured like a
+ * fallback provider.
+ */
+function buildReviewConfig(
+  fileConfig: ConfigFile | null,
+  providerConfig: ProviderConfig
+): ReviewConfig {
+  const { enabled, threshold, provider, ...settings } = fileConfig?.review ?? {};
+  const review: ReviewConfig = {
+    enabled: enabled ?? DEFAULT_CONFIG.review.enabled,
+    threshold: threshold ?? DEFAULT_CONFIG.review.threshold,
+  };
+
+  if (review.enabled) {
+    review.provider =
+      provider && provider !== providerConfig.provider
+        ? buildAdditionalProviderConfig(provider, settings, `review provider ${provider}`)
+        : {
+            ...providerConfig,
+            model: settings.model ?? providerConfig.model,
+            baseUrl: settings.baseUrl ?? providerConfig.baseUrl,
+            maxTokens: settings.maxTokens ?? providerConfig.maxTokens,
+            temperature: settings.temperature ?? providerConfig.temperature,
+          };
+  }
+
+  return review;
+}
+
+/**
+ * Build the glossary from the configuration file: terms that are never translated,
+ * terms by target language and the entries of glossary files
+ */
+function buildGlossary(fileConfig: ConfigFile | null, sourceLanguage: string): GlossaryEntry[] {
+  const { files = [], doNotTranslate = [], terms = {} } = fileConfig?.glossary ?? {};
+
+  const glossary: GlossaryEntry[] = [
+    ...files.flatMap(file => loadGlossaryFile(file, sourceLanguage)),
+    ...doNotTranslate.map(term => ({ term })),
+    ...Object.entries(terms).flatMap(([language, translations]) =>
+      Object.entries(translations).map(([term, translation]) => ({ term, translation, language }))
+    ),
+  ];
+
+  if (glossary.length > 0) {
+    logger.info(`Loaded ${glossary.length} glossary entries`);
+  }
+
+  return glossary;
+}
+
+/**
+ * Read the style guide file of the configuration file
+ */
+function loadStyleGuide(filePath: string): string {
+  try {
+    return fs.readFileSync(path.resolve(filePath), 'utf-8');
+  } catch (error) {
+    throw new ConfigError(
+      `Failed to read style guide file: ${filePath}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Build the example translations from the configuration file
+ */
+function buildExamples(fileConfig: ConfigFile | null): TranslationExample[] {
+  return Object.entries(fileConfig?.translation?.examples ?? {}).flatMap(([language, examples]) =>
+    Object.entries(examples).map(([source, target]) => ({ source, target, language }))
+  );
+}
+
 /**
  * Merge configuration sources and validate
  */
@@ -245,10 +345,41 @@ export function loadConfig(inputs?: ActionInputs): ActionConfig {
   }
   const format = formatInput as FileFormat;
 
+  const mode =
+    actionInputs.mode ?? fileConfig?.translation?.mode ?? DEFAULT_CONFIG.translation.mode;
+  if (!translationModeSchema.safeParse(mode).success) {
+    throw new ConfigError(`Invalid translation mode: ${mode}`);
+  }
+
+  const providerConfig = buildProviderConfig(actionInputs, fileConfig);
+
+  const sourceLanguage =
+    actionInputs.sourceLanguage ||
+    fileConfig?.files?.sourceLanguage ||
+    DEFAULT_CONFIG.files.sourceLanguage ||
+    'en';
+
   // Build configuration object
   const configInput = {
-    provider: buildProviderConfig(actionInputs, fileConfig),
+    provider: providerConfig,
+    fallback: {
+      providers: buildFallbackProviderConfigs(fileConfig),
+      circuitBreakerThreshold:
+        fileConfig?.provider?.circuitBreakerThreshold ??
+        DEFAULT_CONFIG.fallback.circuitBreakerThreshold,
+    },
+    routes: buildRouteConfigs(fileConfig, providerConfig),
+    review: buildReviewConfig(fileConfig, providerConfig),
+    glossary: buildGlossary(fileConfig, sourceLanguage),
+    memory: {
+      enabled: fileConfig?.memory?.enabled ?? DEFAULT_CONFIG.memory.enabled,
+      fuzzyThreshold: fileConfig?.memory?.fuzzyThreshold ?? DEFAULT_CONFIG.memory.fuzzyThreshold,
+      maxReferences: fileConfig?.memory?.maxReferences ?? DEFAULT_CONFIG.memory.maxReferences,
+      importTmx: fileConfig?.memory?.importTmx ?? DEFAULT_CONFIG.memory.importTmx,
+      exportTmx: fileConfig?.memory?.exportTmx,
+    },
     translation: {
+      mode,
       batchSize:
         parseInt(actionInputs.batchSize, 10) ||
         fileConfig?.translation?.batchSize ||
@@ -257,16 +388,24 @@ export function loadConfig(inputs?: ActionInputs): ActionConfig {
         parseInt(actionInputs.maxRetries, 10) ||
         fileConfig?.translation?.maxRetries ||
         DEFAULT_CONFIG.translation.maxRetries,
+      maxValidationRetries:
+        fileConfig?.translation?.maxValidationRetries ??
+        DEFAULT_CONFIG.translation.maxValidationRetries,
       retryDelayMs:
         fileConfig?.translation?.retryDelayMs ?? DEFAULT_CONFIG.translation.retryDelayMs,
       rateLimitPerMinute: fileConfig?.translation?.rateLimitPerMinute,
       context: actionInputs.context ?? fileConfig?.translation?.context,
+      styleGuide: fileConfig?.translation?.styleGuide
+        ? loadStyleGuide(fileConfig.translation.styleGuide)
+        : undefined,
+      examples: buildExamples(fileConfig),
       preserveFormatting:
         fileConfig?.translation?.preserveFormatting ??
         DEFAULT_CONFIG.translation.preserveFormatting,
       preservePlaceholders:
         fileConfig?.translation?.preservePlaceholders ??
         DEFAULT_CONFIG.translation.preservePlaceholders,
+      humanEdits: fileConfig?.translation?.humanEdits ?? DEFAULT_CONFIG.translation.humanEdits,
     },
     git: {
       enabled:
@@ -282,14 +421,11 @@ export function loadConfig(inputs?: ActionInputs): ActionConfig {
     files: {
       pattern: actionInputs.files || fileConfig?.files?.pattern || '**/*.xliff',
       format,
-      sourceLanguage:
-        actionInputs.sourceLanguage ||
-        fileConfig?.files?.sourceLanguage ||
-        DEFAULT_CONFIG.files.sourceLanguage ||
-        'en',
+      sourceLanguage,
       targetLanguages:
         targetLanguages.length > 0 ? targetLanguages : (fileConfig?.files?.targetLanguages ?? []),
       exclude: fileConfig?.files?.exclude,
+      layout: fileConfig?.files?.layout,
     },
     dryRun: actionInputs.dryRun === 'true' || (fileConfig?.dryRun ?? DEFAULT_CONFIG.dryRun),
   };
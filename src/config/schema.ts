@@ -4,7 +4,37 @@ import type { FileFormat, Provider } from './types';
 /**
  * Provider enum schema
  */
-export const providerSchema = z.enum(['anthropic', 'openai', 'ollama']);
+export const providerSchema = z.enum([
+  'anthropic',
+  'openai',
+  'ollama',
+  'openai-compatible',
+  'pseudo',
+]);
+
+/**
+ * Auth scheme enum schema
+ */
+export const authSchemeSchema = z.enum(['bearer', 'api-key', 'none']);
+
+/**
+ * OpenAI-compatible server features schema
+ */
+export const openAICompatibleFeaturesSchema = z.object({
+  jsonMode: z.enum(['json_schema', 'json_object', 'none']).optional(),
+  tools: z.boolean().optional(),
+  usage: z.boolean().optional(),
+});
+
+/**
+ * Pseudo-localization options schema
+ */
+export const pseudoLocalizationSchema = z.object({
+  accents: z.boolean().optional(),
+  expansion: z.number().int().min(0).max(300).optional(),
+  brackets: z.boolean().optional(),
+  mirror: z.boolean().optional(),
+});
 
 /**
  * File format enum schema
@@ -14,9 +44,35 @@ export const fileFormatSchema = z.enum([
   'xliff-2.0',
   'json-flat',
   'json-nested',
+  'yaml',
+  'po',
+  'android-xml',
+  'ios-strings',
+  'ios-stringsdict',
+  'xcstrings',
+  'arb',
+  'properties',
+  'resx',
+  'fluent',
+  'i18next',
   'auto',
 ]);
 
+/**
+ * Translation mode enum schema
+ */
+export const translationModeSchema = z.enum(['sync', 'batch']);
+
+/**
+ * Human edit mode schema
+ */
+export const humanEditModeSchema = z.enum(['skip', 'update', 'overwrite']);
+
+/**
+ * Output layout enum schema
+ */
+export const outputLayoutSchema = z.enum(['auto', 'suffix', 'android', 'apple']);
+
 /**
  * Language code schema (BCP-47 format)
  */
@@ -37,6 +93,11 @@ export const providerConfigSchema = z
     baseUrl: z.string().url().optional(),
     maxTokens: z.number().int().positive().max(100000).optional(),
     temperature: z.number().min(0).max(2).optional(),
+    headers: z.record(z.string()).optional(),
+    authScheme: authSchemeSchema.optional(),
+    apiVersion: z.string().min(1).optional(),
+    features: openAICompatibleFeaturesSchema.optional(),
+    pseudo: pseudoLocalizationSchema.optional(),
   })
   .refine(
     data => {
@@ -44,29 +105,97 @@ export const providerConfigSchema = z
       if ((data.provider === 'anthropic' || data.provider === 'openai') && !data.apiKey) {
         return false;
       }
-      // Base URL required for ollama
-      if (data.provider === 'ollama' && !data.baseUrl) {
+      // Base URL required for ollama and openai-compatible
+      if ((data.provider === 'ollama' || data.provider === 'openai-compatible') && !data.baseUrl) {
+        return false;
+      }
+      // The api-key auth scheme needs a key to send
+      if (data.authScheme === 'api-key' && !data.apiKey) {
         return false;
       }
       return true;
     },
     {
       message:
-        'API key is required for anthropic and openai providers. Base URL is required for ollama.',
+        'API key is required for anthropic and openai providers and for the api-key auth scheme. Base URL is required for ollama and openai-compatible.',
     }
   );
 
+/**
+ * Fallback configuration schema
+ */
+export const fallbackConfigSchema = z.object({
+  providers: z.array(providerConfigSchema).default([]),
+  circuitBreakerThreshold: z.number().int().positive().max(100).default(3),
+});
+
+/**
+ * Route configuration schema
+ */
+export const routeConfigSchema = z.object({
+  name: z
+    .string()
+    .min(1)
+    .refine(name => name !== 'default', 'The route name "default" is reserved'),
+  languages: z.array(languageCodeSchema).optional(),
+  files: z.array(z.string().min(1)).optional(),
+  provider: providerConfigSchema,
+});
+
+/**
+ * Quality review configuration schema
+ */
+export const reviewConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  threshold: z.number().min(0).max(100).default(70),
+  provider: providerConfigSchema.optional(),
+});
+
+/**
+ * Glossary entry schema
+ */
+export const glossaryEntrySchema = z.object({
+  term: z.string().min(1),
+  translation: z.string().min(1).optional(),
+  language: languageCodeSchema.optional(),
+});
+
+/**
+ * Example translation schema
+ */
+export const translationExampleSchema = z.object({
+  source: z.string().min(1),
+  target: z.string().min(1),
+  language: languageCodeSchema.optional(),
+});
+
+/**
+ * Translation memory configuration schema
+ */
+export const memoryConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  fuzzyThreshold: z.number().min(0).max(100).default(75),
+  maxReferences: z.number().int().min(0).max(10).default(3),
+  importTmx: z.array(z.string().min(1)).default([]),
+  exportTmx: z.string().min(1).optional(),
+});
+
 /**
  * Translation configuration schema
  */
 export const translationConfigSchema = z.object({
+  mode: translationModeSchema.default('sync'),
   batchSize: z.number().int().positive().max(200).default(10),
   maxRetries: z.number().int().min(0).max(10).default(3),
+  maxValidationRetries: z.number().int().min(0).max(10).default(2),
   retryDelayMs: z.number().int().positive().max(60000).default(1000),
   rateLimitPerMinute: z.number().int().positive().optional(),
   context: z.string().max(2000).optional(),
+  styleGuide: z.string().optional(),
+  examples: z.array(translationExampleSchema).default([]),
   preserveFormatting: z.boolean().default(true),
   preservePlaceholders: z.boolean().default(true),
+  humanEdits: humanEditModeSchema.default('skip'),
 });
 
 /**
@@ -89,6 +218,7 @@ export const filesConfigSchema = z.object({
   sourceLanguage: languageCodeSchema.default('en'),
   targetLanguages: z.array(languageCodeSchema).min(1),
   exclude: z.array(z.string()).optional(),
+  layout: outputLayoutSchema.optional(),
 });
 
 /**
@@ -96,34 +226,99 @@ export const filesConfigSchema = z.object({
  */
 export const actionConfigSchema = z.object({
   provider: providerConfigSchema,
+  fallback: fallbackConfigSchema.default({}),
+  routes: z.array(routeConfigSchema).default([]),
+  review: reviewConfigSchema.default({}),
+  glossary: z.array(glossaryEntrySchema).default([]),
+  memory: memoryConfigSchema.default({}),
   translation: translationConfigSchema,
   git: gitConfigSchema,
   files: filesConfigSchema,
   dryRun: z.boolean().default(false),
 });
 
+/**
+ * Provider settings schema of the configuration file
+ */
+const providerSettingsSchema = z.object({
+  model: z.string().min(1).optional(),
+  baseUrl: z.string().url().optional(),
+  maxTokens: z.number().int().positive().max(100000).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  headers: z.record(z.string()).optional(),
+  authScheme: authSchemeSchema.optional(),
+  apiVersion: z.string().min(1).optional(),
+  features: openAICompatibleFeaturesSchema.optional(),
+  pseudo: pseudoLocalizationSchema.optional(),
+});
+
 /**
  * Configuration file schema (.i18n-translate.yml)
  */
 export const configFileSchema = z.object({
-  provider: z
-    .object({
+  provider: providerSettingsSchema
+    .extend({
       name: providerSchema.optional(),
+      fallbacks: z.array(providerSettingsSchema.extend({ provider: providerSchema })).optional(),
+      circuitBreakerThreshold: z.number().int().positive().max(100).optional(),
+    })
+    .optional(),
+  routes: z
+    .record(
+      z.string().min(1),
+      z.object({
+        languages: z.array(languageCodeSchema).optional(),
+        files: z.array(z.string().min(1)).optional(),
+        provider: providerSchema.optional(),
+        model: z.string().min(1).optional(),
+        baseUrl: z.string().url().optional(),
+        maxTokens: z.number().int().positive().max(100000).optional(),
+        temperature: z.number().min(0).max(2).optional(),
+        pseudo: pseudoLocalizationSchema.optional(),
+      })
+    )
+    .optional(),
+  review: z
+    .object({
+      enabled: z.boolean().optional(),
+      threshold: z.number().min(0).max(100).optional(),
+      provider: providerSchema.optional(),
       model: z.string().min(1).optional(),
       baseUrl: z.string().url().optional(),
       maxTokens: z.number().int().positive().max(100000).optional(),
       temperature: z.number().min(0).max(2).optional(),
     })
     .optional(),
+  glossary: z
+    .object({
+      files: z.array(z.string().min(1)).optional(),
+      doNotTranslate: z.array(z.string().min(1)).optional(),
+      terms: z.record(languageCodeSchema, z.record(z.string().min(1), z.string())).optional(),
+    })
+    .optional(),
+  memory: z
+    .object({
+      enabled: z.boolean().optional(),
+      fuzzyThreshold: z.number().min(0).max(100).optional(),
+      maxReferences: z.number().int().min(0).max(10).optional(),
+      importTmx: z.array(z.string().min(1)).optional(),
+      exportTmx: z.string().min(1).optional(),
+    })
+    .optional(),
   translation: z
     .object({
+      mode: translationModeSchema.optional(),
       batchSize: z.number().int().positive().max(200).optional(),
       maxRetries: z.number().int().min(0).max(10).optional(),
+      maxValidationRetries: z.number().int().min(0).max(10).optional(),
       retryDelayMs: z.number().int().positive().max(60000).optional(),
       rateLimitPerMinute: z.number().int().positive().optional(),
       context: z.string().max(2000).optional(),
+      styleGuide: z.string().min(1).optional(),
+      examples: z.record(languageCodeSchema, z.record(z.string().min(1), z.string())).optional(),
       preserveFormatting: z.boolean().optional(),
       preservePlaceholders: z.boolean().optional(),
+      humanEdits: humanEditModeSchema.optional(),
     })
     .optional(),
   git: z
@@ -142,6 +337,7 @@ export const configFileSchema = z.object({
       sourceLanguage: languageCodeSchema.optional(),
       targetLanguages: z.array(languageCodeSchema).optional(),
       exclude: z.array(z.string()).optional(),
+      layout: outputLayoutSchema.optional(),
     })
     .optional(),
   dryRun: z.boolean().optional(),
@@ -151,6 +347,12 @@ export const configFileSchema = z.object({
  * Type inference helpers
  */
 export type ProviderConfigInput = z.input<typeof providerConfigSchema>;
+export type FallbackConfigInput = z.input<typeof fallbackConfigSchema>;
+export type RouteConfigInput = z.input<typeof routeConfigSchema>;
+export type ReviewConfigInput = z.input<typeof reviewConfigSchema>;
+export type GlossaryEntryInput = z.input<typeof glossaryEntrySchema>;
+export type TranslationExampleInput = z.input<typeof translationExampleSchema>;
+export type MemoryConfigInput = z.input<typeof memoryConfigSchema>;
 export type TranslationConfigInput = z.input<typeof translationConfigSchema>;
 export type GitConfigInput = z.input<typeof gitConfigSchema>;
 export type FilesConfigInput = z.input<typeof filesConfigSchema>;
@@ -161,12 +363,29 @@ export type ConfigFileInput = z.input<typeof configFileSchema>;
  * Validate provider type
  */
 export function isValidProvider(value: string): value is Provider {
-  return ['anthropic', 'openai', 'ollama'].includes(value);
+  return ['anthropic', 'openai', 'ollama', 'openai-compatible', 'pseudo'].includes(value);
 }
 
 /**
  * Validate file format type
  */
 export function isValidFileFormat(value: string): value is FileFormat {
-  return ['xliff-1.2', 'xliff-2.0', 'json-flat', 'json-nested', 'auto'].includes(value);
+  return [
+    'xliff-1.2',
+    'xliff-2.0',
+    'json-flat',
+    'json-nested',
+    'yaml',
+    'po',
+    'android-xml',
+    'ios-strings',
+    'ios-stringsdict',
+    'xcstrings',
+    'arb',
+    'properties',
+    'resx',
+    'fluent',
+    'i18next',
+    'auto',
+  ].includes(value);
 }
@@ -1,12 +1,98 @@
+import type { GlossaryEntry, TranslationExample } from '../types/translation';
+
 /**
  * Supported LLM providers
  */
-export type Provider = 'anthropic' | 'openai' | 'ollama';
+export type Provider = 'anthropic' | 'openai' | 'ollama' | 'openai-compatible' | 'pseudo';
 
 /**
  * Supported file formats
  */
-export type FileFormat = 'xliff-1.2' | 'xliff-2.0' | 'json-flat' | 'json-nested' | 'auto';
+export type FileFormat =
+  | 'xliff-1.2'
+  | 'xliff-2.0'
+  | 'json-flat'
+  | 'json-nested'
+  | 'yaml'
+  | 'po'
+  | 'android-xml'
+  | 'ios-strings'
+  | 'ios-stringsdict'
+  | 'xcstrings'
+  | 'arb'
+  | 'properties'
+  | 'resx'
+  | 'fluent'
+  | 'i18next'
+  | 'auto';
+
+/**
+ * Output file layout
+ * - suffix: insert the language code into the file name (messages.de.xlf)
+ * - android: sibling values-<qualifier> resource directories (res/values-de/strings.xml)
+ * - apple: sibling <lang>.lproj bundle directories (de.lproj/Localizable.strings)
+ * - auto: android for strings files in a values directory, apple for files in a
+ *   .lproj directory, suffix otherwise
+ */
+export type OutputLayout = 'auto' | 'suffix' | 'android' | 'apple';
+
+/**
+ * How translation requests are sent
+ * - sync: one API call per batch, results are written in the same run
+ * - batch: all batches are submitted as an asynchronous batch job whose results
+ *   are collected by a later run
+ */
+export type TranslationMode = 'sync' | 'batch';
+
+/**
+ * What happens to translations a reviewer edited or approved when their source changes
+ * - skip: they are kept and not translated again
+ * - update: they are translated again, with the reviewer's translation sent to the
+ *   model to update
+ * - overwrite: they are translated again like other units
+ */
+export type HumanEditMode = 'skip' | 'update' | 'overwrite';
+
+/**
+ * How an OpenAI-compatible server expects the API key
+ * - bearer: Authorization: Bearer <key>
+ * - api-key: api-key: <key> (Azure OpenAI)
+ * - none: no key is sent
+ */
+export type AuthScheme = 'bearer' | 'api-key' | 'none';
+
+/**
+ * Structured output support of an OpenAI-compatible server
+ * - json_schema: response_format with a JSON schema
+ * - json_object: JSON mode without a schema
+ * - none: the JSON is parsed from plain text
+ */
+export type JsonMode = 'json_schema' | 'json_object' | 'none';
+
+/**
+ * Features an OpenAI-compatible server supports
+ */
+export interface OpenAICompatibleFeatures {
+  jsonMode: JsonMode;
+  /** Forced function calls (tools and tool_choice) */
+  tools: boolean;
+  /** Token usage in responses */
+  usage: boolean;
+}
+
+/**
+ * How the pseudo provider transforms source text
+ */
+export interface PseudoLocalizationOptions {
+  /** Replace letters with accented look-alikes */
+  accents: boolean;
+  /** Length expansion in percent of the text, added as filler words */
+  expansion: number;
+  /** Wrap each message in [ and ] to reveal truncation and concatenation */
+  brackets: boolean;
+  /** Mark each word as right-to-left to reveal layouts that do not mirror */
+  mirror: boolean;
+}
 
 /**
  * Provider-specific configuration
@@ -18,6 +104,16 @@ export interface ProviderConfig {
   baseUrl?: string;
   maxTokens?: number;
   temperature?: number;
+  /** Extra HTTP headers (openai-compatible) */
+  headers?: Record<string, string>;
+  /** How the API key is sent (openai-compatible), bearer when a key is set */
+  authScheme?: AuthScheme;
+  /** api-version query parameter (openai-compatible), as required by Azure OpenAI */
+  apiVersion?: string;
+  /** Features the server supports (openai-compatible) */
+  features?: Partial<OpenAICompatibleFeatures>;
+  /** How source text is transformed (pseudo) */
+  pseudo?: Partial<PseudoLocalizationOptions>;
 }
 
 /**
@@ -47,17 +143,144 @@ export interface OllamaConfig extends ProviderConfig {
   model: string;
 }
 
+/**
+ * OpenAI-compatible server configuration (vLLM, LM Studio, llama.cpp, Azure OpenAI)
+ */
+export interface OpenAICompatibleConfig extends ProviderConfig {
+  provider: 'openai-compatible';
+  baseUrl: string;
+  model: string;
+}
+
+/**
+ * Pseudo-localization configuration, which needs no network
+ */
+export interface PseudoConfig extends ProviderConfig {
+  provider: 'pseudo';
+}
+
+/**
+ * Provider fallback configuration
+ */
+export interface FallbackConfig {
+  /** Providers tried in order once the providers before them are unavailable */
+  providers: ProviderConfig[];
+  /** Consecutive retryable errors after which a provider is skipped for the rest of the run */
+  circuitBreakerThreshold: number;
+}
+
+/**
+ * Settings of a fallback provider in the configuration file
+ */
+export type FallbackProviderSettings = Omit<ProviderConfig, 'provider' | 'apiKey'>;
+
+/**
+ * Fallback provider in the configuration file
+ */
+export interface FallbackProviderEntry extends FallbackProviderSettings {
+  provider: Provider;
+}
+
+/**
+ * Provider settings for some target languages or source files
+ */
+export interface RouteConfig {
+  /** Route name, used in the report */
+  name: string;
+  /** Target languages the route applies to (all when not set) */
+  languages?: string[];
+  /** Source file globs the route applies to (all when not set) */
+  files?: string[];
+  provider: ProviderConfig;
+}
+
+/**
+ * Settings of a route in the configuration file
+ */
+export interface RouteSettings {
+  languages?: string[];
+  files?: string[];
+  provider?: Provider;
+  model?: string;
+  baseUrl?: string;
+  maxTokens?: number;
+  temperature?: number;
+  pseudo?: Partial<PseudoLocalizationOptions>;
+}
+
+/**
+ * Quality review configuration
+ */
+export interface ReviewConfig {
+  /** Score each translation in a review pass */
+  enabled: boolean;
+  /** Score from 0 to 100 below which a translation is marked as needing review */
+  threshold: number;
+  /** Provider that scores the translations, the main provider when not set */
+  provider?: ProviderConfig;
+}
+
+/**
+ * Settings of the quality review in the configuration file
+ */
+export interface ReviewSettings {
+  enabled?: boolean;
+  threshold?: number;
+  provider?: Provider;
+  model?: string;
+  baseUrl?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+/**
+ * Settings of the glossary in the configuration file
+ */
+export interface GlossarySettings {
+  /** CSV or TBX glossary files, relative to the repository root */
+  files?: string[];
+  /** Terms that are never translated, such as brand names */
+  doNotTranslate?: string[];
+  /** Terms by target language, mapped to their translation */
+  terms?: Record<string, Record<string, string>>;
+}
+
+/**
+ * Translation memory configuration
+ */
+export interface MemoryConfig {
+  /** Reuse and reference earlier translations */
+  enabled: boolean;
+  /** Similarity from 0 to 100 from which an earlier source is sent as a reference */
+  fuzzyThreshold: number;
+  /** Similar translations sent with each unit */
+  maxReferences: number;
+  /** TMX files the memory is seeded from */
+  importTmx: string[];
+  /** Directory the accepted translations of a run are exported to, as a TMX file per language pair */
+  exportTmx?: string;
+}
+
 /**
  * Translation behavior configuration
  */
 export interface TranslationConfig {
+  mode: TranslationMode;
   batchSize: number;
   maxRetries: number;
+  /** Times a translation that fails validation is sent back to be corrected */
+  maxValidationRetries: number;
   retryDelayMs: number;
   rateLimitPerMinute?: number;
   context?: string;
+  /** Content of the style guide file */
+  styleGuide?: string;
+  /** Example translations of all target languages */
+  examples: TranslationExample[];
   preserveFormatting: boolean;
   preservePlaceholders: boolean;
+  /** What happens to translations a reviewer edited or approved */
+  humanEdits: HumanEditMode;
 }
 
 /**
@@ -80,6 +303,7 @@ export interface FilesConfig {
   sourceLanguage: string;
   targetLanguages: string[];
   exclude?: string[];
+  layout?: OutputLayout;
 }
 
 /**
@@ -87,6 +311,13 @@ export interface FilesConfig {
  */
 export interface ActionConfig {
   provider: ProviderConfig;
+  fallback: FallbackConfig;
+  /** Routes tried in order; the first that applies to a file and language is used */
+  routes: RouteConfig[];
+  review: ReviewConfig;
+  /** Glossary entries of all target languages, from the configuration and glossary files */
+  glossary: GlossaryEntry[];
+  memory: MemoryConfig;
   translation: TranslationConfig;
   git: GitConfig;
   files: FilesConfig;
@@ -104,12 +335,32 @@ export const DEFAULT_CONFIG: Omit<ActionConfig, 'provider' | 'files'> & {
     maxTokens: 4096,
     temperature: 0.3,
   },
+  fallback: {
+    providers: [],
+    circuitBreakerThreshold: 3,
+  },
+  routes: [],
+  review: {
+    enabled: false,
+    threshold: 70,
+  },
+  glossary: [],
+  memory: {
+    enabled: false,
+    fuzzyThreshold: 75,
+    maxReferences: 3,
+    importTmx: [],
+  },
   translation: {
+    mode: 'sync',
     batchSize: 10,
     maxRetries: 3,
+    maxValidationRetries: 2,
     retryDelayMs: 1000,
+    examples: [],
     preserveFormatting: true,
     preservePlaceholders: true,
+    humanEdits: 'skip',
   },
   git: {
     enabled: true,
@@ -139,8 +390,10 @@ export interface ActionInputs {
   batchSize: string;
   maxRetries: string;
   ollamaUrl?: string;
+  baseUrl?: string;
   dryRun: string;
   context?: string;
+  mode?: string;
 }
 
 /**
@@ -153,15 +406,38 @@ export interface ConfigFile {
     baseUrl?: string;
     maxTokens?: number;
     temperature?: number;
+    headers?: Record<string, string>;
+    authScheme?: AuthScheme;
+    apiVersion?: string;
+    features?: Partial<OpenAICompatibleFeatures>;
+    pseudo?: Partial<PseudoLocalizationOptions>;
+    /** Fallback providers in the order they are tried; a provider may be listed more than once */
+    fallbacks?: FallbackProviderEntry[];
+    circuitBreakerThreshold?: number;
   };
+  /** Routes by name, in the order they are tried */
+  routes?: Record<string, RouteSettings>;
+  /** Quality review of the translations */
+  review?: ReviewSettings;
+  /** Glossary terms, inline and from files */
+  glossary?: GlossarySettings;
+  /** Translation memory */
+  memory?: Partial<MemoryConfig>;
   translation?: {
+    mode?: TranslationMode;
     batchSize?: number;
     maxRetries?: number;
+    maxValidationRetries?: number;
     retryDelayMs?: number;
     rateLimitPerMinute?: number;
     context?: string;
+    /** Style guide file, relative to the repository root */
+    styleGuide?: string;
+    /** Example translations by target language, mapped from their source */
+    examples?: Record<string, Record<string, string>>;
     preserveFormatting?: boolean;
     preservePlaceholders?: boolean;
+    humanEdits?: HumanEditMode;
   };
   git?: {
     enabled?: boolean;
@@ -176,6 +452,7 @@ export interface ConfigFile {
     sourceLanguage?: string;
     targetLanguages?: string[];
     exclude?: string[];
+    layout?: OutputLayout;
   };
   dryRun?: boolean;
 }
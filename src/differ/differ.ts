@@ -1,6 +1,6 @@
 import { logger } from '../utils/logger';
 import type { ChangeType, DiffEntry, DiffResult, TranslationUnit } from '../types/translation';
-import { hashContent, hashesMatch, HashStore } from './hasher';
+import { getHashStoreEntry, hashContent, hashesMatch, HashStore } from './hasher';
 
 /**
  * Options for diffing
@@ -114,35 +114,73 @@ export function diffUnits(
 }
 
 /**
- * Compare against a hash store
+ * Compare against the hash store entry for a file and target language
  */
 export function diffAgainstStore(
   filePath: string,
+  targetLanguage: string,
   currentUnits: TranslationUnit[],
   store: HashStore,
   options?: DiffOptions
 ): DiffResult {
-  const fileEntry = store.files[filePath];
+  const languageEntry = getHashStoreEntry(store, filePath, targetLanguage);
   const previousHashes = new Map<string, string>();
 
-  if (fileEntry) {
-    for (const [id, hash] of Object.entries(fileEntry.units)) {
+  if (languageEntry) {
+    for (const [id, hash] of Object.entries(languageEntry.units)) {
       previousHashes.set(id, hash);
     }
   }
 
-  return diffUnits(currentUnits, previousHashes, options);
+  const result = diffUnits(currentUnits, previousHashes, options);
+
+  for (const entry of result.entries) {
+    entry.targetLanguage = targetLanguage;
+  }
+
+  return result;
 }
 
 /**
- * Filter units that need translation (new or modified)
+ * Filter units that need translation (new or modified).
+ * When a target language is given, only entries diffed for that language are included.
  */
-export function getUnitsNeedingTranslation(diffResult: DiffResult): TranslationUnit[] {
+export function getUnitsNeedingTranslation(
+  diffResult: DiffResult,
+  targetLanguage?: string
+): TranslationUnit[] {
   return diffResult.entries
     .filter(entry => entry.changeType === 'new' || entry.changeType === 'modified')
+    .filter(
+      entry =>
+        targetLanguage === undefined ||
+        entry.targetLanguage === undefined ||
+        entry.targetLanguage === targetLanguage
+    )
     .map(entry => entry.unit);
 }
 
+/**
+ * XLIFF states of translations that a reviewer signed off
+ */
+const APPROVED_STATES = new Set(['final', 'signed-off']);
+
+/**
+ * Check whether an existing translation is a reviewer's: it is approved or final,
+ * or it differs from the target that was written for it
+ */
+export function isHumanTranslation(existing: TranslationUnit, targetHash?: string): boolean {
+  if (!existing.target) {
+    return false;
+  }
+
+  if (existing.metadata.approved || APPROVED_STATES.has(existing.metadata.state ?? '')) {
+    return true;
+  }
+
+  return targetHash !== undefined && !hashesMatch(hashContent(existing.target), targetHash);
+}
+
 /**
  * Create a diff result comparing two sets of units directly
  */
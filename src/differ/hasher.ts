@@ -94,7 +94,25 @@ export function hashFileContent(units: Array<{ id: string; source: string }>): s
 }
 
 /**
- * Storage format for persisted hashes
+ * Current hash store format version
+ */
+export const HASH_STORE_VERSION = 2;
+
+/**
+ * Hashes recorded for one source file and one target language
+ */
+export interface HashStoreEntry {
+  fileHash: string;
+  units: Record<string, string>;
+  /** Hashes of the targets that were written, to detect edits by reviewers */
+  targets?: Record<string, string>;
+  /** Source texts that were translated, to show the model what changed */
+  sources?: Record<string, string>;
+}
+
+/**
+ * Storage format for persisted hashes.
+ * Entries are keyed by source file path, then by target language.
  */
 export interface HashStore {
   version: number;
@@ -102,60 +120,128 @@ export interface HashStore {
   files: Record<
     string,
     {
-      fileHash: string;
-      units: Record<string, string>;
+      languages: Record<string, HashStoreEntry>;
     }
   >;
 }
 
+/**
+ * Version 1 storage format (single entry per source file, no language)
+ */
+interface HashStoreV1 {
+  version: 1;
+  generated: string;
+  files: Record<string, HashStoreEntry>;
+}
+
+/**
+ * Options for migrating older hash store versions
+ */
+export interface HashStoreMigrationOptions {
+  /**
+   * Resolve the target languages a version 1 file entry applies to.
+   * Version 1 stores did not record the language, so entries are dropped
+   * (and their units re-translated) unless this returns languages for them.
+   */
+  resolveLanguages?: (filePath: string) => string[];
+}
+
 /**
  * Create a new hash store
  */
 export function createHashStore(): HashStore {
   return {
-    version: 1,
+    version: HASH_STORE_VERSION,
     generated: new Date().toISOString(),
     files: {},
   };
 }
 
 /**
- * Add file hashes to store (merges with existing hashes)
+ * Add file hashes for a target language to store (merges with existing hashes).
+ * The targets of units that have one are hashed too.
  */
 export function addToHashStore(
   store: HashStore,
   filePath: string,
-  units: Array<{ id: string; source: string }>
+  targetLanguage: string,
+  units: Array<{ id: string; source: string; target?: string }>
 ): void {
-  // Get existing hashes for this file (if any)
-  const existingEntry = store.files[filePath];
-  const existingHashes = existingEntry?.units ?? {};
+  // Get existing hashes for this file and language (if any)
+  const fileEntry = store.files[filePath] ?? { languages: {} };
+  const existingEntry = fileEntry.languages[targetLanguage];
 
   // Build new hashes from the provided units
   const newHashes: Record<string, string> = {};
+  const newTargetHashes: Record<string, string> = {};
+  const newSources: Record<string, string> = {};
   for (const unit of units) {
     newHashes[unit.id] = hashContent(unit.source);
+    newSources[unit.id] = unit.source;
+    if (unit.target) {
+      newTargetHashes[unit.id] = hashContent(unit.target);
+    }
   }
 
   // MERGE: existing hashes + new hashes (new hashes take precedence)
-  const mergedHashes = { ...existingHashes, ...newHashes };
+  const mergedHashes = { ...existingEntry?.units, ...newHashes };
+  const mergedTargetHashes = { ...existingEntry?.targets, ...newTargetHashes };
 
-  store.files[filePath] = {
+  fileEntry.languages[targetLanguage] = {
     fileHash: hashFileContent(units),
     units: mergedHashes,
+    ...(Object.keys(mergedTargetHashes).length > 0 && { targets: mergedTargetHashes }),
+    sources: { ...existingEntry?.sources, ...newSources },
   };
+  store.files[filePath] = fileEntry;
   store.generated = new Date().toISOString();
 }
 
+/**
+ * Get the hash entry for a file and target language
+ */
+export function getHashStoreEntry(
+  store: HashStore,
+  filePath: string,
+  targetLanguage: string
+): HashStoreEntry | undefined {
+  return store.files[filePath]?.languages[targetLanguage];
+}
+
 /**
  * Get unit hash from store
  */
 export function getUnitHash(
   store: HashStore,
   filePath: string,
+  targetLanguage: string,
   unitId: string
 ): string | undefined {
-  return store.files[filePath]?.units[unitId];
+  return getHashStoreEntry(store, filePath, targetLanguage)?.units[unitId];
+}
+
+/**
+ * Get the hash of the target written for a unit from store
+ */
+export function getTargetHash(
+  store: HashStore,
+  filePath: string,
+  targetLanguage: string,
+  unitId: string
+): string | undefined {
+  return getHashStoreEntry(store, filePath, targetLanguage)?.targets?.[unitId];
+}
+
+/**
+ * Get the source text a unit was last translated from, from store
+ */
+export function getPreviousSource(
+  store: HashStore,
+  filePath: string,
+  targetLanguage: string,
+  unitId: string
+): string | undefined {
+  return getHashStoreEntry(store, filePath, targetLanguage)?.sources?.[unitId];
 }
 
 /**
@@ -166,12 +252,42 @@ export function serializeHashStore(store: HashStore): string {
 }
 
 /**
- * Parse hash store from JSON
+ * Migrate a version 1 hash store to the current format
  */
-export function parseHashStore(json: string): HashStore {
+export function migrateHashStore(
+  store: HashStoreV1,
+  options?: HashStoreMigrationOptions
+): HashStore {
+  const migrated = createHashStore();
+  migrated.generated = store.generated;
+
+  for (const [filePath, entry] of Object.entries(store.files)) {
+    const languages = options?.resolveLanguages?.(filePath) ?? [];
+    if (languages.length === 0) {
+      continue;
+    }
+
+    const languageEntries: Record<string, HashStoreEntry> = {};
+    for (const language of languages) {
+      languageEntries[language] = { fileHash: entry.fileHash, units: { ...entry.units } };
+    }
+    migrated.files[filePath] = { languages: languageEntries };
+  }
+
+  return migrated;
+}
+
+/**
+ * Parse hash store from JSON, migrating older versions
+ */
+export function parseHashStore(json: string, options?: HashStoreMigrationOptions): HashStore {
   const parsed = JSON.parse(json) as HashStore;
 
-  if (parsed.version !== 1) {
+  if (parsed.version === 1) {
+    return migrateHashStore(parsed as unknown as HashStoreV1, options);
+  }
+
+  if (parsed.version !== HASH_STORE_VERSION) {
     throw new Error(`Unsupported hash store version: ${parsed.version}`);
   }
 
@@ -0,0 +1,448 @@
+import * as crypto from 'crypto';
+import { ExtractorError } from '../utils/errors';
+import type { ExtractResult, FormatInfo, TranslationUnit } from '../types/translation';
+import { getCardinalCategories } from '../icu/cldr-rules';
+import { parseICUMessage } from '../icu/parser';
+import { reconstructPlural } from '../icu/reconstructor';
+import { BaseExtractor, ExtractOptions } from './base';
+
+/**
+ * ICU argument name used when representing <plurals> resources as ICU messages
+ */
+export const ANDROID_PLURAL_ARGUMENT = 'count';
+
+/**
+ * Flags recording which resource type a unit came from
+ */
+export const ANDROID_PLURALS_FLAG = 'plurals';
+export const ANDROID_ARRAY_FLAG = 'string-array';
+
+/**
+ * Translatable resource element types
+ */
+export type AndroidResourceType = 'string' | 'plurals' | 'string-array';
+
+/**
+ * An <item> inside <plurals> or <string-array>
+ */
+export interface AndroidResourceItem {
+  quantity?: string;
+  /** Raw inner XML of the item */
+  inner: string;
+  /** Offsets of the inner XML within the file */
+  innerStart: number;
+  innerEnd: number;
+}
+
+/**
+ * A resource element in a strings.xml file
+ */
+export interface AndroidResource {
+  type: AndroidResourceType;
+  name: string;
+  attributes: Record<string, string>;
+  translatable: boolean;
+  /** Text of an XML comment directly preceding the element */
+  comment?: string;
+  /** Raw inner XML of the element */
+  inner: string;
+  /** Offsets of the whole element within the file */
+  start: number;
+  end: number;
+  /** Offsets of the inner XML within the file */
+  innerStart: number;
+  innerEnd: number;
+  line: number;
+  items: AndroidResourceItem[];
+}
+
+const RESOURCE_PATTERN =
+  /<!--([\s\S]*?)-->|<(string-array|plurals|string)(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/\2\s*>)/g;
+const ITEM_PATTERN = /<item(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/item\s*>)/g;
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Inline markup kept verbatim inside string values (tags and CDATA sections)
+ */
+const MARKUP_PATTERN = /(<!\[CDATA\[[\s\S]*?\]\]>|<\/?[A-Za-z][\w:.-]*(?:\s[^<>]*)?\/?>)/;
+
+/**
+ * Extractor for Android strings.xml resource files
+ */
+export class AndroidExtractor extends BaseExtractor {
+  readonly supportedFormats: FormatInfo['format'][] = ['android-xml'];
+  readonly fileExtensions = ['.xml'];
+
+  /**
+   * Detect Android resource content
+   */
+  detect(content: string): FormatInfo | null {
+    if (!/<resources[\s>]/.test(content) || /<xliff[\s>]/.test(content)) {
+      return null;
+    }
+    if (!/<(string-array|plurals|string)[\s/>]/.test(content)) {
+      return null;
+    }
+
+    return { format: 'android-xml' };
+  }
+
+  /**
+   * Validate Android resource content
+   */
+  validate(content: string): boolean {
+    if (!this.detect(content)) {
+      throw new ExtractorError(
+        'Invalid Android resource content: no <resources> element found',
+        'unknown'
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Extract translation units from a strings.xml file
+   */
+  extract(
+    filePath: string,
+    content: string,
+    targetLanguage: string,
+    options?: ExtractOptions
+  ): ExtractResult {
+    const formatInfo = this.detect(content);
+
+    if (!formatInfo) {
+      throw new ExtractorError('Could not detect Android resource format', filePath);
+    }
+
+    try {
+      const units: TranslationUnit[] = [];
+
+      for (const resource of parseAndroidResources(content)) {
+        if (!resource.translatable) {
+          continue;
+        }
+        units.push(...this.createUnits(resource, filePath, options));
+      }
+
+      return {
+        filePath,
+        sourceLanguage: 'en',
+        targetLanguage,
+        units,
+        formatInfo,
+        originalContent: content,
+      };
+    } catch (error) {
+      throw new ExtractorError(
+        `Failed to parse Android resources: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        filePath,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Create translation units for a resource element
+   */
+  private createUnits(
+    resource: AndroidResource,
+    filePath: string,
+    options?: ExtractOptions
+  ): TranslationUnit[] {
+    const metadata = {
+      file: filePath,
+      line: resource.line,
+      notes: options?.includeNotes !== false ? resource.comment : undefined,
+    };
+
+    switch (resource.type) {
+      case 'string': {
+        const source = decodeAndroidString(resource.inner);
+        return [
+          {
+            id: resource.name,
+            source,
+            metadata,
+            hash: this.hashContent(source),
+          },
+        ];
+      }
+
+      case 'plurals': {
+        const source = buildAndroidPluralMessage(
+          resource.items.map(item => ({
+            category: item.quantity ?? 'other',
+            text: decodeAndroidString(item.inner),
+          }))
+        );
+        return [
+          {
+            id: resource.name,
+            source,
+            metadata: { ...metadata, flags: [ANDROID_PLURALS_FLAG] },
+            hash: this.hashContent(source),
+          },
+        ];
+      }
+
+      case 'string-array':
+        return resource.items.map((item, index) => {
+          const source = decodeAndroidString(item.inner);
+          return {
+            id: buildAndroidArrayItemId(resource.name, index),
+            source,
+            context: options?.includeContext !== false ? resource.name : undefined,
+            metadata: { ...metadata, flags: [ANDROID_ARRAY_FLAG] },
+            hash: this.hashContent(source),
+          };
+        });
+
+      default: {
+        const exhaustiveCheck: never = resource.type;
+        throw new ExtractorError(`Unsupported resource type: ${String(exhaustiveCheck)}`, filePath);
+      }
+    }
+  }
+
+  /**
+   * Create hash of content for change detection
+   */
+  private hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+  }
+}
+
+/**
+ * Parse the translatable resource elements of a strings.xml file
+ */
+export function parseAndroidResources(content: string): AndroidResource[] {
+  const resources: AndroidResource[] = [];
+  let pendingComment: { text: string; end: number } | undefined;
+
+  for (const match of content.matchAll(RESOURCE_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+
+    if (match[1] !== undefined) {
+      pendingComment = { text: match[1].trim(), end };
+      continue;
+    }
+
+    const type = match[2] as AndroidResourceType;
+    const attributes = parseAttributes(match[3] ?? '');
+    const inner = match[4] ?? '';
+    const innerStart = match[4] !== undefined ? start + match[0].indexOf('>') + 1 : end;
+
+    const comment =
+      pendingComment && content.slice(pendingComment.end, start).trim() === ''
+        ? pendingComment.text
+        : undefined;
+    pendingComment = undefined;
+
+    const name = attributes['name'];
+    if (!name) {
+      continue;
+    }
+
+    resources.push({
+      type,
+      name,
+      attributes,
+      translatable: attributes['translatable'] !== 'false',
+      comment,
+      inner,
+      start,
+      end,
+      innerStart,
+      innerEnd: innerStart + inner.length,
+      line: content.slice(0, start).split('\n').length,
+      items: type === 'string' ? [] : parseItems(inner, innerStart),
+    });
+  }
+
+  return resources;
+}
+
+/**
+ * Parse <item> children of a plurals or string-array element
+ */
+function parseItems(inner: string, offset: number): AndroidResourceItem[] {
+  const items: AndroidResourceItem[] = [];
+
+  for (const match of inner.matchAll(ITEM_PATTERN)) {
+    const start = offset + (match.index ?? 0);
+    const itemInner = match[2] ?? '';
+    const innerStart = start + match[0].indexOf('>') + 1;
+
+    items.push({
+      quantity: parseAttributes(match[1] ?? '')['quantity'],
+      inner: itemInner,
+      innerStart,
+      innerEnd: innerStart + itemInner.length,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Parse element attributes
+ */
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const match of text.matchAll(ATTRIBUTE_PATTERN)) {
+    if (match[1]) {
+      attributes[match[1]] = match[2] ?? match[3] ?? '';
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Build the unit ID for a string-array item
+ */
+export function buildAndroidArrayItemId(name: string, index: number): string {
+  return `${name}[${index}]`;
+}
+
+/**
+ * Parse a string-array item unit ID into the array name and index
+ */
+export function parseAndroidArrayItemId(id: string): { name: string; index: number } | null {
+  const match = id.match(/^(.+)\[(\d+)\]$/);
+  if (!match?.[1] || !match[2]) {
+    return null;
+  }
+  return { name: match[1], index: parseInt(match[2], 10) };
+}
+
+/**
+ * Build an ICU plural message representing a <plurals> resource
+ */
+export function buildAndroidPluralMessage(
+  variants: Array<{ category: string; text: string }>
+): string {
+  return reconstructPlural(ANDROID_PLURAL_ARGUMENT, variants);
+}
+
+/**
+ * Split an ICU plural message into <item quantity> values for a target language.
+ * Falls back to the 'other' variant for categories the translation does not provide.
+ */
+export function splitAndroidPluralMessage(
+  message: string,
+  targetLanguage: string
+): Array<{ quantity: string; text: string }> {
+  const categories = getCardinalCategories(targetLanguage);
+
+  try {
+    const parsed = parseICUMessage(message);
+    const plural = parsed.elements.find(e => e.type === 'plural');
+
+    if (plural?.type === 'plural') {
+      const variants = new Map(plural.variants.map(v => [v.category, v.text]));
+      const fallback = variants.get('other') ?? plural.variants[0]?.text ?? message;
+      return categories.map(quantity => ({ quantity, text: variants.get(quantity) ?? fallback }));
+    }
+  } catch {
+    // Not an ICU message - use the text for every quantity
+  }
+
+  return categories.map(quantity => ({ quantity, text: message }));
+}
+
+/**
+ * Decode a raw Android string value: XML entities, backslash escapes and quoting.
+ * Inline markup such as <b> or <xliff:g> is kept verbatim.
+ */
+export function decodeAndroidString(raw: string): string {
+  return raw
+    .split(MARKUP_PATTERN)
+    .map((segment, index) =>
+      index % 2 === 1 ? segment : unescapeAndroidText(decodeXmlEntities(segment))
+    )
+    .join('');
+}
+
+/**
+ * Encode a string for use as an Android resource value
+ */
+export function encodeAndroidString(value: string): string {
+  const encoded = value
+    .split(MARKUP_PATTERN)
+    .map((segment, index) =>
+      index % 2 === 1 ? segment : encodeXmlText(escapeAndroidText(segment))
+    )
+    .join('');
+
+  // A leading @ or ? would be read as a resource reference
+  return encoded.replace(/^([@?])/, '\\$1');
+}
+
+/**
+ * Resolve Android backslash escapes and remove unescaped double quotes
+ */
+function unescapeAndroidText(text: string): string {
+  return text.replace(/\\u([0-9a-fA-F]{4})|\\(.)|"/g, (_match, hex: string, char: string) => {
+    if (hex) {
+      return String.fromCharCode(parseInt(hex, 16));
+    }
+    if (char === undefined) {
+      return '';
+    }
+    switch (char) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      default:
+        return char;
+    }
+  });
+}
+
+/**
+ * Apply Android backslash escapes
+ */
+function escapeAndroidText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * Decode the predefined XML entities and character references
+ */
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'lt':
+        return '<';
+      case 'gt':
+        return '>';
+      case 'amp':
+        return '&';
+      case 'quot':
+        return '"';
+      case 'apos':
+        return "'";
+      default:
+        return String.fromCodePoint(
+          entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
+
+/**
+ * Escape XML special characters in element text
+ */
+function encodeXmlText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
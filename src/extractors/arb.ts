@@ -0,0 +1,159 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { ExtractorError } from '../utils/errors';
+import type { ExtractResult, FormatInfo, TranslationUnit } from '../types/translation';
+import { BaseExtractor, ExtractOptions } from './base';
+
+/**
+ * Global ARB attribute holding the file's locale
+ */
+export const ARB_LOCALE_KEY = '@@locale';
+
+/**
+ * Metadata object stored under "@<key>" for a message
+ */
+export interface ArbMessageMetadata {
+  description?: string;
+  context?: string;
+  type?: string;
+  placeholders?: Record<string, { type?: string; example?: string; format?: string }>;
+}
+
+/**
+ * Extractor for Flutter Application Resource Bundle (.arb) files.
+ *
+ * Keys starting with "@" hold metadata and are never translated: the message's
+ * description becomes the unit's notes and its declared placeholders are kept
+ * for validating translations.
+ */
+export class ArbExtractor extends BaseExtractor {
+  readonly supportedFormats: FormatInfo['format'][] = ['arb'];
+  readonly fileExtensions = ['.arb'];
+
+  /**
+   * Detect ARB content: a JSON object with @@locale or @-prefixed metadata keys
+   */
+  detect(content: string): FormatInfo | null {
+    try {
+      const parsed = JSON.parse(content) as unknown;
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        return null;
+      }
+
+      const entries = Object.entries(parsed as Record<string, unknown>);
+      const isArb = entries.some(
+        ([key, value]) =>
+          key === ARB_LOCALE_KEY ||
+          (key.startsWith('@') && typeof value === 'object' && value !== null)
+      );
+
+      return isArb ? { format: 'arb' } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Validate ARB content
+   */
+  validate(content: string): boolean {
+    try {
+      const parsed: unknown = JSON.parse(content);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new ExtractorError('Invalid ARB: root must be an object', 'unknown');
+      }
+      return true;
+    } catch (error) {
+      if (error instanceof ExtractorError) {
+        throw error;
+      }
+      throw new ExtractorError(
+        `Invalid ARB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'unknown'
+      );
+    }
+  }
+
+  /**
+   * Extract translation units from an ARB file
+   */
+  extract(
+    filePath: string,
+    content: string,
+    targetLanguage: string,
+    options?: ExtractOptions
+  ): ExtractResult {
+    try {
+      const parsed = JSON.parse(content) as Record<string, unknown>;
+      const units: TranslationUnit[] = [];
+
+      for (const [key, value] of Object.entries(parsed)) {
+        if (key.startsWith('@') || typeof value !== 'string') {
+          continue;
+        }
+
+        const metadata = getArbMessageMetadata(parsed, key);
+        const placeholders = Object.keys(metadata?.placeholders ?? {});
+
+        units.push({
+          id: key,
+          source: value,
+          context: metadata?.context,
+          metadata: {
+            file: filePath,
+            notes: options?.includeNotes !== false ? metadata?.description : undefined,
+            declaredPlaceholders: placeholders.length > 0 ? placeholders : undefined,
+          },
+          hash: this.hashContent(value),
+        });
+      }
+
+      const locale = parsed[ARB_LOCALE_KEY];
+
+      return {
+        filePath,
+        sourceLanguage: typeof locale === 'string' ? locale : (detectArbLanguage(filePath) ?? 'en'),
+        targetLanguage,
+        units,
+        formatInfo: { format: 'arb' },
+        originalContent: content,
+      };
+    } catch (error) {
+      throw new ExtractorError(
+        `Failed to parse ARB file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        filePath,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Create hash of content for change detection
+   */
+  private hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+  }
+}
+
+/**
+ * Get the "@<key>" metadata object for a message, if present
+ */
+export function getArbMessageMetadata(
+  arb: Record<string, unknown>,
+  key: string
+): ArbMessageMetadata | undefined {
+  const metadata = arb[`@${key}`];
+  return typeof metadata === 'object' && metadata !== null && !Array.isArray(metadata)
+    ? (metadata as ArbMessageMetadata)
+    : undefined;
+}
+
+/**
+ * Detect the locale from a Flutter file name like app_en.arb or intl_pt_BR.arb
+ */
+export function detectArbLanguage(filePath: string): string | null {
+  const match = path
+    .basename(filePath, '.arb')
+    .match(/_([a-z]{2,3}(?:_[A-Z][a-z]{3})?(?:_(?:[A-Z]{2}|\d{3}))?)$/);
+  return match?.[1] ?? null;
+}
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { glob } from 'glob';
+import { readTextFile } from '../utils/encoding';
 import { ExtractorError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import type { FileFormat } from '../config/types';
@@ -8,6 +9,17 @@ import type { ExtractResult, FormatInfo } from '../types/translation';
 import { BaseExtractor, ExtractOptions, ExtractorRegistry } from './base';
 import { XliffExtractor } from './xliff';
 import { JsonExtractor } from './json';
+import { PoExtractor } from './po';
+import { AndroidExtractor } from './android';
+import { IosStringsExtractor } from './ios-strings';
+import { StringsdictExtractor } from './stringsdict';
+import { XcstringsExtractor } from './xcstrings';
+import { ArbExtractor } from './arb';
+import { YamlExtractor } from './yaml';
+import { PropertiesExtractor } from './properties';
+import { ResxExtractor } from './resx';
+import { FluentExtractor } from './fluent';
+import { I18nextExtractor } from './i18next';
 
 /**
  * Create and configure the extractor registry with all available extractors
@@ -16,7 +28,20 @@ export function createExtractorRegistry(): ExtractorRegistry {
   const registry = new ExtractorRegistry();
 
   registry.register(new XliffExtractor());
+  // String Catalogs, ARB and i18next files are JSON, so they must be detected before plain JSON
+  registry.register(new XcstringsExtractor());
+  registry.register(new ArbExtractor());
+  registry.register(new I18nextExtractor());
   registry.register(new JsonExtractor());
+  registry.register(new YamlExtractor());
+  registry.register(new PoExtractor());
+  registry.register(new AndroidExtractor());
+  registry.register(new ResxExtractor());
+  registry.register(new StringsdictExtractor());
+  registry.register(new IosStringsExtractor());
+  registry.register(new FluentExtractor());
+  // Almost any text parses as .properties, so it is tried last
+  registry.register(new PropertiesExtractor());
 
   return registry;
 }
@@ -52,13 +77,8 @@ export function getExtractor(
     };
   }
 
-  // Try to detect format from content
-  const detected = defaultRegistry.detect(content);
-  if (detected) {
-    return detected;
-  }
-
-  // Fall back to file extension
+  // Prefer the extractor for the file extension when it recognizes the content:
+  // plain "key = value" lines are valid in both .properties and Fluent files
   const ext = path.extname(filePath).toLowerCase();
   const extractorByExt = defaultRegistry.getByExtension(ext);
 
@@ -69,6 +89,12 @@ export function getExtractor(
     }
   }
 
+  // Otherwise detect the format from content
+  const detected = defaultRegistry.detect(content);
+  if (detected) {
+    return detected;
+  }
+
   throw new ExtractorError(
     `Could not determine format for file: ${filePath}. Try specifying format explicitly.`,
     filePath
@@ -89,7 +115,7 @@ export function extractFromFile(
     throw new ExtractorError(`File not found: ${absolutePath}`, absolutePath);
   }
 
-  const content = fs.readFileSync(absolutePath, 'utf-8');
+  const { content, encoding } = readTextFile(absolutePath);
   const { extractor, formatInfo } = getExtractor(absolutePath, content, options?.format);
 
   logger.debug(`Extracting from ${filePath} using ${formatInfo.format} extractor`);
@@ -97,7 +123,7 @@ export function extractFromFile(
   const result = extractor.extract(absolutePath, content, targetLanguage, options?.extractOptions);
 
   // Ensure formatInfo is set correctly
-  result.formatInfo = formatInfo;
+  result.formatInfo = { ...formatInfo, encoding };
 
   return result;
 }
@@ -0,0 +1,596 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { ExtractorError } from '../utils/errors';
+import type { ExtractResult, FormatInfo, TranslationUnit } from '../types/translation';
+import { PLURAL_CATEGORIES } from '../icu/types';
+import { BaseExtractor, ExtractOptions } from './base';
+
+/**
+ * Position of a pattern (the text after "=") within the file
+ */
+export interface FluentPatternSpan {
+  /** Raw source of the pattern, including indentation of continuation lines */
+  raw: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * An attribute (".label = ...") of a message or term
+ */
+export interface FluentAttribute {
+  name: string;
+  pattern: FluentPatternSpan;
+  /** Offset of the start of the attribute's line */
+  start: number;
+}
+
+/**
+ * A message or term of a Fluent resource
+ */
+export interface FluentEntry {
+  id: string;
+  term: boolean;
+  /** Text of a "#" comment directly above the entry */
+  comment?: string;
+  /** Value of the entry; its raw text is empty for messages with only attributes */
+  value: FluentPatternSpan;
+  attributes: FluentAttribute[];
+  /** Offset of the attached comment, or of the entry itself */
+  blockStart: number;
+  start: number;
+  /** Offset after the last character of the entry (before its line break) */
+  end: number;
+  line: number;
+}
+
+/**
+ * A node of a parsed Fluent pattern
+ */
+export type FluentNode =
+  | { type: 'text'; value: string }
+  | { type: 'placeable'; expression: string }
+  | { type: 'select'; selector: string; variants: FluentVariant[] };
+
+/**
+ * A variant of a select expression
+ */
+export interface FluentVariant {
+  key: string;
+  default: boolean;
+  nodes: FluentNode[];
+}
+
+/**
+ * How a select expression is represented in unit messages
+ */
+export interface FluentSelectorInfo {
+  name: string;
+  kind: 'plural' | 'selectordinal' | 'select';
+}
+
+const ENTRY_PATTERN = /^(-?[a-zA-Z][\w-]*)[ \t]*=/;
+const ATTRIBUTE_PATTERN = /^[ \t]+\.([a-zA-Z][\w-]*)[ \t]*=/;
+const COMMENT_PATTERN = /^(#{1,3})(?:[ \t](.*))?$/;
+const VARIABLE_PATTERN = /^\$([a-zA-Z][\w-]*)$/;
+const NUMBER_SELECTOR_PATTERN = /^NUMBER\(\s*\$([a-zA-Z][\w-]*)\s*(?:,([\s\S]*))?\)$/;
+
+/**
+ * Extractor for Mozilla Fluent (.ftl) resources.
+ *
+ * Each message value and attribute becomes a unit ("welcome", "login-input.placeholder").
+ * Variables are written as ICU arguments ({name}), while term references, message
+ * references and function calls are kept as {{...}} markers that the model copies
+ * verbatim. Select expressions become ICU plural, selectordinal or select
+ * elements. Terms are not extracted: they are copied to targets as they are.
+ */
+export class FluentExtractor extends BaseExtractor {
+  readonly supportedFormats: FormatInfo['format'][] = ['fluent'];
+  readonly fileExtensions = ['.ftl'];
+
+  /**
+   * Detect Fluent content: only comments, entries and their indented continuations
+   */
+  detect(content: string): FormatInfo | null {
+    const lines = content.split(/\r\n|\r|\n/);
+    const isFluentLine = (line: string): boolean =>
+      line.trim() === '' ||
+      /^[ \t]/.test(line) ||
+      COMMENT_PATTERN.test(line) ||
+      ENTRY_PATTERN.test(line);
+
+    if (lines.every(isFluentLine) && lines.some(line => ENTRY_PATTERN.test(line))) {
+      return { format: 'fluent' };
+    }
+    return null;
+  }
+
+  /**
+   * Validate Fluent content
+   */
+  validate(content: string): boolean {
+    if (!this.detect(content)) {
+      throw new ExtractorError('Invalid Fluent resource: no messages found', 'unknown');
+    }
+    return true;
+  }
+
+  /**
+   * Extract translation units from a Fluent resource
+   */
+  extract(
+    filePath: string,
+    content: string,
+    targetLanguage: string,
+    options?: ExtractOptions
+  ): ExtractResult {
+    try {
+      const units: TranslationUnit[] = [];
+
+      for (const entry of parseFluentResource(content)) {
+        if (entry.term) {
+          continue;
+        }
+
+        const patterns: Array<[string, FluentPatternSpan]> = [
+          [entry.id, entry.value],
+          ...entry.attributes.map((attribute): [string, FluentPatternSpan] => [
+            `${entry.id}.${attribute.name}`,
+            attribute.pattern,
+          ]),
+        ];
+
+        for (const [id, pattern] of patterns) {
+          const source = fluentPatternToMessage(parseFluentPattern(pattern.raw));
+          if (source.trim() === '') {
+            continue;
+          }
+          units.push({
+            id,
+            source,
+            metadata: {
+              file: filePath,
+              line: entry.line,
+              notes: options?.includeNotes !== false ? entry.comment : undefined,
+            },
+            hash: this.hashContent(source),
+          });
+        }
+      }
+
+      return {
+        filePath,
+        sourceLanguage: detectFluentLanguage(filePath) ?? 'en',
+        targetLanguage,
+        units,
+        formatInfo: { format: 'fluent' },
+        originalContent: content,
+      };
+    } catch (error) {
+      throw new ExtractorError(
+        `Failed to parse Fluent file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        filePath,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Create hash of content for change detection
+   */
+  private hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+  }
+}
+
+/**
+ * Parse the messages and terms of a Fluent resource
+ */
+export function parseFluentResource(content: string): FluentEntry[] {
+  const lines: Array<{ text: string; start: number; end: number }> = [];
+  const lineBreak = /\r\n|\r|\n/g;
+  let lineStart = content.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let match: RegExpExecArray | null;
+  while ((match = lineBreak.exec(content)) !== null) {
+    lines.push({ text: content.slice(lineStart, match.index), start: lineStart, end: match.index });
+    lineStart = match.index + match[0].length;
+  }
+  lines.push({ text: content.slice(lineStart), start: lineStart, end: content.length });
+
+  const entries: FluentEntry[] = [];
+  let commentLines: string[] = [];
+  let commentStart = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line) {
+      continue;
+    }
+
+    const comment = COMMENT_PATTERN.exec(line.text);
+    if (comment) {
+      // Only single "#" comments belong to the next entry
+      if (comment[1] === '#') {
+        if (commentStart === -1) {
+          commentStart = line.start;
+        }
+        commentLines.push(comment[2] ?? '');
+      } else {
+        commentLines = [];
+        commentStart = -1;
+      }
+      continue;
+    }
+
+    const entryMatch = ENTRY_PATTERN.exec(line.text);
+    if (!entryMatch?.[1]) {
+      commentLines = [];
+      commentStart = -1;
+      continue;
+    }
+
+    // Continuation lines are indented; blank lines only count when more follow
+    let last = i;
+    for (let j = i + 1; j < lines.length; j++) {
+      const next = lines[j];
+      if (!next || (next.text.trim() !== '' && !/^[ \t]/.test(next.text))) {
+        break;
+      }
+      if (next.text.trim() !== '') {
+        last = j;
+      }
+    }
+
+    const entryLines = lines.slice(i, last + 1);
+    const valueStart = line.start + entryMatch[0].length;
+    const entry: FluentEntry = {
+      id: entryMatch[1],
+      term: entryMatch[1].startsWith('-'),
+      comment: commentLines.length > 0 ? commentLines.join('\n').trim() || undefined : undefined,
+      value: { raw: '', start: valueStart, end: valueStart },
+      attributes: [],
+      blockStart: commentStart === -1 ? line.start : commentStart,
+      start: line.start,
+      end: entryLines[entryLines.length - 1]?.end ?? line.end,
+      line: i + 1,
+    };
+
+    // Split the entry into its value and attributes
+    let patternStart = valueStart;
+    let attributeName: string | undefined;
+    let attributeStart = line.start;
+    const finishPattern = (end: number): void => {
+      const pattern = { raw: content.slice(patternStart, end), start: patternStart, end };
+      if (attributeName === undefined) {
+        entry.value = pattern;
+      } else {
+        entry.attributes.push({ name: attributeName, pattern, start: attributeStart });
+      }
+    };
+
+    let previousEnd = line.end;
+    for (const entryLine of entryLines.slice(1)) {
+      const attribute = ATTRIBUTE_PATTERN.exec(entryLine.text);
+      if (attribute?.[1]) {
+        finishPattern(previousEnd);
+        attributeName = attribute[1];
+        attributeStart = entryLine.start;
+        patternStart = entryLine.start + attribute[0].length;
+      }
+      if (entryLine.text.trim() !== '') {
+        previousEnd = entryLine.end;
+      }
+    }
+    finishPattern(previousEnd);
+
+    entries.push(entry);
+    commentLines = [];
+    commentStart = -1;
+    i = last;
+  }
+
+  return entries;
+}
+
+/**
+ * Parse the raw source of a pattern into text, placeables and select expressions
+ */
+export function parseFluentPattern(raw: string): FluentNode[] {
+  const parser = new FluentPatternParser(raw);
+  return parser.parsePattern(false);
+}
+
+/**
+ * Recursive descent parser for Fluent patterns
+ */
+class FluentPatternParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  /**
+   * Parse a pattern up to the end of the input, or of a variant
+   */
+  parsePattern(inVariant: boolean): FluentNode[] {
+    const nodes: FluentNode[] = [];
+    let text = '';
+
+    // Leading blank space (after "=" or "[key]") is not part of the value
+    this.skipWhitespace();
+
+    while (this.pos < this.source.length) {
+      const char = this.source.charAt(this.pos);
+
+      if (char === '{') {
+        if (text) {
+          nodes.push({ type: 'text', value: text });
+          text = '';
+        }
+        nodes.push(this.parsePlaceable());
+        continue;
+      }
+
+      if (char === '}' && inVariant) {
+        break;
+      }
+
+      if (char === '\r' || char === '\n') {
+        const lineEnd = this.pos;
+        this.pos += this.source.startsWith('\r\n', this.pos) ? 2 : 1;
+        while (/[ \t]/.test(this.source.charAt(this.pos))) {
+          this.pos++;
+        }
+        // A variant ends where the next variant or the closing brace starts
+        if (inVariant && /^(?:\*?\[|\})/.test(this.source.slice(this.pos))) {
+          this.pos = lineEnd;
+          break;
+        }
+        text += '\n';
+        continue;
+      }
+
+      text += char;
+      this.pos++;
+    }
+
+    if (text) {
+      nodes.push({ type: 'text', value: text });
+    }
+    return trimNodes(nodes);
+  }
+
+  /**
+   * Parse a placeable: an inline expression or a select expression
+   */
+  private parsePlaceable(): FluentNode {
+    const start = this.pos;
+    this.pos++; // consume '{'
+    this.skipWhitespace();
+    const expression = this.readExpression();
+    this.skipWhitespace();
+
+    if (this.source.startsWith('->', this.pos)) {
+      this.pos += 2;
+      return { type: 'select', selector: expression, variants: this.parseVariants() };
+    }
+
+    if (this.source.charAt(this.pos) !== '}') {
+      throw new Error(`Unterminated placeable at "${this.source.slice(start, start + 20)}"`);
+    }
+    this.pos++;
+    return { type: 'placeable', expression };
+  }
+
+  /**
+   * Parse the variants of a select expression, including its closing brace
+   */
+  private parseVariants(): FluentVariant[] {
+    const variants: FluentVariant[] = [];
+
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.source.charAt(this.pos);
+
+      if (char === '}') {
+        this.pos++;
+        break;
+      }
+
+      const isDefault = char === '*';
+      if (isDefault) {
+        this.pos++;
+      }
+      if (this.source.charAt(this.pos) !== '[') {
+        throw new Error('Expected a variant key');
+      }
+
+      const keyEnd = this.source.indexOf(']', this.pos);
+      if (keyEnd === -1) {
+        throw new Error('Unterminated variant key');
+      }
+      const key = this.source.slice(this.pos + 1, keyEnd).trim();
+      this.pos = keyEnd + 1;
+
+      variants.push({ key, default: isDefault, nodes: this.parsePattern(true) });
+    }
+
+    if (!variants.some(variant => variant.default)) {
+      throw new Error('Select expression without a default variant');
+    }
+    return variants;
+  }
+
+  /**
+   * Read the source of an inline expression: a literal, reference or function call
+   */
+  private readExpression(): string {
+    const start = this.pos;
+    let depth = 0;
+
+    while (this.pos < this.source.length) {
+      const char = this.source.charAt(this.pos);
+
+      if (char === '"') {
+        this.skipStringLiteral();
+        continue;
+      }
+      if (char === '{') {
+        this.parsePlaceable();
+        continue;
+      }
+      if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth--;
+      } else if (depth === 0 && (/\s/.test(char) || char === '}')) {
+        break;
+      } else if (depth === 0 && this.source.startsWith('->', this.pos)) {
+        break;
+      }
+      this.pos++;
+    }
+
+    if (this.pos === start) {
+      throw new Error('Empty placeable');
+    }
+    return this.source.slice(start, this.pos);
+  }
+
+  /**
+   * Skip a string literal, honouring backslash escapes
+   */
+  private skipStringLiteral(): void {
+    this.pos++;
+    while (this.pos < this.source.length && this.source.charAt(this.pos) !== '"') {
+      this.pos += this.source.charAt(this.pos) === '\\' ? 2 : 1;
+    }
+    this.pos++;
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.source.charAt(this.pos)) && this.pos < this.source.length) {
+      this.pos++;
+    }
+  }
+}
+
+/**
+ * Trim whitespace around a pattern, as Fluent does
+ */
+function trimNodes(nodes: FluentNode[]): FluentNode[] {
+  const first = nodes[0];
+  if (first?.type === 'text') {
+    first.value = first.value.trimStart();
+  }
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.value = last.value.trimEnd();
+  }
+  return nodes.filter(node => node.type !== 'text' || node.value !== '');
+}
+
+/**
+ * Convert a parsed pattern to the message sent for translation.
+ *
+ * Variables become {name}, select expressions become ICU plural/select elements and
+ * every other placeable is wrapped as a {{...}} marker.
+ */
+export function fluentPatternToMessage(nodes: FluentNode[]): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+
+        case 'placeable': {
+          const variable = VARIABLE_PATTERN.exec(node.expression);
+          return variable ? `{${variable[1]}}` : `{{${node.expression}}}`;
+        }
+
+        case 'select': {
+          const info = getFluentSelectorInfo(node);
+          if (!info) {
+            return `{{${serializeOpaqueSelect(node)}}}`;
+          }
+          // The default variant goes last, where it is written back as the default
+          const variants = [
+            ...node.variants.filter(variant => !variant.default),
+            ...node.variants.filter(variant => variant.default),
+          ]
+            .map(variant => {
+              const key =
+                info.kind !== 'select' && /^\d+$/.test(variant.key)
+                  ? `=${variant.key}`
+                  : variant.key;
+              return ` ${key} {${fluentPatternToMessage(variant.nodes)}}`;
+            })
+            .join('');
+          return `{${info.name}, ${info.kind},${variants}}`;
+        }
+      }
+    })
+    .join('');
+}
+
+/**
+ * Determine how a select expression is represented: selects on NUMBER($x) or on a
+ * variable with plural category keys are plurals, selects on a variable with other
+ * keys are ICU selects. Anything else cannot be represented and is kept verbatim.
+ */
+export function getFluentSelectorInfo(
+  node: Extract<FluentNode, { type: 'select' }>
+): FluentSelectorInfo | null {
+  const keys = node.variants.map(variant => variant.key);
+  const isPluralKey = (key: string): boolean =>
+    /^\d+$/.test(key) || (PLURAL_CATEGORIES as string[]).includes(key);
+
+  const number = NUMBER_SELECTOR_PATTERN.exec(node.selector);
+  if (number?.[1]) {
+    if (!keys.every(isPluralKey)) {
+      return null;
+    }
+    const ordinal = /\btype\s*:\s*"ordinal"/.test(number[2] ?? '');
+    return { name: number[1], kind: ordinal ? 'selectordinal' : 'plural' };
+  }
+
+  const variable = VARIABLE_PATTERN.exec(node.selector);
+  if (!variable?.[1]) {
+    return null;
+  }
+  if (keys.every(isPluralKey) && keys.some(key => !/^\d+$/.test(key))) {
+    return { name: variable[1], kind: 'plural' };
+  }
+  if (keys.every(key => /^[a-zA-Z][\w-]*$/.test(key))) {
+    return { name: variable[1], kind: 'select' };
+  }
+  return null;
+}
+
+/**
+ * Serialize a select expression that has no ICU equivalent on one placeable
+ */
+function serializeOpaqueSelect(node: Extract<FluentNode, { type: 'select' }>): string {
+  const variants = node.variants
+    .map(variant => {
+      const value = variant.nodes
+        .map(child =>
+          child.type === 'text'
+            ? child.value
+            : child.type === 'placeable'
+              ? `{ ${child.expression} }`
+              : `{ ${serializeOpaqueSelect(child)} }`
+        )
+        .join('');
+      return `\n${variant.default ? '*' : ''}[${variant.key}] ${value}`;
+    })
+    .join('');
+  return `${node.selector} ->${variants}\n`;
+}
+
+/**
+ * Detect the locale from a resource path like locales/en-US/main.ftl
+ */
+export function detectFluentLanguage(filePath: string): string | null {
+  const dirName = path.basename(path.dirname(filePath));
+  return /^[a-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*$/.test(dirName) ? dirName : null;
+}
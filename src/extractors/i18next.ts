@@ -0,0 +1,290 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { ExtractorError } from '../utils/errors';
+import type { ExtractResult, FormatInfo, TranslationUnit } from '../types/translation';
+import { getCardinalCategories, getOrdinalCategories } from '../icu/cldr-rules';
+import { reconstructPlural, reconstructSelectordinal } from '../icu/reconstructor';
+import { PLURAL_CATEGORIES, PluralVariant } from '../icu/types';
+import { BaseExtractor, ExtractOptions } from './base';
+import { flattenJson } from './json';
+
+/**
+ * A message of an i18next resource: a plain string or a group of plural suffix keys
+ */
+export interface I18nextMessage {
+  /** Unit ID: the key, or the key without its plural suffix */
+  id: string;
+  /** Flat keys of the message; the suffix is the plural category ('' for plain strings) */
+  keys: Array<{ key: string; suffix: string; value: string }>;
+  plural?: 'cardinal' | 'ordinal';
+  /** Context suffix ("male" in friend_male) and the message it is a variant of */
+  context?: { name: string; of: string };
+}
+
+const CARDINAL_SUFFIX_PATTERN = /^(.+)_(zero|one|two|few|many|other)$/;
+const ORDINAL_SUFFIX_PATTERN = /^(.+)_ordinal_(zero|one|two|few|many|other)$/;
+const CONTEXT_SUFFIX_PATTERN = /^(.+)_([A-Za-z0-9]+)$/;
+
+/**
+ * The name i18next gives the plural count option
+ */
+export const I18NEXT_COUNT_VARIABLE = 'count';
+
+/**
+ * Extractor for i18next JSON v4 resources.
+ *
+ * Plural suffix keys (item_one, item_other, place_ordinal_two) are grouped into one
+ * unit whose source is an ICU plural, so the translator is asked for every category
+ * of the target language. Keys with a context suffix (friend_male) are translated
+ * separately with the context as unit context, and $t() nesting is protected as a
+ * {{$t(...)}} marker.
+ */
+export class I18nextExtractor extends BaseExtractor {
+  readonly supportedFormats: FormatInfo['format'][] = ['i18next'];
+  readonly fileExtensions = ['.json'];
+
+  /**
+   * Detect i18next content: a JSON object with plural suffix keys next to their _other key
+   */
+  detect(content: string): FormatInfo | null {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return null;
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      return null;
+    }
+
+    const keys = new Set(flattenJson(parsed as Record<string, unknown>).map(entry => entry.id));
+    for (const key of keys) {
+      const ordinal = ORDINAL_SUFFIX_PATTERN.exec(key);
+      const match = ordinal ?? CARDINAL_SUFFIX_PATTERN.exec(key);
+      if (
+        match &&
+        match[2] !== 'other' &&
+        keys.has(`${match[1]}_${ordinal ? 'ordinal_' : ''}other`)
+      ) {
+        return { format: 'i18next' };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Validate i18next content
+   */
+  validate(content: string): boolean {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new ExtractorError(
+        `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'unknown'
+      );
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new ExtractorError('Invalid JSON: root must be an object', 'unknown');
+    }
+    return true;
+  }
+
+  /**
+   * Extract translation units from an i18next resource
+   */
+  extract(
+    filePath: string,
+    content: string,
+    targetLanguage: string,
+    options?: ExtractOptions
+  ): ExtractResult {
+    try {
+      this.validate(content);
+
+      const sourceLanguage = detectI18nextLanguage(filePath) ?? 'en';
+      const entries = flattenJson(JSON.parse(content) as Record<string, unknown>);
+
+      const units: TranslationUnit[] = parseI18nextMessages(entries).map(message => {
+        const source = i18nextMessageToICU(message, sourceLanguage);
+        return {
+          id: message.id,
+          source,
+          context:
+            options?.includeContext !== false && message.context
+              ? `Variant of "${message.context.of}" for the context "${message.context.name}"`
+              : undefined,
+          metadata: { file: filePath },
+          hash: this.hashContent(source),
+        };
+      });
+
+      return {
+        filePath,
+        sourceLanguage,
+        targetLanguage,
+        units,
+        formatInfo: { format: 'i18next' },
+        originalContent: content,
+      };
+    } catch (error) {
+      throw new ExtractorError(
+        `Failed to parse i18next file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        filePath,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Create hash of content for change detection
+   */
+  private hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+  }
+}
+
+/**
+ * Group flat resource entries into messages.
+ *
+ * Plural keys are grouped when the group has an _other key. A group whose base key
+ * also exists as a plain string is left as separate strings, since both would map
+ * to the same unit ID.
+ */
+export function parseI18nextMessages(
+  entries: Array<{ id: string; value: string }>
+): I18nextMessage[] {
+  const plainKeys = new Set(entries.map(entry => entry.id));
+  const groups = new Map<string, I18nextMessage>();
+  const messages: I18nextMessage[] = [];
+
+  for (const entry of entries) {
+    const ordinal = ORDINAL_SUFFIX_PATTERN.exec(entry.id);
+    const match = ordinal ?? CARDINAL_SUFFIX_PATTERN.exec(entry.id);
+    const base = match?.[1];
+    const category = match?.[2];
+    const groupId = ordinal ? `${base}_ordinal` : base;
+    const otherKey = ordinal ? `${base}_ordinal_other` : `${base}_other`;
+
+    if (base && category && groupId && plainKeys.has(otherKey) && !plainKeys.has(groupId)) {
+      const group = groups.get(groupId);
+      if (group) {
+        group.keys.push({ key: entry.id, suffix: category, value: entry.value });
+      } else {
+        const message: I18nextMessage = {
+          id: groupId,
+          keys: [{ key: entry.id, suffix: category, value: entry.value }],
+          plural: ordinal ? 'ordinal' : 'cardinal',
+        };
+        groups.set(groupId, message);
+        messages.push(message);
+      }
+      continue;
+    }
+
+    messages.push({ id: entry.id, keys: [{ key: entry.id, suffix: '', value: entry.value }] });
+  }
+
+  // A key is a context variant when the key without its last suffix is a message too
+  const ids = new Set(messages.map(message => message.id));
+  for (const message of messages) {
+    const context = CONTEXT_SUFFIX_PATTERN.exec(message.id);
+    if (message.plural !== 'ordinal' && context?.[1] && context[2] && ids.has(context[1])) {
+      message.context = { name: context[2], of: context[1] };
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Convert a message to the unit source: plural groups become ICU plurals on {count}
+ */
+export function i18nextMessageToICU(message: I18nextMessage, language: string): string {
+  if (!message.plural) {
+    return protectNesting(message.keys[0]?.value ?? '');
+  }
+
+  const categories: string[] =
+    message.plural === 'ordinal' ? getOrdinalCategories(language) : getCardinalCategories(language);
+
+  const categoryOrder: string[] = PLURAL_CATEGORIES;
+
+  // i18next uses _zero for a count of 0 even in languages without a CLDR zero category
+  const variants: PluralVariant[] = [...message.keys]
+    .sort((a, b) => categoryOrder.indexOf(a.suffix) - categoryOrder.indexOf(b.suffix))
+    .map(key => ({
+      category: key.suffix === 'zero' && !categories.includes('zero') ? '=0' : key.suffix,
+      text: protectNesting(key.value),
+    }));
+
+  return message.plural === 'ordinal'
+    ? reconstructSelectordinal(I18NEXT_COUNT_VARIABLE, variants)
+    : reconstructPlural(I18NEXT_COUNT_VARIABLE, variants);
+}
+
+/**
+ * Wrap $t() nesting as {{$t(...)}} markers, which are kept verbatim by the model
+ */
+export function protectNesting(text: string): string {
+  let result = '';
+  let index = 0;
+
+  for (;;) {
+    const start = text.indexOf('$t(', index);
+    const end = start === -1 ? -1 : findNestingEnd(text, start + 2);
+    if (end === -1) {
+      return result + text.slice(index);
+    }
+    result += `${text.slice(index, start)}{{${text.slice(start, end)}}}`;
+    index = end;
+  }
+}
+
+/**
+ * Turn {{$t(...)}} markers back into $t() nesting
+ */
+export function restoreNesting(text: string): string {
+  let result = '';
+  let index = 0;
+
+  for (;;) {
+    const start = text.indexOf('{{$t(', index);
+    const end = start === -1 ? -1 : findNestingEnd(text, start + 4);
+    if (end === -1 || !text.startsWith('}}', end)) {
+      return result + text.slice(index);
+    }
+    result += text.slice(index, start) + text.slice(start + 2, end);
+    index = end + 2;
+  }
+}
+
+/**
+ * Find the end of a $t() call: the offset after the parenthesis that closes the one
+ * at the given offset
+ */
+function findNestingEnd(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '(') {
+      depth++;
+    } else if (text[i] === ')' && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Detect the language from paths like locales/en/translation.json or en.json
+ */
+export function detectI18nextLanguage(filePath: string): string | null {
+  const localePattern = /^[a-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*$/;
+  const baseName = path.basename(filePath, path.extname(filePath));
+  if (localePattern.test(baseName)) {
+    return baseName;
+  }
+  const dirName = path.basename(path.dirname(filePath));
+  return localePattern.test(dirName) ? dirName : null;
+}
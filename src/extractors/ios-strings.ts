@@ -0,0 +1,256 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { ExtractorError } from '../utils/errors';
+import type { ExtractResult, FormatInfo, TranslationUnit } from '../types/translation';
+import { BaseExtractor, ExtractOptions } from './base';
+
+/**
+ * Comment inserted by genstrings when a string has no comment
+ */
+const EMPTY_GENSTRINGS_COMMENT = 'No comment provided by engineer.';
+
+/**
+ * A key/value entry in a .strings file
+ */
+export interface StringsEntry {
+  key: string;
+  value: string;
+  comment?: string;
+  line: number;
+  /** Offsets of the quoted value literal (including quotes) */
+  valueStart: number;
+  valueEnd: number;
+}
+
+/**
+ * Extractor for Apple .strings files
+ */
+export class IosStringsExtractor extends BaseExtractor {
+  readonly supportedFormats: FormatInfo['format'][] = ['ios-strings'];
+  readonly fileExtensions = ['.strings'];
+
+  /**
+   * Detect .strings content
+   */
+  detect(content: string): FormatInfo | null {
+    if (!/^\s*("(?:[^"\\]|\\.)*"|[\w.-]+)\s*=\s*"(?:[^"\\]|\\.)*"\s*;/m.test(content)) {
+      return null;
+    }
+
+    try {
+      parseStringsFile(content);
+      return { format: 'ios-strings' };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Validate .strings content
+   */
+  validate(content: string): boolean {
+    try {
+      parseStringsFile(content);
+      return true;
+    } catch (error) {
+      throw new ExtractorError(
+        `Invalid .strings content: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'unknown',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Extract translation units from a .strings file
+   */
+  extract(
+    filePath: string,
+    content: string,
+    targetLanguage: string,
+    options?: ExtractOptions
+  ): ExtractResult {
+    const formatInfo = this.detect(content);
+
+    if (!formatInfo) {
+      throw new ExtractorError('Could not detect .strings format', filePath);
+    }
+
+    try {
+      const units: TranslationUnit[] = parseStringsFile(content).map(entry => ({
+        id: entry.key,
+        source: entry.value,
+        metadata: {
+          file: filePath,
+          line: entry.line,
+          notes: options?.includeNotes !== false ? entry.comment : undefined,
+        },
+        hash: this.hashContent(entry.value),
+      }));
+
+      return {
+        filePath,
+        sourceLanguage: detectLprojLanguage(filePath) ?? 'en',
+        targetLanguage,
+        units,
+        formatInfo,
+        originalContent: content,
+      };
+    } catch (error) {
+      throw new ExtractorError(
+        `Failed to parse .strings file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        filePath,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Create hash of content for change detection
+   */
+  private hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+  }
+}
+
+/**
+ * Detect the language from an enclosing <lang>.lproj directory (Base.lproj is ignored)
+ */
+export function detectLprojLanguage(filePath: string): string | null {
+  const dirName = path.basename(path.dirname(filePath));
+  const match = dirName.match(/^(.+)\.lproj$/);
+  return match?.[1] && match[1] !== 'Base' ? match[1] : null;
+}
+
+/**
+ * Parse the entries of a .strings file
+ */
+export function parseStringsFile(content: string): StringsEntry[] {
+  const entries: StringsEntry[] = [];
+  let pos = content.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let pendingComment: string | undefined;
+
+  const fail = (message: string): never => {
+    const line = content.slice(0, pos).split('\n').length;
+    throw new Error(`${message} at line ${line}`);
+  };
+
+  const skipWhitespace = (): void => {
+    while (pos < content.length && /\s/.test(content.charAt(pos))) {
+      pos++;
+    }
+  };
+
+  const readQuoted = (): string => {
+    const start = pos;
+    pos++; // opening quote
+    while (pos < content.length && content.charAt(pos) !== '"') {
+      pos += content.charAt(pos) === '\\' ? 2 : 1;
+    }
+    if (pos >= content.length) {
+      fail('Unterminated string');
+    }
+    pos++; // closing quote
+    return unescapeStringsValue(content.slice(start + 1, pos - 1));
+  };
+
+  for (skipWhitespace(); pos < content.length; skipWhitespace()) {
+    if (content.startsWith('/*', pos)) {
+      const end = content.indexOf('*/', pos + 2);
+      if (end === -1) {
+        fail('Unterminated comment');
+      }
+      pendingComment = content.slice(pos + 2, end).trim();
+      pos = end + 2;
+      continue;
+    }
+
+    if (content.startsWith('//', pos)) {
+      const end = content.indexOf('\n', pos);
+      const comment = content.slice(pos + 2, end === -1 ? content.length : end).trim();
+      pendingComment = pendingComment !== undefined ? `${pendingComment}\n${comment}` : comment;
+      pos = end === -1 ? content.length : end;
+      continue;
+    }
+
+    const line = content.slice(0, pos).split('\n').length;
+    let key: string;
+
+    if (content.charAt(pos) === '"') {
+      key = readQuoted();
+    } else {
+      const match = content.slice(pos).match(/^[^\s=;"]+/);
+      if (!match) {
+        fail(`Unexpected character '${content.charAt(pos)}'`);
+      }
+      key = match?.[0] ?? '';
+      pos += key.length;
+    }
+
+    skipWhitespace();
+    if (content.charAt(pos) !== '=') {
+      fail("Expected '='");
+    }
+    pos++;
+    skipWhitespace();
+
+    if (content.charAt(pos) !== '"') {
+      fail('Expected quoted value');
+    }
+    const valueStart = pos;
+    const value = readQuoted();
+    const valueEnd = pos;
+
+    skipWhitespace();
+    if (content.charAt(pos) !== ';') {
+      fail("Expected ';'");
+    }
+    pos++;
+
+    entries.push({
+      key,
+      value,
+      comment:
+        pendingComment && pendingComment !== EMPTY_GENSTRINGS_COMMENT ? pendingComment : undefined,
+      line,
+      valueStart,
+      valueEnd,
+    });
+    pendingComment = undefined;
+  }
+
+  return entries;
+}
+
+/**
+ * Resolve escape sequences in a quoted .strings literal
+ */
+export function unescapeStringsValue(value: string): string {
+  return value.replace(/\\(U[0-9a-fA-F]{4}|u[0-9a-fA-F]{4}|.)/g, (_, sequence: string) => {
+    if (sequence.length === 5) {
+      return String.fromCharCode(parseInt(sequence.slice(1), 16));
+    }
+    switch (sequence) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      case 'r':
+        return '\r';
+      default:
+        return sequence;
+    }
+  });
+}
+
+/**
+ * Escape a value for use inside a quoted .strings literal
+ */
+export function escapeStringsValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r');
+}
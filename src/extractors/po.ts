@@ -0,0 +1,425 @@
+import * as crypto from 'crypto';
+import { ExtractorError } from '../utils/errors';
+import type { ExtractResult, FormatInfo, TranslationUnit } from '../types/translation';
+import { getGettextPluralForms } from '../icu/cldr-rules';
+import { parseICUMessage } from '../icu/parser';
+import type { PluralCategory } from '../icu/types';
+import { BaseExtractor, ExtractOptions } from './base';
+
+/**
+ * ICU argument name used when representing gettext plural entries as ICU messages
+ */
+export const PO_PLURAL_ARGUMENT = 'n';
+
+/**
+ * Separator between msgctxt and msgid in unit IDs
+ */
+export const PO_CONTEXT_SEPARATOR = '|';
+
+/**
+ * A single message entry in a PO/POT file
+ */
+export interface PoEntry {
+  /** Raw comment lines (#, #., #:, #,, #|) in original order */
+  commentLines: string[];
+  /** Translator comments (# ...) */
+  translatorComments: string[];
+  /** Extracted comments (#. ...) */
+  extractedComments: string[];
+  /** Source references (#: ...) */
+  references: string[];
+  /** Flags (#, ...) */
+  flags: string[];
+  msgctxt?: string;
+  msgid: string;
+  msgidPlural?: string;
+  /** msgstr values; singular entries only use index 0 */
+  msgstr: string[];
+}
+
+/**
+ * A block of a PO file separated by blank lines.
+ * Blocks without an entry (obsolete entries, stray comments) are kept verbatim.
+ */
+export interface PoBlock {
+  raw: string;
+  entry?: PoEntry;
+}
+
+/**
+ * Extractor for gettext PO and POT files
+ */
+export class PoExtractor extends BaseExtractor {
+  readonly supportedFormats: FormatInfo['format'][] = ['po'];
+  readonly fileExtensions = ['.po', '.pot'];
+
+  /**
+   * Detect gettext content
+   */
+  detect(content: string): FormatInfo | null {
+    if (!/^msgid\s+"/m.test(content) || !/^msgstr(\[\d+\])?\s+"/m.test(content)) {
+      return null;
+    }
+
+    return { format: 'po' };
+  }
+
+  /**
+   * Validate PO content
+   */
+  validate(content: string): boolean {
+    if (!this.detect(content)) {
+      throw new ExtractorError('Invalid PO content: no msgid/msgstr entries found', 'unknown');
+    }
+    parsePoBlocks(content);
+    return true;
+  }
+
+  /**
+   * Extract translation units from a PO/POT file
+   */
+  extract(
+    filePath: string,
+    content: string,
+    targetLanguage: string,
+    options?: ExtractOptions
+  ): ExtractResult {
+    const formatInfo = this.detect(content);
+
+    if (!formatInfo) {
+      throw new ExtractorError('Could not detect PO format', filePath);
+    }
+
+    try {
+      const blocks = parsePoBlocks(content);
+      const units: TranslationUnit[] = [];
+      let headers = new Map<string, string>();
+
+      for (const { entry } of blocks) {
+        if (!entry) {
+          continue;
+        }
+
+        // Header entry
+        if (entry.msgid === '' && entry.msgctxt === undefined) {
+          headers = parsePoHeaders(entry.msgstr[0] ?? '');
+          continue;
+        }
+
+        units.push(this.createUnit(entry, filePath, targetLanguage, headers, options));
+      }
+
+      return {
+        filePath,
+        sourceLanguage: headers.get('Language') || 'en',
+        targetLanguage,
+        units,
+        formatInfo,
+        originalContent: content,
+      };
+    } catch (error) {
+      if (error instanceof ExtractorError) {
+        throw error;
+      }
+      throw new ExtractorError(
+        `Failed to parse PO file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        filePath,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Create a translation unit from a PO entry
+   */
+  private createUnit(
+    entry: PoEntry,
+    filePath: string,
+    targetLanguage: string,
+    headers: Map<string, string>,
+    options?: ExtractOptions
+  ): TranslationUnit {
+    let source: string;
+    let target: string | undefined;
+
+    if (entry.msgidPlural !== undefined) {
+      source = buildPoPluralMessage([
+        { category: 'one', text: entry.msgid },
+        { category: 'other', text: entry.msgidPlural },
+      ]);
+
+      if (entry.msgstr.some(value => value !== '')) {
+        const categories = getPoPluralCategories(targetLanguage, parseNplurals(headers));
+        const variants = entry.msgstr.map((text, index) => ({
+          category: categories[index] ?? 'other',
+          text,
+        }));
+        // ICU requires an 'other' branch, which gettext drops for languages such as
+        // Russian. The last form covers the remaining numbers.
+        const last = variants[variants.length - 1];
+        if (last && !variants.some(variant => variant.category === 'other')) {
+          variants.push({ category: 'other', text: last.text });
+        }
+        target = buildPoPluralMessage(variants);
+      }
+    } else {
+      source = entry.msgid;
+      target = entry.msgstr[0] || undefined;
+    }
+
+    const isFuzzy = entry.flags.includes('fuzzy');
+
+    return {
+      id: buildPoUnitId(entry.msgid, entry.msgctxt),
+      source,
+      target,
+      context: options?.includeContext !== false ? entry.msgctxt : undefined,
+      metadata: {
+        file: filePath,
+        line: parseReferenceLine(entry.references[0]),
+        notes:
+          options?.includeNotes !== false && entry.extractedComments.length > 0
+            ? entry.extractedComments.join('\n')
+            : undefined,
+        state: isFuzzy ? 'fuzzy' : target ? 'translated' : undefined,
+        references: entry.references.length > 0 ? entry.references : undefined,
+        flags: entry.flags.length > 0 ? entry.flags : undefined,
+      },
+      hash: this.hashContent(source),
+    };
+  }
+
+  /**
+   * Create hash of content for change detection
+   */
+  private hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+  }
+}
+
+/**
+ * Build the unit ID for a PO entry (msgctxt and msgid together identify a message)
+ */
+export function buildPoUnitId(msgid: string, msgctxt?: string): string {
+  return msgctxt !== undefined ? `${msgctxt}${PO_CONTEXT_SEPARATOR}${msgid}` : msgid;
+}
+
+/**
+ * Build an ICU plural message representing a gettext plural entry
+ */
+export function buildPoPluralMessage(variants: Array<{ category: string; text: string }>): string {
+  const parts = variants.map(v => ` ${v.category} {${v.text}}`).join('');
+  return `{${PO_PLURAL_ARGUMENT}, plural,${parts}}`;
+}
+
+/**
+ * Split an ICU plural message back into msgstr[n] values for a target language.
+ * Falls back to repeating the whole text when it is not a plural message.
+ */
+export function splitPoPluralMessage(
+  message: string,
+  targetLanguage: string,
+  nplurals?: number
+): string[] {
+  const categories = getPoPluralCategories(targetLanguage, nplurals);
+
+  try {
+    const parsed = parseICUMessage(message);
+    const plural = parsed.elements.find(e => e.type === 'plural');
+
+    if (plural?.type === 'plural') {
+      const variants = new Map(plural.variants.map(v => [v.category, v.text]));
+      const fallback = variants.get('other') ?? plural.variants[0]?.text ?? message;
+      return categories.map(category => variants.get(category) ?? fallback);
+    }
+  } catch {
+    // Not an ICU message - use the text for every form
+  }
+
+  return categories.map(() => message);
+}
+
+/**
+ * Get the plural category for each msgstr index of a target language.
+ * When a file declares a different nplurals, the list is truncated or padded with 'other'.
+ */
+export function getPoPluralCategories(language: string, nplurals?: number): PluralCategory[] {
+  const { categories } = getGettextPluralForms(language);
+
+  if (nplurals === undefined || nplurals === categories.length) {
+    return categories;
+  }
+
+  return Array.from({ length: nplurals }, (_, i) => categories[i] ?? 'other');
+}
+
+/**
+ * Parse the nplurals value from PO headers
+ */
+export function parseNplurals(headers: Map<string, string>): number | undefined {
+  const match = headers.get('Plural-Forms')?.match(/nplurals\s*=\s*(\d+)/);
+  return match?.[1] ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Parse the header entry's msgstr into a map of header fields
+ */
+export function parsePoHeaders(headerText: string): Map<string, string> {
+  const headers = new Map<string, string>();
+
+  for (const line of headerText.split('\n')) {
+    const colonIndex = line.indexOf(':');
+    if (colonIndex > 0) {
+      headers.set(line.slice(0, colonIndex).trim(), line.slice(colonIndex + 1).trim());
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Extract the line number from a reference like "src/app.py:42"
+ */
+function parseReferenceLine(reference: string | undefined): number | undefined {
+  const match = reference?.match(/:(\d+)$/);
+  return match?.[1] ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Unescape a PO string literal body
+ */
+export function unescapePoString(value: string): string {
+  return value.replace(/\\(["\\ntr]|.)/g, (_, char: string) => {
+    switch (char) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      case 'r':
+        return '\r';
+      case '"':
+        return '"';
+      case '\\':
+        return '\\';
+      default:
+        return char;
+    }
+  });
+}
+
+/**
+ * Escape a value for use inside a PO string literal
+ */
+export function escapePoString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r');
+}
+
+/**
+ * Parse PO/POT content into blocks
+ */
+export function parsePoBlocks(content: string): PoBlock[] {
+  const normalized = content.replace(/\r\n/g, '\n');
+  const rawBlocks = normalized.split(/\n[ \t]*\n/).filter(block => block.trim() !== '');
+
+  return rawBlocks.map(raw => {
+    const trimmed = raw.replace(/^\n+|\n+$/g, '');
+    return { raw: trimmed, entry: parsePoEntry(trimmed) };
+  });
+}
+
+/**
+ * Parse a single block into an entry (undefined for obsolete or comment-only blocks)
+ */
+function parsePoEntry(block: string): PoEntry | undefined {
+  const entry: PoEntry = {
+    commentLines: [],
+    translatorComments: [],
+    extractedComments: [],
+    references: [],
+    flags: [],
+    msgid: '',
+    msgstr: [],
+  };
+
+  let hasMsgid = false;
+  let current: { keyword: string; index?: number } | null = null;
+  const strings = new Map<string, string>();
+
+  const keyOf = (keyword: string, index?: number): string =>
+    index === undefined ? keyword : `${keyword}[${index}]`;
+
+  for (const rawLine of block.split('\n')) {
+    const line = rawLine.trim();
+
+    if (line.startsWith('#~')) {
+      // Obsolete entry - keep the block verbatim
+      return undefined;
+    }
+
+    if (line.startsWith('#')) {
+      entry.commentLines.push(rawLine);
+      if (line.startsWith('#.')) {
+        entry.extractedComments.push(line.slice(2).trim());
+      } else if (line.startsWith('#:')) {
+        entry.references.push(...line.slice(2).trim().split(/\s+/).filter(Boolean));
+      } else if (line.startsWith('#,')) {
+        entry.flags.push(
+          ...line
+            .slice(2)
+            .split(',')
+            .map(flag => flag.trim())
+            .filter(Boolean)
+        );
+      } else if (!line.startsWith('#|')) {
+        entry.translatorComments.push(line.slice(1).trim());
+      }
+      continue;
+    }
+
+    const keywordMatch = line.match(/^(msgctxt|msgid_plural|msgid|msgstr)(?:\[(\d+)\])?\s+"(.*)"$/);
+    if (keywordMatch) {
+      const keyword = keywordMatch[1] ?? '';
+      const index = keywordMatch[2] !== undefined ? parseInt(keywordMatch[2], 10) : undefined;
+      current = { keyword, index };
+      strings.set(keyOf(keyword, index), unescapePoString(keywordMatch[3] ?? ''));
+      if (keyword === 'msgid') {
+        hasMsgid = true;
+      }
+      continue;
+    }
+
+    const continuationMatch = line.match(/^"(.*)"$/);
+    if (continuationMatch && current) {
+      const key = keyOf(current.keyword, current.index);
+      strings.set(key, (strings.get(key) ?? '') + unescapePoString(continuationMatch[1] ?? ''));
+      continue;
+    }
+
+    if (line !== '') {
+      throw new Error(`Unexpected line in PO file: ${line}`);
+    }
+  }
+
+  if (!hasMsgid) {
+    return undefined;
+  }
+
+  entry.msgctxt = strings.get('msgctxt');
+  entry.msgid = strings.get('msgid') ?? '';
+  entry.msgidPlural = strings.get('msgid_plural');
+
+  if (entry.msgidPlural !== undefined) {
+    for (let i = 0; strings.has(`msgstr[${i}]`); i++) {
+      entry.msgstr.push(strings.get(`msgstr[${i}]`) ?? '');
+    }
+  } else {
+    entry.msgstr.push(strings.get('msgstr') ?? '');
+  }
+
+  return entry;
+}
@@ -0,0 +1,300 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { ExtractorError } from '../utils/errors';
+import type { ExtractResult, FormatInfo, TranslationUnit } from '../types/translation';
+import { BaseExtractor, ExtractOptions } from './base';
+
+/**
+ * Matches a line ending in an odd number of backslashes
+ */
+const CONTINUATION_PATTERN = /(?:^|[^\\])(?:\\\\)*\\$/;
+
+/**
+ * A key/value entry of a .properties file with its position in the content
+ */
+export interface PropertiesEntry {
+  key: string;
+  value: string;
+  /** Comment lines directly above the entry, without their # or ! markers */
+  comment?: string;
+  /** 1-based line number of the key */
+  line: number;
+  /** Offset of the first attached comment line, or of the entry itself */
+  blockStart: number;
+  /** Offset of the raw value */
+  valueStart: number;
+  /** Offset after the last character of the entry (before its line break) */
+  end: number;
+  /** Whether the key is separated from the value by "=" or ":" */
+  hasSeparator: boolean;
+}
+
+/**
+ * Extractor for Java .properties files (ResourceBundle, Spring MessageSource).
+ *
+ * Follows java.util.Properties syntax: "=", ":" or whitespace separators, line
+ * continuations, \uXXXX escapes and # / ! comments. Comments directly above a key
+ * become the unit's notes.
+ */
+export class PropertiesExtractor extends BaseExtractor {
+  readonly supportedFormats: FormatInfo['format'][] = ['properties'];
+  readonly fileExtensions = ['.properties'];
+
+  /**
+   * Detect .properties content. Only "key=value" and "key: value" entries count,
+   * since nearly any text is valid with whitespace separators.
+   */
+  detect(content: string): FormatInfo | null {
+    const entries = parsePropertiesFile(content);
+    if (entries.length === 0 || entries.some(entry => !entry.hasSeparator)) {
+      return null;
+    }
+    return { format: 'properties' };
+  }
+
+  /**
+   * Validate .properties content (every line is valid, so only emptiness is checked)
+   */
+  validate(content: string): boolean {
+    if (parsePropertiesFile(content).length === 0) {
+      throw new ExtractorError('Invalid .properties content: no entries found', 'unknown');
+    }
+    return true;
+  }
+
+  /**
+   * Extract translation units from a .properties file
+   */
+  extract(
+    filePath: string,
+    content: string,
+    targetLanguage: string,
+    options?: ExtractOptions
+  ): ExtractResult {
+    try {
+      const units: TranslationUnit[] = parsePropertiesFile(content)
+        .filter(entry => entry.value.trim() !== '')
+        .map(entry => ({
+          id: entry.key,
+          source: entry.value,
+          metadata: {
+            file: filePath,
+            line: entry.line,
+            notes: options?.includeNotes !== false ? entry.comment : undefined,
+          },
+          hash: this.hashContent(entry.value),
+        }));
+
+      return {
+        filePath,
+        sourceLanguage: detectPropertiesLanguage(filePath) ?? 'en',
+        targetLanguage,
+        units,
+        formatInfo: { format: 'properties' },
+        originalContent: content,
+      };
+    } catch (error) {
+      throw new ExtractorError(
+        `Failed to parse .properties file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        filePath,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Create hash of content for change detection
+   */
+  private hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+  }
+}
+
+/**
+ * Parse the entries of a .properties file
+ */
+export function parsePropertiesFile(content: string): PropertiesEntry[] {
+  const entries: PropertiesEntry[] = [];
+  const lineBreak = /\r\n|\r|\n/g;
+  let pos = content.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let lineNumber = 1;
+  let commentLines: string[] = [];
+  let commentStart = -1;
+
+  // Read one natural line starting at pos and advance past its line break
+  const readLine = (): { text: string; end: number } => {
+    lineBreak.lastIndex = pos;
+    const match = lineBreak.exec(content);
+    const end = match ? match.index : content.length;
+    const text = content.slice(pos, end);
+    pos = match ? end + match[0].length : content.length;
+    lineNumber++;
+    return { text, end };
+  };
+
+  while (pos < content.length) {
+    const start = pos;
+    const keyLine = lineNumber;
+    const { text: line, end: lineEnd } = readLine();
+    const trimmed = line.trimStart();
+
+    if (trimmed === '') {
+      commentLines = [];
+      commentStart = -1;
+      continue;
+    }
+
+    if (trimmed.startsWith('#') || trimmed.startsWith('!')) {
+      if (commentStart === -1) {
+        commentStart = start;
+      }
+      commentLines.push(trimmed.slice(1).replace(/^ /, ''));
+      continue;
+    }
+
+    // A line ending in an odd number of backslashes continues on the next line
+    let logical = line;
+    let end = lineEnd;
+    while (CONTINUATION_PATTERN.test(logical) && pos < content.length) {
+      const next = readLine();
+      logical = logical.slice(0, -1) + next.text.trimStart();
+      end = next.end;
+    }
+
+    const offset = line.length - trimmed.length;
+    const { key, rawValue, valueOffset, hasSeparator } = splitKeyValue(logical.slice(offset));
+    // A value starting on a continuation line is replaced from the first line's backslash
+    const rawValueStart = Math.min(start + offset + valueOffset, lineEnd - (end > lineEnd ? 1 : 0));
+
+    entries.push({
+      key: unescapePropertiesValue(key),
+      value: unescapePropertiesValue(rawValue),
+      comment: commentLines.length > 0 ? commentLines.join('\n').trim() || undefined : undefined,
+      line: keyLine,
+      blockStart: commentStart === -1 ? start : commentStart,
+      valueStart: rawValueStart,
+      end,
+      hasSeparator,
+    });
+
+    commentLines = [];
+    commentStart = -1;
+  }
+
+  return entries;
+}
+
+/**
+ * Split a logical line into its raw key and value
+ */
+function splitKeyValue(text: string): {
+  key: string;
+  rawValue: string;
+  valueOffset: number;
+  hasSeparator: boolean;
+} {
+  let i = 0;
+  while (i < text.length) {
+    const char = text.charAt(i);
+    if (char === '\\') {
+      i += 2;
+      continue;
+    }
+    if (char === '=' || char === ':' || /\s/.test(char)) {
+      break;
+    }
+    i++;
+  }
+
+  const key = text.slice(0, i);
+  while (i < text.length && /[ \t\f]/.test(text.charAt(i))) {
+    i++;
+  }
+
+  let hasSeparator = false;
+  if (text.charAt(i) === '=' || text.charAt(i) === ':') {
+    hasSeparator = true;
+    i++;
+    while (i < text.length && /[ \t\f]/.test(text.charAt(i))) {
+      i++;
+    }
+  }
+
+  return { key, rawValue: text.slice(i), valueOffset: i, hasSeparator };
+}
+
+/**
+ * Resolve escape sequences in a raw .properties key or value
+ */
+export function unescapePropertiesValue(value: string): string {
+  return value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, sequence: string) => {
+    if (sequence.length === 5) {
+      return String.fromCharCode(parseInt(sequence.slice(1), 16));
+    }
+    switch (sequence) {
+      case 't':
+        return '\t';
+      case 'n':
+        return '\n';
+      case 'r':
+        return '\r';
+      case 'f':
+        return '\f';
+      default:
+        return sequence;
+    }
+  });
+}
+
+/**
+ * Escape a value for a .properties file.
+ *
+ * @param escapeUnicode Write characters outside ASCII as \uXXXX, as required by
+ *   ISO-8859-1 files and understood by every Java version
+ */
+export function escapePropertiesValue(value: string, escapeUnicode: boolean): string {
+  const escaped = escapeSpecialCharacters(value).replace(/^ /, '\\ ');
+  return escapeUnicode ? escapeNonAscii(escaped) : escaped;
+}
+
+/**
+ * Escape a key for a .properties file
+ */
+export function escapePropertiesKey(key: string, escapeUnicode: boolean): string {
+  const escaped = escapeSpecialCharacters(key)
+    .replace(/([=: ])/g, '\\$1')
+    .replace(/^([#!])/, '\\$1');
+  return escapeUnicode ? escapeNonAscii(escaped) : escaped;
+}
+
+/**
+ * Escape backslashes and control characters
+ */
+function escapeSpecialCharacters(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/\t/g, '\\t')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\f/g, '\\f');
+}
+
+/**
+ * Replace characters outside printable ASCII with \uXXXX escapes
+ */
+export function escapeNonAscii(text: string): string {
+  return text.replace(
+    /[^\x20-\x7e\t\n\r\f]/g,
+    char => `\\u${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`
+  );
+}
+
+/**
+ * Detect the locale from a ResourceBundle file name like messages_de.properties
+ */
+export function detectPropertiesLanguage(filePath: string): string | null {
+  const match = path
+    .basename(filePath, '.properties')
+    .match(/_([a-z]{2,3}(?:_[A-Z][a-z]{3})?(?:_(?:[A-Z]{2}|\d{3}))?)$/);
+  return match?.[1] ?? null;
+}
@@ -0,0 +1,263 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { ExtractorError } from '../utils/errors';
+import type { ExtractResult, FormatInfo, TranslationUnit } from '../types/translation';
+import { BaseExtractor, ExtractOptions } from './base';
+
+/**
+ * A <data> element of a .resx file with its position in the content
+ */
+export interface ResxEntry {
+  name: string;
+  attributes: Record<string, string>;
+  /** Decoded text of <value> */
+  value: string;
+  /** Decoded text of <comment> */
+  comment?: string;
+  /** Whether the entry is a string resource (no type or mimetype attribute) */
+  translatable: boolean;
+  /** Offsets of the whole element within the file */
+  start: number;
+  end: number;
+  /** Offsets of the <value> element, or of the empty position where it belongs */
+  valueStart: number;
+  valueEnd: number;
+  line: number;
+}
+
+const DATA_PATTERN = /<!--[\s\S]*?-->|<data(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/data\s*>)/g;
+const VALUE_PATTERN = /<value(?=[\s/>])[^>]*?(?:\/>|>([\s\S]*?)<\/value\s*>)/;
+const COMMENT_PATTERN = /<comment(?=[\s/>])[^>]*?(?:\/>|>([\s\S]*?)<\/comment\s*>)/;
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * .NET composite format items ({0}, {1:N2}, {2,-10:C}) and escaped braces ({{, }})
+ */
+const FORMAT_ITEM_PATTERN = /\{\{|\}\}|\{(\d+\s*(?:,\s*-?\d+\s*)?(?::[^{}]*)?)\}/g;
+
+/**
+ * Format items protected as {{...}} markers, which are kept verbatim by the model
+ */
+const PROTECTED_ITEM_PATTERN = /\{\{(\d+\s*(?:,\s*-?\d+\s*)?(?::[^{}]*)?)\}\}/g;
+
+/**
+ * Extractor for .NET XML resource files (Resources.resx).
+ *
+ * Only string resources are extracted: entries with a type or mimetype attribute
+ * (images, file references, serialized objects) are skipped. The <comment> becomes
+ * the unit's notes. Format items with an alignment or format string, like {0:N2},
+ * are wrapped as {{0:N2}} so the model keeps them as-is.
+ */
+export class ResxExtractor extends BaseExtractor {
+  readonly supportedFormats: FormatInfo['format'][] = ['resx'];
+  readonly fileExtensions = ['.resx'];
+
+  /**
+   * Detect .resx content: a <root> element with resource headers or data entries
+   */
+  detect(content: string): FormatInfo | null {
+    if (/<root[\s>]/.test(content) && /<(?:resheader|data)\s/.test(content)) {
+      return { format: 'resx' };
+    }
+    return null;
+  }
+
+  /**
+   * Validate .resx content
+   */
+  validate(content: string): boolean {
+    if (!/<root[\s>]/.test(content) || !/<\/root\s*>/.test(content)) {
+      throw new ExtractorError('Invalid .resx file: missing <root> element', 'unknown');
+    }
+    return true;
+  }
+
+  /**
+   * Extract translation units from a .resx file
+   */
+  extract(
+    filePath: string,
+    content: string,
+    targetLanguage: string,
+    options?: ExtractOptions
+  ): ExtractResult {
+    try {
+      this.validate(content);
+
+      const units: TranslationUnit[] = parseResxEntries(content)
+        .filter(entry => entry.translatable && entry.value.trim() !== '')
+        .map(entry => {
+          const source = protectFormatItems(entry.value);
+          return {
+            id: entry.name,
+            source,
+            metadata: {
+              file: filePath,
+              line: entry.line,
+              notes: options?.includeNotes !== false ? entry.comment : undefined,
+            },
+            hash: this.hashContent(source),
+          };
+        });
+
+      return {
+        filePath,
+        sourceLanguage: detectResxLanguage(filePath) ?? 'en',
+        targetLanguage,
+        units,
+        formatInfo: { format: 'resx' },
+        originalContent: content,
+      };
+    } catch (error) {
+      throw new ExtractorError(
+        `Failed to parse .resx file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        filePath,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Create hash of content for change detection
+   */
+  private hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+  }
+}
+
+/**
+ * Parse the <data> elements of a .resx file
+ */
+export function parseResxEntries(content: string): ResxEntry[] {
+  const entries: ResxEntry[] = [];
+
+  for (const match of content.matchAll(DATA_PATTERN)) {
+    // Skip comments: the standard header documents the format with sample entries
+    if (match[0].startsWith('<!--')) {
+      continue;
+    }
+
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const attributes = parseAttributes(match[1] ?? '');
+    const name = attributes['name'];
+    if (!name) {
+      continue;
+    }
+
+    const inner = match[2] ?? '';
+    const innerStart = match[2] !== undefined ? start + match[0].indexOf('>') + 1 : end;
+    const valueMatch = VALUE_PATTERN.exec(inner);
+    const valueStart = valueMatch ? innerStart + valueMatch.index : innerStart;
+
+    entries.push({
+      name,
+      attributes,
+      value: decodeXmlText(valueMatch?.[1] ?? ''),
+      comment: decodeXmlText(COMMENT_PATTERN.exec(inner)?.[1] ?? '').trim() || undefined,
+      // WinForms designer metadata (">>button1.Name") is not user-visible text
+      translatable:
+        attributes['type'] === undefined &&
+        attributes['mimetype'] === undefined &&
+        !name.startsWith('>>'),
+      start,
+      end,
+      valueStart,
+      valueEnd: valueMatch ? valueStart + valueMatch[0].length : valueStart,
+      line: content.slice(0, start).split('\n').length,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Wrap format items that carry an alignment or format string as {{...}} markers.
+ * Escaped braces and plain items like {0} are left unchanged.
+ */
+export function protectFormatItems(text: string): string {
+  return text.replace(FORMAT_ITEM_PATTERN, (match, item: string | undefined) =>
+    item !== undefined && /[,:]/.test(item) ? `{{${item}}}` : match
+  );
+}
+
+/**
+ * Turn {{...}} markers back into composite format items
+ */
+export function restoreFormatItems(text: string): string {
+  return text.replace(PROTECTED_ITEM_PATTERN, (match, item: string) =>
+    /[,:]/.test(item) ? `{${item}}` : match
+  );
+}
+
+/**
+ * Detect the culture from a resource file name like Resources.de-DE.resx
+ */
+export function detectResxLanguage(filePath: string): string | null {
+  const match = path
+    .basename(filePath, path.extname(filePath))
+    .match(/\.([a-z]{2,3}(?:-[A-Za-z0-9]{2,8})*)$/);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Escape XML special characters in element text
+ */
+export function encodeResxText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Escape a value for use in a double-quoted XML attribute
+ */
+export function encodeResxAttribute(value: string): string {
+  return encodeResxText(value).replace(/"/g, '&quot;');
+}
+
+/**
+ * Parse element attributes
+ */
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const match of text.matchAll(ATTRIBUTE_PATTERN)) {
+    if (match[1]) {
+      attributes[match[1]] = decodeXmlText(match[2] ?? match[3] ?? '');
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Decode CDATA sections, the predefined XML entities and character references
+ */
+function decodeXmlText(text: string): string {
+  return text
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map(part =>
+      part.startsWith('<![CDATA[')
+        ? part.slice(9, -3)
+        : part.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+            switch (entity) {
+              case 'lt':
+                return '<';
+              case 'gt':
+                return '>';
+              case 'amp':
+                return '&';
+              case 'quot':
+                return '"';
+              case 'apos':
+                return "'";
+              default:
+                return String.fromCodePoint(
+                  entity.startsWith('#x')
+                    ? parseInt(entity.slice(2), 16)
+                    : parseInt(entity.slice(1), 10)
+                );
+            }
+          })
+    )
+    .join('');
+}
@@ -0,0 +1,164 @@
+import * as crypto from 'crypto';
+import { ExtractorError } from '../utils/errors';
+import { PlistDict, getPlistValue, isPlistDict, parsePlist } from '../utils/plist';
+import type { ExtractResult, FormatInfo, TranslationUnit } from '../types/translation';
+import { reconstructPlural } from '../icu/reconstructor';
+import { PLURAL_CATEGORIES } from '../icu/types';
+import { BaseExtractor, ExtractOptions } from './base';
+import { detectLprojLanguage } from './ios-strings';
+
+export const STRINGSDICT_FORMAT_KEY = 'NSStringLocalizedFormatKey';
+export const STRINGSDICT_SPEC_TYPE_KEY = 'NSStringFormatSpecTypeKey';
+export const STRINGSDICT_VALUE_TYPE_KEY = 'NSStringFormatValueTypeKey';
+export const STRINGSDICT_PLURAL_RULE_TYPE = 'NSStringPluralRuleType';
+
+/**
+ * Matches variable references like %#@files@ in a localized format key
+ */
+export const STRINGSDICT_VARIABLE_PATTERN = /%#@([A-Za-z_][\w]*)@/g;
+
+/**
+ * Extractor for Apple .stringsdict plural files.
+ *
+ * Each entry becomes one unit whose source is the localized format key with every
+ * %#@variable@ reference replaced by an ICU plural, e.g.
+ * "{files, plural, one {%d file} other {%d files}}".
+ */
+export class StringsdictExtractor extends BaseExtractor {
+  readonly supportedFormats: FormatInfo['format'][] = ['ios-stringsdict'];
+  readonly fileExtensions = ['.stringsdict'];
+
+  /**
+   * Detect .stringsdict content
+   */
+  detect(content: string): FormatInfo | null {
+    if (!content.includes('<plist') || !content.includes(STRINGSDICT_FORMAT_KEY)) {
+      return null;
+    }
+
+    return { format: 'ios-stringsdict' };
+  }
+
+  /**
+   * Validate .stringsdict content
+   */
+  validate(content: string): boolean {
+    if (!this.detect(content)) {
+      throw new ExtractorError(
+        `Invalid .stringsdict content: no ${STRINGSDICT_FORMAT_KEY}`,
+        'unknown'
+      );
+    }
+    parseStringsdict(content);
+    return true;
+  }
+
+  /**
+   * Extract translation units from a .stringsdict file
+   */
+  extract(
+    filePath: string,
+    content: string,
+    targetLanguage: string,
+    _options?: ExtractOptions
+  ): ExtractResult {
+    const formatInfo = this.detect(content);
+
+    if (!formatInfo) {
+      throw new ExtractorError('Could not detect .stringsdict format', filePath);
+    }
+
+    try {
+      const units: TranslationUnit[] = [];
+
+      for (const [key, entry] of parseStringsdict(content).entries) {
+        if (!isPlistDict(entry)) {
+          continue;
+        }
+
+        const source = stringsdictEntryToICU(entry);
+        if (source === null) {
+          continue;
+        }
+
+        units.push({
+          id: key,
+          source,
+          metadata: { file: filePath },
+          hash: this.hashContent(source),
+        });
+      }
+
+      return {
+        filePath,
+        sourceLanguage: detectLprojLanguage(filePath) ?? 'en',
+        targetLanguage,
+        units,
+        formatInfo,
+        originalContent: content,
+      };
+    } catch (error) {
+      throw new ExtractorError(
+        `Failed to parse .stringsdict file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        filePath,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Create hash of content for change detection
+   */
+  private hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+  }
+}
+
+/**
+ * Parse a .stringsdict file into its root dictionary
+ */
+export function parseStringsdict(content: string): PlistDict {
+  const root = parsePlist(content);
+  if (!isPlistDict(root)) {
+    throw new Error('Root element must be a <dict>');
+  }
+  return root;
+}
+
+/**
+ * Convert a stringsdict entry to an ICU message.
+ * Returns null for entries that do not use plural rule variables.
+ */
+export function stringsdictEntryToICU(entry: PlistDict): string | null {
+  const format = getPlistValue(entry, STRINGSDICT_FORMAT_KEY);
+  if (typeof format !== 'string') {
+    return null;
+  }
+
+  let hasPlural = false;
+  const message = format.replace(STRINGSDICT_VARIABLE_PATTERN, (reference, name: string) => {
+    const variable = getPlistValue(entry, name);
+    if (!isPlistDict(variable)) {
+      return reference;
+    }
+    if (getPlistValue(variable, STRINGSDICT_SPEC_TYPE_KEY) !== STRINGSDICT_PLURAL_RULE_TYPE) {
+      return reference;
+    }
+
+    const variants = variable.entries
+      .filter(([category, text]) => isPluralKey(category) && typeof text === 'string')
+      .map(([category, text]) => ({ category, text: String(text) }));
+
+    hasPlural = true;
+    return reconstructPlural(name, variants);
+  });
+
+  return hasPlural ? message : null;
+}
+
+/**
+ * Check whether a plist key is a plural category
+ */
+function isPluralKey(key: string): boolean {
+  return (PLURAL_CATEGORIES as string[]).includes(key);
+}
@@ -0,0 +1,200 @@
+import * as crypto from 'crypto';
+import { ExtractorError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import type { ExtractResult, FormatInfo, TranslationUnit } from '../types/translation';
+import { reconstructPlural } from '../icu/reconstructor';
+import { PLURAL_CATEGORIES } from '../icu/types';
+import { BaseExtractor, ExtractOptions } from './base';
+
+/**
+ * ICU argument name used when representing plural variations as ICU messages
+ */
+export const XCSTRINGS_PLURAL_ARGUMENT = 'count';
+
+/**
+ * A translated value and its review state
+ */
+export interface XcstringsStringUnit {
+  state?: string;
+  value: string;
+}
+
+/**
+ * The localization of one string for one language
+ */
+export interface XcstringsLocalization {
+  stringUnit?: XcstringsStringUnit;
+  variations?: {
+    plural?: Record<string, { stringUnit?: XcstringsStringUnit }>;
+    [variation: string]: unknown;
+  };
+  substitutions?: Record<string, unknown>;
+}
+
+/**
+ * A string entry in a String Catalog
+ */
+export interface XcstringsEntry {
+  comment?: string;
+  extractionState?: string;
+  shouldTranslate?: boolean;
+  localizations?: Record<string, XcstringsLocalization>;
+}
+
+/**
+ * Xcode String Catalog document (.xcstrings)
+ */
+export interface XcstringsDocument {
+  sourceLanguage: string;
+  strings: Record<string, XcstringsEntry>;
+  version: string;
+}
+
+/**
+ * Extractor for Xcode String Catalogs.
+ *
+ * A catalog holds every language in one file; units are extracted for the
+ * source language with the requested target language's value as target.
+ */
+export class XcstringsExtractor extends BaseExtractor {
+  readonly supportedFormats: FormatInfo['format'][] = ['xcstrings'];
+  readonly fileExtensions = ['.xcstrings'];
+
+  /**
+   * Detect String Catalog content
+   */
+  detect(content: string): FormatInfo | null {
+    try {
+      const parsed = JSON.parse(content) as Partial<XcstringsDocument>;
+      if (
+        typeof parsed.sourceLanguage !== 'string' ||
+        typeof parsed.strings !== 'object' ||
+        parsed.strings === null
+      ) {
+        return null;
+      }
+      return { format: 'xcstrings', version: parsed.version };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Validate String Catalog content
+   */
+  validate(content: string): boolean {
+    if (!this.detect(content)) {
+      throw new ExtractorError(
+        'Invalid String Catalog: missing sourceLanguage or strings',
+        'unknown'
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Extract translation units from a String Catalog
+   */
+  extract(
+    filePath: string,
+    content: string,
+    targetLanguage: string,
+    options?: ExtractOptions
+  ): ExtractResult {
+    const formatInfo = this.detect(content);
+
+    if (!formatInfo) {
+      throw new ExtractorError('Could not detect String Catalog format', filePath);
+    }
+
+    try {
+      const document = JSON.parse(content) as XcstringsDocument;
+      const units: TranslationUnit[] = [];
+
+      for (const [key, entry] of Object.entries(document.strings)) {
+        if (entry.shouldTranslate === false || entry.extractionState === 'stale') {
+          continue;
+        }
+
+        const sourceLocalization = entry.localizations?.[document.sourceLanguage];
+        const source = sourceLocalization ? localizationToMessage(sourceLocalization) : key;
+        if (source === null) {
+          logger.debug(`Skipping ${key}: unsupported String Catalog variations`);
+          continue;
+        }
+
+        const targetLocalization = entry.localizations?.[targetLanguage];
+        const target = targetLocalization ? localizationToMessage(targetLocalization) : null;
+
+        units.push({
+          id: key,
+          source,
+          target: target || undefined,
+          metadata: {
+            file: filePath,
+            notes: options?.includeNotes !== false ? entry.comment : undefined,
+            state: targetLocalization ? getLocalizationState(targetLocalization) : undefined,
+          },
+          hash: this.hashContent(source),
+        });
+      }
+
+      return {
+        filePath,
+        sourceLanguage: document.sourceLanguage,
+        targetLanguage,
+        units,
+        formatInfo,
+        originalContent: content,
+      };
+    } catch (error) {
+      throw new ExtractorError(
+        `Failed to parse String Catalog: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        filePath,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Create hash of content for change detection
+   */
+  private hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+  }
+}
+
+/**
+ * Convert a localization to a message: plain value or ICU plural.
+ * Returns null for variations that cannot be represented (device, substitutions).
+ */
+export function localizationToMessage(localization: XcstringsLocalization): string | null {
+  if (localization.substitutions) {
+    return null;
+  }
+
+  if (localization.stringUnit) {
+    return localization.stringUnit.value;
+  }
+
+  const plural = localization.variations?.plural;
+  if (plural && Object.keys(localization.variations ?? {}).length === 1) {
+    const variants = PLURAL_CATEGORIES.filter(category => plural[category]?.stringUnit).map(
+      category => ({ category, text: plural[category]?.stringUnit?.value ?? '' })
+    );
+    return reconstructPlural(XCSTRINGS_PLURAL_ARGUMENT, variants);
+  }
+
+  return null;
+}
+
+/**
+ * Get the review state of a localization (the first variant's state for plurals)
+ */
+function getLocalizationState(localization: XcstringsLocalization): string | undefined {
+  if (localization.stringUnit) {
+    return localization.stringUnit.state;
+  }
+  const variants = Object.values(localization.variations?.plural ?? {});
+  return variants[0]?.stringUnit?.state;
+}
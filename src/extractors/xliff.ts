@@ -180,6 +180,12 @@ export class XliffExtractor extends BaseExtractor {
         // Extract target (simple extraction - we'll restore placeholders when formatting)
         const target = this.extractTextContent(unit['target']);
 
+        // XLIFF 1.2 records the state on the target
+        const targetState =
+          typeof unit['target'] === 'object' && unit['target'] !== null
+            ? (unit['target'] as Record<string, unknown>)['@_state']
+            : undefined;
+
         // Get notes if requested
         let notes: string | undefined;
         if (options?.includeNotes !== false) {
@@ -215,7 +221,7 @@ export class XliffExtractor extends BaseExtractor {
           metadata: {
             file: filePath,
             notes: notes || undefined,
-            state: unit['@_state'] as string | undefined,
+            state: (targetState ?? unit['@_state']) as string | undefined,
             approved: unit['@_approved'] === 'yes',
             placeholders: placeholders.length > 0 ? placeholders : undefined,
           },
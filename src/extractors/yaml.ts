@@ -0,0 +1,299 @@
+import * as crypto from 'crypto';
+import { Document, YAMLMap, YAMLSeq, isAlias, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import type { Pair, Scalar } from 'yaml';
+import { ExtractorError } from '../utils/errors';
+import type { ExtractResult, FormatInfo, TranslationUnit } from '../types/translation';
+import { reconstructPlural } from '../icu/reconstructor';
+import { PLURAL_CATEGORIES } from '../icu/types';
+import { BaseExtractor, ExtractOptions } from './base';
+
+/**
+ * ICU argument name used when representing Rails pluralizations (%{count})
+ */
+export const YAML_PLURAL_ARGUMENT = 'count';
+
+/**
+ * Flag recorded on units that come from a pluralization map
+ */
+export const YAML_PLURALS_FLAG = 'plurals';
+
+/**
+ * Matches a root key that looks like a locale (en, pt-BR, zh_TW)
+ */
+const LOCALE_KEY_PATTERN = /^[a-z]{2,3}(?:[-_][A-Za-z0-9]+)*$/;
+
+/**
+ * Rails symbol references (":default") are lookups, not text
+ */
+const SYMBOL_PATTERN = /^:\w+$/;
+
+/**
+ * A translatable value found in a locale document
+ */
+export interface YamlEntry {
+  /** Unit ID: dotted key path below the locale, with [n] for sequence items */
+  id: string;
+  /** The collection holding the value */
+  parent: YAMLMap | YAMLSeq;
+  /** The key or index of the value in its parent */
+  key: string | number;
+  /** A string scalar, or a pluralization map */
+  node: Scalar | YAMLMap;
+  plural: boolean;
+  comment?: string;
+}
+
+/**
+ * Extractor for Rails-style YAML locale files (config/locales/en.yml).
+ *
+ * The single root key names the locale and is stripped from unit IDs, so
+ * "en: { users: { title: ... } }" yields the unit "users.title". Maps whose keys
+ * are all plural categories are extracted as one ICU plural on {count}.
+ */
+export class YamlExtractor extends BaseExtractor {
+  readonly supportedFormats: FormatInfo['format'][] = ['yaml'];
+  readonly fileExtensions = ['.yml', '.yaml'];
+
+  /**
+   * Detect YAML locale files with a root locale key
+   */
+  detect(content: string): FormatInfo | null {
+    try {
+      return getYamlLocaleRoot(parseYamlDocument(content)) ? { format: 'yaml' } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Validate YAML content
+   */
+  validate(content: string): boolean {
+    try {
+      if (!getYamlLocaleRoot(parseYamlDocument(content))) {
+        throw new ExtractorError('Invalid YAML locale file: missing root locale key', 'unknown');
+      }
+      return true;
+    } catch (error) {
+      if (error instanceof ExtractorError) {
+        throw error;
+      }
+      throw new ExtractorError(
+        `Invalid YAML: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'unknown'
+      );
+    }
+  }
+
+  /**
+   * Extract translation units from a YAML locale file
+   */
+  extract(
+    filePath: string,
+    content: string,
+    targetLanguage: string,
+    options?: ExtractOptions
+  ): ExtractResult {
+    let root: { locale: string; map: YAMLMap } | null;
+
+    try {
+      root = getYamlLocaleRoot(parseYamlDocument(content));
+    } catch (error) {
+      throw new ExtractorError(
+        `Failed to parse YAML file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        filePath,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (!root) {
+      throw new ExtractorError('Could not detect YAML locale format', filePath);
+    }
+
+    const units: TranslationUnit[] = collectYamlEntries(root.map).map(entry => {
+      const source = entry.plural
+        ? buildYamlPluralMessage(entry.node as YAMLMap)
+        : String((entry.node as Scalar).value);
+
+      return {
+        id: entry.id,
+        source,
+        metadata: {
+          file: filePath,
+          notes: options?.includeNotes !== false ? entry.comment : undefined,
+          flags: entry.plural ? [YAML_PLURALS_FLAG] : undefined,
+        },
+        hash: this.hashContent(source),
+      };
+    });
+
+    return {
+      filePath,
+      sourceLanguage: root.locale,
+      targetLanguage,
+      units,
+      formatInfo: { format: 'yaml' },
+      originalContent: content,
+    };
+  }
+
+  /**
+   * Create hash of content for change detection
+   */
+  private hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+  }
+}
+
+/**
+ * Parse YAML content into a document, keeping comments and anchors
+ */
+export function parseYamlDocument(content: string): Document {
+  const document = parseDocument(content);
+  const [error] = document.errors;
+  if (error) {
+    throw error;
+  }
+  return document;
+}
+
+/**
+ * Get the locale and map under the document's single root locale key
+ */
+export function getYamlLocaleRoot(document: Document): { locale: string; map: YAMLMap } | null {
+  const contents = document.contents;
+  if (!isMap(contents) || contents.items.length !== 1) {
+    return null;
+  }
+
+  const [pair] = contents.items;
+  const locale = pair ? getPairKey(pair) : '';
+  if (!pair || !LOCALE_KEY_PATTERN.test(locale) || !isMap(pair.value)) {
+    return null;
+  }
+
+  return { locale, map: pair.value };
+}
+
+/**
+ * Collect the translatable values below a locale map. Aliases and merge keys are
+ * skipped: their values are translated where the anchor is defined.
+ */
+export function collectYamlEntries(map: YAMLMap, prefix = ''): YamlEntry[] {
+  const entries: YamlEntry[] = [];
+
+  map.items.forEach((pair, index) => {
+    const key = getPairKey(pair);
+    if (key === '<<' || isAlias(pair.value)) {
+      return;
+    }
+
+    const id = prefix ? `${prefix}.${key}` : key;
+    // The comment above a map's first key is attached to the map itself
+    const comment = getComment(pair.key) ?? (index === 0 ? getComment(map) : undefined);
+    const value = pair.value;
+
+    if (isMap(value)) {
+      if (isPluralMap(value)) {
+        entries.push({ id, parent: map, key, node: value, plural: true, comment });
+      } else {
+        entries.push(...collectYamlEntries(value, id));
+      }
+    } else if (isSeq(value)) {
+      value.items.forEach((item, itemIndex) => {
+        if (isTranslatableScalar(item)) {
+          entries.push({
+            id: `${id}[${itemIndex}]`,
+            parent: value,
+            key: itemIndex,
+            node: item,
+            plural: false,
+            comment,
+          });
+        }
+      });
+    } else if (isTranslatableScalar(value)) {
+      entries.push({ id, parent: map, key, node: value, plural: false, comment });
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Build an ICU plural message from a Rails pluralization map
+ */
+export function buildYamlPluralMessage(map: YAMLMap): string {
+  const variants = map.items.map(pair => ({
+    category: getPairKey(pair),
+    text: isScalar(pair.value) ? String(pair.value.value) : '',
+  }));
+  return reconstructPlural(YAML_PLURAL_ARGUMENT, variants);
+}
+
+/**
+ * Split a unit ID back into key path segments: "a.b[1]" → ['a', 'b', 1]
+ */
+export function parseYamlUnitId(id: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  for (const part of id.split('.')) {
+    const match = part.match(/^(.*?)((?:\[\d+\])+)$/);
+    if (!match) {
+      segments.push(part);
+      continue;
+    }
+    if (match[1]) {
+      segments.push(match[1]);
+    }
+    for (const index of match[2]?.match(/\d+/g) ?? []) {
+      segments.push(Number(index));
+    }
+  }
+  return segments;
+}
+
+/**
+ * Get a pair's key as a string
+ */
+export function getPairKey(pair: Pair): string {
+  return isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+}
+
+/**
+ * Check whether a map is a Rails pluralization: only plural category keys, with "other"
+ */
+function isPluralMap(map: YAMLMap): boolean {
+  const keys = map.items.map(getPairKey);
+  return (
+    keys.includes('other') &&
+    keys.every(key => (PLURAL_CATEGORIES as string[]).includes(key)) &&
+    map.items.every(pair => isScalar(pair.value) && typeof pair.value.value === 'string')
+  );
+}
+
+/**
+ * Check whether a node is a string scalar holding text
+ */
+function isTranslatableScalar(node: unknown): node is Scalar<string> {
+  return (
+    isScalar(node) &&
+    typeof node.value === 'string' &&
+    node.value.trim() !== '' &&
+    !SYMBOL_PATTERN.test(node.value)
+  );
+}
+
+/**
+ * Get the trimmed comment written above a node
+ */
+function getComment(node: unknown): string | undefined {
+  if (isScalar(node) || isMap(node) || isSeq(node)) {
+    const comment = node.commentBefore
+      ?.split('\n')
+      .map(line => line.trim())
+      .join('\n')
+      .trim();
+    return comment || undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,309 @@
+import { FormatterError } from '../utils/errors';
+import type {
+  ExtractResult,
+  FormatResult,
+  TranslationUnit,
+  FormatInfo,
+} from '../types/translation';
+import {
+  ANDROID_ARRAY_FLAG,
+  ANDROID_PLURALS_FLAG,
+  AndroidResource,
+  buildAndroidArrayItemId,
+  encodeAndroidString,
+  parseAndroidArrayItemId,
+  parseAndroidResources,
+  splitAndroidPluralMessage,
+} from '../extractors/android';
+import { BaseFormatter, FormatOptions, countChanges, mergeUnits } from './base';
+
+const DEFAULT_ANDROID_INDENT = '    ';
+
+/**
+ * Namespace of the <xliff:g> elements that mark text not to translate
+ */
+const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:1.2';
+
+/**
+ * A text replacement within the original file
+ */
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Android strings.xml formatter
+ */
+export class AndroidFormatter extends BaseFormatter {
+  readonly supportedFormats: FormatInfo['format'][] = ['android-xml'];
+  readonly fileExtensions = ['.xml'];
+
+  /**
+   * Format strings.xml content with updated translations
+   */
+  format(
+    originalContent: string,
+    updatedUnits: TranslationUnit[],
+    extractResult: ExtractResult,
+    options?: FormatOptions
+  ): FormatResult {
+    try {
+      const merged = mergeUnits(extractResult.units, updatedUnits);
+      const changes = countChanges(extractResult.units, updatedUnits);
+
+      const unitMap = new Map(merged.map(u => [u.id, u]));
+      const originalTargets = new Map(extractResult.units.map(u => [u.id, u.target]));
+      const targetLanguage = extractResult.targetLanguage;
+
+      const getUpdatedTarget = (id: string): string | undefined => {
+        const target = unitMap.get(id)?.target;
+        return target && target !== originalTargets.get(id) ? target : undefined;
+      };
+
+      const resources = parseAndroidResources(originalContent);
+      const indent = options?.indent ?? detectIndent(originalContent, resources);
+      const edits: Edit[] = [];
+      const existingIds = new Set<string>();
+
+      for (const resource of resources) {
+        if (resource.type === 'string-array') {
+          resource.items.forEach((item, index) => {
+            const id = buildAndroidArrayItemId(resource.name, index);
+            existingIds.add(id);
+            const target = getUpdatedTarget(id);
+            if (target !== undefined) {
+              edits.push({
+                start: item.innerStart,
+                end: item.innerEnd,
+                text: encodeAndroidString(target),
+              });
+            }
+          });
+
+          // Items added to the source array after this file was written
+          const newItems = updatedUnits
+            .filter(unit => unit.target && !existingIds.has(unit.id))
+            .map(unit => ({ unit, item: parseAndroidArrayItemId(unit.id) }))
+            .filter(({ item }) => item?.name === resource.name)
+            .sort((a, b) => (a.item?.index ?? 0) - (b.item?.index ?? 0));
+
+          if (newItems.length > 0) {
+            const itemIndent = getItemIndent(originalContent, resource, indent);
+            const insertAt = getClosingLineStart(originalContent, resource.innerEnd);
+            edits.push({
+              start: insertAt,
+              end: insertAt,
+              text: newItems
+                .map(({ unit }) => {
+                  existingIds.add(unit.id);
+                  return `${itemIndent}<item>${encodeAndroidString(unit.target ?? '')}</item>\n`;
+                })
+                .join(''),
+            });
+          }
+          continue;
+        }
+
+        existingIds.add(resource.name);
+        const target = getUpdatedTarget(resource.name);
+        if (target === undefined || !resource.translatable) {
+          continue;
+        }
+
+        edits.push({
+          start: resource.innerStart,
+          end: resource.innerEnd,
+          text:
+            resource.type === 'plurals'
+              ? formatPluralItems(
+                  target,
+                  targetLanguage,
+                  getItemIndent(originalContent, resource, indent),
+                  getLineIndent(originalContent, resource.start)
+                )
+              : encodeAndroidString(target),
+        });
+      }
+
+      // Append translations for resources that are not in the file yet
+      const missing = updatedUnits.filter(unit => unit.target && !existingIds.has(unit.id));
+      if (missing.length > 0) {
+        const closingIndex = originalContent.lastIndexOf('</resources>');
+        if (closingIndex === -1) {
+          throw new Error('Missing </resources> element');
+        }
+        const insertAt = getClosingLineStart(originalContent, closingIndex);
+        edits.push({
+          start: insertAt,
+          end: insertAt,
+          text: serializeAndroidResources(missing, targetLanguage, indent).join(''),
+        });
+      }
+
+      let content = originalContent;
+      for (const edit of edits.sort((a, b) => b.start - a.start)) {
+        content = content.slice(0, edit.start) + edit.text + content.slice(edit.end);
+      }
+
+      return {
+        content,
+        updatedCount: changes.updated,
+        unchangedCount: changes.unchanged,
+      };
+    } catch (error) {
+      throw new FormatterError(
+        `Failed to format Android resources: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        extractResult.formatInfo.format,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Create a new strings.xml file from translation units.
+ * Units without a target are left out so Android falls back to the default resources.
+ * The root element keeps the attributes of the template, and declares the xliff
+ * namespace when <xliff:g> elements are written.
+ */
+export function createAndroidStringsFile(
+  units: TranslationUnit[],
+  targetLanguage: string,
+  options?: FormatOptions
+): string {
+  const indent = options?.indent ?? DEFAULT_ANDROID_INDENT;
+  const elements = serializeAndroidResources(
+    units.filter(unit => unit.target),
+    targetLanguage,
+    indent
+  );
+
+  const body = elements.join('');
+  let attributes = /<resources\b([^>]*?)\/?>/.exec(options?.template?.content ?? '')?.[1] ?? '';
+  if (body.includes('<xliff:') && !/\sxmlns:xliff\s*=/.test(attributes)) {
+    attributes += ` xmlns:xliff="${XLIFF_NAMESPACE}"`;
+  }
+
+  return `<?xml version="1.0" encoding="utf-8"?>\n<resources${attributes}>\n${body}</resources>\n`;
+}
+
+/**
+ * Serialize units as resource elements, grouping string-array items by array name
+ */
+function serializeAndroidResources(
+  units: TranslationUnit[],
+  targetLanguage: string,
+  indent: string
+): string[] {
+  const elements: Array<string | { arrayName: string }> = [];
+  const arrays = new Map<string, Array<{ index: number; text: string }>>();
+
+  for (const unit of units) {
+    const target = unit.target ?? '';
+    const comment = unit.metadata.notes ? `${indent}<!-- ${unit.metadata.notes} -->\n` : '';
+    const arrayItem = unit.metadata.flags?.includes(ANDROID_ARRAY_FLAG)
+      ? parseAndroidArrayItemId(unit.id)
+      : null;
+
+    if (arrayItem) {
+      let items = arrays.get(arrayItem.name);
+      if (!items) {
+        items = [];
+        arrays.set(arrayItem.name, items);
+        elements.push({ arrayName: arrayItem.name });
+      }
+      items.push({ index: arrayItem.index, text: target });
+    } else if (unit.metadata.flags?.includes(ANDROID_PLURALS_FLAG)) {
+      elements.push(
+        `${comment}${indent}<plurals name="${escapeAttribute(unit.id)}">` +
+          formatPluralItems(target, targetLanguage, indent + indent, indent) +
+          '</plurals>\n'
+      );
+    } else {
+      elements.push(
+        `${comment}${indent}<string name="${escapeAttribute(unit.id)}">${encodeAndroidString(target)}</string>\n`
+      );
+    }
+  }
+
+  return elements.map(element => {
+    if (typeof element === 'string') {
+      return element;
+    }
+    const items = (arrays.get(element.arrayName) ?? [])
+      .sort((a, b) => a.index - b.index)
+      .map(item => `${indent}${indent}<item>${encodeAndroidString(item.text)}</item>\n`)
+      .join('');
+    return `${indent}<string-array name="${escapeAttribute(element.arrayName)}">\n${items}${indent}</string-array>\n`;
+  });
+}
+
+/**
+ * Build the <item quantity> children for a translated plural message
+ */
+function formatPluralItems(
+  message: string,
+  targetLanguage: string,
+  itemIndent: string,
+  closingIndent: string
+): string {
+  const items = splitAndroidPluralMessage(message, targetLanguage)
+    .map(
+      ({ quantity, text }) =>
+        `\n${itemIndent}<item quantity="${quantity}">${encodeAndroidString(text)}</item>`
+    )
+    .join('');
+
+  return `${items}\n${closingIndent}`;
+}
+
+/**
+ * Detect the indentation of top-level resource elements
+ */
+function detectIndent(content: string, resources: AndroidResource[]): string {
+  const first = resources[0];
+  return first
+    ? getLineIndent(content, first.start) || DEFAULT_ANDROID_INDENT
+    : DEFAULT_ANDROID_INDENT;
+}
+
+/**
+ * Get the indentation of <item> children in an existing plurals element
+ */
+function getItemIndent(content: string, resource: AndroidResource, indent: string): string {
+  const firstItem = resource.items[0];
+  if (firstItem) {
+    const itemStart = content.lastIndexOf('<item', firstItem.innerStart);
+    const itemIndent = getLineIndent(content, itemStart);
+    if (itemIndent) {
+      return itemIndent;
+    }
+  }
+  return getLineIndent(content, resource.start) + indent;
+}
+
+/**
+ * Get the insertion point before a closing tag: the start of its line when only indentation precedes it
+ */
+function getClosingLineStart(content: string, closingIndex: number): number {
+  const lineStart = content.lastIndexOf('\n', closingIndex - 1) + 1;
+  return content.slice(lineStart, closingIndex).trim() === '' ? lineStart : closingIndex;
+}
+
+/**
+ * Get the whitespace between the start of a line and the given offset
+ */
+function getLineIndent(content: string, offset: number): string {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  const prefix = content.slice(lineStart, offset);
+  return /^[ \t]*$/.test(prefix) ? prefix : '';
+}
+
+/**
+ * Escape a value for use in a double-quoted XML attribute
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
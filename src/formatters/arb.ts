@@ -0,0 +1,102 @@
+import { FormatterError } from '../utils/errors';
+import { toUnderscoreLocale } from '../utils/output-path';
+import type {
+  ExtractResult,
+  FormatResult,
+  TranslationUnit,
+  FormatInfo,
+} from '../types/translation';
+import { ARB_LOCALE_KEY } from '../extractors/arb';
+import { BaseFormatter, FormatOptions, countChanges } from './base';
+
+/**
+ * Flutter ARB formatter.
+ *
+ * Translated files only carry @@locale and the messages: @key metadata (descriptions,
+ * placeholder declarations) belongs to the template file and is not copied over.
+ * Metadata already present in the target file is kept as is.
+ */
+export class ArbFormatter extends BaseFormatter {
+  readonly supportedFormats: FormatInfo['format'][] = ['arb'];
+  readonly fileExtensions = ['.arb'];
+
+  /**
+   * Format ARB content with updated translations
+   */
+  format(
+    originalContent: string,
+    updatedUnits: TranslationUnit[],
+    extractResult: ExtractResult,
+    options?: FormatOptions
+  ): FormatResult {
+    try {
+      const original = JSON.parse(originalContent) as Record<string, unknown>;
+      const updateMap = new Map(updatedUnits.map(u => [u.id, u.target]));
+
+      // @@locale comes first, replacing a locale copied from the template
+      const result: Record<string, unknown> = {
+        [ARB_LOCALE_KEY]: toUnderscoreLocale(extractResult.targetLanguage),
+      };
+
+      for (const [key, value] of Object.entries(original)) {
+        if (key === ARB_LOCALE_KEY) {
+          continue;
+        }
+        const update = updateMap.get(key);
+        result[key] = update !== undefined && !key.startsWith('@') ? update : value;
+      }
+
+      for (const unit of updatedUnits) {
+        if (unit.target && !(unit.id in result)) {
+          result[unit.id] = unit.target;
+        }
+      }
+
+      const indent = options?.indent ?? detectIndent(originalContent);
+      const changes = countChanges(extractResult.units, updatedUnits);
+
+      return {
+        content: JSON.stringify(result, null, indent) + '\n',
+        updatedCount: changes.updated,
+        unchangedCount: changes.unchanged,
+      };
+    } catch (error) {
+      throw new FormatterError(
+        `Failed to format ARB: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        extractResult.formatInfo.format,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Create a new ARB file from translation units.
+ * Units without a target are left out so Flutter falls back to the template.
+ */
+export function createArbFile(
+  units: TranslationUnit[],
+  targetLanguage: string,
+  options?: FormatOptions
+): string {
+  const result: Record<string, string> = { [ARB_LOCALE_KEY]: toUnderscoreLocale(targetLanguage) };
+
+  for (const unit of units) {
+    if (unit.target) {
+      result[unit.id] = unit.target;
+    }
+  }
+
+  return JSON.stringify(result, null, options?.indent ?? 2) + '\n';
+}
+
+/**
+ * Detect indentation from the first indented line
+ */
+function detectIndent(content: string): string | number {
+  const match = content.match(/^([ \t]+)\S/m);
+  if (!match?.[1]) {
+    return 2;
+  }
+  return match[1].includes('\t') ? '\t' : match[1].length;
+}
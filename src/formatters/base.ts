@@ -28,6 +28,15 @@ export interface FormatOptions {
    * Mark translated units with a state
    */
   markAsTranslated?: boolean;
+
+  /**
+   * Source file used as a template when creating a new file, for formats that
+   * keep the source's key order and comments
+   */
+  template?: {
+    content: string;
+    encoding?: string;
+  };
 }
 
 /**
@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { writeTextFile } from '../utils/encoding';
 import { FormatterError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import type {
@@ -9,8 +10,19 @@ import type {
   FormatInfo,
 } from '../types/translation';
 import { BaseFormatter, FormatterRegistry, FormatOptions } from './base';
-import { XliffFormatter } from './xliff';
+import { NEEDS_REVIEW_SUBSTATE, XliffFormatter } from './xliff';
 import { JsonFormatter } from './json';
+import { PoFormatter, createPoFile } from './po';
+import { AndroidFormatter, createAndroidStringsFile } from './android';
+import { IosStringsFormatter, createIosStringsFile } from './ios-strings';
+import { StringsdictFormatter, createStringsdictFile } from './stringsdict';
+import { XcstringsFormatter, createXcstringsFile } from './xcstrings';
+import { ArbFormatter, createArbFile } from './arb';
+import { YamlFormatter, createYamlFile } from './yaml';
+import { PropertiesFormatter, createPropertiesFile } from './properties';
+import { ResxFormatter, createResxFile } from './resx';
+import { FluentFormatter, createFluentFile } from './fluent';
+import { I18nextFormatter, createI18nextFile } from './i18next';
 
 /**
  * Create and configure the formatter registry with all available formatters
@@ -20,6 +32,17 @@ export function createFormatterRegistry(): FormatterRegistry {
 
   registry.register(new XliffFormatter());
   registry.register(new JsonFormatter());
+  registry.register(new YamlFormatter());
+  registry.register(new PoFormatter());
+  registry.register(new AndroidFormatter());
+  registry.register(new IosStringsFormatter());
+  registry.register(new StringsdictFormatter());
+  registry.register(new XcstringsFormatter());
+  registry.register(new ArbFormatter());
+  registry.register(new PropertiesFormatter());
+  registry.register(new ResxFormatter());
+  registry.register(new FluentFormatter());
+  registry.register(new I18nextFormatter());
 
   return registry;
 }
@@ -87,8 +110,8 @@ export function writeTranslations(
   // Format content
   const result = formatTranslations(originalContent, updatedUnits, extractResult, options);
 
-  // Write to file
-  fs.writeFileSync(absolutePath, result.content, 'utf-8');
+  // Write to file, keeping the encoding it was read with
+  writeTextFile(absolutePath, result.content, extractResult.formatInfo.encoding);
 
   logger.info(`Wrote ${result.updatedCount} updated translations to ${filePath}`);
 
@@ -126,6 +149,10 @@ export function createTranslationFile(
       content = createNestedJson(units, options);
       break;
 
+    case 'yaml':
+      content = createYamlFile(units, targetLanguage);
+      break;
+
     case 'xliff-1.2':
       content = createXliff12(units, sourceLanguage, targetLanguage, options);
       break;
@@ -134,13 +161,53 @@ export function createTranslationFile(
       content = createXliff20(units, sourceLanguage, targetLanguage, options);
       break;
 
+    case 'po':
+      content = createPoFile(units, targetLanguage, options);
+      break;
+
+    case 'android-xml':
+      content = createAndroidStringsFile(units, targetLanguage, options);
+      break;
+
+    case 'ios-strings':
+      content = createIosStringsFile(units);
+      break;
+
+    case 'ios-stringsdict':
+      content = createStringsdictFile(units, targetLanguage);
+      break;
+
+    case 'xcstrings':
+      content = createXcstringsFile(units, sourceLanguage, targetLanguage, options);
+      break;
+
+    case 'arb':
+      content = createArbFile(units, targetLanguage, options);
+      break;
+
+    case 'properties':
+      content = createPropertiesFile(units, options);
+      break;
+
+    case 'resx':
+      content = createResxFile(units, options);
+      break;
+
+    case 'fluent':
+      content = createFluentFile(units, targetLanguage, options);
+      break;
+
+    case 'i18next':
+      content = createI18nextFile(units, targetLanguage, options);
+      break;
+
     default: {
       const exhaustiveCheck: never = format;
       throw new FormatterError(`Cannot create file for format: ${String(exhaustiveCheck)}`, format);
     }
   }
 
-  fs.writeFileSync(absolutePath, content, 'utf-8');
+  writeTextFile(absolutePath, content, options?.template?.encoding);
   logger.info(`Created translation file: ${filePath}`);
 }
 
@@ -211,7 +278,7 @@ function createXliff12(
       unit => `
       <trans-unit id="${escapeXml(unit.id)}">
         <source>${escapeXml(unit.source)}</source>
-        <target>${escapeXml(unit.target ?? '')}</target>
+        <target${unit.metadata.needsReview ? ' state="needs-review-translation"' : ''}>${escapeXml(unit.target ?? '')}</target>
       </trans-unit>`
     )
     .join('');
@@ -239,7 +306,7 @@ function createXliff20(
     .map(
       unit => `
     <unit id="${escapeXml(unit.id)}">
-      <segment>
+      <segment${unit.metadata.needsReview ? ` state="translated" subState="${NEEDS_REVIEW_SUBSTATE}"` : ''}>
         <source>${escapeXml(unit.source)}</source>
         <target>${escapeXml(unit.target ?? '')}</target>
       </segment>
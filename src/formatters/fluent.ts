@@ -0,0 +1,577 @@
+import { FormatterError } from '../utils/errors';
+import type {
+  ExtractResult,
+  FormatResult,
+  TranslationUnit,
+  FormatInfo,
+} from '../types/translation';
+import {
+  FluentEntry,
+  FluentNode,
+  FluentPatternSpan,
+  fluentPatternToMessage,
+  getFluentSelectorInfo,
+  parseFluentPattern,
+  parseFluentResource,
+} from '../extractors/fluent';
+import { createTargetPluralVariants } from '../icu/reconstructor';
+import { BaseFormatter, FormatOptions, countChanges, mergeUnits } from './base';
+
+const FLUENT_INDENT = '    ';
+
+/**
+ * A node of a translated unit message
+ */
+type MessageNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'placeable'; expression: string }
+  | {
+      type: 'select';
+      name: string;
+      kind: 'plural' | 'selectordinal' | 'select';
+      variants: Array<{ key: string; nodes: MessageNode[] }>;
+    };
+
+/**
+ * A text replacement within the original file
+ */
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Mozilla Fluent (.ftl) formatter.
+ *
+ * Message values and attributes are replaced in place, so comments, terms and entry
+ * order are kept. Plural selects are rebuilt with the target language's CLDR
+ * categories, keeping the selector ($count or NUMBER($count)) of the original.
+ */
+export class FluentFormatter extends BaseFormatter {
+  readonly supportedFormats: FormatInfo['format'][] = ['fluent'];
+  readonly fileExtensions = ['.ftl'];
+
+  /**
+   * Format Fluent content with updated translations
+   */
+  format(
+    originalContent: string,
+    updatedUnits: TranslationUnit[],
+    extractResult: ExtractResult,
+    _options?: FormatOptions
+  ): FormatResult {
+    try {
+      const merged = mergeUnits(extractResult.units, updatedUnits);
+      const changes = countChanges(extractResult.units, updatedUnits);
+
+      const unitMap = new Map(merged.map(u => [u.id, u]));
+      const entries = parseFluentResource(originalContent).filter(entry => !entry.term);
+      const selectors = collectSelectors(entries);
+      const language = extractResult.targetLanguage;
+      const edits: Edit[] = [];
+
+      for (const entry of entries) {
+        for (const [id, pattern, indent] of getPatterns(entry)) {
+          const target = unitMap.get(id)?.target;
+          if (!target || target === fluentPatternToMessage(parseFluentPattern(pattern.raw))) {
+            continue;
+          }
+          edits.push({
+            start: pattern.start,
+            end: pattern.end,
+            text: formatPattern(target, selectors, language, indent),
+          });
+        }
+      }
+
+      edits.push(
+        ...getMissingEdits(
+          originalContent,
+          entries,
+          updatedUnits.filter(unit => unit.target),
+          selectors,
+          language
+        )
+      );
+
+      return {
+        content: applyEdits(originalContent, edits),
+        updatedCount: changes.updated,
+        unchangedCount: changes.unchanged,
+      };
+    } catch (error) {
+      throw new FormatterError(
+        `Failed to format Fluent: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        extractResult.formatInfo.format,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Create a new Fluent resource from translation units.
+ *
+ * With a template (the source file), its comments, terms and message order are
+ * kept. Messages and attributes without a translation are removed, so Fluent falls
+ * back to the source locale for them.
+ */
+export function createFluentFile(
+  units: TranslationUnit[],
+  targetLanguage: string,
+  options?: FormatOptions
+): string {
+  const translated = units.filter(unit => unit.target);
+  const template = options?.template?.content;
+
+  if (!template) {
+    return serializeMessages(translated, new Map(), targetLanguage);
+  }
+
+  const unitMap = new Map(translated.map(u => [u.id, u]));
+  const entries = parseFluentResource(template).filter(entry => !entry.term);
+  const selectors = collectSelectors(entries);
+  const edits: Edit[] = [];
+
+  for (const entry of entries) {
+    const patterns = getPatterns(entry).map(([id, pattern, indent]) => ({
+      pattern,
+      indent,
+      target: unitMap.get(id)?.target,
+    }));
+
+    if (patterns.every(({ target }) => !target)) {
+      edits.push({ ...getBlockSpan(template, entry.blockStart, entry.end, true), text: '' });
+      continue;
+    }
+
+    const [value, ...attributes] = patterns;
+    if (value) {
+      edits.push({
+        start: value.pattern.start,
+        end: value.pattern.end,
+        text: value.target
+          ? formatPattern(value.target, selectors, targetLanguage, value.indent)
+          : '',
+      });
+    }
+    entry.attributes.forEach((attribute, index) => {
+      const translation = attributes[index];
+      if (translation?.target) {
+        edits.push({
+          start: attribute.pattern.start,
+          end: attribute.pattern.end,
+          text: formatPattern(translation.target, selectors, targetLanguage, translation.indent),
+        });
+      } else {
+        edits.push({ ...getBlockSpan(template, attribute.start, attribute.pattern.end), text: '' });
+      }
+    });
+  }
+
+  edits.push(...getMissingEdits(template, entries, translated, selectors, targetLanguage));
+
+  return applyEdits(template, edits).trimEnd() + detectLineEnding(template);
+}
+
+/**
+ * List the unit IDs, patterns and continuation indents of a message
+ */
+function getPatterns(entry: FluentEntry): Array<[string, FluentPatternSpan, string]> {
+  return [
+    [entry.id, entry.value, FLUENT_INDENT],
+    ...entry.attributes.map((attribute): [string, FluentPatternSpan, string] => [
+      `${entry.id}.${attribute.name}`,
+      attribute.pattern,
+      FLUENT_INDENT + FLUENT_INDENT,
+    ]),
+  ];
+}
+
+/**
+ * Build edits that add messages and attributes missing from the file
+ */
+function getMissingEdits(
+  content: string,
+  entries: FluentEntry[],
+  units: TranslationUnit[],
+  selectors: Map<string, string>,
+  language: string
+): Edit[] {
+  const entryMap = new Map(entries.map(entry => [entry.id, entry]));
+  const existingIds = new Set(entries.flatMap(entry => getPatterns(entry).map(([id]) => id)));
+  const missing = units.filter(unit => !existingIds.has(unit.id));
+  const edits: Edit[] = [];
+  const newMessages: TranslationUnit[] = [];
+
+  for (const unit of missing) {
+    const [messageId = unit.id, attributeName] = unit.id.split('.');
+    const entry = entryMap.get(messageId);
+
+    if (entry && attributeName) {
+      const value = formatPattern(unit.target ?? '', selectors, language, FLUENT_INDENT.repeat(2));
+      edits.push({
+        start: entry.end,
+        end: entry.end,
+        text: `\n${FLUENT_INDENT}.${attributeName} =${value}`,
+      });
+    } else {
+      newMessages.push(unit);
+    }
+  }
+
+  if (newMessages.length > 0) {
+    // Separate the new messages from the last entry by a blank line
+    const lineBreaks = /(?:\r?\n)*$/.exec(content)?.[0].split('\n').length ?? 1;
+    const separator = content.trim() === '' ? '' : '\n'.repeat(Math.max(0, 3 - lineBreaks));
+    edits.push({
+      start: content.length,
+      end: content.length,
+      text: separator + serializeMessages(newMessages, selectors, language),
+    });
+  }
+
+  return edits;
+}
+
+/**
+ * Serialize units as messages, grouping attributes ("id.attr") with their message
+ */
+function serializeMessages(
+  units: TranslationUnit[],
+  selectors: Map<string, string>,
+  language: string
+): string {
+  const messages = new Map<string, { notes?: string; value: string; attributes: string[] }>();
+
+  for (const unit of units) {
+    const [messageId = unit.id, attributeName] = unit.id.split('.');
+    const message = messages.get(messageId) ?? { value: '', attributes: [] };
+    if (attributeName) {
+      const value = formatPattern(unit.target ?? '', selectors, language, FLUENT_INDENT.repeat(2));
+      message.attributes.push(`${FLUENT_INDENT}.${attributeName} =${value}\n`);
+    } else {
+      message.value = formatPattern(unit.target ?? '', selectors, language, FLUENT_INDENT);
+      message.notes = unit.metadata.notes;
+    }
+    messages.set(messageId, message);
+  }
+
+  return [...messages]
+    .map(([id, message]) => {
+      const comment = message.notes
+        ? message.notes
+            .split('\n')
+            .map(line => `# ${line}`.trimEnd())
+            .join('\n') + '\n'
+        : '';
+      return `${comment}${id} =${message.value}\n${message.attributes.join('')}`;
+    })
+    .join('');
+}
+
+/**
+ * Map selector names to the selector expressions used in the file, so that
+ * NUMBER($count, minimumFractionDigits: 1) survives the round trip
+ */
+function collectSelectors(entries: FluentEntry[]): Map<string, string> {
+  const selectors = new Map<string, string>();
+
+  const visit = (nodes: FluentNode[]): void => {
+    for (const node of nodes) {
+      if (node.type !== 'select') {
+        continue;
+      }
+      const info = getFluentSelectorInfo(node);
+      if (info) {
+        selectors.set(`${info.kind}:${info.name}`, node.selector);
+      }
+      node.variants.forEach(variant => visit(variant.nodes));
+    }
+  };
+
+  for (const entry of entries) {
+    for (const [, pattern] of getPatterns(entry)) {
+      try {
+        visit(parseFluentPattern(pattern.raw));
+      } catch {
+        // Patterns that do not parse keep no selectors
+      }
+    }
+  }
+
+  return selectors;
+}
+
+/**
+ * Convert a translated message to the Fluent source of a pattern, including the
+ * space or line break after "="
+ */
+function formatPattern(
+  message: string,
+  selectors: Map<string, string>,
+  language: string,
+  indent: string
+): string {
+  const nodes = new MessageParser(message).parse(false);
+  const multiline = nodes.some(
+    node => node.type === 'select' || (node.type === 'text' && node.value.includes('\n'))
+  );
+  const pattern = serializeNodes(nodes, selectors, language, indent);
+  return multiline ? `\n${indent}${pattern}` : ` ${pattern}`;
+}
+
+/**
+ * Serialize message nodes; line breaks are followed by the given indent
+ */
+function serializeNodes(
+  nodes: MessageNode[],
+  selectors: Map<string, string>,
+  language: string,
+  indent: string
+): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return node.value
+            .replace(/[{}]/g, char => `{ "${char}" }`)
+            .split('\n')
+            .map((line, index) =>
+              index === 0 || line === '' ? line : indent + line.replace(/^[[*.]/, '{ "$&" }')
+            )
+            .join('\n');
+
+        case 'variable':
+          return `{ $${node.name} }`;
+
+        case 'placeable':
+          // Select expressions kept verbatim end with a line break before the brace
+          return node.expression.endsWith('\n')
+            ? `{ ${node.expression.slice(0, -1).replace(/\n/g, `\n${indent}${FLUENT_INDENT}`)}\n${indent}}`
+            : `{ ${node.expression} }`;
+
+        case 'select':
+          return serializeSelect(node, selectors, language, indent);
+      }
+    })
+    .join('');
+}
+
+/**
+ * Serialize a plural or select element as a Fluent select expression
+ */
+function serializeSelect(
+  node: Extract<MessageNode, { type: 'select' }>,
+  selectors: Map<string, string>,
+  language: string,
+  indent: string
+): string {
+  const selector =
+    selectors.get(`${node.kind}:${node.name}`) ??
+    (node.kind === 'selectordinal' ? `NUMBER($${node.name}, type: "ordinal")` : `$${node.name}`);
+
+  let variants = node.variants;
+  if (node.kind !== 'select') {
+    // Rebuild the variants with the target language's plural categories
+    variants = createTargetPluralVariants(
+      node.variants.map((variant, index) => ({ category: variant.key, text: String(index) })),
+      language,
+      node.kind === 'selectordinal'
+    ).map(variant => ({
+      key: variant.category.replace(/^=/, ''),
+      nodes: node.variants[Number(variant.text)]?.nodes ?? [],
+    }));
+  }
+
+  const defaultKey = variants.some(variant => variant.key === 'other')
+    ? 'other'
+    : variants[variants.length - 1]?.key;
+  const variantIndent = indent + FLUENT_INDENT;
+  const lines = variants.map(variant => {
+    const marker = variant.key === defaultKey ? `${variantIndent.slice(1)}*` : variantIndent;
+    const value = serializeNodes(variant.nodes, selectors, language, variantIndent + FLUENT_INDENT);
+    return `${marker}[${variant.key}] ${value}`.trimEnd();
+  });
+
+  return `{ ${selector} ->\n${lines.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Parser for translated unit messages: ICU arguments, plural/select elements and
+ * {{...}} markers around Fluent placeables
+ */
+class MessageParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(inVariant: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+    const flush = (): void => {
+      if (text) {
+        nodes.push({ type: 'text', value: text });
+        text = '';
+      }
+    };
+
+    while (this.pos < this.source.length) {
+      const char = this.source.charAt(this.pos);
+
+      if (char === '}' && inVariant) {
+        break;
+      }
+
+      if (char === '{') {
+        const node = this.parseArgument();
+        if (node) {
+          flush();
+          nodes.push(node);
+          continue;
+        }
+      }
+
+      text += char;
+      this.pos++;
+    }
+
+    flush();
+    return nodes;
+  }
+
+  /**
+   * Parse {{marker}}, {name}, { $name } or an ICU plural/select element.
+   * Returns null (leaving the position unchanged) for a literal brace.
+   */
+  private parseArgument(): MessageNode | null {
+    const rest = this.source.slice(this.pos);
+
+    if (rest.startsWith('{{')) {
+      const end = findMarkerEnd(this.source, this.pos + 2);
+      if (end !== -1) {
+        const expression = this.source.slice(this.pos + 2, end);
+        this.pos = end + 2;
+        return { type: 'placeable', expression };
+      }
+    }
+
+    const variable = /^\{\s*\$?([a-zA-Z][\w-]*)\s*\}/.exec(rest);
+    if (variable?.[1]) {
+      this.pos += variable[0].length;
+      return { type: 'variable', name: variable[1] };
+    }
+
+    const select = /^\{\s*\$?([a-zA-Z][\w-]*)\s*,\s*(plural|selectordinal|select)\s*,/.exec(rest);
+    if (select?.[1] && select[2]) {
+      const start = this.pos;
+      this.pos += select[0].length;
+      const variants = this.parseVariants();
+      if (variants) {
+        return {
+          type: 'select',
+          name: select[1],
+          kind: select[2] as 'plural' | 'selectordinal' | 'select',
+          variants,
+        };
+      }
+      this.pos = start;
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse "key {message}" pairs up to the closing brace of the element
+   */
+  private parseVariants(): Array<{ key: string; nodes: MessageNode[] }> | null {
+    const variants: Array<{ key: string; nodes: MessageNode[] }> = [];
+
+    for (;;) {
+      const key = /^\s*(=?[\w-]+)\s*\{/.exec(this.source.slice(this.pos));
+      if (!key?.[1]) {
+        break;
+      }
+      this.pos += key[0].length;
+      const nodes = this.parse(true);
+      if (this.source.charAt(this.pos) !== '}') {
+        return null;
+      }
+      this.pos++;
+      variants.push({ key: key[1], nodes });
+    }
+
+    const closing = /^\s*\}/.exec(this.source.slice(this.pos));
+    if (!closing || variants.length === 0) {
+      return null;
+    }
+    this.pos += closing[0].length;
+    return variants;
+  }
+}
+
+/**
+ * Find the closing "}}" of a {{...}} marker, skipping nested braces and string literals
+ */
+function findMarkerEnd(source: string, from: number): number {
+  let depth = 0;
+
+  for (let i = from; i < source.length; i++) {
+    const char = source.charAt(i);
+    if (char === '"') {
+      while (++i < source.length && source.charAt(i) !== '"') {
+        if (source.charAt(i) === '\\') {
+          i++;
+        }
+      }
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      if (depth === 0) {
+        return source.charAt(i + 1) === '}' ? i : -1;
+      }
+      depth--;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Apply edits from the end so earlier offsets stay valid
+ */
+function applyEdits(content: string, edits: Edit[]): string {
+  const newline = detectLineEnding(content);
+  let result = content;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    const text = edit.text.replace(/\r?\n/g, newline);
+    result = result.slice(0, edit.start) + text + result.slice(edit.end);
+  }
+  return result;
+}
+
+/**
+ * Extend a span to whole lines, including the trailing line break and optionally
+ * the blank lines that separate it from the next entry
+ */
+function getBlockSpan(
+  content: string,
+  start: number,
+  end: number,
+  withBlankLines = false
+): { start: number; end: number } {
+  const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+  const lineBreak = (
+    withBlankLines ? /^(?:\r\n|\r|\n)(?:[ \t]*(?:\r\n|\r|\n))*/ : /^(?:\r\n|\r|\n)/
+  ).exec(content.slice(end));
+  return { start: lineStart, end: end + (lineBreak?.[0].length ?? 0) };
+}
+
+/**
+ * Detect the line ending used by the file
+ */
+function detectLineEnding(content: string): string {
+  return content.includes('\r\n') ? '\r\n' : '\n';
+}
@@ -0,0 +1,308 @@
+import { FormatterError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import type {
+  ExtractResult,
+  FormatResult,
+  TranslationUnit,
+  FormatInfo,
+} from '../types/translation';
+import { I18nextMessage, parseI18nextMessages, restoreNesting } from '../extractors/i18next';
+import { flattenJson } from '../extractors/json';
+import { getCardinalCategories, getOrdinalCategories } from '../icu/cldr-rules';
+import { BaseFormatter, FormatOptions, countChanges, mergeUnits } from './base';
+
+/**
+ * State for rebuilding a resource with translated values
+ */
+interface RebuildContext {
+  /** Message for each flat key of the original resource */
+  messages: Map<string, I18nextMessage>;
+  /** Values by key suffix ('' for plain strings) of messages that have a translation */
+  values: Map<string, Array<[string, string]>>;
+  /** Whether messages without a translation keep their original keys */
+  keepUntranslated: boolean;
+  written: Set<string>;
+}
+
+/**
+ * i18next JSON v4 formatter.
+ *
+ * Plural units are written back as one key per plural category of the target
+ * language (item_one, item_few, item_many, item_other), in place of the keys the
+ * file had before. Nested and flat resources keep their layout and key order.
+ */
+export class I18nextFormatter extends BaseFormatter {
+  readonly supportedFormats: FormatInfo['format'][] = ['i18next'];
+  readonly fileExtensions = ['.json'];
+
+  /**
+   * Format i18next content with updated translations
+   */
+  format(
+    originalContent: string,
+    updatedUnits: TranslationUnit[],
+    extractResult: ExtractResult,
+    options?: FormatOptions
+  ): FormatResult {
+    try {
+      const merged = mergeUnits(extractResult.units, updatedUnits);
+      const changes = countChanges(extractResult.units, updatedUnits);
+      const existingIds = new Set(merged.map(unit => unit.id));
+      const missing = updatedUnits.filter(unit => !existingIds.has(unit.id));
+
+      const content = buildI18nextContent(
+        originalContent,
+        [...merged, ...missing].filter(unit => unit.target),
+        extractResult.targetLanguage,
+        true,
+        options?.indent
+      );
+
+      return {
+        content,
+        updatedCount: changes.updated,
+        unchangedCount: changes.unchanged,
+      };
+    } catch (error) {
+      throw new FormatterError(
+        `Failed to format i18next JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        extractResult.formatInfo.format,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Create a new i18next resource from translation units.
+ *
+ * With a template (the source file), its layout and key order are kept and keys
+ * without a translation are left out, so i18next falls back to the source language.
+ */
+export function createI18nextFile(
+  units: TranslationUnit[],
+  targetLanguage: string,
+  options?: FormatOptions
+): string {
+  return buildI18nextContent(
+    options?.template?.content ?? '{}',
+    units.filter(unit => unit.target),
+    targetLanguage,
+    false,
+    options?.indent
+  );
+}
+
+/**
+ * Rebuild a resource with the translations of the given units and append the
+ * units it does not contain yet
+ */
+function buildI18nextContent(
+  originalContent: string,
+  units: TranslationUnit[],
+  targetLanguage: string,
+  keepUntranslated: boolean,
+  indent?: string | number
+): string {
+  const original = JSON.parse(originalContent) as Record<string, unknown>;
+  const messages = parseI18nextMessages(flattenJson(original));
+  const messageMap = new Map(messages.map(message => [message.id, message]));
+
+  const values = new Map<string, Array<[string, string]>>();
+  for (const unit of units) {
+    const plural = messageMap.get(unit.id)?.plural ?? getPluralKind(unit.target ?? '');
+    const unitValues = toI18nextValues(unit.target ?? '', plural, targetLanguage);
+    if (unitValues) {
+      values.set(unit.id, unitValues);
+    }
+  }
+
+  const context: RebuildContext = {
+    messages: new Map(messages.flatMap(message => message.keys.map(({ key }) => [key, message]))),
+    values,
+    keepUntranslated,
+    written: new Set(),
+  };
+  const result = rebuildObject(original, '', context);
+
+  // Nested resources get new keys as nested objects; flat ones as top-level keys
+  const nested = Object.values(original).some(value => typeof value === 'object');
+  for (const unit of units) {
+    const unitValues = values.get(unit.id);
+    if (messageMap.has(unit.id) || !unitValues) {
+      continue;
+    }
+    for (const [suffix, value] of unitValues) {
+      const key = suffix ? `${unit.id}_${suffix}` : unit.id;
+      if (nested || Object.keys(original).length === 0) {
+        setNestedValue(result, key.split('.'), value);
+      } else {
+        result[key] = value;
+      }
+    }
+  }
+
+  return JSON.stringify(result, null, indent ?? detectIndent(originalContent)) + '\n';
+}
+
+/**
+ * Copy an object of the resource, replacing the keys of translated messages
+ */
+function rebuildObject(
+  obj: Record<string, unknown>,
+  prefix: string,
+  context: RebuildContext
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(obj)) {
+    const id = prefix ? `${prefix}.${key}` : key;
+
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      const child = rebuildObject(value as Record<string, unknown>, id, context);
+      if (context.keepUntranslated || Object.keys(child).length > 0) {
+        result[key] = child;
+      }
+      continue;
+    }
+
+    const message = typeof value === 'string' ? context.messages.get(id) : undefined;
+    const messageValues = message && context.values.get(message.id);
+    if (!message || !messageValues) {
+      if (context.keepUntranslated || typeof value !== 'string') {
+        result[key] = value;
+      }
+      continue;
+    }
+
+    // Write all keys of a plural group where its first key was
+    if (context.written.has(message.id)) {
+      continue;
+    }
+    context.written.add(message.id);
+
+    const leafBase = key.slice(0, key.length - (id.length - message.id.length));
+    for (const [suffix, text] of messageValues) {
+      result[suffix ? `${leafBase}_${suffix}` : leafBase] = text;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a translation to key suffixes and values.
+ *
+ * Plural translations get one key per CLDR category of the target language, plus
+ * _zero for an "=0" variant, which i18next uses for a count of 0 in any language.
+ * Returns null for plural units whose translation is not an ICU plural.
+ */
+function toI18nextValues(
+  target: string,
+  plural: I18nextMessage['plural'],
+  targetLanguage: string
+): Array<[string, string]> | null {
+  if (!plural) {
+    return [['', restoreNesting(target)]];
+  }
+
+  const variants = parsePluralTranslation(target);
+  if (!variants) {
+    logger.warning(`Skipping i18next plural translation that is not an ICU plural: ${target}`);
+    return null;
+  }
+
+  const texts = new Map(variants.map(variant => [variant.category, restoreNesting(variant.text)]));
+  const fallback = texts.get('other') ?? [...texts.values()].pop() ?? '';
+  const categories: string[] =
+    plural === 'ordinal'
+      ? getOrdinalCategories(targetLanguage)
+      : getCardinalCategories(targetLanguage);
+
+  const result: Array<[string, string]> = [];
+  const zero = texts.get('=0');
+  if (zero !== undefined && !categories.includes('zero')) {
+    result.push(['zero', zero]);
+  }
+  for (const category of categories) {
+    result.push([category, texts.get(category) ?? fallback]);
+  }
+  return result;
+}
+
+/**
+ * Tell whether a new unit's translation is a plural
+ */
+function getPluralKind(target: string): I18nextMessage['plural'] {
+  const match = /^\{\s*count\s*,\s*(plural|selectordinal)\s*,/.exec(target);
+  if (!match) {
+    return undefined;
+  }
+  return match[1] === 'selectordinal' ? 'ordinal' : 'cardinal';
+}
+
+/**
+ * Parse a translation of the form {count, plural, one {...} other {...}}.
+ *
+ * Variant texts are kept verbatim: unlike ICU, i18next text has no apostrophe
+ * quoting and uses {{name}} interpolation.
+ */
+function parsePluralTranslation(target: string): Array<{ category: string; text: string }> | null {
+  const header = /^\s*\{\s*count\s*,\s*(?:plural|selectordinal)\s*,/.exec(target);
+  if (!header) {
+    return null;
+  }
+
+  const variants: Array<{ category: string; text: string }> = [];
+  let pos = header[0].length;
+
+  for (;;) {
+    const key = /^\s*(=\d+|zero|one|two|few|many|other)\s*\{/.exec(target.slice(pos));
+    if (!key?.[1]) {
+      break;
+    }
+    const textStart = pos + key[0].length;
+    let depth = 1;
+    let end = textStart;
+    for (; end < target.length && depth > 0; end++) {
+      if (target[end] === '{') {
+        depth++;
+      } else if (target[end] === '}') {
+        depth--;
+      }
+    }
+    if (depth > 0) {
+      return null;
+    }
+    variants.push({ category: key[1], text: target.slice(textStart, end - 1) });
+    pos = end;
+  }
+
+  return /^\s*\}\s*$/.test(target.slice(pos)) && variants.length > 0 ? variants : null;
+}
+
+/**
+ * Set a value in a nested object, creating intermediate objects
+ */
+function setNestedValue(obj: Record<string, unknown>, parts: string[], value: string): void {
+  let current = obj;
+  for (const part of parts.slice(0, -1)) {
+    const next = current[part];
+    if (typeof next !== 'object' || next === null || Array.isArray(next)) {
+      current[part] = {};
+    }
+    current = current[part] as Record<string, unknown>;
+  }
+  current[parts[parts.length - 1] ?? ''] = value;
+}
+
+/**
+ * Detect the indentation of the original JSON
+ */
+function detectIndent(content: string): string | number {
+  const match = /\n([ \t]+)\S/.exec(content);
+  if (!match?.[1]) {
+    return 2;
+  }
+  return match[1].includes('\t') ? '\t' : match[1].length;
+}
@@ -0,0 +1,89 @@
+import { FormatterError } from '../utils/errors';
+import type {
+  ExtractResult,
+  FormatResult,
+  TranslationUnit,
+  FormatInfo,
+} from '../types/translation';
+import { escapeStringsValue, parseStringsFile } from '../extractors/ios-strings';
+import { BaseFormatter, FormatOptions, countChanges, mergeUnits } from './base';
+
+/**
+ * Apple .strings formatter
+ */
+export class IosStringsFormatter extends BaseFormatter {
+  readonly supportedFormats: FormatInfo['format'][] = ['ios-strings'];
+  readonly fileExtensions = ['.strings'];
+
+  /**
+   * Format .strings content with updated translations
+   */
+  format(
+    originalContent: string,
+    updatedUnits: TranslationUnit[],
+    extractResult: ExtractResult,
+    _options?: FormatOptions
+  ): FormatResult {
+    try {
+      const merged = mergeUnits(extractResult.units, updatedUnits);
+      const changes = countChanges(extractResult.units, updatedUnits);
+
+      const unitMap = new Map(merged.map(u => [u.id, u]));
+      const originalTargets = new Map(extractResult.units.map(u => [u.id, u.target]));
+      const entries = parseStringsFile(originalContent);
+      const existingKeys = new Set(entries.map(entry => entry.key));
+
+      let content = originalContent;
+
+      // Replace values from the end so earlier offsets stay valid
+      for (const entry of [...entries].reverse()) {
+        const target = unitMap.get(entry.key)?.target;
+        if (!target || target === originalTargets.get(entry.key)) {
+          continue;
+        }
+        content =
+          content.slice(0, entry.valueStart) +
+          `"${escapeStringsValue(target)}"` +
+          content.slice(entry.valueEnd);
+      }
+
+      const missing = updatedUnits.filter(unit => unit.target && !existingKeys.has(unit.id));
+      if (missing.length > 0) {
+        content = content.replace(/\s*$/, '\n\n') + formatStringsEntries(missing);
+      }
+
+      return {
+        content,
+        updatedCount: changes.updated,
+        unchangedCount: changes.unchanged,
+      };
+    } catch (error) {
+      throw new FormatterError(
+        `Failed to format .strings: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        extractResult.formatInfo.format,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Create a new .strings file from translation units.
+ * Units without a target are left out.
+ */
+export function createIosStringsFile(units: TranslationUnit[]): string {
+  return formatStringsEntries(units.filter(unit => unit.target));
+}
+
+/**
+ * Format units as .strings entries separated by blank lines
+ */
+function formatStringsEntries(units: TranslationUnit[]): string {
+  return units
+    .map(unit => {
+      const comment = unit.metadata.notes ? `/* ${unit.metadata.notes} */\n` : '';
+      const key = escapeStringsValue(unit.id);
+      return `${comment}"${key}" = "${escapeStringsValue(unit.target ?? '')}";\n`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,305 @@
+import { FormatterError } from '../utils/errors';
+import type {
+  ExtractResult,
+  FormatResult,
+  TranslationUnit,
+  FormatInfo,
+} from '../types/translation';
+import {
+  PoEntry,
+  PO_PLURAL_ARGUMENT,
+  buildPoUnitId,
+  escapePoString,
+  getPoPluralCategories,
+  parseNplurals,
+  parsePoBlocks,
+  parsePoHeaders,
+  splitPoPluralMessage,
+} from '../extractors/po';
+import { formatGettextPluralFormsHeader } from '../icu/cldr-rules';
+import { parseICUMessage } from '../icu/parser';
+import { BaseFormatter, FormatOptions, countChanges, mergeUnits } from './base';
+
+/**
+ * Gettext PO formatter
+ */
+export class PoFormatter extends BaseFormatter {
+  readonly supportedFormats: FormatInfo['format'][] = ['po'];
+  readonly fileExtensions = ['.po', '.pot'];
+
+  /**
+   * Format PO content with updated translations
+   */
+  format(
+    originalContent: string,
+    updatedUnits: TranslationUnit[],
+    extractResult: ExtractResult,
+    options?: FormatOptions
+  ): FormatResult {
+    try {
+      const merged = mergeUnits(extractResult.units, updatedUnits);
+      const changes = countChanges(extractResult.units, updatedUnits);
+
+      const unitMap = new Map(merged.map(u => [u.id, u]));
+      const originalTargets = new Map(extractResult.units.map(u => [u.id, u.target]));
+      const targetLanguage = extractResult.targetLanguage;
+
+      const blocks = parsePoBlocks(originalContent);
+      const headerBlock = blocks.find(b => b.entry?.msgid === '' && !b.entry.msgctxt);
+      const headers = parsePoHeaders(headerBlock?.entry?.msgstr[0] ?? '');
+      const nplurals = parseNplurals(headers);
+
+      const output: string[] = [];
+
+      if (!headerBlock) {
+        output.push(serializePoEntry(createHeaderEntry(targetLanguage)));
+      }
+
+      for (const block of blocks) {
+        const entry = block.entry;
+
+        if (!entry) {
+          output.push(block.raw);
+          continue;
+        }
+
+        if (block === headerBlock) {
+          entry.msgstr = [updatePoHeaderText(entry.msgstr[0] ?? '', targetLanguage)];
+          output.push(serializePoEntry(entry));
+          continue;
+        }
+
+        const unit = unitMap.get(buildPoUnitId(entry.msgid, entry.msgctxt));
+        const isUpdated =
+          unit?.target !== undefined && unit.target !== originalTargets.get(unit.id);
+
+        if (!unit?.target || !isUpdated) {
+          output.push(block.raw);
+          continue;
+        }
+
+        entry.msgstr =
+          entry.msgidPlural !== undefined
+            ? splitPoPluralMessage(unit.target, targetLanguage, nplurals)
+            : [unit.target];
+
+        const isFuzzy = unit.metadata.state === 'fuzzy' && !options?.markAsTranslated;
+        entry.flags = entry.flags.filter(flag => flag !== 'fuzzy');
+        if (isFuzzy) {
+          entry.flags.unshift('fuzzy');
+        }
+
+        output.push(serializePoEntry(entry, true));
+      }
+
+      // Units that are not in the original file yet (e.g. new template entries)
+      const existingIds = new Set(
+        blocks.flatMap(b => (b.entry ? [buildPoUnitId(b.entry.msgid, b.entry.msgctxt)] : []))
+      );
+      for (const unit of updatedUnits) {
+        if (!existingIds.has(unit.id)) {
+          output.push(
+            serializePoEntry(createPoEntry(unit, targetLanguage, options, nplurals), true)
+          );
+        }
+      }
+
+      return {
+        content: output.join('\n\n') + '\n',
+        updatedCount: changes.updated,
+        unchangedCount: changes.unchanged,
+      };
+    } catch (error) {
+      throw new FormatterError(
+        `Failed to format PO: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        extractResult.formatInfo.format,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Create a new PO file from translation units (e.g., units extracted from a POT template)
+ */
+export function createPoFile(
+  units: TranslationUnit[],
+  targetLanguage: string,
+  options?: FormatOptions
+): string {
+  const entries = [
+    serializePoEntry(createHeaderEntry(targetLanguage)),
+    ...units.map(unit => serializePoEntry(createPoEntry(unit, targetLanguage, options), true)),
+  ];
+
+  return entries.join('\n\n') + '\n';
+}
+
+/**
+ * Build a PO entry from a translation unit
+ */
+function createPoEntry(
+  unit: TranslationUnit,
+  targetLanguage: string,
+  options?: FormatOptions,
+  nplurals?: number
+): PoEntry {
+  const extractedComments = unit.metadata.notes ? unit.metadata.notes.split('\n') : [];
+  const references = unit.metadata.references ?? [];
+
+  const entry: PoEntry = {
+    commentLines: [
+      ...extractedComments.map(comment => `#. ${comment}`),
+      ...(references.length > 0 ? [`#: ${references.join(' ')}`] : []),
+    ],
+    translatorComments: [],
+    extractedComments,
+    references,
+    flags: (unit.metadata.flags ?? []).filter(flag => flag !== 'fuzzy'),
+    msgctxt: unit.context,
+    msgid: unit.source,
+    msgstr: [unit.target ?? ''],
+  };
+
+  if (unit.metadata.state === 'fuzzy' && !(options?.markAsTranslated && unit.target)) {
+    entry.flags.unshift('fuzzy');
+  }
+
+  const pluralForms = getSourcePluralForms(unit.source);
+  if (pluralForms) {
+    entry.msgid = pluralForms.msgid;
+    entry.msgidPlural = pluralForms.msgidPlural;
+    entry.msgstr = unit.target
+      ? splitPoPluralMessage(unit.target, targetLanguage, nplurals)
+      : getPoPluralCategories(targetLanguage, nplurals).map(() => '');
+  }
+
+  return entry;
+}
+
+/**
+ * Recover msgid/msgid_plural from a unit source created by the PO extractor
+ */
+function getSourcePluralForms(source: string): { msgid: string; msgidPlural: string } | null {
+  try {
+    const parsed = parseICUMessage(source);
+    const element = parsed.elements[0];
+
+    if (parsed.elements.length !== 1 || element?.type !== 'plural') {
+      return null;
+    }
+    if (element.name !== PO_PLURAL_ARGUMENT) {
+      return null;
+    }
+
+    const one = element.variants.find(v => v.category === 'one');
+    const other = element.variants.find(v => v.category === 'other');
+    if (!one || !other) {
+      return null;
+    }
+
+    return { msgid: one.text, msgidPlural: other.text };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a header entry for a target language
+ */
+function createHeaderEntry(targetLanguage: string): PoEntry {
+  return {
+    commentLines: [],
+    translatorComments: [],
+    extractedComments: [],
+    references: [],
+    flags: [],
+    msgid: '',
+    msgstr: [updatePoHeaderText('', targetLanguage)],
+  };
+}
+
+/**
+ * Set the Language header and add missing encoding and Plural-Forms headers
+ */
+export function updatePoHeaderText(headerText: string, targetLanguage: string): string {
+  const headers = parsePoHeaders(headerText);
+
+  headers.set('Language', targetLanguage);
+
+  if (!headers.has('MIME-Version')) {
+    headers.set('MIME-Version', '1.0');
+  }
+
+  const contentType = headers.get('Content-Type');
+  if (!contentType || contentType.includes('charset=CHARSET')) {
+    headers.set('Content-Type', 'text/plain; charset=UTF-8');
+  }
+
+  if (!headers.has('Content-Transfer-Encoding')) {
+    headers.set('Content-Transfer-Encoding', '8bit');
+  }
+
+  if (!headers.has('Plural-Forms')) {
+    headers.set('Plural-Forms', formatGettextPluralFormsHeader(targetLanguage));
+  }
+
+  return Array.from(headers.entries())
+    .map(([key, value]) => `${key}: ${value}\n`)
+    .join('');
+}
+
+/**
+ * Serialize a PO entry
+ *
+ * @param rewriteFlags Replace the original "#," lines with the entry's current flags
+ */
+export function serializePoEntry(entry: PoEntry, rewriteFlags = false): string {
+  let commentLines = entry.commentLines;
+
+  if (rewriteFlags) {
+    commentLines = commentLines.filter(line => !line.trim().startsWith('#,'));
+    if (entry.flags.length > 0) {
+      const previousIndex = commentLines.findIndex(line => line.trim().startsWith('#|'));
+      const flagsLine = `#, ${entry.flags.join(', ')}`;
+      if (previousIndex === -1) {
+        commentLines.push(flagsLine);
+      } else {
+        commentLines.splice(previousIndex, 0, flagsLine);
+      }
+    }
+  }
+
+  const lines = [...commentLines];
+
+  if (entry.msgctxt !== undefined) {
+    lines.push(formatPoString('msgctxt', entry.msgctxt));
+  }
+
+  lines.push(formatPoString('msgid', entry.msgid));
+
+  if (entry.msgidPlural !== undefined) {
+    lines.push(formatPoString('msgid_plural', entry.msgidPlural));
+    entry.msgstr.forEach((value, index) => {
+      lines.push(formatPoString(`msgstr[${index}]`, value));
+    });
+  } else {
+    lines.push(formatPoString('msgstr', entry.msgstr[0] ?? ''));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a keyword and string, splitting multi-line values gettext-style
+ */
+function formatPoString(keyword: string, value: string): string {
+  const newlineIndex = value.indexOf('\n');
+
+  if (newlineIndex === -1 || newlineIndex === value.length - 1) {
+    return `${keyword} "${escapePoString(value)}"`;
+  }
+
+  const segments = value.split(/(?<=\n)/);
+  return [`${keyword} ""`, ...segments.map(segment => `"${escapePoString(segment)}"`)].join('\n');
+}
@@ -0,0 +1,169 @@
+import { FormatterError } from '../utils/errors';
+import type {
+  ExtractResult,
+  FormatResult,
+  TranslationUnit,
+  FormatInfo,
+} from '../types/translation';
+import {
+  escapeNonAscii,
+  escapePropertiesKey,
+  escapePropertiesValue,
+  parsePropertiesFile,
+} from '../extractors/properties';
+import { BaseFormatter, FormatOptions, countChanges, mergeUnits } from './base';
+
+/**
+ * Java .properties formatter.
+ *
+ * Values are replaced in place, so comments, separators and key order are kept.
+ * Characters outside ASCII are written as \uXXXX escapes unless the file is UTF-8
+ * and already contains raw non-ASCII text.
+ */
+export class PropertiesFormatter extends BaseFormatter {
+  readonly supportedFormats: FormatInfo['format'][] = ['properties'];
+  readonly fileExtensions = ['.properties'];
+
+  /**
+   * Format .properties content with updated translations
+   */
+  format(
+    originalContent: string,
+    updatedUnits: TranslationUnit[],
+    extractResult: ExtractResult,
+    _options?: FormatOptions
+  ): FormatResult {
+    try {
+      const merged = mergeUnits(extractResult.units, updatedUnits);
+      const changes = countChanges(extractResult.units, updatedUnits);
+
+      const unitMap = new Map(merged.map(u => [u.id, u]));
+      const entries = parsePropertiesFile(originalContent);
+      const existingKeys = new Set(entries.map(entry => entry.key));
+      const escapeUnicode = shouldEscapeUnicode(originalContent, extractResult.formatInfo.encoding);
+
+      let content = originalContent;
+
+      // Replace values from the end so earlier offsets stay valid
+      for (const entry of [...entries].reverse()) {
+        const target = unitMap.get(entry.key)?.target;
+        if (!target || target === entry.value) {
+          continue;
+        }
+        content =
+          content.slice(0, entry.valueStart) +
+          escapePropertiesValue(target, escapeUnicode) +
+          content.slice(entry.end);
+      }
+
+      const missing = updatedUnits.filter(unit => unit.target && !existingKeys.has(unit.id));
+      if (missing.length > 0) {
+        const newline = detectLineEnding(originalContent);
+        content =
+          content.replace(/\s*$/, newline) +
+          formatPropertiesEntries(missing, escapeUnicode, newline);
+      }
+
+      return {
+        content,
+        updatedCount: changes.updated,
+        unchangedCount: changes.unchanged,
+      };
+    } catch (error) {
+      throw new FormatterError(
+        `Failed to format .properties: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        extractResult.formatInfo.format,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Create a new .properties file from translation units.
+ *
+ * With a template (the source file), its comments and key order are kept: values
+ * are replaced by their translations and untranslated entries are removed together
+ * with their comments, so the ResourceBundle falls back to the source.
+ */
+export function createPropertiesFile(units: TranslationUnit[], options?: FormatOptions): string {
+  const template = options?.template;
+  if (!template) {
+    return formatPropertiesEntries(
+      units.filter(unit => unit.target),
+      true,
+      '\n'
+    );
+  }
+
+  const unitMap = new Map(units.map(u => [u.id, u]));
+  const entries = parsePropertiesFile(template.content);
+  const templateKeys = new Set(entries.map(entry => entry.key));
+  const escapeUnicode = shouldEscapeUnicode(template.content, template.encoding);
+  const newline = detectLineEnding(template.content);
+
+  let content = template.content;
+
+  for (const entry of [...entries].reverse()) {
+    const unit = unitMap.get(entry.key);
+    if (!unit) {
+      continue;
+    }
+
+    if (unit.target) {
+      content =
+        content.slice(0, entry.valueStart) +
+        escapePropertiesValue(unit.target, escapeUnicode) +
+        content.slice(entry.end);
+    } else {
+      const lineBreak = content.slice(entry.end).match(/^(?:\r\n|\r|\n)/);
+      content =
+        content.slice(0, entry.blockStart) +
+        content.slice(entry.end + (lineBreak?.[0].length ?? 0));
+    }
+  }
+
+  const missing = units.filter(unit => unit.target && !templateKeys.has(unit.id));
+  if (missing.length > 0) {
+    content =
+      content.replace(/\s*$/, newline) + formatPropertiesEntries(missing, escapeUnicode, newline);
+  }
+
+  return content;
+}
+
+/**
+ * Format units as "key=value" lines, with notes as comments
+ */
+function formatPropertiesEntries(
+  units: TranslationUnit[],
+  escapeUnicode: boolean,
+  newline: string
+): string {
+  return units
+    .map(unit => {
+      const notes = unit.metadata.notes
+        ?.split('\n')
+        .map(line => `# ${escapeUnicode ? escapeNonAscii(line) : line}${newline}`)
+        .join('');
+      const key = escapePropertiesKey(unit.id, escapeUnicode);
+      const value = escapePropertiesValue(unit.target ?? '', escapeUnicode);
+      return `${notes ?? ''}${key}=${value}${newline}`;
+    })
+    .join('');
+}
+
+/**
+ * ISO-8859-1 files and plain ASCII files get \uXXXX escapes; UTF-8 files that
+ * already hold raw non-ASCII text (Java 9+ / Spring with UTF-8) keep raw text
+ */
+function shouldEscapeUnicode(content: string, encoding?: string): boolean {
+  return encoding === 'ISO-8859-1' || !/[\u0080-\uffff]/.test(content);
+}
+
+/**
+ * Detect the line ending used by a file
+ */
+function detectLineEnding(content: string): string {
+  return /\r\n/.test(content) ? '\r\n' : '\n';
+}
@@ -0,0 +1,224 @@
+import { FormatterError } from '../utils/errors';
+import type {
+  ExtractResult,
+  FormatResult,
+  TranslationUnit,
+  FormatInfo,
+} from '../types/translation';
+import {
+  ResxEntry,
+  encodeResxAttribute,
+  encodeResxText,
+  parseResxEntries,
+  restoreFormatItems,
+} from '../extractors/resx';
+import { BaseFormatter, FormatOptions, countChanges, mergeUnits } from './base';
+
+const DEFAULT_RESX_INDENT = '  ';
+
+const RESX_READER =
+  'System.Resources.ResXResourceReader, System.Windows.Forms, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b77a5c561934e089';
+const RESX_WRITER =
+  'System.Resources.ResXResourceWriter, System.Windows.Forms, Version=4.0.0.0, Culture=neutral, PublicKeyToken=b77a5c561934e089';
+
+/**
+ * A text replacement within the original file
+ */
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * .NET .resx formatter.
+ *
+ * Only <value> elements are rewritten, so the schema header, resource headers,
+ * comments and non-string resources are kept.
+ */
+export class ResxFormatter extends BaseFormatter {
+  readonly supportedFormats: FormatInfo['format'][] = ['resx'];
+  readonly fileExtensions = ['.resx'];
+
+  /**
+   * Format .resx content with updated translations
+   */
+  format(
+    originalContent: string,
+    updatedUnits: TranslationUnit[],
+    extractResult: ExtractResult,
+    options?: FormatOptions
+  ): FormatResult {
+    try {
+      const merged = mergeUnits(extractResult.units, updatedUnits);
+      const changes = countChanges(extractResult.units, updatedUnits);
+
+      const unitMap = new Map(merged.map(u => [u.id, u]));
+      const entries = parseResxEntries(originalContent);
+      const existingNames = new Set(entries.map(entry => entry.name));
+      const indent = options?.indent ?? detectIndent(originalContent, entries);
+      const edits: Edit[] = [];
+
+      for (const entry of entries) {
+        const target = unitMap.get(entry.name)?.target;
+        if (!target || !entry.translatable || restoreFormatItems(target) === entry.value) {
+          continue;
+        }
+        edits.push({ start: entry.valueStart, end: entry.valueEnd, text: formatValue(target) });
+      }
+
+      // Append translations for resources that are not in the file yet
+      const missing = updatedUnits.filter(unit => unit.target && !existingNames.has(unit.id));
+      if (missing.length > 0) {
+        const insertAt = getClosingRootStart(originalContent);
+        edits.push({ start: insertAt, end: insertAt, text: serializeResxEntries(missing, indent) });
+      }
+
+      let content = originalContent;
+      for (const edit of edits.sort((a, b) => b.start - a.start)) {
+        content = content.slice(0, edit.start) + edit.text + content.slice(edit.end);
+      }
+
+      return {
+        content,
+        updatedCount: changes.updated,
+        unchangedCount: changes.unchanged,
+      };
+    } catch (error) {
+      throw new FormatterError(
+        `Failed to format .resx: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        extractResult.formatInfo.format,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Create a new .resx file from translation units.
+ *
+ * With a template (the source file), its schema header and entry order are kept.
+ * Entries without a translation, including non-string resources, are removed so
+ * the satellite assembly falls back to the neutral resources.
+ */
+export function createResxFile(units: TranslationUnit[], options?: FormatOptions): string {
+  const translated = units.filter(unit => unit.target);
+  const template = options?.template?.content;
+
+  if (!template) {
+    const indent = options?.indent ?? DEFAULT_RESX_INDENT;
+    const headers = [
+      ['resmimetype', 'text/microsoft-resx'],
+      ['version', '2.0'],
+      ['reader', RESX_READER],
+      ['writer', RESX_WRITER],
+    ]
+      .map(
+        ([name, value]) =>
+          `${indent}<resheader name="${name}">\n${indent}${indent}<value>${value}</value>\n${indent}</resheader>\n`
+      )
+      .join('');
+
+    return (
+      '<?xml version="1.0" encoding="utf-8"?>\n<root>\n' +
+      headers +
+      serializeResxEntries(translated, indent) +
+      '</root>\n'
+    );
+  }
+
+  const unitMap = new Map(translated.map(u => [u.id, u]));
+  const entries = parseResxEntries(template);
+  const templateNames = new Set(entries.map(entry => entry.name));
+  const indent = options?.indent ?? detectIndent(template, entries);
+  const edits: Edit[] = [];
+
+  for (const entry of entries) {
+    const target = unitMap.get(entry.name)?.target;
+    if (target && entry.translatable) {
+      edits.push({ start: entry.valueStart, end: entry.valueEnd, text: formatValue(target) });
+    } else {
+      edits.push({ ...getLineSpan(template, entry.start, entry.end), text: '' });
+    }
+  }
+
+  const missing = translated.filter(unit => !templateNames.has(unit.id));
+  if (missing.length > 0) {
+    const insertAt = getClosingRootStart(template);
+    edits.push({ start: insertAt, end: insertAt, text: serializeResxEntries(missing, indent) });
+  }
+
+  let content = template;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    content = content.slice(0, edit.start) + edit.text + content.slice(edit.end);
+  }
+
+  return content;
+}
+
+/**
+ * Serialize units as <data> elements, with notes as <comment>
+ */
+function serializeResxEntries(units: TranslationUnit[], indent: string): string {
+  return units
+    .map(unit => {
+      const comment = unit.metadata.notes
+        ? `${indent}${indent}<comment>${encodeResxText(unit.metadata.notes)}</comment>\n`
+        : '';
+      return (
+        `${indent}<data name="${encodeResxAttribute(unit.id)}" xml:space="preserve">\n` +
+        `${indent}${indent}${formatValue(unit.target ?? '')}\n` +
+        comment +
+        `${indent}</data>\n`
+      );
+    })
+    .join('');
+}
+
+/**
+ * Build a <value> element, turning protected format items back into {0:N2}
+ */
+function formatValue(target: string): string {
+  return `<value>${encodeResxText(restoreFormatItems(target))}</value>`;
+}
+
+/**
+ * Detect the indentation of top-level elements
+ */
+function detectIndent(content: string, entries: ResxEntry[]): string {
+  const first = entries[0];
+  return first ? getLineIndent(content, first.start) || DEFAULT_RESX_INDENT : DEFAULT_RESX_INDENT;
+}
+
+/**
+ * Get the insertion point for new entries: the start of the </root> line
+ */
+function getClosingRootStart(content: string): number {
+  const closingIndex = content.lastIndexOf('</root>');
+  if (closingIndex === -1) {
+    throw new Error('Missing </root> element');
+  }
+  const lineStart = content.lastIndexOf('\n', closingIndex - 1) + 1;
+  return content.slice(lineStart, closingIndex).trim() === '' ? lineStart : closingIndex;
+}
+
+/**
+ * Extend an element's span to its whole line when nothing else is on it
+ */
+function getLineSpan(content: string, start: number, end: number): { start: number; end: number } {
+  const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+  const lineBreak = /^[ \t]*(?:\r\n|\r|\n)/.exec(content.slice(end));
+  if (content.slice(lineStart, start).trim() !== '' || !lineBreak) {
+    return { start, end };
+  }
+  return { start: lineStart, end: end + lineBreak[0].length };
+}
+
+/**
+ * Get the whitespace between the start of a line and the given offset
+ */
+function getLineIndent(content: string, offset: number): string {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  const prefix = content.slice(lineStart, offset);
+  return /^[ \t]*$/.test(prefix) ? prefix : '';
+}
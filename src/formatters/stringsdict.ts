@@ -0,0 +1,204 @@
+import { FormatterError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import {
+  PlistDict,
+  PlistValue,
+  createPlistDict,
+  getPlistValue,
+  isPlistDict,
+  serializePlist,
+} from '../utils/plist';
+import type {
+  ExtractResult,
+  FormatResult,
+  TranslationUnit,
+  FormatInfo,
+} from '../types/translation';
+import {
+  STRINGSDICT_FORMAT_KEY,
+  STRINGSDICT_PLURAL_RULE_TYPE,
+  STRINGSDICT_SPEC_TYPE_KEY,
+  STRINGSDICT_VALUE_TYPE_KEY,
+  parseStringsdict,
+} from '../extractors/stringsdict';
+import { getCardinalCategories } from '../icu/cldr-rules';
+import { splitPluralSegments } from '../icu/parser';
+import type { ICUPluralElement } from '../icu/types';
+import { BaseFormatter, FormatOptions, countChanges, mergeUnits } from './base';
+
+/**
+ * Apple .stringsdict formatter
+ */
+export class StringsdictFormatter extends BaseFormatter {
+  readonly supportedFormats: FormatInfo['format'][] = ['ios-stringsdict'];
+  readonly fileExtensions = ['.stringsdict'];
+
+  /**
+   * Format .stringsdict content with updated translations
+   */
+  format(
+    originalContent: string,
+    updatedUnits: TranslationUnit[],
+    extractResult: ExtractResult,
+    _options?: FormatOptions
+  ): FormatResult {
+    try {
+      const merged = mergeUnits(extractResult.units, updatedUnits);
+      const changes = countChanges(extractResult.units, updatedUnits);
+      const originalTargets = new Map(extractResult.units.map(u => [u.id, u.target]));
+      const targetLanguage = extractResult.targetLanguage;
+
+      const root = parseStringsdict(originalContent);
+
+      for (const unit of merged) {
+        const entry = getPlistValue(root, unit.id);
+        if (!unit.target || unit.target === originalTargets.get(unit.id) || !isPlistDict(entry)) {
+          continue;
+        }
+        applyStringsdictTranslation(entry, unit.target, targetLanguage);
+      }
+
+      const existingKeys = new Set(root.entries.map(([key]) => key));
+      for (const unit of updatedUnits) {
+        if (unit.target && !existingKeys.has(unit.id)) {
+          const entry = createPlistDict();
+          applyStringsdictTranslation(entry, unit.target, targetLanguage);
+          root.entries.push([unit.id, entry]);
+        }
+      }
+
+      return {
+        content: serializePlist(root),
+        updatedCount: changes.updated,
+        unchangedCount: changes.unchanged,
+      };
+    } catch (error) {
+      throw new FormatterError(
+        `Failed to format .stringsdict: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        extractResult.formatInfo.format,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Create a new .stringsdict file from translation units.
+ * Units without a target are left out.
+ */
+export function createStringsdictFile(units: TranslationUnit[], targetLanguage: string): string {
+  const root = createPlistDict();
+
+  for (const unit of units) {
+    if (unit.target) {
+      const entry = createPlistDict();
+      applyStringsdictTranslation(entry, unit.target, targetLanguage);
+      root.entries.push([unit.id, entry]);
+    }
+  }
+
+  return serializePlist(root);
+}
+
+/**
+ * Write a translated ICU message into a stringsdict entry.
+ *
+ * The format key is rebuilt with %#@variable@ references and each variable's
+ * plural dictionary gets the target language's CLDR categories. Apple also honours
+ * "zero" for every language, so a translated zero variant is kept.
+ */
+export function applyStringsdictTranslation(
+  entry: PlistDict,
+  message: string,
+  targetLanguage: string
+): void {
+  let segments;
+  try {
+    segments = splitPluralSegments(message);
+  } catch (error) {
+    logger.warning(
+      `Skipping stringsdict translation that is not a valid ICU message: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return;
+  }
+
+  const format = segments
+    .map(segment => (segment.type === 'text' ? segment.value : `%#@${segment.name}@`))
+    .join('');
+  setPlistValue(entry, STRINGSDICT_FORMAT_KEY, format);
+
+  // Drop plural variables the translation no longer references
+  const names = new Set(segments.map(segment => (segment.type === 'plural' ? segment.name : '')));
+  entry.entries = entry.entries.filter(
+    ([key, value]) =>
+      names.has(key) ||
+      !isPlistDict(value) ||
+      getPlistValue(value, STRINGSDICT_SPEC_TYPE_KEY) !== STRINGSDICT_PLURAL_RULE_TYPE
+  );
+
+  for (const segment of segments) {
+    if (segment.type === 'plural') {
+      const existing = getPlistValue(entry, segment.name);
+      setPlistValue(
+        entry,
+        segment.name,
+        buildPluralVariable(segment, targetLanguage, isPlistDict(existing) ? existing : undefined)
+      );
+    }
+  }
+}
+
+/**
+ * Build the plural rule dictionary for a variable
+ */
+function buildPluralVariable(
+  plural: ICUPluralElement,
+  targetLanguage: string,
+  existing?: PlistDict
+): PlistDict {
+  const variants = new Map(plural.variants.map(v => [v.category, v.text]));
+  const fallback = variants.get('other') ?? plural.variants[0]?.text ?? '';
+
+  const categories: string[] = getCardinalCategories(targetLanguage);
+  if (variants.has('zero') && !categories.includes('zero')) {
+    categories.unshift('zero');
+  }
+
+  const valueType =
+    (existing && getPlistValue(existing, STRINGSDICT_VALUE_TYPE_KEY)) ??
+    inferValueType(Array.from(variants.values()));
+
+  return createPlistDict([
+    [STRINGSDICT_SPEC_TYPE_KEY, STRINGSDICT_PLURAL_RULE_TYPE],
+    [STRINGSDICT_VALUE_TYPE_KEY, valueType],
+    ...categories.map((category): [string, PlistValue] => [
+      category,
+      variants.get(category) ?? fallback,
+    ]),
+  ]);
+}
+
+/**
+ * Infer the format value type (d, lld, u, ...) from the first format specifier in the variants
+ */
+function inferValueType(texts: string[]): string {
+  for (const text of texts) {
+    const match = text.match(/%(?:\d+\$)?((?:ll|l|h|q|z|t|j)?[dDuUxXoOfeEgGaAcCsSp@])/);
+    if (match?.[1]) {
+      return match[1];
+    }
+  }
+  return 'd';
+}
+
+/**
+ * Set a dictionary value, keeping the position of an existing key
+ */
+function setPlistValue(dict: PlistDict, key: string, value: PlistValue): void {
+  const index = dict.entries.findIndex(([entryKey]) => entryKey === key);
+  if (index === -1) {
+    dict.entries.push([key, value]);
+  } else {
+    dict.entries[index] = [key, value];
+  }
+}
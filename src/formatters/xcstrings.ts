@@ -0,0 +1,196 @@
+import { FormatterError } from '../utils/errors';
+import type {
+  ExtractResult,
+  FormatResult,
+  TranslationUnit,
+  FormatInfo,
+} from '../types/translation';
+import {
+  XCSTRINGS_PLURAL_ARGUMENT,
+  XcstringsDocument,
+  XcstringsLocalization,
+  XcstringsStringUnit,
+} from '../extractors/xcstrings';
+import { getCardinalCategories } from '../icu/cldr-rules';
+import { parseICUMessage } from '../icu/parser';
+import { BaseFormatter, FormatOptions, countChanges, mergeUnits } from './base';
+
+/**
+ * String Catalog states a translation may keep when it is written
+ */
+const PRESERVED_STATES = ['translated', 'needs_review'];
+
+/**
+ * Xcode String Catalog formatter.
+ *
+ * Only the target language's localizations are replaced, so running the formatter
+ * once per language accumulates every language in the same document.
+ */
+export class XcstringsFormatter extends BaseFormatter {
+  readonly supportedFormats: FormatInfo['format'][] = ['xcstrings'];
+  readonly fileExtensions = ['.xcstrings'];
+
+  /**
+   * Format String Catalog content with updated translations
+   */
+  format(
+    originalContent: string,
+    updatedUnits: TranslationUnit[],
+    extractResult: ExtractResult,
+    options?: FormatOptions
+  ): FormatResult {
+    try {
+      const merged = mergeUnits(extractResult.units, updatedUnits);
+      const changes = countChanges(extractResult.units, updatedUnits);
+      const originalTargets = new Map(extractResult.units.map(u => [u.id, u.target]));
+      const existingIds = new Set(extractResult.units.map(u => u.id));
+
+      const document = JSON.parse(originalContent) as XcstringsDocument;
+      const changed = [
+        ...merged.filter(unit => unit.target && unit.target !== originalTargets.get(unit.id)),
+        ...updatedUnits.filter(unit => unit.target && !existingIds.has(unit.id)),
+      ];
+
+      applyXcstringsTranslations(document, changed, extractResult.targetLanguage, options);
+
+      return {
+        content: serializeXcstrings(document, /" : /.test(originalContent)),
+        updatedCount: changes.updated,
+        unchangedCount: changes.unchanged,
+      };
+    } catch (error) {
+      throw new FormatterError(
+        `Failed to format String Catalog: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        extractResult.formatInfo.format,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Write translated units into a String Catalog document for one target language
+ */
+export function applyXcstringsTranslations(
+  document: XcstringsDocument,
+  units: TranslationUnit[],
+  targetLanguage: string,
+  options?: FormatOptions
+): void {
+  for (const unit of units) {
+    if (!unit.target) {
+      continue;
+    }
+
+    const entry = (document.strings[unit.id] ??= {});
+    if (unit.metadata.notes && entry.comment === undefined) {
+      entry.comment = unit.metadata.notes;
+    }
+
+    const state =
+      !options?.markAsTranslated && PRESERVED_STATES.includes(unit.metadata.state ?? '')
+        ? (unit.metadata.state as string)
+        : 'translated';
+
+    const localizations = { ...entry.localizations };
+    localizations[targetLanguage] = messageToLocalization(unit.target, targetLanguage, state);
+    entry.localizations = sortKeys(localizations);
+  }
+}
+
+/**
+ * Create a new String Catalog from translation units
+ */
+export function createXcstringsFile(
+  units: TranslationUnit[],
+  sourceLanguage: string,
+  targetLanguage: string,
+  options?: FormatOptions
+): string {
+  const document: XcstringsDocument = { sourceLanguage, strings: {}, version: '1.0' };
+
+  for (const unit of units) {
+    document.strings[unit.id] = {
+      comment: unit.metadata.notes,
+      localizations:
+        unit.source !== unit.id
+          ? { [sourceLanguage]: messageToLocalization(unit.source, sourceLanguage, 'translated') }
+          : undefined,
+    };
+  }
+
+  applyXcstringsTranslations(document, units, targetLanguage, options);
+  document.strings = sortKeys(document.strings);
+
+  return serializeXcstrings(document, true);
+}
+
+/**
+ * Convert a message to a localization: ICU plurals on the count argument become
+ * plural variations with the target language's CLDR categories
+ */
+function messageToLocalization(
+  message: string,
+  language: string,
+  state: string
+): XcstringsLocalization {
+  const stringUnit = (value: string): XcstringsStringUnit => ({ state, value });
+
+  try {
+    const parsed = parseICUMessage(message);
+    const plural = parsed.elements[0];
+
+    if (
+      parsed.elements.length === 1 &&
+      plural?.type === 'plural' &&
+      plural.name === XCSTRINGS_PLURAL_ARGUMENT
+    ) {
+      const variants = new Map(plural.variants.map(v => [v.category, v.text]));
+      const fallback = variants.get('other') ?? plural.variants[0]?.text ?? '';
+      const categories: string[] = getCardinalCategories(language);
+      if (variants.has('zero') && !categories.includes('zero')) {
+        categories.unshift('zero');
+      }
+
+      return {
+        variations: {
+          plural: Object.fromEntries(
+            categories.map(category => [
+              category,
+              { stringUnit: stringUnit(variants.get(category) ?? fallback) },
+            ])
+          ),
+        },
+      };
+    }
+  } catch {
+    // Not an ICU message - store the text as is
+  }
+
+  return { stringUnit: stringUnit(message) };
+}
+
+/**
+ * Serialize a String Catalog
+ *
+ * @param xcodeStyle Use Xcode's `"key" : value` spacing to keep diffs small
+ */
+function serializeXcstrings(document: XcstringsDocument, xcodeStyle: boolean): string {
+  const json = JSON.stringify(document, null, 2);
+  if (!xcodeStyle) {
+    return json + '\n';
+  }
+  return (
+    json
+      .replace(/^(\s*"(?:[^"\\]|\\.)*"): /gm, '$1 : ')
+      // Xcode writes empty objects over two lines
+      .replace(/^(\s*)(.*)\{\}(,?)$/gm, '$1$2{\n\n$1}$3') + '\n'
+  );
+}
+
+/**
+ * Return a copy of an object with keys in sorted order, as Xcode writes them
+ */
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
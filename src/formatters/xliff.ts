@@ -10,6 +10,18 @@ import type {
 } from '../types/translation';
 import { BaseFormatter, FormatOptions, mergeUnits, countChanges } from './base';
 
+/**
+ * XLIFF 2.0 subState of translations that scored below the review threshold
+ */
+export const NEEDS_REVIEW_SUBSTATE = 'i18n-translate:needs-review';
+
+/**
+ * Get the XLIFF 1.2 target state of a translated unit
+ */
+function getXliff1State(unit: TranslationUnit): string {
+  return unit.metadata.needsReview ? 'needs-review-translation' : 'translated';
+}
+
 /**
  * XLIFF formatter for 1.2 and 2.0 formats
  */
@@ -137,6 +149,11 @@ export class XliffFormatter extends BaseFormatter {
 
         updatedCount++;
 
+        // A new translation is no longer the approved one
+        if (options?.markAsTranslated && attrsObj['@_approved'] === 'yes') {
+          delete attrsObj['@_approved'];
+        }
+
         // Find or create target element
         const targetIndex = transUnit.findIndex(
           (item): item is Record<string, unknown> =>
@@ -159,7 +176,7 @@ export class XliffFormatter extends BaseFormatter {
             };
 
             if (options?.markAsTranslated) {
-              targetNode[':@'] = { '@_state': 'translated' };
+              targetNode[':@'] = { '@_state': getXliff1State(unit) };
             }
 
             transUnit.splice(sourceIndex + 1, 0, targetNode);
@@ -173,7 +190,7 @@ export class XliffFormatter extends BaseFormatter {
             if (!targetNode[':@']) {
               targetNode[':@'] = {};
             }
-            (targetNode[':@'] as Record<string, unknown>)['@_state'] = 'translated';
+            (targetNode[':@'] as Record<string, unknown>)['@_state'] = getXliff1State(unit);
           }
         }
       }
@@ -262,15 +279,23 @@ export class XliffFormatter extends BaseFormatter {
 
         // Update segment state if requested
         if (options?.markAsTranslated) {
-          const segmentAttrs = segment.find(
+          let segmentAttrs = segment.find(
             (item): item is Record<string, unknown> =>
               typeof item === 'object' && item !== null && ':@' in item
           );
 
-          if (segmentAttrs) {
-            (segmentAttrs[':@'] as Record<string, unknown>)['@_state'] = 'translated';
-          } else {
-            segment.unshift({ ':@': { '@_state': 'translated' } });
+          if (!segmentAttrs) {
+            segmentAttrs = { ':@': {} };
+            segment.unshift(segmentAttrs);
+          }
+
+          // XLIFF 2.0 has no needs-review state, so it is recorded as a subState
+          const stateAttrs = segmentAttrs[':@'] as Record<string, unknown>;
+          stateAttrs['@_state'] = 'translated';
+          if (unit.metadata.needsReview) {
+            stateAttrs['@_subState'] = NEEDS_REVIEW_SUBSTATE;
+          } else if (stateAttrs['@_subState'] === NEEDS_REVIEW_SUBSTATE) {
+            delete stateAttrs['@_subState'];
           }
         }
       }
@@ -0,0 +1,225 @@
+import { Document, YAMLMap, YAMLSeq, isMap, isScalar, isSeq } from 'yaml';
+import type { Node, ToStringOptions } from 'yaml';
+import { FormatterError } from '../utils/errors';
+import type {
+  ExtractResult,
+  FormatResult,
+  TranslationUnit,
+  FormatInfo,
+} from '../types/translation';
+import {
+  YAML_PLURALS_FLAG,
+  YamlEntry,
+  collectYamlEntries,
+  getPairKey,
+  getYamlLocaleRoot,
+  parseYamlDocument,
+  parseYamlUnitId,
+} from '../extractors/yaml';
+import { getCardinalCategories } from '../icu/cldr-rules';
+import { parseICUMessage } from '../icu/parser';
+import { BaseFormatter, FormatOptions, countChanges, mergeUnits } from './base';
+
+/**
+ * Serialization options: no line folding and compact flow collections ([a, b])
+ */
+const TO_STRING_OPTIONS: ToStringOptions = { lineWidth: 0, flowCollectionPadding: false };
+
+/**
+ * Rails YAML locale formatter.
+ *
+ * Values are replaced in the parsed document, so comments, quoting styles and
+ * anchors/aliases are kept. The root key is set to the target locale.
+ */
+export class YamlFormatter extends BaseFormatter {
+  readonly supportedFormats: FormatInfo['format'][] = ['yaml'];
+  readonly fileExtensions = ['.yml', '.yaml'];
+
+  /**
+   * Format YAML content with updated translations
+   */
+  format(
+    originalContent: string,
+    updatedUnits: TranslationUnit[],
+    extractResult: ExtractResult,
+    _options?: FormatOptions
+  ): FormatResult {
+    try {
+      const merged = mergeUnits(extractResult.units, updatedUnits);
+      const changes = countChanges(extractResult.units, updatedUnits);
+      const originalTargets = new Map(extractResult.units.map(u => [u.id, u.target]));
+      const existingIds = new Set(extractResult.units.map(u => u.id));
+      const targetLanguage = extractResult.targetLanguage;
+
+      const document = parseYamlDocument(originalContent);
+      const root = getYamlLocaleRoot(document);
+      if (!root) {
+        throw new Error('Missing root locale key');
+      }
+
+      const rootPair = isMap(document.contents) ? document.contents.items[0] : undefined;
+      if (rootPair && isScalar(rootPair.key)) {
+        rootPair.key.value = targetLanguage;
+      }
+
+      const entries = new Map(collectYamlEntries(root.map).map(entry => [entry.id, entry]));
+
+      for (const unit of merged) {
+        if (!unit.target || unit.target === originalTargets.get(unit.id)) {
+          continue;
+        }
+        const entry = entries.get(unit.id);
+        if (entry) {
+          updateYamlEntry(document, entry, unit.target, targetLanguage);
+        } else {
+          setYamlValue(document, root.map, unit, targetLanguage);
+        }
+      }
+
+      for (const unit of updatedUnits) {
+        if (unit.target && !existingIds.has(unit.id)) {
+          setYamlValue(document, root.map, unit, targetLanguage);
+        }
+      }
+
+      return {
+        content: document.toString(TO_STRING_OPTIONS),
+        updatedCount: changes.updated,
+        unchangedCount: changes.unchanged,
+      };
+    } catch (error) {
+      throw new FormatterError(
+        `Failed to format YAML: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        extractResult.formatInfo.format,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+/**
+ * Create a new YAML locale file with the target locale as root key.
+ * Units without a target are left out; notes are written as comments.
+ */
+export function createYamlFile(units: TranslationUnit[], targetLanguage: string): string {
+  const document = new Document({ [targetLanguage]: {} });
+  const root = getYamlLocaleRoot(document);
+
+  if (root) {
+    for (const unit of units) {
+      if (unit.target) {
+        setYamlValue(document, root.map, unit, targetLanguage, unit.metadata.notes);
+      }
+    }
+  }
+
+  return document.toString(TO_STRING_OPTIONS);
+}
+
+/**
+ * Split an ICU plural into Rails pluralization keys for the target language.
+ * A translated "zero" is kept since Rails uses it for a count of 0 in any language.
+ */
+export function splitYamlPluralMessage(
+  message: string,
+  targetLanguage: string
+): Array<{ category: string; text: string }> {
+  const categories: string[] = getCardinalCategories(targetLanguage);
+
+  try {
+    const plural = parseICUMessage(message).elements.find(e => e.type === 'plural');
+
+    if (plural?.type === 'plural') {
+      const variants = new Map(plural.variants.map(v => [v.category, v.text]));
+      const fallback = variants.get('other') ?? plural.variants[0]?.text ?? message;
+      if (variants.has('zero') && !categories.includes('zero')) {
+        categories.unshift('zero');
+      }
+      return categories.map(category => ({ category, text: variants.get(category) ?? fallback }));
+    }
+  } catch {
+    // Not an ICU message - use the text for every category
+  }
+
+  return categories.map(category => ({ category, text: message }));
+}
+
+/**
+ * Replace the value of an existing entry
+ */
+function updateYamlEntry(
+  document: Document,
+  entry: YamlEntry,
+  target: string,
+  targetLanguage: string
+): void {
+  if (!entry.plural && isScalar(entry.node)) {
+    // Keep the scalar node so its quoting style and anchor survive
+    entry.node.value = target;
+    return;
+  }
+
+  const plural = createPluralNode(document, target, targetLanguage);
+  plural.commentBefore = entry.node.commentBefore;
+  entry.parent.set(entry.key, plural);
+}
+
+/**
+ * Set a unit's value at its key path, creating intermediate maps and sequences
+ */
+function setYamlValue(
+  document: Document,
+  root: YAMLMap,
+  unit: TranslationUnit,
+  targetLanguage: string,
+  comment?: string
+): void {
+  const path = parseYamlUnitId(unit.id);
+  let current: YAMLMap | YAMLSeq = root;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const segment = path[i];
+    const child: unknown = current.get(segment, true);
+    if (isMap(child) || isSeq(child)) {
+      current = child;
+    } else {
+      const created: YAMLMap | YAMLSeq =
+        typeof path[i + 1] === 'number' ? new YAMLSeq() : new YAMLMap();
+      current.set(segment, created);
+      current = created;
+    }
+  }
+
+  const last = path[path.length - 1];
+  const value: Node = unit.metadata.flags?.includes(YAML_PLURALS_FLAG)
+    ? createPluralNode(document, unit.target ?? '', targetLanguage)
+    : document.createNode(unit.target ?? '');
+
+  if (isMap(current)) {
+    const pair = document.createPair(last, value);
+    const existing = current.items.find(item => getPairKey(item) === String(last));
+    if (existing) {
+      existing.value = value;
+    } else {
+      if (comment && isScalar(pair.key)) {
+        pair.key.commentBefore = comment
+          .split('\n')
+          .map(line => ` ${line}`)
+          .join('\n');
+      }
+      current.items.push(pair);
+    }
+  } else {
+    current.set(last, value);
+  }
+}
+
+/**
+ * Create a pluralization map with the target language's categories
+ */
+function createPluralNode(document: Document, message: string, targetLanguage: string): YAMLMap {
+  const variants = splitYamlPluralMessage(message, targetLanguage);
+  return document.createNode(
+    Object.fromEntries(variants.map(v => [v.category, v.text]))
+  ) as YAMLMap;
+}
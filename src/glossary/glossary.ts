@@ -0,0 +1,145 @@
+/**
+ * Glossary matching
+ *
+ * Picks the glossary entries of a target language, finds the terms a batch uses
+ * and checks that translations follow them.
+ */
+
+import type { GlossaryEntry, TranslationRequest } from '../types/translation';
+
+/**
+ * Start of the issues of translations that do not follow the glossary
+ */
+export const GLOSSARY_ISSUE_PREFIX = 'Glossary term';
+
+/**
+ * Check whether an entry is a term that is never translated
+ */
+export function isDoNotTranslate(entry: GlossaryEntry): boolean {
+  return entry.translation === undefined || entry.translation === entry.term;
+}
+
+/**
+ * Check whether an entry applies to a target language. An entry for "de" also
+ * covers "de-AT", and an entry for "de-DE" covers "de".
+ */
+export function matchesLanguage(entry: { language?: string }, targetLanguage: string): boolean {
+  if (!entry.language) {
+    return true;
+  }
+
+  const language = entry.language.toLowerCase();
+  const target = targetLanguage.toLowerCase();
+  return (
+    language === target || target.startsWith(`${language}-`) || language.startsWith(`${target}-`)
+  );
+}
+
+/**
+ * Rank how closely an entry's language matches the target language
+ */
+function getLanguageRank(entry: GlossaryEntry, targetLanguage: string): number {
+  if (!entry.language) {
+    return 0;
+  }
+  return entry.language.toLowerCase() === targetLanguage.toLowerCase()
+    ? Number.MAX_SAFE_INTEGER
+    : entry.language.length;
+}
+
+/**
+ * Get the glossary entries of a target language. When a term has entries for
+ * several languages, the one for the closest language is used.
+ */
+export function getGlossaryEntries(
+  glossary: GlossaryEntry[],
+  targetLanguage: string
+): GlossaryEntry[] {
+  const entries = new Map<string, GlossaryEntry>();
+
+  for (const entry of glossary) {
+    if (!matchesLanguage(entry, targetLanguage)) {
+      continue;
+    }
+
+    const key = entry.term.toLowerCase();
+    const current = entries.get(key);
+    if (
+      !current ||
+      getLanguageRank(entry, targetLanguage) >= getLanguageRank(current, targetLanguage)
+    ) {
+      entries.set(key, entry);
+    }
+  }
+
+  return [...entries.values()];
+}
+
+/**
+ * Check whether a text uses a term as a whole word, ignoring case
+ */
+export function containsTerm(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+/**
+ * Get the entries whose terms appear in any of the given texts
+ */
+export function findGlossaryTerms(texts: string[], glossary: GlossaryEntry[]): GlossaryEntry[] {
+  return glossary.filter(entry => texts.some(text => containsTerm(text, entry.term)));
+}
+
+/**
+ * Limit the glossary of a request to the terms its units use
+ */
+export function selectGlossaryTerms(request: TranslationRequest): TranslationRequest {
+  if (!request.glossary || request.glossary.length === 0) {
+    return request;
+  }
+
+  return {
+    ...request,
+    glossary: findGlossaryTerms(
+      request.units.map(unit => unit.source),
+      request.glossary
+    ),
+  };
+}
+
+/**
+ * Check that a translation follows the glossary entries its source uses: a term
+ * that is never translated must appear as it is, and the translation of other
+ * terms must appear in any case.
+ */
+export function checkGlossaryTerms(
+  source: string,
+  translation: string,
+  glossary: GlossaryEntry[]
+): string[] {
+  const issues: string[] = [];
+
+  for (const entry of findGlossaryTerms([source], glossary)) {
+    if (isDoNotTranslate(entry)) {
+      if (!translation.includes(entry.term)) {
+        issues.push(`${GLOSSARY_ISSUE_PREFIX} "${entry.term}" must be kept untranslated`);
+      }
+    } else if (
+      entry.translation &&
+      !translation.toLocaleLowerCase().includes(entry.translation.toLocaleLowerCase())
+    ) {
+      issues.push(
+        `${GLOSSARY_ISSUE_PREFIX} "${entry.term}" must be translated as "${entry.translation}"`
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check whether a validation issue is about the glossary
+ */
+export function isGlossaryIssue(issue: string): boolean {
+  return issue.startsWith(`${GLOSSARY_ISSUE_PREFIX} `);
+}
@@ -0,0 +1,246 @@
+/**
+ * Glossary file parsers
+ *
+ * Reads glossary entries from CSV files with one column per target language and
+ * from TBX termbases.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import { ConfigError } from '../utils/errors';
+import type { GlossaryEntry } from '../types/translation';
+
+type XmlNode = Record<string, unknown>;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  textNodeName: '#text',
+  preserveOrder: false,
+  trimValues: true,
+  parseTagValue: false,
+  isArray: (name: string): boolean =>
+    ['termEntry', 'conceptEntry', 'langSet', 'langSec', 'tig', 'ntig', 'termSec'].includes(name),
+});
+
+/**
+ * Split CSV content into rows of fields. Fields can be quoted, with doubled quotes
+ * inside quoted fields.
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    rows.push([...row, field]);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parse a CSV glossary. The header row names the source term column first and the
+ * target languages after it, such as "term,de,fr". A row with no translations is a
+ * term that is never translated; an empty cell leaves the term out for its language.
+ */
+export function parseGlossaryCsv(content: string): GlossaryEntry[] {
+  const [header, ...rows] = parseCsvRows(content);
+  const languages = (header ?? []).slice(1).map(language => language.trim());
+  const entries: GlossaryEntry[] = [];
+
+  for (const [term = '', ...translations] of rows) {
+    const source = term.trim();
+    if (source === '') {
+      continue;
+    }
+
+    const cells = languages.map((language, index) => ({
+      language,
+      translation: translations[index]?.trim() ?? '',
+    }));
+
+    if (cells.every(cell => cell.translation === '')) {
+      entries.push({ term: source });
+      continue;
+    }
+
+    for (const { language, translation } of cells) {
+      if (language !== '' && translation !== '') {
+        entries.push({ term: source, translation, language });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Get the child elements of a node with the given names
+ */
+function getChildren(node: XmlNode, names: string[]): XmlNode[] {
+  return names.flatMap(name => {
+    const value = node[name];
+    return Array.isArray(value) ? (value as XmlNode[]) : [];
+  });
+}
+
+/**
+ * Get the text of an element, which may be a string or a node with text
+ */
+function getText(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value && typeof value === 'object') {
+    const text = (value as XmlNode)['#text'];
+    return typeof text === 'string' || typeof text === 'number' ? String(text) : '';
+  }
+  return '';
+}
+
+/**
+ * Find the entries of a TBX document at any depth
+ */
+function findTermEntries(node: XmlNode): XmlNode[] {
+  const entries = getChildren(node, ['termEntry', 'conceptEntry']);
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'termEntry' || key === 'conceptEntry' || key.startsWith('@_')) {
+      continue;
+    }
+    for (const child of Array.isArray(value) ? value : [value]) {
+      if (child && typeof child === 'object') {
+        entries.push(...findTermEntries(child as XmlNode));
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Check whether a term element is marked as not translatable with
+ * <termNote type="translatable">no</termNote>
+ */
+function isNotTranslatable(term: XmlNode): boolean {
+  const notes = term['termNote'];
+  return (Array.isArray(notes) ? notes : [notes]).some(
+    note =>
+      note !== null &&
+      typeof note === 'object' &&
+      (note as XmlNode)['@_type'] === 'translatable' &&
+      getText(note).toLowerCase() === 'no'
+  );
+}
+
+/**
+ * Check whether a TBX language code is for the given language or one of its regions
+ */
+function isLanguage(code: string, language: string): boolean {
+  const a = code.toLowerCase();
+  const b = language.toLowerCase();
+  return a === b || a.startsWith(`${b}-`) || b.startsWith(`${a}-`);
+}
+
+/**
+ * Parse a TBX termbase, both TBX 2 (termEntry, langSet, tig or ntig) and TBX 3
+ * (conceptEntry, langSec, termSec). The term of the source language is translated
+ * as the first term of each other language. A source term marked with
+ * <termNote type="translatable">no</termNote> is never translated.
+ */
+export function parseTbx(content: string, sourceLanguage: string): GlossaryEntry[] {
+  const entries: GlossaryEntry[] = [];
+
+  for (const termEntry of findTermEntries(parser.parse(content) as XmlNode)) {
+    const languages = getChildren(termEntry, ['langSet', 'langSec']).map(langSet => {
+      const term = getChildren(langSet, ['tig', 'ntig', 'termSec'])
+        .map(tig => (tig['termGrp'] as XmlNode | undefined) ?? tig)
+        .find(tig => getText(tig['term']).trim() !== '');
+      return {
+        language: String(langSet['@_xml:lang'] ?? langSet['@_lang'] ?? ''),
+        term,
+        text: term ? getText(term['term']).trim() : '',
+      };
+    });
+
+    const source = languages.find(
+      ({ language, term }) => term && isLanguage(language, sourceLanguage)
+    );
+    if (!source?.term) {
+      continue;
+    }
+
+    if (isNotTranslatable(source.term)) {
+      entries.push({ term: source.text });
+      continue;
+    }
+
+    for (const { language, text } of languages) {
+      if (language !== '' && text !== '' && !isLanguage(language, sourceLanguage)) {
+        entries.push({ term: source.text, translation: text, language });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Load the entries of a glossary file, which is TBX when its extension is .tbx and
+ * CSV otherwise
+ */
+export function loadGlossaryFile(filePath: string, sourceLanguage: string): GlossaryEntry[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(path.resolve(filePath), 'utf-8');
+  } catch (error) {
+    throw new ConfigError(
+      `Failed to read glossary file: ${filePath}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  try {
+    return path.extname(filePath).toLowerCase() === '.tbx'
+      ? parseTbx(content, sourceLanguage)
+      : parseGlossaryCsv(content);
+  } catch (error) {
+    throw new ConfigError(
+      `Failed to parse glossary file: ${filePath}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
@@ -120,9 +120,9 @@ export const PLURAL_RULES: Record<string, PluralRuleSet> = {
     cardinalCategories: ['one', 'many', 'other'],
     ordinalCategories: ['other'],
     cardinalExamples: {
-      one: [1],
+      one: [0, 1],
       many: [1000000],
-      other: [0, 2, 3, 4, 5, 10, 100],
+      other: [2, 3, 4, 5, 10, 100],
     },
     ordinalExamples: {
       other: [1, 2, 3, 4, 5, 10, 100],
@@ -461,3 +461,66 @@ export function formatCategoryDescription(
 
   return `${category}: ${descriptions[category]}${exampleStr}`;
 }
+
+/**
+ * Gettext plural expressions by language code
+ *
+ * Each expression maps `n` to an index into the language's gettext categories
+ * (see getGettextPluralForms), so `msgstr[i]` always holds the form for category `i`.
+ * Languages with only 'one'/'other' or only 'other' are derived automatically.
+ */
+const GETTEXT_PLURAL_EXPRESSIONS: Record<string, string> = {
+  fr: '(n == 0 || n == 1) ? 0 : (n != 0 && n % 1000000 == 0) ? 1 : 2',
+  es: 'n == 1 ? 0 : (n != 0 && n % 1000000 == 0) ? 1 : 2',
+  it: 'n == 1 ? 0 : (n != 0 && n % 1000000 == 0) ? 1 : 2',
+  pt: '(n == 0 || n == 1) ? 0 : (n != 0 && n % 1000000 == 0) ? 1 : 2',
+  ru: 'n % 10 == 1 && n % 100 != 11 ? 0 : n % 10 >= 2 && n % 10 <= 4 && (n % 100 < 12 || n % 100 > 14) ? 1 : 2',
+  uk: 'n % 10 == 1 && n % 100 != 11 ? 0 : n % 10 >= 2 && n % 10 <= 4 && (n % 100 < 12 || n % 100 > 14) ? 1 : 2',
+  pl: 'n == 1 ? 0 : n % 10 >= 2 && n % 10 <= 4 && (n % 100 < 12 || n % 100 > 14) ? 1 : 2',
+  cs: 'n == 1 ? 0 : (n >= 2 && n <= 4) ? 1 : 2',
+  ar: 'n == 0 ? 0 : n == 1 ? 1 : n == 2 ? 2 : n % 100 >= 3 && n % 100 <= 10 ? 3 : n % 100 >= 11 ? 4 : 5',
+  he: 'n == 1 ? 0 : n == 2 ? 1 : (n > 10 && n % 10 == 0) ? 2 : 3',
+  hi: 'n > 1',
+};
+
+/**
+ * Gettext Plural-Forms information for a language
+ */
+export interface GettextPluralForms {
+  nplurals: number;
+  plural: string;
+  categories: PluralCategory[];
+}
+
+/**
+ * Get gettext Plural-Forms data for a language, derived from its CLDR cardinal categories.
+ * Gettext only selects forms for integers, so categories whose examples are all
+ * fractional (e.g. Russian 'other') are left out.
+ */
+export function getGettextPluralForms(languageCode: string): GettextPluralForms {
+  const rules = getPluralRules(languageCode);
+  const categories = rules.cardinalCategories.filter(category => {
+    const examples = rules.cardinalExamples[category];
+    return !examples || examples.length === 0 || examples.some(n => Number.isInteger(n));
+  });
+  const normalized = languageCode.toLowerCase().split('-')[0] ?? '';
+
+  let plural = GETTEXT_PLURAL_EXPRESSIONS[normalized];
+  if (!plural) {
+    plural = categories.length === 1 ? '0' : 'n != 1';
+  }
+
+  return {
+    nplurals: categories.length,
+    plural,
+    categories,
+  };
+}
+
+/**
+ * Format a gettext Plural-Forms header value for a language
+ */
+export function formatGettextPluralFormsHeader(languageCode: string): string {
+  const { nplurals, plural } = getGettextPluralForms(languageCode);
+  return `nplurals=${nplurals}; plural=${plural};`;
+}
@@ -0,0 +1,338 @@
+/**
+ * ICU Message Decomposer
+ *
+ * Splits plural, selectordinal and select messages into one plain sentence per
+ * variant, so each can be translated on its own, and rebuilds the target message
+ * from the translated sentences.
+ */
+
+import type {
+  TranslatedUnit,
+  TranslationRequest,
+  TranslationResponse,
+  TranslationUnit,
+  UnitFailure,
+} from '../types/translation';
+import { logger } from '../utils/logger';
+import { formatCategoryDescription } from './cldr-rules';
+import { hasICUPatterns, maskInterpolations, parseICUMessage } from './parser';
+import {
+  createTargetPluralVariants,
+  reconstructPlural,
+  reconstructSelect,
+  reconstructSelectordinal,
+} from './reconstructor';
+import type { PluralCategory, PluralVariant, SelectOption } from './types';
+
+/**
+ * A sentence of a decomposed message, translated as a unit of its own
+ */
+export interface SentenceNode {
+  type: 'sentence';
+  /** Unit ID, the message's ID followed by the variant keys, such as "files#count=few" */
+  id: string;
+  text: string;
+  /** Descriptions of the variants the sentence is for */
+  forms: string[];
+}
+
+/**
+ * A plural or selectordinal element whose variants are decomposed messages
+ */
+export interface PluralNode {
+  type: 'plural' | 'selectordinal';
+  name: string;
+  offset?: number;
+  variants: Array<{ category: string; node: MessageNode }>;
+}
+
+/**
+ * A select element whose options are decomposed messages
+ */
+export interface SelectNode {
+  type: 'select';
+  name: string;
+  options: Array<{ key: string; node: MessageNode }>;
+}
+
+/**
+ * A decomposed message
+ */
+export type MessageNode = SentenceNode | PluralNode | SelectNode;
+
+/**
+ * A complex ICU message of a request and its decomposition
+ */
+export interface DecomposedMessage {
+  unit: TranslationUnit;
+  root: MessageNode;
+}
+
+/**
+ * A request in which complex ICU messages are replaced by their sentences
+ */
+export interface DecomposedRequest {
+  request: TranslationRequest;
+  messages: DecomposedMessage[];
+}
+
+/**
+ * Decompose an ICU message for a target language.
+ *
+ * The first plural, selectordinal or select element becomes the root, and the text
+ * around it is moved into each of its variants, so every sentence is complete:
+ * "You have {n, plural, one {# file} other {# files}}." has the sentences
+ * "You have # file." and "You have # files.". Nested and later elements are
+ * decomposed the same way. Plural variants follow the target language's categories.
+ * Double-brace interpolations in the variants, as in i18next plurals
+ * ("{count, plural, one {{{count}} file} other {{{count}} files}}"), are kept as text.
+ *
+ * Returns undefined for messages without such elements.
+ */
+export function decomposeICUMessage(
+  id: string,
+  message: string,
+  targetLanguage: string
+): MessageNode | undefined {
+  const masked = maskInterpolations(message);
+  const root = decomposeNode(id, masked.message, targetLanguage, []);
+  return root.type === 'sentence' ? undefined : restoreInterpolations(root, masked.restore);
+}
+
+/**
+ * Put the masked interpolations back into the sentences of a decomposed message
+ */
+function restoreInterpolations(node: MessageNode, restore: (text: string) => string): MessageNode {
+  switch (node.type) {
+    case 'sentence':
+      return { ...node, text: restore(node.text) };
+    case 'select':
+      return {
+        ...node,
+        options: node.options.map(option => ({
+          ...option,
+          node: restoreInterpolations(option.node, restore),
+        })),
+      };
+    default:
+      return {
+        ...node,
+        variants: node.variants.map(variant => ({
+          ...variant,
+          node: restoreInterpolations(variant.node, restore),
+        })),
+      };
+  }
+}
+
+/**
+ * Decompose a message into a node whose sentence IDs start with the given ID
+ */
+function decomposeNode(
+  id: string,
+  message: string,
+  targetLanguage: string,
+  forms: string[]
+): MessageNode {
+  const parsed = parseICUMessage(message);
+  const element = parsed.elements.find(e => e.type !== 'text' && e.type !== 'argument');
+
+  if (!element) {
+    return { type: 'sentence', id, text: message, forms };
+  }
+
+  const prefix = message.slice(0, element.start);
+  const suffix = message.slice(element.end);
+  const decomposeVariant = (key: string, text: string, form: string): MessageNode =>
+    decomposeNode(`${id}#${element.name}=${key}`, prefix + text + suffix, targetLanguage, [
+      ...forms,
+      form,
+    ]);
+
+  if (element.type === 'select') {
+    return {
+      type: 'select',
+      name: element.name,
+      options: element.options.map(option => ({
+        key: option.key,
+        node: decomposeVariant(option.key, option.value, `{${element.name}} is "${option.key}"`),
+      })),
+    };
+  }
+
+  const isOrdinal = element.type === 'selectordinal';
+  const variants = createTargetPluralVariants(element.variants, targetLanguage, isOrdinal);
+
+  return {
+    type: element.type,
+    name: element.name,
+    offset: element.type === 'plural' ? element.offset : undefined,
+    variants: variants.map(variant => ({
+      category: variant.category,
+      node: decomposeVariant(
+        variant.category,
+        variant.text,
+        variant.category.startsWith('=')
+          ? `{${element.name}} ${variant.category}`
+          : `{${element.name}} in ${isOrdinal ? 'ordinal' : 'plural'} category ${formatCategoryDescription(variant.category as PluralCategory, targetLanguage, isOrdinal)}`
+      ),
+    })),
+  };
+}
+
+/**
+ * Get the sentences of a decomposed message
+ */
+export function getSentences(node: MessageNode): SentenceNode[] {
+  switch (node.type) {
+    case 'sentence':
+      return [node];
+    case 'select':
+      return node.options.flatMap(option => getSentences(option.node));
+    default:
+      return node.variants.flatMap(variant => getSentences(variant.node));
+  }
+}
+
+/**
+ * Rebuild an ICU message from the translations of its sentences, keyed by sentence
+ * ID. Returns undefined when a sentence has no translation.
+ */
+export function reconstructDecomposedMessage(
+  node: MessageNode,
+  translations: Map<string, string>
+): string | undefined {
+  switch (node.type) {
+    case 'sentence':
+      return translations.get(node.id);
+
+    case 'select': {
+      const options: SelectOption[] = [];
+      for (const option of node.options) {
+        const value = reconstructDecomposedMessage(option.node, translations);
+        if (value === undefined) {
+          return undefined;
+        }
+        options.push({ key: option.key, value });
+      }
+      return reconstructSelect(node.name, options);
+    }
+
+    default: {
+      const variants: PluralVariant[] = [];
+      for (const variant of node.variants) {
+        const text = reconstructDecomposedMessage(variant.node, translations);
+        if (text === undefined) {
+          return undefined;
+        }
+        variants.push({ category: variant.category, text });
+      }
+      return node.type === 'plural'
+        ? reconstructPlural(node.name, variants, node.offset)
+        : reconstructSelectordinal(node.name, variants);
+    }
+  }
+}
+
+/**
+ * Replace the complex ICU messages of a request by one unit per sentence. The
+ * sentence units keep the metadata of their message, and their context names the
+ * plural form or select option they are for. Messages that cannot be parsed are
+ * sent as they are.
+ */
+export function decomposeRequest(request: TranslationRequest): DecomposedRequest {
+  const messages: DecomposedMessage[] = [];
+  const units: TranslationUnit[] = [];
+
+  for (const unit of request.units) {
+    let root: MessageNode | undefined;
+    if (hasICUPatterns(unit.source)) {
+      try {
+        root = decomposeICUMessage(unit.id, unit.source, request.targetLanguage);
+      } catch (error) {
+        logger.debug(
+          `Sending ${unit.id} without decomposition: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    if (!root) {
+      units.push(unit);
+      continue;
+    }
+
+    messages.push({ unit, root });
+    for (const sentence of getSentences(root)) {
+      const form = `Variant of an ICU message for ${sentence.forms.join('; ')}. Keep # and placeholders as they are`;
+      units.push({
+        ...unit,
+        id: sentence.id,
+        source: sentence.text,
+        context: unit.context ? `${unit.context}; ${form}` : form,
+        // The existing and rejected translations are the whole message's, not the sentence's
+        metadata: { ...unit.metadata, revision: undefined, correction: undefined },
+      });
+    }
+  }
+
+  if (messages.length > 0) {
+    logger.debug(`Decomposed ${messages.length} ICU message(s) for ${request.targetLanguage}`);
+  }
+
+  return { request: { ...request, units }, messages };
+}
+
+/**
+ * Turn the response for a decomposed request into the response for the original
+ * request: sentence translations are reconstructed into their messages, and a
+ * message with an untranslated sentence fails with the sentence's reason.
+ */
+export function composeResponse(
+  decomposed: DecomposedRequest,
+  response: TranslationResponse
+): TranslationResponse {
+  if (decomposed.messages.length === 0) {
+    return response;
+  }
+
+  const translationsById = new Map(response.translations.map(t => [t.id, t]));
+  const failureReasons = new Map((response.failures ?? []).map(f => [f.id, f.reason]));
+  const sentenceIds = new Set<string>();
+  const translations: TranslatedUnit[] = [];
+  const failures: UnitFailure[] = [];
+
+  for (const { unit, root } of decomposed.messages) {
+    const sentences = getSentences(root);
+    const targets = new Map<string, string>();
+    for (const sentence of sentences) {
+      sentenceIds.add(sentence.id);
+      const translation = translationsById.get(sentence.id);
+      if (translation) {
+        targets.set(sentence.id, translation.target);
+      }
+    }
+
+    const target = reconstructDecomposedMessage(root, targets);
+    const missing = sentences.find(sentence => !targets.has(sentence.id));
+
+    if (target !== undefined) {
+      const first = translationsById.get(sentences[0]?.id ?? '');
+      translations.push({
+        id: unit.id,
+        source: unit.source,
+        target,
+        provider: first?.provider,
+        model: first?.model,
+      });
+    } else if (missing) {
+      const reason = failureReasons.get(missing.id) ?? 'No translation returned';
+      failures.push({ id: unit.id, reason: `${reason} (${missing.forms.join('; ')})` });
+    }
+  }
+
+  return {
+    ...response,
+    translations: [...response.translations.filter(t => !sentenceIds.has(t.id)), ...translations],
+    failures: [...(response.failures ?? []).filter(f => !sentenceIds.has(f.id)), ...failures],
+  };
+}
@@ -205,6 +205,8 @@ export function parseICUMessage(message: string): ParsedICUMessage {
           lexer.getPosition()
         );
       }
+    } else if (char === '}') {
+      throw new ICUParseError('Unmatched } in message', message, lexer.getPosition());
     } else {
       // Plain text
       const start = lexer.getPosition();
@@ -272,8 +274,12 @@ function parsePluralOrSelectordinal(
     lexer.advance();
     lexer.skipWhitespace();
 
+    const keywordStart = lexer.getPosition();
     const offsetKeyword = lexer.readIdentifier();
-    if (offsetKeyword === 'offset') {
+    if (offsetKeyword !== 'offset') {
+      // Not an offset - the identifier is the first plural category
+      lexer.setPosition(keywordStart);
+    } else {
       lexer.skipWhitespace();
       if (lexer.peek() === ':') {
         lexer.advance();
@@ -459,6 +465,39 @@ export function hasICUPatterns(message: string): boolean {
   );
 }
 
+/**
+ * Message whose double-brace interpolations are masked
+ */
+export interface MaskedInterpolations {
+  message: string;
+  /** Interpolations in order, such as {{count}} or {{$t(appName)}} */
+  interpolations: string[];
+  /** Put the interpolations back into a text taken from the masked message */
+  restore: (text: string) => string;
+}
+
+/**
+ * Replace the double-brace interpolations of i18next and XLIFF markers ({{count}}),
+ * which are not ICU syntax, with private-use characters, so that a message using
+ * them inside plural and select variants can be parsed.
+ */
+export function maskInterpolations(message: string): MaskedInterpolations {
+  const interpolations: string[] = [];
+  const masked = message.replace(/\{\{[^{}]*\}\}/g, match => {
+    interpolations.push(match);
+    return `\uE000${interpolations.length - 1}\uE001`;
+  });
+
+  return {
+    message: masked,
+    interpolations,
+    restore: text =>
+      text.replace(/\uE000(\d+)\uE001/g, (match, index: string) => {
+        return interpolations[Number(index)] ?? match;
+      }),
+  };
+}
+
 /**
  * Check if a message is a simple argument reference
  */
@@ -474,3 +513,61 @@ export function extractVariables(message: string): string[] {
   const parsed = parseICUMessage(message);
   return parsed.variables;
 }
+
+/**
+ * A top-level part of a message: literal text or a plural element
+ */
+export type PluralSegment = { type: 'text'; value: string } | ICUPluralElement;
+
+/**
+ * Split a message into literal text and top-level plural elements.
+ *
+ * Unlike parseICUMessage, text outside the plurals is returned verbatim (no apostrophe
+ * quoting), which suits formats that embed plurals in otherwise non-ICU strings.
+ */
+export function splitPluralSegments(message: string): PluralSegment[] {
+  const segments: PluralSegment[] = [];
+  const pattern = /\{\s*[a-zA-Z_][\w-]*\s*,\s*plural\s*,/g;
+  let textStart = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(message)) !== null) {
+    const start = match.index;
+    let depth = 0;
+    let end = -1;
+
+    for (let i = start; i < message.length; i++) {
+      if (message[i] === '{') {
+        depth++;
+      } else if (message[i] === '}') {
+        depth--;
+        if (depth === 0) {
+          end = i + 1;
+          break;
+        }
+      }
+    }
+
+    if (end === -1) {
+      throw new ICUParseError('Unmatched braces in message', message, start);
+    }
+
+    const element = parseICUMessage(message.slice(start, end)).elements[0];
+    if (element?.type !== 'plural') {
+      continue;
+    }
+
+    if (start > textStart) {
+      segments.push({ type: 'text', value: message.slice(textStart, start) });
+    }
+    segments.push({ ...element, start, end });
+    textStart = end;
+    pattern.lastIndex = end;
+  }
+
+  if (textStart < message.length) {
+    segments.push({ type: 'text', value: message.slice(textStart) });
+  }
+
+  return segments;
+}
@@ -1,7 +1,12 @@
 // Configuration
 export * from './config/types';
 export * from './config/schema';
-export { loadConfig, loadConfigFile, getActionInputs } from './config/loader';
+export {
+  loadConfig,
+  loadConfigFile,
+  getActionInputs,
+  getFallbackApiKeyVariable,
+} from './config/loader';
 
 // Types
 export * from './types/translation';
@@ -10,6 +15,108 @@ export * from './types/translation';
 export { BaseExtractor, ExtractorRegistry, ExtractOptions } from './extractors/base';
 export { XliffExtractor } from './extractors/xliff';
 export { JsonExtractor, buildNestedJson, flattenJson } from './extractors/json';
+export {
+  YamlExtractor,
+  YamlEntry,
+  YAML_PLURAL_ARGUMENT,
+  YAML_PLURALS_FLAG,
+  buildYamlPluralMessage,
+  collectYamlEntries,
+  getYamlLocaleRoot,
+  parseYamlDocument,
+  parseYamlUnitId,
+} from './extractors/yaml';
+export {
+  PoExtractor,
+  PoEntry,
+  PoBlock,
+  PO_PLURAL_ARGUMENT,
+  PO_CONTEXT_SEPARATOR,
+  buildPoUnitId,
+  buildPoPluralMessage,
+  splitPoPluralMessage,
+  getPoPluralCategories,
+  parsePoBlocks,
+  parsePoHeaders,
+} from './extractors/po';
+export {
+  AndroidExtractor,
+  AndroidResource,
+  AndroidResourceItem,
+  AndroidResourceType,
+  ANDROID_PLURAL_ARGUMENT,
+  buildAndroidArrayItemId,
+  parseAndroidArrayItemId,
+  parseAndroidResources,
+  decodeAndroidString,
+  encodeAndroidString,
+} from './extractors/android';
+export {
+  IosStringsExtractor,
+  StringsEntry,
+  detectLprojLanguage,
+  parseStringsFile,
+  escapeStringsValue,
+  unescapeStringsValue,
+} from './extractors/ios-strings';
+export {
+  StringsdictExtractor,
+  parseStringsdict,
+  stringsdictEntryToICU,
+} from './extractors/stringsdict';
+export {
+  XcstringsExtractor,
+  XcstringsDocument,
+  XcstringsEntry,
+  XcstringsLocalization,
+  XcstringsStringUnit,
+  XCSTRINGS_PLURAL_ARGUMENT,
+  localizationToMessage,
+} from './extractors/xcstrings';
+export {
+  ArbExtractor,
+  ArbMessageMetadata,
+  ARB_LOCALE_KEY,
+  getArbMessageMetadata,
+  detectArbLanguage,
+} from './extractors/arb';
+export {
+  PropertiesExtractor,
+  PropertiesEntry,
+  parsePropertiesFile,
+  unescapePropertiesValue,
+  escapePropertiesValue,
+  escapePropertiesKey,
+  detectPropertiesLanguage,
+} from './extractors/properties';
+export {
+  ResxExtractor,
+  ResxEntry,
+  parseResxEntries,
+  protectFormatItems,
+  restoreFormatItems,
+  detectResxLanguage,
+} from './extractors/resx';
+export {
+  FluentExtractor,
+  FluentEntry,
+  FluentAttribute,
+  FluentNode,
+  FluentVariant,
+  parseFluentResource,
+  parseFluentPattern,
+  fluentPatternToMessage,
+  detectFluentLanguage,
+} from './extractors/fluent';
+export {
+  I18nextExtractor,
+  I18nextMessage,
+  parseI18nextMessages,
+  i18nextMessageToICU,
+  protectNesting,
+  restoreNesting,
+  detectI18nextLanguage,
+} from './extractors/i18next';
 export {
   createExtractorRegistry,
   getExtractor,
@@ -28,22 +135,51 @@ export * from './icu/types';
 export * from './icu/parser';
 export * from './icu/cldr-rules';
 export * from './icu/reconstructor';
+export * from './icu/decomposer';
+
+// Glossary
+export * from './glossary/glossary';
+export * from './glossary/parser';
+
+// Translation memory
+export * from './memory/translation-memory';
+export * from './memory/tmx';
 
 // Translators
-export { BaseTranslator, parseLLMResponse, estimateTokenCount } from './translators/base';
+export {
+  BaseTranslator,
+  TRANSLATION_RESULT_SCHEMA,
+  parseLLMResponse,
+  parseTranslationResult,
+  estimateTokenCount,
+} from './translators/base';
 export { AnthropicTranslator } from './translators/providers/anthropic';
 export { OpenAITranslator } from './translators/providers/openai';
 export { OllamaTranslator } from './translators/providers/ollama';
+export {
+  OpenAICompatibleTranslator,
+  DEFAULT_OPENAI_COMPATIBLE_FEATURES,
+} from './translators/providers/openai-compatible';
+export {
+  PseudoTranslator,
+  DEFAULT_PSEUDO_LOCALIZATION_OPTIONS,
+  pseudoLocalize,
+} from './translators/providers/pseudo';
 export {
   createTranslator,
   getDefaultModel,
   TranslationOrchestrator,
   createOrchestrator,
+  createQualityReviewer,
 } from './translators/factory';
 export * from './translators/batcher';
+export * from './translators/batch-job';
 export * from './translators/rate-limiter';
+export * from './translators/circuit-breaker';
+export * from './translators/router';
 export * from './translators/retry';
 export * from './translators/context-builder';
+export * from './translators/quality';
 
 // Formatters
 export {
@@ -53,8 +189,27 @@ export {
   mergeUnits,
   countChanges,
 } from './formatters/base';
-export { XliffFormatter } from './formatters/xliff';
+export { XliffFormatter, NEEDS_REVIEW_SUBSTATE } from './formatters/xliff';
 export { JsonFormatter, createJsonFile, mergeJsonFiles } from './formatters/json';
+export { YamlFormatter, createYamlFile, splitYamlPluralMessage } from './formatters/yaml';
+export { PoFormatter, createPoFile, serializePoEntry, updatePoHeaderText } from './formatters/po';
+export { AndroidFormatter, createAndroidStringsFile } from './formatters/android';
+export { IosStringsFormatter, createIosStringsFile } from './formatters/ios-strings';
+export {
+  StringsdictFormatter,
+  createStringsdictFile,
+  applyStringsdictTranslation,
+} from './formatters/stringsdict';
+export {
+  XcstringsFormatter,
+  createXcstringsFile,
+  applyXcstringsTranslations,
+} from './formatters/xcstrings';
+export { ArbFormatter, createArbFile } from './formatters/arb';
+export { PropertiesFormatter, createPropertiesFile } from './formatters/properties';
+export { ResxFormatter, createResxFile } from './formatters/resx';
+export { FluentFormatter, createFluentFile } from './formatters/fluent';
+export { I18nextFormatter, createI18nextFile } from './formatters/i18next';
 export {
   createFormatterRegistry,
   getFormatter,
@@ -82,7 +237,11 @@ export {
   createErrorEntry,
   getStatusEmoji,
   getReportSummary,
+  countTranslationsByProvider,
+  mergeProviderReports,
+  createQualityReport,
 } from './reporter/reporter';
+export * from './reporter/review-sidecar';
 export {
   generateMarkdownReport,
   generateCompactSummary,
@@ -3,26 +3,86 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { loadConfig } from './config/loader';
 import type { ActionConfig } from './config/types';
-import type { TranslationUnit, ExtractResult, TranslationRequest } from './types/translation';
+import type {
+  TranslationUnit,
+  ExtractResult,
+  TranslationRequest,
+  TranslationResponse,
+  TranslatedUnit,
+} from './types/translation';
 import { extractFromPattern, extractFromFile } from './extractors/factory';
-import { diffAgainstStore, getUnitsNeedingTranslation } from './differ/differ';
+import { diffAgainstStore, getUnitsNeedingTranslation, isHumanTranslation } from './differ/differ';
 import {
   createHashStore,
   addToHashStore,
+  getPreviousSource,
+  getTargetHash,
   serializeHashStore,
   parseHashStore,
 } from './differ/hasher';
-import { createOrchestrator } from './translators/factory';
+import { DEFAULT_ROUTE, TranslationRouter } from './translators/router';
+import { createQualityReviewer } from './translators/factory';
+import type { QualityReviewer } from './translators/quality';
+import { sumTokenUsage } from './translators/base';
+import {
+  BatchJobRecord,
+  BatchJobRequest,
+  BatchJobRequestRecord,
+  createBatchJobState,
+  getPendingUnitIds,
+  parseBatchJobState,
+  serializeBatchJobState,
+} from './translators/batch-job';
 import { writeTranslations, createTranslationFile } from './formatters/factory';
 import { createGitClient } from './git/client';
 import { createLoopDetector, shouldSkipFromEnv } from './git/commit-detector';
-import { ReportBuilder, publishToActions, createErrorEntry } from './reporter/reporter';
+import {
+  ReportBuilder,
+  publishToActions,
+  createErrorEntry,
+  countTranslationsByProvider,
+} from './reporter/reporter';
 import { generateMarkdownReport } from './reporter/markdown';
+import {
+  createReviewSidecar,
+  getReviewSidecarPath,
+  parseReviewSidecar,
+  serializeReviewSidecar,
+  updateReviewSidecar,
+} from './reporter/review-sidecar';
+import { getGlossaryEntries, matchesLanguage } from './glossary/glossary';
+import {
+  addToTranslationMemory,
+  applyTranslationMemory,
+  createTranslationMemory,
+  MEMORY_PROVIDER,
+  parseTranslationMemory,
+  serializeTranslationMemory,
+  TranslationMemory,
+  TranslationMemoryLookup,
+} from './memory/translation-memory';
+import {
+  addTmxTranslations,
+  createTmxDocument,
+  getTmxExportPath,
+  getTmxTranslations,
+  loadTmxFile,
+  serializeTmx,
+  TmxDocument,
+} from './memory/tmx';
 import { logger } from './utils/logger';
-import { I18nTranslateError, ValidationError } from './utils/errors';
+import { ConfigError, I18nTranslateError, ValidationError } from './utils/errors';
 import { getOutputFilePath } from './utils/output-path';
+import { readTextFile } from './utils/encoding';
 
 const HASH_STORE_FILE = '.i18n-hashes.json';
+const BATCH_JOB_STATE_FILE = '.i18n-batch-jobs.json';
+const TRANSLATION_MEMORY_FILE = '.i18n-memory.json';
+
+/**
+ * Accepted translations of a run by target language, exported as TMX
+ */
+type TmxExport = Map<string, TmxDocument>;
 
 /**
  * Convert absolute file path to relative path from cwd.
@@ -116,50 +176,106 @@ async function runPipeline(
   const updatedFiles: string[] = [];
 
   // Load or create hash store
-  const hashStore = loadHashStore();
+  const hashStore = loadHashStore(config);
 
-  // Create translator orchestrator
-  const orchestrator = createOrchestrator(config.provider, {
+  // Load the translation memory, when it is enabled
+  const memory = config.memory.enabled ? loadTranslationMemory(config) : undefined;
+  if (memory) {
+    importTmxFiles(config, memory);
+  }
+  const tmxExport: TmxExport | undefined = config.memory.exportTmx ? new Map() : undefined;
+
+  // Create translator orchestrators for the default provider and each route
+  const router = new TranslationRouter(config.provider, config.routes, {
     batchSize: config.translation.batchSize,
     rateLimitPerMinute: config.translation.rateLimitPerMinute,
+    fallbackProviders: config.fallback.providers,
+    circuitBreakerThreshold: config.fallback.circuitBreakerThreshold,
+    maxValidationRetries: config.translation.maxValidationRetries,
   });
 
-  // Validate translator
-  await orchestrator.validate();
+  // Create the reviewer that scores translations, when the review pass is enabled
+  const reviewer = config.review.provider
+    ? createQualityReviewer(config.review.provider, {
+        threshold: config.review.threshold,
+        batchSize: config.translation.batchSize,
+        rateLimitPerMinute: config.translation.rateLimitPerMinute,
+      })
+    : undefined;
+
+  // Validate translators
+  await router.validate(config.files.targetLanguages);
+  await reviewer?.validate();
+
+  let batchJobsChanged = false;
+
+  if (config.translation.mode === 'batch') {
+    for (const route of router.getRouteNames(config.files.targetLanguages)) {
+      const orchestrator = router.getOrchestrator(route);
+      if (!orchestrator.supportsBatchJobs()) {
+        throw new ConfigError(
+          `Batch mode is not supported by the ${orchestrator.getProviderName()} provider`
+        );
+      }
+    }
 
-  // Process each target language
-  for (const targetLanguage of config.files.targetLanguages) {
-    logger.group(`Translating to ${targetLanguage}`);
+    const result = await runBatchJobs(
+      config,
+      router,
+      reviewer,
+      hashStore,
+      memory,
+      tmxExport,
+      reportBuilder
+    );
+    updatedFiles.push(...result.updatedFiles);
+    batchJobsChanged = result.stateChanged;
+  } else {
+    // Process each target language
+    for (const targetLanguage of config.files.targetLanguages) {
+      logger.group(`Translating to ${targetLanguage}`);
+
+      try {
+        const files = await processLanguage(
+          config,
+          targetLanguage,
+          router,
+          reviewer,
+          hashStore,
+          memory,
+          tmxExport,
+          reportBuilder
+        );
+        updatedFiles.push(...files);
+      } catch (error) {
+        logger.error(`Failed to process ${targetLanguage}: ${error}`);
+        reportBuilder.addError(
+          createErrorEntry(
+            error instanceof Error ? error : new Error(String(error)),
+            'LANGUAGE_PROCESSING_ERROR',
+            undefined,
+            targetLanguage
+          )
+        );
+      }
 
-    try {
-      const files = await processLanguage(
-        config,
-        targetLanguage,
-        orchestrator,
-        hashStore,
-        reportBuilder
-      );
-      updatedFiles.push(...files);
-    } catch (error) {
-      logger.error(`Failed to process ${targetLanguage}: ${error}`);
-      reportBuilder.addError(
-        createErrorEntry(
-          error instanceof Error ? error : new Error(String(error)),
-          'LANGUAGE_PROCESSING_ERROR',
-          undefined,
-          targetLanguage
-        )
-      );
+      logger.groupEnd();
     }
-
-    logger.groupEnd();
   }
 
   // Save hash store
   saveHashStore(hashStore);
 
+  if (memory && !config.dryRun) {
+    saveTranslationMemory(memory);
+  }
+
+  if (tmxExport && config.memory.exportTmx && !config.dryRun) {
+    exportTmxFiles(config, config.memory.exportTmx, tmxExport);
+  }
+
   // Commit changes if enabled and not dry run
-  if (config.git.enabled && !config.dryRun && updatedFiles.length > 0) {
+  if (config.git.enabled && !config.dryRun && (updatedFiles.length > 0 || batchJobsChanged)) {
     await commitChanges(config, updatedFiles, reportBuilder);
   } else if (config.dryRun) {
     logger.info('Dry run mode - skipping commit');
@@ -174,8 +290,11 @@ async function runPipeline(
 async function processLanguage(
   config: ActionConfig,
   targetLanguage: string,
-  orchestrator: ReturnType<typeof createOrchestrator>,
+  router: TranslationRouter,
+  reviewer: QualityReviewer | undefined,
   hashStore: ReturnType<typeof createHashStore>,
+  memory: TranslationMemory | undefined,
+  tmxExport: TmxExport | undefined,
   reportBuilder: ReportBuilder
 ): Promise<string[]> {
   const updatedFiles: string[] = [];
@@ -200,8 +319,11 @@ async function processLanguage(
         config,
         extractResult,
         targetLanguage,
-        orchestrator,
+        router,
+        reviewer,
         hashStore,
+        memory,
+        tmxExport,
         reportBuilder
       );
 
@@ -224,6 +346,18 @@ async function processLanguage(
   return updatedFiles;
 }
 
+/**
+ * Units of a source file that need translation into one target language
+ */
+interface FileTranslationRequest {
+  extractResult: ExtractResult;
+  targetLanguage: string;
+  outputFilePath: string;
+  /** Source file path relative to the working directory, as used in the hash store */
+  relativeFilePath: string;
+  request: TranslationRequest;
+}
+
 /**
  * Process a single file
  */
@@ -231,31 +365,32 @@ async function processFile(
   config: ActionConfig,
   extractResult: ExtractResult,
   targetLanguage: string,
-  orchestrator: ReturnType<typeof createOrchestrator>,
+  router: TranslationRouter,
+  reviewer: QualityReviewer | undefined,
   hashStore: ReturnType<typeof createHashStore>,
+  memory: TranslationMemory | undefined,
+  tmxExport: TmxExport | undefined,
   reportBuilder: ReportBuilder
 ): Promise<string | null> {
   logger.info(`Processing ${extractResult.filePath}`);
 
-  // Generate the language-specific output file path
-  const outputFilePath = getOutputFilePath(
-    extractResult.filePath,
-    targetLanguage,
-    config.files.sourceLanguage
-  );
+  const file = prepareFile(config, extractResult, targetLanguage, hashStore);
 
-  // Diff against hash store to find changes
-  // Use relative path for portable hash store keys
-  const relativeFilePath = toRelativePath(extractResult.filePath);
-  const diffResult = diffAgainstStore(relativeFilePath, extractResult.units, hashStore);
-
-  // Get units that need translation
-  const unitsToTranslate = getUnitsNeedingTranslation(diffResult);
+  if (memory) {
+    const pendingIds = new Set(file?.request.units.map(unit => unit.id));
+    seedTranslationMemory(config, memory, extractResult, targetLanguage, pendingIds);
+  }
 
-  if (unitsToTranslate.length === 0) {
+  if (!file) {
     logger.info(`No changes detected in ${extractResult.filePath}`);
     reportBuilder.addFileReport({
-      filePath: outputFilePath,
+      filePath: getOutputFilePath(
+        extractResult.filePath,
+        targetLanguage,
+        config.files.sourceLanguage,
+        config.files.layout,
+        extractResult.formatInfo.format
+      ),
       targetLanguage,
       unitsProcessed: extractResult.units.length,
       unitsTranslated: 0,
@@ -265,32 +400,319 @@ async function processFile(
     return null;
   }
 
-  logger.info(`Found ${unitsToTranslate.length} unit(s) to translate`);
+  logger.info(`Found ${file.request.units.length} unit(s) to translate`);
+
+  // Reuse exact matches from the translation memory; the other units are sent with
+  // their near matches
+  const lookup = memory
+    ? lookUpTranslationMemory(config, memory, file.request, reportBuilder)
+    : undefined;
 
-  // Create translation request
-  const request: TranslationRequest = {
-    units: unitsToTranslate,
-    sourceLanguage: config.files.sourceLanguage,
+  // Translate with the provider of the file's route
+  const route = router.resolve(file.relativeFilePath, targetLanguage);
+  const response = await router.getOrchestrator(route).translate(lookup?.request ?? file.request);
+
+  if (config.routes.length > 0) {
+    reportBuilder.addRouteUsage(route, response);
+  }
+
+  return applyTranslations(
+    config,
+    file,
+    { ...response, translations: [...(lookup?.reused ?? []), ...response.translations] },
+    reviewer,
+    hashStore,
+    memory,
+    tmxExport,
+    reportBuilder
+  );
+}
+
+/**
+ * Find the units of a file that need translation, leaving out the given unit IDs.
+ * Returns null when there is nothing to translate.
+ */
+function prepareFile(
+  config: ActionConfig,
+  extractResult: ExtractResult,
+  targetLanguage: string,
+  hashStore: ReturnType<typeof createHashStore>,
+  excludeIds?: Set<string>
+): FileTranslationRequest | null {
+  // Diff against hash store to find changes
+  // Use relative path for portable hash store keys
+  const relativeFilePath = toRelativePath(extractResult.filePath);
+  const diffResult = diffAgainstStore(
+    relativeFilePath,
     targetLanguage,
-    context: config.translation.context,
-    preserveFormatting: config.translation.preserveFormatting,
-    preservePlaceholders: config.translation.preservePlaceholders,
+    extractResult.units,
+    hashStore
+  );
+
+  // Get units that need translation
+  let unitsToTranslate = getUnitsNeedingTranslation(diffResult, targetLanguage).filter(
+    unit => !excludeIds?.has(unit.id)
+  );
+
+  // Send changed units with their existing translation, and protect those of reviewers
+  if (unitsToTranslate.length > 0) {
+    unitsToTranslate = reviseTranslations(
+      config,
+      extractResult,
+      targetLanguage,
+      hashStore,
+      unitsToTranslate
+    );
+  }
+
+  if (unitsToTranslate.length === 0) {
+    return null;
+  }
+
+  return createFileRequest(config, extractResult, targetLanguage, unitsToTranslate);
+}
+
+/**
+ * Create the translation request for units of a file
+ */
+function createFileRequest(
+  config: ActionConfig,
+  extractResult: ExtractResult,
+  targetLanguage: string,
+  units: TranslationUnit[]
+): FileTranslationRequest {
+  return {
+    extractResult,
+    targetLanguage,
+    // Generate the language-specific output file path
+    outputFilePath: getOutputFilePath(
+      extractResult.filePath,
+      targetLanguage,
+      config.files.sourceLanguage,
+      config.files.layout,
+      extractResult.formatInfo.format
+    ),
+    relativeFilePath: toRelativePath(extractResult.filePath),
+    request: {
+      units,
+      sourceLanguage: config.files.sourceLanguage,
+      targetLanguage,
+      context: config.translation.context,
+      preserveFormatting: config.translation.preserveFormatting,
+      preservePlaceholders: config.translation.preservePlaceholders,
+      glossary: getGlossaryEntries(config.glossary, targetLanguage),
+      styleGuide: config.translation.styleGuide,
+      examples: config.translation.examples.filter(example =>
+        matchesLanguage(example, targetLanguage)
+      ),
+    },
   };
+}
+
+/**
+ * Look up the units of a request in the translation memory and report the units it
+ * served
+ */
+function lookUpTranslationMemory(
+  config: ActionConfig,
+  memory: TranslationMemory,
+  request: TranslationRequest,
+  reportBuilder: ReportBuilder
+): TranslationMemoryLookup {
+  const lookup = applyTranslationMemory(memory, request, config.memory);
+
+  reportBuilder.addMemoryUsage({
+    reusedUnits: lookup.reused.length,
+    referencedUnits: lookup.referencedUnits,
+    estimatedTokensSaved: lookup.estimatedTokensSaved,
+  });
+  if (lookup.reused.length > 0) {
+    logger.info(`Reused ${lookup.reused.length} translation(s) from the translation memory`);
+  }
+
+  return lookup;
+}
+
+/**
+ * Read the units of a file's existing output file by ID, with their translation as
+ * target: the targets of bilingual formats such as XLIFF and PO, or the messages of
+ * other formats. Returns an empty map when the output file does not exist or cannot
+ * be read.
+ */
+function readExistingTranslations(
+  config: ActionConfig,
+  extractResult: ExtractResult,
+  targetLanguage: string
+): Map<string, TranslationUnit> {
+  const outputFilePath = getOutputFilePath(
+    extractResult.filePath,
+    targetLanguage,
+    config.files.sourceLanguage,
+    config.files.layout,
+    extractResult.formatInfo.format
+  );
+  if (!fs.existsSync(path.resolve(outputFilePath))) {
+    return new Map();
+  }
+
+  let existing: ExtractResult;
+  try {
+    existing = extractFromFile(outputFilePath, targetLanguage, {
+      format: config.files.format === 'auto' ? undefined : config.files.format,
+    });
+  } catch (error) {
+    logger.debug(`Failed to read existing translations from ${outputFilePath}: ${error}`);
+    return new Map();
+  }
+
+  const bilingual = existing.units.some(unit => unit.target !== undefined);
+  return new Map(
+    existing.units.map(unit => [unit.id, bilingual ? unit : { ...unit, target: unit.source }])
+  );
+}
+
+/**
+ * Add the translations of a file's up-to-date units to the translation memory,
+ * from its existing output file
+ */
+function seedTranslationMemory(
+  config: ActionConfig,
+  memory: TranslationMemory,
+  extractResult: ExtractResult,
+  targetLanguage: string,
+  pendingIds: Set<string>
+): void {
+  const existing = readExistingTranslations(config, extractResult, targetLanguage);
+
+  addToTranslationMemory(
+    memory,
+    targetLanguage,
+    extractResult.units.flatMap(unit => {
+      const target = existing.get(unit.id)?.target;
+      return target && !pendingIds.has(unit.id)
+        ? [{ source: unit.source, target, context: unit.context }]
+        : [];
+    })
+  );
+}
+
+/**
+ * Attach the existing translation of each unit to translate whose source changed,
+ * with the source it was made for, so that it is changed minimally. Translations a
+ * reviewer edited or approved are left out in skip mode, and sent as reviewed in
+ * update mode.
+ */
+function reviseTranslations(
+  config: ActionConfig,
+  extractResult: ExtractResult,
+  targetLanguage: string,
+  hashStore: ReturnType<typeof createHashStore>,
+  units: TranslationUnit[]
+): TranslationUnit[] {
+  const existing = readExistingTranslations(config, extractResult, targetLanguage);
+  const relativeFilePath = toRelativePath(extractResult.filePath);
+  const humanIds: string[] = [];
+
+  const result = units.flatMap(unit => {
+    const translation = existing.get(unit.id);
+    if (!translation?.target) {
+      return [unit];
+    }
+
+    const targetHash = getTargetHash(hashStore, relativeFilePath, targetLanguage, unit.id);
+    const reviewed =
+      config.translation.humanEdits !== 'overwrite' && isHumanTranslation(translation, targetHash);
+    if (reviewed) {
+      humanIds.push(unit.id);
+      if (config.translation.humanEdits === 'skip') {
+        return [];
+      }
+    }
+
+    const previousSource = getPreviousSource(hashStore, relativeFilePath, targetLanguage, unit.id);
+    if (!reviewed && (previousSource === undefined || previousSource === unit.source)) {
+      return [unit];
+    }
+
+    return [
+      {
+        ...unit,
+        metadata: {
+          ...unit.metadata,
+          revision: { previousSource, translation: translation.target, reviewed },
+        },
+      },
+    ];
+  });
 
-  // Translate
-  const response = await orchestrator.translate(request);
+  if (humanIds.length > 0) {
+    logger.info(
+      `${config.translation.humanEdits === 'skip' ? 'Keeping' : 'Updating'} ${humanIds.length} translation(s) edited or approved by a reviewer: ${humanIds.join(', ')}`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Check whether a translation needs review: it scored below the review threshold,
+ * or it was kept with issues such as ignored glossary terms
+ */
+function needsReview(translation: TranslatedUnit, reviewer: QualityReviewer | undefined): boolean {
+  return (translation.issues?.length ?? 0) > 0 || (reviewer?.needsReview(translation) ?? false);
+}
+
+/**
+ * Review the translations of a file, write them to its output file and update the
+ * hash store. Returns the output file path when translations were written.
+ */
+async function applyTranslations(
+  config: ActionConfig,
+  file: FileTranslationRequest,
+  translated: TranslationResponse,
+  reviewer: QualityReviewer | undefined,
+  hashStore: ReturnType<typeof createHashStore>,
+  memory: TranslationMemory | undefined,
+  tmxExport: TmxExport | undefined,
+  reportBuilder: ReportBuilder
+): Promise<string | null> {
+  const { extractResult, targetLanguage, outputFilePath, relativeFilePath } = file;
+  const unitsToTranslate = file.request.units;
+
+  // Score the translations; those below the threshold are marked for review
+  const response = reviewer ? await reviewer.review(file.request, translated) : translated;
+  if (reviewer) {
+    reportBuilder.addQualityScores(response.translations, reviewer.getThreshold());
+  }
 
   reportBuilder.addTokenUsage(response.usage);
 
+  for (const failure of response.failures ?? []) {
+    reportBuilder.addError(
+      createErrorEntry(
+        new Error(failure.reason),
+        failure.issues ? 'VALIDATION_FAILED' : 'TRANSLATION_FAILED',
+        failure.id,
+        extractResult.filePath
+      )
+    );
+  }
+
   logger.info(
     `Received ${response.translations.length} translation(s) for ${unitsToTranslate.length} unit(s)`
   );
 
   // Merge translations with original units
-  const translationMap = new Map(response.translations.map(t => [t.id, t.target]));
+  const translationMap = new Map(response.translations.map(t => [t.id, t]));
   const updatedUnits: TranslationUnit[] = extractResult.units.map(unit => {
     const translation = translationMap.get(unit.id);
-    return translation ? { ...unit, target: translation } : unit;
+    return translation
+      ? {
+          ...unit,
+          target: translation.target,
+          metadata: { ...unit.metadata, needsReview: needsReview(translation, reviewer) },
+        }
+      : unit;
   });
 
   // Log how many units actually got translations
@@ -303,7 +725,7 @@ async function processFile(
 
     if (fs.existsSync(absoluteOutputPath)) {
       // Output file exists - read it and merge translations
-      const existingContent = fs.readFileSync(absoluteOutputPath, 'utf-8');
+      const { content: existingContent } = readTextFile(absoluteOutputPath);
       const existingExtract = extractFromFile(outputFilePath, targetLanguage, {
         format: config.files.format === 'auto' ? undefined : config.files.format,
       });
@@ -332,34 +754,396 @@ async function processFile(
         extractResult.formatInfo.format,
         config.files.sourceLanguage,
         targetLanguage,
-        { markAsTranslated: true }
+        {
+          markAsTranslated: true,
+          template: {
+            content: extractResult.originalContent,
+            encoding: extractResult.formatInfo.encoding,
+          },
+        }
       );
     }
 
-    // Update hash store only for units that successfully got translations
-    const successfullyTranslatedUnits = updatedUnits.filter(u => u.target);
+    // XLIFF files record the review state; other formats get a sidecar file
+    const { format } = extractResult.formatInfo;
+    if (format !== 'xliff-1.2' && format !== 'xliff-2.0') {
+      saveReviewSidecar(outputFilePath, response.translations, reviewer);
+    }
+
+    // Update hash store only for units that successfully got translations. Targets are
+    // hashed as they read back from the output file, since formats may normalize them
+    // (such as the plural forms of gettext), so they are not taken for reviewer edits.
+    const written = readExistingTranslations(config, extractResult, targetLanguage);
+    const successfullyTranslatedUnits = updatedUnits
+      .filter(u => u.target)
+      .map(u => ({ ...u, target: written.get(u.id)?.target ?? u.target }));
     if (successfullyTranslatedUnits.length > 0) {
-      addToHashStore(hashStore, relativeFilePath, successfullyTranslatedUnits);
+      addToHashStore(hashStore, relativeFilePath, targetLanguage, successfullyTranslatedUnits);
       logger.info(
         `Updated hash store with ${successfullyTranslatedUnits.length}/${extractResult.units.length} translated units`
       );
     }
+
+    // Remember the translations for later runs, except those that need review
+    const accepted = response.translations.filter(t => !needsReview(t, reviewer));
+    if (memory) {
+      const contexts = new Map(unitsToTranslate.map(u => [u.id, u.context]));
+      addToTranslationMemory(
+        memory,
+        targetLanguage,
+        accepted.map(t => ({ source: t.source, target: t.target, context: contexts.get(t.id) }))
+      );
+    }
+    if (tmxExport) {
+      const placeholders = new Map(unitsToTranslate.map(u => [u.id, u.metadata.placeholders]));
+      const document =
+        tmxExport.get(targetLanguage) ?? createTmxDocument(config.files.sourceLanguage);
+      addTmxTranslations(
+        document,
+        targetLanguage,
+        accepted.map(t => ({
+          source: t.source,
+          target: t.target,
+          placeholders: placeholders.get(t.id),
+        }))
+      );
+      tmxExport.set(targetLanguage, document);
+    }
   }
 
   // Report
   const skipped = extractResult.units.length - unitsToTranslate.length;
-  const failed = unitsToTranslate.length - response.translations.length;
+  const failed = unitsToTranslate.length - translationMap.size;
 
   reportBuilder.addFileReport({
     filePath: outputFilePath,
     targetLanguage,
     unitsProcessed: extractResult.units.length,
-    unitsTranslated: response.translations.length,
+    unitsTranslated: translationMap.size,
     unitsFailed: failed,
     unitsSkipped: skipped,
+    providers: countTranslationsByProvider(
+      response.translations.filter(t => translationMap.has(t.id)),
+      response
+    ),
   });
 
-  return response.translations.length > 0 ? outputFilePath : null;
+  return translationMap.size > 0 ? outputFilePath : null;
+}
+
+/**
+ * Run batch mode: collect the results of ended batch jobs, then submit the units
+ * that still need translation as a new batch job
+ */
+async function runBatchJobs(
+  config: ActionConfig,
+  router: TranslationRouter,
+  reviewer: QualityReviewer | undefined,
+  hashStore: ReturnType<typeof createHashStore>,
+  memory: TranslationMemory | undefined,
+  tmxExport: TmxExport | undefined,
+  reportBuilder: ReportBuilder
+): Promise<{ updatedFiles: string[]; stateChanged: boolean }> {
+  const state = loadBatchJobState();
+  const updatedFiles: string[] = [];
+  let stateChanged = false;
+
+  for (const job of [...state.jobs]) {
+    logger.group(`Collecting batch job ${job.id}`);
+    if (
+      await collectBatchJob(
+        config,
+        job,
+        router,
+        reviewer,
+        hashStore,
+        memory,
+        tmxExport,
+        reportBuilder,
+        updatedFiles
+      )
+    ) {
+      state.jobs = state.jobs.filter(j => j !== job);
+      stateChanged = true;
+    }
+    logger.groupEnd();
+  }
+
+  // Units waiting in a job are not submitted again
+  const files: FileTranslationRequest[] = [];
+  for (const targetLanguage of config.files.targetLanguages) {
+    const extractResults = await extractFromPattern(config.files.pattern, targetLanguage, {
+      format: config.files.format === 'auto' ? undefined : config.files.format,
+      exclude: config.files.exclude,
+    });
+
+    for (const extractResult of extractResults) {
+      const pendingIds = getPendingUnitIds(
+        state,
+        toRelativePath(extractResult.filePath),
+        targetLanguage
+      );
+      const file = prepareFile(config, extractResult, targetLanguage, hashStore, pendingIds);
+
+      if (memory) {
+        const excludedIds = new Set([...pendingIds, ...(file?.request.units.map(u => u.id) ?? [])]);
+        seedTranslationMemory(config, memory, extractResult, targetLanguage, excludedIds);
+      }
+
+      if (!file) {
+        continue;
+      }
+
+      if (!memory) {
+        files.push(file);
+        continue;
+      }
+
+      // Exact matches from the translation memory are written now, the rest is submitted
+      const lookup = lookUpTranslationMemory(config, memory, file.request, reportBuilder);
+      if (lookup.reused.length > 0) {
+        const reusedIds = new Set(lookup.reused.map(t => t.id));
+        const outputFilePath = await applyTranslations(
+          config,
+          {
+            ...file,
+            request: {
+              ...file.request,
+              units: file.request.units.filter(unit => reusedIds.has(unit.id)),
+            },
+          },
+          { translations: lookup.reused, provider: MEMORY_PROVIDER, model: 'exact match' },
+          reviewer,
+          hashStore,
+          memory,
+          tmxExport,
+          reportBuilder
+        );
+        if (outputFilePath) {
+          updatedFiles.push(outputFilePath);
+        }
+      }
+      if (lookup.request.units.length > 0) {
+        files.push({ ...file, request: lookup.request });
+      }
+    }
+  }
+
+  // Each route's units are submitted as a job of its own provider
+  const routeFiles = new Map<string, FileTranslationRequest[]>();
+  for (const file of files) {
+    const route = router.resolve(file.relativeFilePath, file.targetLanguage);
+    routeFiles.set(route, [...(routeFiles.get(route) ?? []), file]);
+  }
+
+  if (files.length === 0) {
+    logger.info('No new units to submit');
+  }
+
+  for (const [route, routeRequests] of routeFiles) {
+    const unitCount = routeRequests.reduce((sum, file) => sum + file.request.units.length, 0);
+    if (config.dryRun) {
+      logger.info(`Dry run mode - skipping submission of ${unitCount} unit(s) as a batch job`);
+      continue;
+    }
+
+    const orchestrator = router.getOrchestrator(route);
+    try {
+      const job = await orchestrator.submitBatchJob(routeRequests.map(file => file.request));
+      state.jobs.push({
+        id: job.id,
+        provider: orchestrator.getProviderName(),
+        model: orchestrator.getModel(),
+        route,
+        submittedAt: new Date().toISOString(),
+        requests: job.requests.flatMap(({ customId, requestIndex, request }) => {
+          const file = routeRequests[requestIndex];
+          return file
+            ? [
+                {
+                  customId,
+                  filePath: file.relativeFilePath,
+                  targetLanguage: file.targetLanguage,
+                  units: Object.fromEntries(request.units.map(unit => [unit.id, unit.hash])),
+                },
+              ]
+            : [];
+        }),
+      });
+      stateChanged = true;
+      logger.info(`Submitted ${unitCount} unit(s) as batch job ${job.id} (route ${route})`);
+    } catch (error) {
+      logger.error(`Failed to submit batch job: ${error}`);
+      reportBuilder.addError(
+        createErrorEntry(
+          error instanceof Error ? error : new Error(String(error)),
+          'BATCH_JOB_ERROR'
+        )
+      );
+    }
+  }
+
+  core.setOutput('pending-batch-jobs', state.jobs.length);
+  if (state.jobs.length > 0) {
+    logger.info(`${state.jobs.length} batch job(s) pending; run again later to collect them`);
+  }
+
+  if (stateChanged && !config.dryRun) {
+    saveBatchJobState(state);
+  }
+
+  return { updatedFiles, stateChanged };
+}
+
+/**
+ * Collect the results of a batch job if it has ended and write them through the
+ * formatters. Returns whether the job is done and can be removed from the state.
+ */
+async function collectBatchJob(
+  config: ActionConfig,
+  job: BatchJobRecord,
+  router: TranslationRouter,
+  reviewer: QualityReviewer | undefined,
+  hashStore: ReturnType<typeof createHashStore>,
+  memory: TranslationMemory | undefined,
+  tmxExport: TmxExport | undefined,
+  reportBuilder: ReportBuilder,
+  updatedFiles: string[]
+): Promise<boolean> {
+  try {
+    const orchestrator = router.getOrchestrator(job.route ?? DEFAULT_ROUTE);
+    const status = await orchestrator.getBatchJobStatus(job.id);
+
+    if (status === 'in_progress') {
+      logger.info(`Batch job ${job.id} is still in progress`);
+      return false;
+    }
+
+    if (status === 'failed') {
+      // Its units are submitted again, since they are still missing from the hash store
+      logger.error(`Batch job ${job.id} failed`);
+      reportBuilder.addError(
+        createErrorEntry(new Error(`Batch job ${job.id} failed`), 'BATCH_JOB_ERROR')
+      );
+      return true;
+    }
+
+    // Group the job's requests by source file and target language
+    const groups = new Map<string, BatchJobRequestRecord[]>();
+    for (const record of job.requests) {
+      const key = `${record.filePath}\0${record.targetLanguage}`;
+      groups.set(key, [...(groups.get(key) ?? []), record]);
+    }
+
+    const files: Array<{ file: FileTranslationRequest; customIds: string[] }> = [];
+    const requests: BatchJobRequest[] = [];
+
+    for (const records of groups.values()) {
+      const { filePath, targetLanguage } = records[0] as BatchJobRequestRecord;
+
+      let extractResult: ExtractResult;
+      try {
+        extractResult = extractFromFile(filePath, targetLanguage, {
+          format: config.files.format === 'auto' ? undefined : config.files.format,
+        });
+      } catch (error) {
+        logger.error(`Failed to process ${filePath}: ${error}`);
+        reportBuilder.addError(
+          createErrorEntry(
+            error instanceof Error ? error : new Error(String(error)),
+            'FILE_PROCESSING_ERROR',
+            undefined,
+            filePath
+          )
+        );
+        continue;
+      }
+
+      // Units whose source changed since submission are left for a new job
+      const fileUnits: TranslationUnit[] = [];
+      for (const record of records) {
+        const units = extractResult.units.filter(unit => record.units[unit.id] === unit.hash);
+        if (units.length > 0) {
+          fileUnits.push(...units);
+          requests.push({
+            customId: record.customId,
+            request: createFileRequest(config, extractResult, targetLanguage, units).request,
+          });
+        }
+      }
+
+      if (fileUnits.length > 0) {
+        files.push({
+          file: createFileRequest(config, extractResult, targetLanguage, fileUnits),
+          customIds: records.map(record => record.customId),
+        });
+      }
+    }
+
+    const results = await orchestrator.getBatchJobResults(job.id, requests);
+
+    for (const { file, customIds } of files) {
+      logger.info(`Processing ${file.extractResult.filePath} (${file.targetLanguage})`);
+      try {
+        const responses = customIds.flatMap(id => results.get(id) ?? []);
+        const response = await orchestrator.correctTranslations(
+          file.request,
+          combineResponses(responses, job)
+        );
+        if (config.routes.length > 0) {
+          reportBuilder.addRouteUsage(job.route ?? DEFAULT_ROUTE, response);
+        }
+
+        const outputFilePath = await applyTranslations(
+          config,
+          file,
+          response,
+          reviewer,
+          hashStore,
+          memory,
+          tmxExport,
+          reportBuilder
+        );
+        if (outputFilePath) {
+          updatedFiles.push(outputFilePath);
+        }
+      } catch (error) {
+        logger.error(`Failed to process ${file.extractResult.filePath}: ${error}`);
+        reportBuilder.addError(
+          createErrorEntry(
+            error instanceof Error ? error : new Error(String(error)),
+            'FILE_PROCESSING_ERROR',
+            undefined,
+            file.extractResult.filePath
+          )
+        );
+      }
+    }
+
+    return true;
+  } catch (error) {
+    logger.error(`Failed to collect batch job ${job.id}: ${error}`);
+    reportBuilder.addError(
+      createErrorEntry(error instanceof Error ? error : new Error(String(error)), 'BATCH_JOB_ERROR')
+    );
+    return false;
+  }
+}
+
+/**
+ * Combine the responses of a file's batch job requests
+ */
+function combineResponses(
+  responses: TranslationResponse[],
+  job: BatchJobRecord
+): TranslationResponse {
+  return {
+    translations: responses.flatMap(response => response.translations),
+    failures: responses.flatMap(response => response.failures ?? []),
+    usage: sumTokenUsage(responses.map(response => response.usage)),
+    provider: job.provider,
+    model: job.model,
+  };
 }
 
 /**
@@ -379,8 +1163,13 @@ function mergeTranslationUnits(
   for (const existing of existingUnits) {
     const newUnit = newUnitsMap.get(existing.id);
     if (newUnit && newUnit.target) {
-      // Update with new translation
-      result.push({ ...existing, target: newUnit.target, source: newUnit.source });
+      // Update with new translation and its review state
+      result.push({
+        ...existing,
+        target: newUnit.target,
+        source: newUnit.source,
+        metadata: { ...existing.metadata, needsReview: newUnit.metadata.needsReview },
+      });
     } else {
       // Keep existing
       result.push(existing);
@@ -421,11 +1210,22 @@ async function commitChanges(
     // Configure user if specified
     await gitClient.configureUser();
 
-    // Include hash store file in commit
+    // Include review sidecars and the hash store file in commit
     const filesToCommit = [...files];
+    for (const file of files) {
+      if (fs.existsSync(getReviewSidecarPath(file))) {
+        filesToCommit.push(getReviewSidecarPath(file));
+      }
+    }
     if (fs.existsSync(HASH_STORE_FILE)) {
       filesToCommit.push(HASH_STORE_FILE);
     }
+    if (fs.existsSync(BATCH_JOB_STATE_FILE)) {
+      filesToCommit.push(BATCH_JOB_STATE_FILE);
+    }
+    if (fs.existsSync(TRANSLATION_MEMORY_FILE)) {
+      filesToCommit.push(TRANSLATION_MEMORY_FILE);
+    }
 
     // Stage and commit
     const result = await gitClient.stageAndCommit(filesToCommit);
@@ -448,11 +1248,24 @@ async function commitChanges(
 /**
  * Load hash store from file
  */
-function loadHashStore(): ReturnType<typeof createHashStore> {
+function loadHashStore(config: ActionConfig): ReturnType<typeof createHashStore> {
   try {
     if (fs.existsSync(HASH_STORE_FILE)) {
       const content = fs.readFileSync(HASH_STORE_FILE, 'utf-8');
-      return parseHashStore(content);
+      return parseHashStore(content, {
+        // Version 1 stores only apply to languages whose output file was actually written
+        resolveLanguages: filePath =>
+          config.files.targetLanguages.filter(language =>
+            fs.existsSync(
+              getOutputFilePath(
+                filePath,
+                language,
+                config.files.sourceLanguage,
+                config.files.layout
+              )
+            )
+          ),
+      });
     }
   } catch (error) {
     logger.warning(`Failed to load hash store: ${error}`);
@@ -461,6 +1274,132 @@ function loadHashStore(): ReturnType<typeof createHashStore> {
   return createHashStore();
 }
 
+/**
+ * Load batch job state from file
+ */
+function loadBatchJobState(): ReturnType<typeof createBatchJobState> {
+  try {
+    if (fs.existsSync(BATCH_JOB_STATE_FILE)) {
+      return parseBatchJobState(fs.readFileSync(BATCH_JOB_STATE_FILE, 'utf-8'));
+    }
+  } catch (error) {
+    logger.warning(`Failed to load batch job state: ${error}`);
+  }
+
+  return createBatchJobState();
+}
+
+/**
+ * Save batch job state to file
+ */
+function saveBatchJobState(state: ReturnType<typeof createBatchJobState>): void {
+  try {
+    fs.writeFileSync(BATCH_JOB_STATE_FILE, serializeBatchJobState(state), 'utf-8');
+    logger.debug('Saved batch job state');
+  } catch (error) {
+    logger.warning(`Failed to save batch job state: ${error}`);
+  }
+}
+
+/**
+ * Load the translation memory from file
+ */
+function loadTranslationMemory(config: ActionConfig): TranslationMemory {
+  try {
+    if (fs.existsSync(TRANSLATION_MEMORY_FILE)) {
+      return parseTranslationMemory(
+        fs.readFileSync(TRANSLATION_MEMORY_FILE, 'utf-8'),
+        config.files.sourceLanguage
+      );
+    }
+  } catch (error) {
+    logger.warning(`Failed to load translation memory: ${error}`);
+  }
+
+  return createTranslationMemory(config.files.sourceLanguage);
+}
+
+/**
+ * Seed the translation memory with the translations of the configured TMX files
+ */
+function importTmxFiles(config: ActionConfig, memory: TranslationMemory): void {
+  for (const filePath of config.memory.importTmx) {
+    const document = loadTmxFile(filePath);
+    for (const targetLanguage of config.files.targetLanguages) {
+      const translations = getTmxTranslations(
+        document,
+        config.files.sourceLanguage,
+        targetLanguage
+      );
+      addToTranslationMemory(memory, targetLanguage, translations);
+      if (translations.length > 0) {
+        logger.info(
+          `Imported ${translations.length} ${targetLanguage} translation(s) from ${filePath}`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Write the accepted translations of the run as a TMX file per language pair
+ */
+function exportTmxFiles(config: ActionConfig, directory: string, tmxExport: TmxExport): void {
+  for (const [targetLanguage, document] of tmxExport) {
+    if (document.units.length === 0) {
+      continue;
+    }
+
+    const filePath = getTmxExportPath(directory, config.files.sourceLanguage, targetLanguage);
+    try {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, serializeTmx(document), 'utf-8');
+      logger.info(`Exported ${document.units.length} translation(s) to ${filePath}`);
+    } catch (error) {
+      logger.warning(`Failed to export translations to ${filePath}: ${error}`);
+    }
+  }
+}
+
+/**
+ * Save the translation memory to file
+ */
+function saveTranslationMemory(memory: TranslationMemory): void {
+  try {
+    fs.writeFileSync(TRANSLATION_MEMORY_FILE, serializeTranslationMemory(memory), 'utf-8');
+    logger.debug('Saved translation memory');
+  } catch (error) {
+    logger.warning(`Failed to save translation memory: ${error}`);
+  }
+}
+
+/**
+ * Record the translations of an output file that need review in its sidecar file
+ */
+function saveReviewSidecar(
+  outputFilePath: string,
+  translations: TranslationResponse['translations'],
+  reviewer: QualityReviewer | undefined
+): void {
+  const sidecarPath = getReviewSidecarPath(outputFilePath);
+
+  try {
+    const exists = fs.existsSync(sidecarPath);
+    const sidecar = exists
+      ? parseReviewSidecar(fs.readFileSync(sidecarPath, 'utf-8'))
+      : createReviewSidecar();
+
+    updateReviewSidecar(sidecar, translations, t => needsReview(t, reviewer));
+
+    if (exists || Object.keys(sidecar.units).length > 0) {
+      fs.writeFileSync(sidecarPath, serializeReviewSidecar(sidecar), 'utf-8');
+      logger.debug(`Saved review sidecar ${sidecarPath}`);
+    }
+  } catch (error) {
+    logger.warning(`Failed to save review sidecar ${sidecarPath}: ${error}`);
+  }
+}
+
 /**
  * Save hash store to file
  */
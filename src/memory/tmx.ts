@@ -0,0 +1,427 @@
+/**
+ * TMX 1.4b reading and writing
+ *
+ * Reads the translation units of TMX files to seed the translation memory, and
+ * writes the accepted translations of a run as TMX per language pair. Inline tags
+ * are mapped to the same placeholder markers as those of the XLIFF extractor.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import { ConfigError } from '../utils/errors';
+import type { XliffPlaceholder } from '../types/translation';
+
+type XmlNode = Record<string, unknown>;
+
+/**
+ * Text of a segment, with its inline tags replaced by placeholder markers
+ */
+export interface TmxSegment {
+  text: string;
+  placeholders: XliffPlaceholder[];
+}
+
+/**
+ * Segment of a translation unit in one language
+ */
+export interface TmxVariant extends TmxSegment {
+  language: string;
+}
+
+/**
+ * Translation unit with its segment in each language
+ */
+export interface TmxTranslationUnit {
+  id?: string;
+  variants: TmxVariant[];
+}
+
+/**
+ * TMX document
+ */
+export interface TmxDocument {
+  sourceLanguage: string;
+  units: TmxTranslationUnit[];
+}
+
+/**
+ * Translation added to a TMX document, with the placeholders of its unit
+ */
+export interface TmxTranslation {
+  source: string;
+  target: string;
+  placeholders?: XliffPlaceholder[];
+}
+
+/**
+ * TMX inline tags that stand for codes of the original format
+ */
+const INLINE_TAGS = new Set(['bpt', 'ept', 'it', 'ph', 'ut']);
+
+/**
+ * TMX tags of the inline elements of XLIFF 1.2 and 2.0. Others become <ph>.
+ */
+const TMX_TAG_NAMES: Record<string, string> = {
+  bpt: 'bpt',
+  bx: 'bpt',
+  sc: 'bpt',
+  ept: 'ept',
+  ex: 'ept',
+  ec: 'ept',
+  it: 'it',
+};
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  textNodeName: '#text',
+  preserveOrder: true,
+  trimValues: false,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+/**
+ * Get the tag name of a node, which is undefined for text nodes
+ */
+function getTagName(node: XmlNode): string | undefined {
+  return Object.keys(node).find(key => key !== ':@' && key !== '#text');
+}
+
+/**
+ * Get the child nodes of an element
+ */
+function getContent(node: XmlNode | undefined): XmlNode[] {
+  const tagName = node && getTagName(node);
+  const content = tagName ? node[tagName] : undefined;
+  return Array.isArray(content) ? (content as XmlNode[]) : [];
+}
+
+/**
+ * Get the attributes of an element, without their prefix
+ */
+function getAttributes(node: XmlNode): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [key, value] of Object.entries((node[':@'] as XmlNode | undefined) ?? {})) {
+    attributes[key.replace(/^@_/, '')] = String(value);
+  }
+  return attributes;
+}
+
+/**
+ * Get the elements with the given tag name
+ */
+function findElements(nodes: XmlNode[], tagName: string): XmlNode[] {
+  return nodes.filter(node => getTagName(node) === tagName);
+}
+
+/**
+ * Get the text of nodes, including the text of their elements
+ */
+function getTextContent(nodes: XmlNode[]): string {
+  return nodes
+    .map(node => ('#text' in node ? String(node['#text']) : getTextContent(getContent(node))))
+    .join('');
+}
+
+/**
+ * Read the text of a segment, replacing inline tags with markers. Paired tags are
+ * named after their "i" attribute and other tags after their "x" attribute, like
+ * the "id" attribute of XLIFF placeholders.
+ */
+function parseSegment(
+  nodes: XmlNode[],
+  ctx: { placeholders: XliffPlaceholder[]; counter: number }
+): string {
+  let text = '';
+
+  for (const node of nodes) {
+    const tagName = getTagName(node);
+    if (!tagName) {
+      text += '#text' in node ? String(node['#text']) : '';
+      continue;
+    }
+
+    if (!INLINE_TAGS.has(tagName)) {
+      // <hi> and others wrap text to translate
+      text += parseSegment(getContent(node), ctx);
+      continue;
+    }
+
+    const attributes = getAttributes(node);
+    const name =
+      (tagName === 'bpt' || tagName === 'ept' ? attributes['i'] : undefined) ??
+      attributes['x'] ??
+      String(ctx.counter++);
+    const placeholder: XliffPlaceholder = {
+      marker: `{{${name}}}`,
+      tagName,
+      attributes,
+      content: getTextContent(getContent(node)),
+    };
+
+    ctx.placeholders.push(placeholder);
+    text += placeholder.marker;
+  }
+
+  return text;
+}
+
+/**
+ * Parse a TMX document. Segments keep their whitespace.
+ */
+export function parseTmx(content: string): TmxDocument {
+  const tmx = findElements(parser.parse(content) as XmlNode[], 'tmx')[0];
+  if (!tmx) {
+    throw new Error('Missing <tmx> element');
+  }
+
+  const [header] = findElements(getContent(tmx), 'header');
+  const [body] = findElements(getContent(tmx), 'body');
+
+  return {
+    sourceLanguage: header ? (getAttributes(header)['srclang'] ?? '') : '',
+    units: findElements(getContent(body), 'tu').map(tu => ({
+      id: getAttributes(tu)['tuid'],
+      variants: findElements(getContent(tu), 'tuv').flatMap(tuv => {
+        const [seg] = findElements(getContent(tuv), 'seg');
+        if (!seg) {
+          return [];
+        }
+
+        const attributes = getAttributes(tuv);
+        const ctx = { placeholders: [] as XliffPlaceholder[], counter: 0 };
+        const text = parseSegment(getContent(seg), ctx);
+        return [
+          {
+            language: attributes['xml:lang'] ?? attributes['lang'] ?? '',
+            text,
+            placeholders: ctx.placeholders,
+          },
+        ];
+      }),
+    })),
+  };
+}
+
+/**
+ * Find the variant of a unit in a language, or else in one of its regions or its
+ * base language
+ */
+function findVariant(variants: TmxVariant[], language: string): TmxVariant | undefined {
+  const target = language.toLowerCase();
+  return (
+    variants.find(variant => variant.language.toLowerCase() === target) ??
+    variants.find(variant => {
+      const code = variant.language.toLowerCase();
+      return code.startsWith(`${target}-`) || target.startsWith(`${code}-`);
+    })
+  );
+}
+
+/**
+ * Get the source and target texts of the units of a document that have segments in
+ * both languages
+ */
+export function getTmxTranslations(
+  document: TmxDocument,
+  sourceLanguage: string,
+  targetLanguage: string
+): TmxTranslation[] {
+  return document.units.flatMap(unit => {
+    const source = findVariant(unit.variants, sourceLanguage);
+    const target = findVariant(unit.variants, targetLanguage);
+    return source && target && source !== target
+      ? [{ source: source.text, target: target.text }]
+      : [];
+  });
+}
+
+/**
+ * Create an empty TMX document
+ */
+export function createTmxDocument(sourceLanguage: string): TmxDocument {
+  return { sourceLanguage, units: [] };
+}
+
+/**
+ * Add translations to a TMX document, leaving out those it already has
+ */
+export function addTmxTranslations(
+  document: TmxDocument,
+  targetLanguage: string,
+  translations: TmxTranslation[]
+): void {
+  const existing = new Set(
+    document.units.map(unit => JSON.stringify(unit.variants.map(variant => variant.text)))
+  );
+
+  for (const { source, target, placeholders = [] } of translations) {
+    const key = JSON.stringify([source, target]);
+    if (existing.has(key)) {
+      continue;
+    }
+
+    existing.add(key);
+    document.units.push({
+      variants: [
+        { language: document.sourceLanguage, text: source, placeholders },
+        { language: targetLanguage, text: target, placeholders },
+      ],
+    });
+  }
+}
+
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Get the TMX inline tag of each placeholder. Placeholders read from TMX keep their
+ * tag and attributes; those of XLIFF get numbered "i" and "x" attributes, with begin
+ * and end tags of a pair sharing their "i".
+ */
+function toTmxTags(placeholders: XliffPlaceholder[]): XliffPlaceholder[] {
+  const pairs = new Map<string, string>();
+  let counter = 0;
+
+  return placeholders.map(({ marker, tagName, attributes, content }) => {
+    const name = TMX_TAG_NAMES[tagName] ?? 'ph';
+    const tmxAttributes: Record<string, string> = {};
+
+    if (name === 'bpt' || name === 'ept') {
+      const key =
+        attributes['i'] ??
+        attributes['rid'] ??
+        attributes['startRef'] ??
+        attributes['id'] ??
+        marker;
+      if (!pairs.has(key)) {
+        pairs.set(key, attributes['i'] ?? String(pairs.size + 1));
+      }
+      tmxAttributes['i'] = pairs.get(key) ?? key;
+    } else {
+      tmxAttributes['x'] = attributes['x'] ?? String(++counter);
+    }
+    if (name === 'it') {
+      tmxAttributes['pos'] =
+        attributes['pos'] === 'end' || attributes['pos'] === 'close' ? 'end' : 'begin';
+    }
+    if (attributes['type']) {
+      tmxAttributes['type'] = attributes['type'];
+    }
+
+    return {
+      marker,
+      tagName: name,
+      attributes: tmxAttributes,
+      content: content ?? attributes['equiv-text'] ?? attributes['equiv'] ?? '',
+    };
+  });
+}
+
+/**
+ * Write the text of a segment, restoring its markers as inline tags. A marker used
+ * by several placeholders, such as the begin and end tags of a pair, stands for
+ * each of them in turn.
+ */
+function formatSegment(text: string, placeholders: XliffPlaceholder[]): string {
+  if (placeholders.length === 0) {
+    return escapeXml(text);
+  }
+
+  const tags = new Map<string, XliffPlaceholder[]>();
+  for (const tag of toTmxTags(placeholders)) {
+    tags.set(tag.marker, [...(tags.get(tag.marker) ?? []), tag]);
+  }
+
+  const markers = [...tags.keys()].map(marker => marker.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return text
+    .split(new RegExp(`(${markers.join('|')})`, 'g'))
+    .map(part => {
+      const tag = tags.get(part)?.shift();
+      if (!tag) {
+        return escapeXml(part);
+      }
+
+      const attributes = Object.entries(tag.attributes)
+        .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+        .join('');
+      return `<${tag.tagName}${attributes}>${escapeXml(tag.content ?? '')}</${tag.tagName}>`;
+    })
+    .join('');
+}
+
+/**
+ * Serialize a TMX 1.4b document
+ */
+export function serializeTmx(document: TmxDocument): string {
+  const units = document.units
+    .map(unit => {
+      const variants = unit.variants
+        .map(
+          variant => `
+      <tuv xml:lang="${escapeXml(variant.language)}">
+        <seg>${formatSegment(variant.text, variant.placeholders)}</seg>
+      </tuv>`
+        )
+        .join('');
+      const id = unit.id !== undefined ? ` tuid="${escapeXml(unit.id)}"` : '';
+      return `
+    <tu${id}>${variants}
+    </tu>`;
+    })
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="i18n-translate-action" creationtoolversion="1.0.0" datatype="plaintext" segtype="sentence" adminlang="en" srclang="${escapeXml(document.sourceLanguage)}" o-tmf="i18n-translate-action"/>
+  <body>${units}
+  </body>
+</tmx>
+`;
+}
+
+/**
+ * Get the path of the TMX file of a language pair in the export directory
+ */
+export function getTmxExportPath(
+  directory: string,
+  sourceLanguage: string,
+  targetLanguage: string
+): string {
+  return path.join(directory, `${sourceLanguage}_${targetLanguage}.tmx`);
+}
+
+/**
+ * Load a TMX file
+ */
+export function loadTmxFile(filePath: string): TmxDocument {
+  let content: string;
+  try {
+    content = fs.readFileSync(path.resolve(filePath), 'utf-8');
+  } catch (error) {
+    throw new ConfigError(
+      `Failed to read TMX file: ${filePath}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  try {
+    return parseTmx(content);
+  } catch (error) {
+    throw new ConfigError(
+      `Failed to parse TMX file: ${filePath}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
@@ -0,0 +1,445 @@
+/**
+ * Translation Memory
+ *
+ * Keeps the translations of earlier runs and existing target files by target
+ * language, source text and context. Exact matches are reused without calling a
+ * provider, and similar sources are sent with their translations as references.
+ */
+
+import type {
+  TranslatedUnit,
+  TranslationMemoryMatch,
+  TranslationRequest,
+  TranslationUnit,
+} from '../types/translation';
+import { estimateTokenCount } from '../translators/base';
+
+/**
+ * Current translation memory format version
+ */
+export const TRANSLATION_MEMORY_VERSION = 1;
+
+/**
+ * Provider recorded for translations reused from the memory
+ */
+export const MEMORY_PROVIDER = 'translation-memory';
+
+/**
+ * Separator between the context and the source text of a key, as in gettext MO files
+ */
+const CONTEXT_SEPARATOR = '\u0004';
+
+/**
+ * Translations by target language, each keyed by source text, preceded by the
+ * context and CONTEXT_SEPARATOR for units with a context (such as a PO msgctxt)
+ */
+export interface TranslationMemory {
+  version: number;
+  sourceLanguage: string;
+  languages: Record<string, Record<string, string>>;
+}
+
+/**
+ * Options for looking up units in the translation memory
+ */
+export interface TranslationMemoryOptions {
+  /** Similarity from 0 to 100 from which a source is a near match */
+  fuzzyThreshold: number;
+  /** Near matches sent with each unit */
+  maxReferences: number;
+}
+
+/**
+ * Result of looking up the units of a request in the translation memory
+ */
+export interface TranslationMemoryLookup {
+  /** Units without an exact match, with their near matches as references */
+  request: TranslationRequest;
+  /** Translations reused from exact matches */
+  reused: TranslatedUnit[];
+  /** Units of the request that got near matches */
+  referencedUnits: number;
+  /** Estimated tokens the reused units would have used */
+  estimatedTokensSaved: number;
+}
+
+/**
+ * Create an empty translation memory
+ */
+export function createTranslationMemory(sourceLanguage: string): TranslationMemory {
+  return { version: TRANSLATION_MEMORY_VERSION, sourceLanguage, languages: {} };
+}
+
+/**
+ * Parse a translation memory, starting over when it is for another source language
+ */
+export function parseTranslationMemory(json: string, sourceLanguage: string): TranslationMemory {
+  const parsed = JSON.parse(json) as Partial<TranslationMemory> | null;
+
+  if (parsed?.version !== TRANSLATION_MEMORY_VERSION) {
+    throw new Error(`Unsupported translation memory version: ${String(parsed?.version)}`);
+  }
+
+  if (parsed.sourceLanguage !== sourceLanguage || typeof parsed.languages !== 'object') {
+    return createTranslationMemory(sourceLanguage);
+  }
+
+  return { version: TRANSLATION_MEMORY_VERSION, sourceLanguage, languages: parsed.languages };
+}
+
+/**
+ * Serialize a translation memory, with languages and sources sorted for stable diffs
+ */
+export function serializeTranslationMemory(memory: TranslationMemory): string {
+  const languages = Object.fromEntries(
+    Object.keys(memory.languages)
+      .sort()
+      .map(language => {
+        const entries = memory.languages[language] ?? {};
+        return [
+          language,
+          Object.fromEntries(
+            Object.keys(entries)
+              .sort()
+              .map(source => [source, entries[source]])
+          ),
+        ];
+      })
+  );
+
+  return (
+    JSON.stringify(
+      { version: memory.version, sourceLanguage: memory.sourceLanguage, languages },
+      null,
+      2
+    ) + '\n'
+  );
+}
+
+/**
+ * Get the memory key of a source text and its context
+ */
+function getKey(source: string, context?: string): string {
+  const key = source.normalize('NFC');
+  return context ? `${context.normalize('NFC')}${CONTEXT_SEPARATOR}${key}` : key;
+}
+
+/**
+ * Get the source text of a memory key
+ */
+function getKeySource(key: string): string {
+  return key.slice(key.indexOf(CONTEXT_SEPARATOR) + 1);
+}
+
+/**
+ * Add translations to the memory, replacing earlier translations of the same
+ * source in the same context
+ */
+export function addToTranslationMemory(
+  memory: TranslationMemory,
+  targetLanguage: string,
+  translations: Array<{ source: string; target: string; context?: string }>
+): void {
+  const entries = (memory.languages[targetLanguage] ??= {});
+
+  for (const { source, target, context } of translations) {
+    if (source.trim() !== '' && target.trim() !== '') {
+      entries[getKey(source, context)] = target;
+    }
+  }
+  fuzzyIndexes.delete(entries);
+}
+
+/**
+ * Get the translation of a source text in a context, if the memory has one
+ */
+export function getExactMatch(
+  memory: TranslationMemory,
+  targetLanguage: string,
+  source: string,
+  context?: string
+): string | undefined {
+  return memory.languages[targetLanguage]?.[getKey(source, context)];
+}
+
+/**
+ * Length of the character n-grams that index the sources of the memory
+ */
+const NGRAM_LENGTH = 3;
+
+/**
+ * Keys of the entries of a language, with their positions bucketed by source length
+ * and listed by the n-grams of their source
+ */
+interface FuzzyIndex {
+  keys: string[];
+  lengths: Map<number, number[]>;
+  ngrams: Map<string, number[]>;
+}
+
+/**
+ * Fuzzy indexes by the entries of a language, dropped when entries are added
+ */
+const fuzzyIndexes = new WeakMap<Record<string, string>, FuzzyIndex>();
+
+/**
+ * Get the distinct n-grams of a text
+ */
+function getNgrams(text: string): Set<string> {
+  const ngrams = new Set<string>();
+  for (let i = 0; i + NGRAM_LENGTH <= text.length; i++) {
+    ngrams.add(text.slice(i, i + NGRAM_LENGTH));
+  }
+  return ngrams;
+}
+
+/**
+ * Get the fuzzy index of the entries of a language, building it on first use
+ */
+function getFuzzyIndex(entries: Record<string, string>): FuzzyIndex {
+  const cached = fuzzyIndexes.get(entries);
+  if (cached) {
+    return cached;
+  }
+
+  const index: FuzzyIndex = { keys: Object.keys(entries), lengths: new Map(), ngrams: new Map() };
+  index.keys.forEach((key, position) => {
+    const source = getKeySource(key);
+    let bucket = index.lengths.get(source.length);
+    if (!bucket) {
+      bucket = [];
+      index.lengths.set(source.length, bucket);
+    }
+    bucket.push(position);
+
+    for (const ngram of getNgrams(source)) {
+      let positions = index.ngrams.get(ngram);
+      if (!positions) {
+        positions = [];
+        index.ngrams.set(ngram, positions);
+      }
+      positions.push(position);
+    }
+  });
+
+  fuzzyIndexes.set(entries, index);
+  return index;
+}
+
+/**
+ * Get the Levenshtein distance of two strings. Only distances up to the maximum are
+ * computed, in the band of cells that can hold them, and once every cell of a row
+ * exceeds it the comparison stops and returns the maximum plus one.
+ */
+function getEditDistance(a: string, b: string, maxDistance = Math.max(a.length, b.length)): number {
+  const exceeded = maxDistance + 1;
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return exceeded;
+  }
+
+  let previous = new Uint32Array(b.length + 2);
+  let current = new Uint32Array(b.length + 2);
+  for (let j = 0; j <= b.length; j++) {
+    previous[j] = Math.min(j, exceeded);
+  }
+  previous[b.length + 1] = exceeded;
+
+  for (let i = 1; i <= a.length; i++) {
+    const start = Math.max(1, i - maxDistance);
+    const end = Math.min(b.length, i + maxDistance);
+    current[start - 1] = start === 1 ? Math.min(i, exceeded) : exceeded;
+    let rowMinimum = current[start - 1] ?? exceeded;
+
+    const char = a.charCodeAt(i - 1);
+    for (let j = start; j <= end; j++) {
+      // Comparisons rather than Math.min, which is slow to look up in sandboxes
+      let distance = (previous[j - 1] ?? exceeded) + (char === b.charCodeAt(j - 1) ? 0 : 1);
+      const deletion = (previous[j] ?? exceeded) + 1;
+      const insertion = (current[j - 1] ?? exceeded) + 1;
+      if (deletion < distance) {
+        distance = deletion;
+      }
+      if (insertion < distance) {
+        distance = insertion;
+      }
+      if (distance > exceeded) {
+        distance = exceeded;
+      }
+      current[j] = distance;
+      if (distance < rowMinimum) {
+        rowMinimum = distance;
+      }
+    }
+    // Cells past the band exceed the maximum, and no later row has a smaller minimum
+    current[end + 1] = exceeded;
+    if (rowMinimum > maxDistance) {
+      return exceeded;
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length] ?? exceeded;
+}
+
+/**
+ * Get the similarity from 0 to 100 of two texts at an edit distance, the longer
+ * having the given length
+ */
+function toSimilarity(distance: number, length: number): number {
+  return length === 0 ? 100 : Math.round((1 - distance / length) * 100);
+}
+
+/**
+ * Get the largest edit distance at which two texts, the longer having the given
+ * length, are at least as similar as the threshold
+ */
+function getMaxDistance(length: number, threshold: number): number {
+  return Math.floor((length * (100.5 - threshold)) / 100 + 1e-9);
+}
+
+/**
+ * Get the similarity of two source texts from 0 to 100, based on their edit distance
+ */
+export function getSimilarity(a: string, b: string): number {
+  return toSimilarity(getEditDistance(a, b), Math.max(a.length, b.length));
+}
+
+/**
+ * Get the ratio of the shorter to the longer of two text lengths from 0 to 100,
+ * rounded like similarities. The similarity of the texts is at most this ratio,
+ * since their edit distance is at least the difference of their lengths.
+ */
+function getLengthRatio(a: number, b: number): number {
+  return toSimilarity(Math.abs(a - b), Math.max(a, b));
+}
+
+/**
+ * Get the positions of the entries that may be as similar to a text as the
+ * threshold. Only sources whose length ratio reaches the threshold can be. Each edit
+ * changes at most NGRAM_LENGTH n-grams, so of the sources of a length at which the
+ * allowed edits cannot change all n-grams of the text, only those sharing the
+ * others can be.
+ */
+function findFuzzyCandidates(index: FuzzyIndex, text: string, threshold: number): number[] {
+  const ngrams = getNgrams(text);
+  const getRequiredNgrams = (length: number): number =>
+    ngrams.size - NGRAM_LENGTH * getMaxDistance(Math.max(text.length, length), threshold);
+
+  let shared: Map<number, number> | undefined;
+  const getShared = (): Map<number, number> => {
+    if (!shared) {
+      shared = new Map();
+      for (const ngram of ngrams) {
+        for (const position of index.ngrams.get(ngram) ?? []) {
+          shared.set(position, (shared.get(position) ?? 0) + 1);
+        }
+      }
+    }
+    return shared;
+  };
+
+  return [...index.lengths].flatMap(([length, positions]) => {
+    if (getLengthRatio(text.length, length) < threshold) {
+      return [];
+    }
+    const required = getRequiredNgrams(length);
+    return required > 0
+      ? positions.filter(position => (getShared().get(position) ?? 0) >= required)
+      : positions;
+  });
+}
+
+/**
+ * Find the most similar sources to a source text in the memory, at least as similar
+ * as the threshold and most similar first. Sources are compared without their
+ * context, and the exact match of the text in its own context is not included.
+ * Candidates are narrowed by length and shared n-grams before they are compared.
+ */
+export function findFuzzyMatches(
+  memory: TranslationMemory,
+  targetLanguage: string,
+  source: string,
+  options: TranslationMemoryOptions,
+  context?: string
+): TranslationMemoryMatch[] {
+  const entries = memory.languages[targetLanguage] ?? {};
+  const index = getFuzzyIndex(entries);
+  const key = getKey(source, context);
+  const text = getKey(source);
+  const matches: Array<{ match: TranslationMemoryMatch; position: number }> = [];
+
+  for (const position of findFuzzyCandidates(index, text, options.fuzzyThreshold)) {
+    const candidateKey = index.keys[position];
+    const target = candidateKey === undefined ? undefined : entries[candidateKey];
+    if (candidateKey === undefined || target === undefined || candidateKey === key) {
+      continue;
+    }
+
+    const candidate = getKeySource(candidateKey);
+    const length = Math.max(candidate.length, text.length);
+    const distance = getEditDistance(
+      candidate,
+      text,
+      getMaxDistance(length, options.fuzzyThreshold)
+    );
+    const similarity = toSimilarity(distance, length);
+    if (similarity >= options.fuzzyThreshold) {
+      matches.push({ match: { source: candidate, target, similarity }, position });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.match.similarity - a.match.similarity || a.position - b.position)
+    .slice(0, options.maxReferences)
+    .map(({ match }) => match);
+}
+
+/**
+ * Look up the units of a request in the memory. Units with an exact match in their
+ * context get its translation and are left out of the request; the others carry
+ * their near matches. Units with an existing translation to revise are always sent,
+ * so that the provider updates that translation.
+ */
+export function applyTranslationMemory(
+  memory: TranslationMemory,
+  request: TranslationRequest,
+  options: TranslationMemoryOptions
+): TranslationMemoryLookup {
+  const units: TranslationUnit[] = [];
+  const reused: TranslatedUnit[] = [];
+  let referencedUnits = 0;
+  let estimatedTokensSaved = 0;
+
+  for (const unit of request.units) {
+    const target = unit.metadata.revision
+      ? undefined
+      : getExactMatch(memory, request.targetLanguage, unit.source, unit.context);
+    if (target !== undefined) {
+      reused.push({
+        id: unit.id,
+        source: unit.source,
+        target,
+        provider: MEMORY_PROVIDER,
+        model: 'exact match',
+      });
+      estimatedTokensSaved += estimateTokenCount(unit.source) + estimateTokenCount(target);
+      continue;
+    }
+
+    const matches = findFuzzyMatches(
+      memory,
+      request.targetLanguage,
+      unit.source,
+      options,
+      unit.context
+    );
+    if (matches.length > 0) {
+      referencedUnits++;
+      units.push({ ...unit, metadata: { ...unit.metadata, memoryMatches: matches } });
+    } else {
+      units.push(unit);
+    }
+  }
+
+  return { request: { ...request, units }, reused, referencedUnits, estimatedTokensSaved };
+}
@@ -1,4 +1,12 @@
-import type { TranslationReport, FileReport, ErrorEntry } from '../types/translation';
+import type {
+  TranslationReport,
+  FileReport,
+  ErrorEntry,
+  MemoryReport,
+  ProviderReport,
+  QualityReport,
+  RouteReport,
+} from '../types/translation';
 import { formatDuration, getStatusEmoji } from './reporter';
 
 /**
@@ -13,6 +21,26 @@ export function generateMarkdownReport(report: TranslationReport): string {
   // Summary section
   sections.push(generateSummarySection(report));
 
+  // Provider section, when fallback providers produced some of the translations
+  if (report.providers && report.providers.length > 1) {
+    sections.push(generateProvidersSection(report.providers));
+  }
+
+  // Route section
+  if (report.routes && report.routes.length > 0) {
+    sections.push(generateRoutesSection(report.routes));
+  }
+
+  // Quality section, when the review pass is enabled
+  if (report.quality) {
+    sections.push(generateQualitySection(report.quality));
+  }
+
+  // Translation memory section, when the memory is enabled
+  if (report.memory) {
+    sections.push(generateMemorySection(report.memory));
+  }
+
   // File details section
   if (report.files.length > 0) {
     sections.push(generateFilesSection(report.files));
@@ -58,7 +86,94 @@ function generateSummarySection(report: TranslationReport): string {
 | Translated | ${summary.translatedUnits} |
 | Skipped | ${summary.skippedUnits} |
 | Failed | ${summary.failedUnits} |
-| Success Rate | ${calculateSuccessRate(summary)}% |`;
+| Success Rate | ${calculateSuccessRate(summary)}% |${generateUsageRows(report.usage)}`;
+}
+
+/**
+ * Generate token usage rows for the summary table
+ */
+function generateUsageRows(usage: TranslationReport['usage']): string {
+  if (!usage) {
+    return '';
+  }
+
+  let rows = `
+| Input Tokens | ${usage.inputTokens} |
+| Output Tokens | ${usage.outputTokens} |`;
+
+  const cacheRead = usage.cacheReadInputTokens;
+  const cacheWrite = usage.cacheWriteInputTokens;
+  if (cacheRead !== undefined || cacheWrite !== undefined) {
+    const totalInput = usage.inputTokens + (cacheRead ?? 0) + (cacheWrite ?? 0);
+    const hitRate = totalInput > 0 ? (((cacheRead ?? 0) / totalInput) * 100).toFixed(1) : '0.0';
+    rows += `
+| Cache Read Tokens | ${cacheRead ?? 0} |
+| Cache Write Tokens | ${cacheWrite ?? 0} |
+| Input Read From Cache | ${hitRate}% |`;
+  }
+
+  return rows;
+}
+
+/**
+ * Generate providers section
+ */
+function generateProvidersSection(providers: ProviderReport[]): string {
+  const rows = providers
+    .map(p => `| ${p.provider} | ${p.model} | ${p.translatedUnits} |`)
+    .join('\n');
+
+  return `## Providers
+
+| Provider | Model | Translated |
+|----------|-------|------------|
+${rows}`;
+}
+
+/**
+ * Generate routes section
+ */
+function generateRoutesSection(routes: RouteReport[]): string {
+  const rows = routes
+    .map(
+      r =>
+        `| ${r.name} | ${r.provider} | ${r.model} | ${r.translatedUnits} | ${r.usage?.inputTokens ?? '-'} | ${r.usage?.outputTokens ?? '-'} |`
+    )
+    .join('\n');
+
+  return `## Routes
+
+| Route | Provider | Model | Translated | Input Tokens | Output Tokens |
+|-------|----------|-------|------------|--------------|---------------|
+${rows}`;
+}
+
+/**
+ * Generate quality section with the score distribution
+ */
+function generateQualitySection(quality: QualityReport): string {
+  const rows = quality.distribution.map(d => `| ${d.range} | ${d.units} |`).join('\n');
+
+  return `## Quality
+
+Average score **${quality.averageScore}** across ${quality.reviewedUnits} reviewed translation(s); **${quality.needsReview}** scored below ${quality.threshold} and need review.
+
+| Score | Translations |
+|-------|--------------|
+${rows}`;
+}
+
+/**
+ * Generate translation memory section
+ */
+function generateMemorySection(memory: MemoryReport): string {
+  return `## Translation Memory
+
+| Metric | Value |
+|--------|-------|
+| Reused from memory | ${memory.reusedUnits} |
+| Sent with similar translations | ${memory.referencedUnits} |
+| Estimated tokens saved | ${memory.estimatedTokensSaved} |`;
 }
 
 /**
@@ -203,6 +318,34 @@ export function generateJsonSummary(report: TranslationReport): string {
       strings_translated: report.summary.translatedUnits,
       strings_skipped: report.summary.skippedUnits,
       strings_failed: report.summary.failedUnits,
+      input_tokens: report.usage?.inputTokens,
+      output_tokens: report.usage?.outputTokens,
+      cache_read_input_tokens: report.usage?.cacheReadInputTokens,
+      cache_write_input_tokens: report.usage?.cacheWriteInputTokens,
+      providers: report.providers?.map(p => ({
+        provider: p.provider,
+        model: p.model,
+        strings_translated: p.translatedUnits,
+      })),
+      routes: report.routes?.map(r => ({
+        name: r.name,
+        provider: r.provider,
+        model: r.model,
+        strings_translated: r.translatedUnits,
+        input_tokens: r.usage?.inputTokens,
+        output_tokens: r.usage?.outputTokens,
+      })),
+      quality: report.quality && {
+        threshold: report.quality.threshold,
+        strings_reviewed: report.quality.reviewedUnits,
+        strings_needing_review: report.quality.needsReview,
+        average_score: report.quality.averageScore,
+      },
+      memory: report.memory && {
+        strings_reused: report.memory.reusedUnits,
+        strings_referenced: report.memory.referencedUnits,
+        estimated_tokens_saved: report.memory.estimatedTokensSaved,
+      },
       errors: report.errors.length,
     },
     null,
@@ -3,9 +3,16 @@ import type {
   TranslationReport,
   FileReport,
   ErrorEntry,
+  MemoryReport,
   TranslationResponse,
   ExtractResult,
+  TokenUsage,
+  ProviderReport,
+  QualityReport,
+  RouteReport,
+  TranslatedUnit,
 } from '../types/translation';
+import { sumTokenUsage } from '../translators/base';
 import { logger } from '../utils/logger';
 
 /**
@@ -20,8 +27,11 @@ export class ReportBuilder {
   private targetLanguages: string[] = [];
   private fileReports: FileReport[] = [];
   private errors: ErrorEntry[] = [];
-  private totalInputTokens = 0;
-  private totalOutputTokens = 0;
+  private usage?: TokenUsage;
+  private routes = new Map<string, RouteReport>();
+  private qualityScores: number[] = [];
+  private reviewThreshold?: number;
+  private memory?: MemoryReport;
 
   constructor() {
     this.startTime = new Date();
@@ -62,14 +72,51 @@ export class ReportBuilder {
   /**
    * Add token usage from translation response
    */
-  addTokenUsage(usage?: { inputTokens: number; outputTokens: number }): this {
-    if (usage) {
-      this.totalInputTokens += usage.inputTokens;
-      this.totalOutputTokens += usage.outputTokens;
+  addTokenUsage(usage?: TokenUsage): this {
+    this.usage = sumTokenUsage([this.usage, usage]);
+    return this;
+  }
+
+  /**
+   * Add the translations and token usage of a response to its route
+   */
+  addRouteUsage(route: string, response: TranslationResponse): this {
+    const existing = this.routes.get(route);
+    this.routes.set(route, {
+      name: route,
+      provider: response.provider,
+      model: response.model,
+      translatedUnits: (existing?.translatedUnits ?? 0) + response.translations.length,
+      usage: sumTokenUsage([existing?.usage, response.usage]),
+    });
+    return this;
+  }
+
+  /**
+   * Add the quality scores of reviewed translations
+   */
+  addQualityScores(translations: TranslatedUnit[], threshold: number): this {
+    this.reviewThreshold = threshold;
+    for (const translation of translations) {
+      if (translation.confidence !== undefined) {
+        this.qualityScores.push(translation.confidence);
+      }
     }
     return this;
   }
 
+  /**
+   * Add the units of a file that were served from the translation memory
+   */
+  addMemoryUsage(usage: MemoryReport): this {
+    this.memory = {
+      reusedUnits: (this.memory?.reusedUnits ?? 0) + usage.reusedUnits,
+      referencedUnits: (this.memory?.referencedUnits ?? 0) + usage.referencedUnits,
+      estimatedTokensSaved: (this.memory?.estimatedTokensSaved ?? 0) + usage.estimatedTokensSaved,
+    };
+    return this;
+  }
+
   /**
    * Create a file report from extraction and translation results
    */
@@ -86,6 +133,7 @@ export class ReportBuilder {
       unitsTranslated: translationResponse.translations.length,
       unitsFailed: failed,
       unitsSkipped: skipped,
+      providers: countTranslationsByProvider(translationResponse.translations, translationResponse),
     };
   }
 
@@ -112,6 +160,8 @@ export class ReportBuilder {
       }
     );
 
+    const providers = mergeProviderReports(this.fileReports.flatMap(file => file.providers ?? []));
+
     return {
       startTime: this.startTime,
       endTime: this.endTime,
@@ -124,11 +174,84 @@ export class ReportBuilder {
       },
       files: this.fileReports,
       summary,
+      usage: this.usage,
+      providers: providers.length > 0 ? providers : undefined,
+      routes: this.routes.size > 0 ? [...this.routes.values()] : undefined,
+      quality:
+        this.reviewThreshold !== undefined
+          ? createQualityReport(this.qualityScores, this.reviewThreshold)
+          : undefined,
+      memory: this.memory,
       errors: this.errors,
     };
   }
 }
 
+/**
+ * Score ranges of the quality distribution, highest first
+ */
+const QUALITY_SCORE_RANGES: Array<[number, number]> = [
+  [90, 100],
+  [75, 89],
+  [50, 74],
+  [0, 49],
+];
+
+/**
+ * Summarize quality scores: their average, how many are below the threshold, and
+ * how many fall into each score range
+ */
+export function createQualityReport(scores: number[], threshold: number): QualityReport {
+  const total = scores.reduce((sum, score) => sum + score, 0);
+
+  return {
+    threshold,
+    reviewedUnits: scores.length,
+    needsReview: scores.filter(score => score < threshold).length,
+    averageScore: scores.length > 0 ? Math.round(total / scores.length) : 0,
+    distribution: QUALITY_SCORE_RANGES.map(([min, max]) => ({
+      range: `${min}-${max}`,
+      units: scores.filter(score => score >= min && score <= max).length,
+    })),
+  };
+}
+
+/**
+ * Count translations by the provider and model that produced them. Translations
+ * without a provider are counted for the provider and model of the response.
+ */
+export function countTranslationsByProvider(
+  translations: TranslatedUnit[],
+  response: Pick<TranslationResponse, 'provider' | 'model'>
+): ProviderReport[] {
+  return mergeProviderReports(
+    translations.map(t => ({
+      provider: t.provider ?? response.provider,
+      model: t.model ?? response.model,
+      translatedUnits: 1,
+    }))
+  );
+}
+
+/**
+ * Add up the translation counts of the same provider and model
+ */
+export function mergeProviderReports(reports: ProviderReport[]): ProviderReport[] {
+  const merged = new Map<string, ProviderReport>();
+
+  for (const report of reports) {
+    const key = `${report.provider}\n${report.model}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.translatedUnits += report.translatedUnits;
+    } else {
+      merged.set(key, { ...report });
+    }
+  }
+
+  return [...merged.values()];
+}
+
 /**
  * Publish report to GitHub Actions outputs
  */
@@ -157,6 +280,44 @@ export function publishToActions(report: TranslationReport): void {
     logger.info(`Skipped (unchanged): ${report.summary.skippedUnits}`);
   }
 
+  if (report.usage) {
+    const { inputTokens, outputTokens, cacheReadInputTokens, cacheWriteInputTokens } = report.usage;
+    const cache =
+      cacheReadInputTokens !== undefined || cacheWriteInputTokens !== undefined
+        ? `, cache read ${cacheReadInputTokens ?? 0}, cache write ${cacheWriteInputTokens ?? 0}`
+        : '';
+    logger.info(`Tokens: ${inputTokens} input, ${outputTokens} output${cache}`);
+  }
+
+  if (report.providers && report.providers.length > 1) {
+    const counts = report.providers.map(p => `${p.provider} (${p.model}) ${p.translatedUnits}`);
+    logger.info(`Translated by: ${counts.join(', ')}`);
+  }
+
+  if (report.quality) {
+    const { reviewedUnits, averageScore, needsReview, threshold } = report.quality;
+    core.setOutput('needs-review-count', needsReview);
+    logger.info(
+      `Quality: ${reviewedUnits} reviewed, average score ${averageScore}, ${needsReview} below ${threshold}`
+    );
+  }
+
+  if (report.memory) {
+    const { reusedUnits, referencedUnits, estimatedTokensSaved } = report.memory;
+    logger.info(
+      `Translation memory: ${reusedUnits} reused (~${estimatedTokensSaved} tokens saved), ${referencedUnits} with similar translations`
+    );
+  }
+
+  for (const route of report.routes ?? []) {
+    const tokens = route.usage
+      ? `, ${route.usage.inputTokens} input / ${route.usage.outputTokens} output tokens`
+      : '';
+    logger.info(
+      `Route ${route.name}: ${route.provider} (${route.model}), ${route.translatedUnits} translated${tokens}`
+    );
+  }
+
   logger.groupEnd();
 
   // Log errors if any
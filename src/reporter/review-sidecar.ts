@@ -0,0 +1,87 @@
+import type { QualityEstimate, TranslatedUnit } from '../types/translation';
+
+/**
+ * Current review sidecar format version
+ */
+export const REVIEW_SIDECAR_VERSION = 1;
+
+/**
+ * A translation that needs review, with the scores it got in the review pass and
+ * the issues it was kept with
+ */
+export interface ReviewSidecarEntry extends Partial<QualityEstimate> {
+  source: string;
+  target: string;
+  confidence?: number;
+  issues?: string[];
+}
+
+/**
+ * Translations of an output file that need review, keyed by unit ID. Formats other
+ * than XLIFF have no review state, so it is kept in a file next to them.
+ */
+export interface ReviewSidecar {
+  version: number;
+  units: Record<string, ReviewSidecarEntry>;
+}
+
+/**
+ * Get the path of the review sidecar of an output file
+ */
+export function getReviewSidecarPath(outputFilePath: string): string {
+  return `${outputFilePath}.review.json`;
+}
+
+/**
+ * Create an empty review sidecar
+ */
+export function createReviewSidecar(): ReviewSidecar {
+  return { version: REVIEW_SIDECAR_VERSION, units: {} };
+}
+
+/**
+ * Parse a review sidecar, starting over when its content is not a sidecar
+ */
+export function parseReviewSidecar(json: string): ReviewSidecar {
+  const parsed = JSON.parse(json) as Partial<ReviewSidecar> | null;
+
+  if (!parsed || typeof parsed.units !== 'object' || parsed.units === null) {
+    return createReviewSidecar();
+  }
+
+  return { version: REVIEW_SIDECAR_VERSION, units: parsed.units };
+}
+
+/**
+ * Serialize a review sidecar, with units sorted by ID for stable diffs
+ */
+export function serializeReviewSidecar(sidecar: ReviewSidecar): string {
+  const units = Object.fromEntries(
+    Object.keys(sidecar.units)
+      .sort()
+      .map(id => [id, sidecar.units[id]])
+  );
+
+  return JSON.stringify({ version: sidecar.version, units }, null, 2) + '\n';
+}
+
+/**
+ * Record new translations in a review sidecar: those that need review are added
+ * with their scores and issues, and the others replace any entry of an earlier
+ * translation.
+ */
+export function updateReviewSidecar(
+  sidecar: ReviewSidecar,
+  translations: TranslatedUnit[],
+  needsReview: (translation: TranslatedUnit) => boolean
+): void {
+  for (const translation of translations) {
+    const { id, source, target, confidence, quality, issues } = translation;
+
+    if (needsReview(translation)) {
+      sidecar.units[id] = { source, target, confidence, ...quality, issues };
+    } else {
+      delete sidecar.units[id];
+    }
+  }
+}
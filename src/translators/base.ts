@@ -1,5 +1,13 @@
 import type { ProviderConfig } from '../config/types';
-import type { TranslationRequest, TranslationResponse } from '../types/translation';
+import { logger } from '../utils/logger';
+import type {
+  TokenUsage,
+  TranslatedUnit,
+  TranslationRequest,
+  TranslationResponse,
+  TranslationUnit,
+  UnitFailure,
+} from '../types/translation';
 
 /**
  * Base interface for all translation providers
@@ -21,6 +29,13 @@ export abstract class BaseTranslator {
    */
   abstract readonly defaultModel: string;
 
+  /**
+   * Whether the provider caches the system prompt. It is then sent the whole
+   * glossary of the language, which stays the same from batch to batch, instead of
+   * the terms of each batch.
+   */
+  readonly cachesPrompt: boolean = false;
+
   /**
    * Translate a batch of translation units
    */
@@ -69,6 +84,29 @@ export interface LLMTranslationResult {
   }>;
 }
 
+/**
+ * JSON schema of LLMTranslationResult, used for tool input and structured outputs
+ */
+export const TRANSLATION_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    translations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          translation: { type: 'string' },
+        },
+        required: ['id', 'translation'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['translations'],
+  additionalProperties: false,
+} as const;
+
 /**
  * Parsed response with confidence scores
  */
@@ -80,49 +118,192 @@ export interface ParsedTranslationResponse {
 }
 
 /**
- * Parse LLM response containing JSON with translations
+ * Translations parsed from an LLM response, and the expected units without one
+ */
+export interface ParsedLLMResponse {
+  translations: ParsedTranslationResponse[];
+  failures: UnitFailure[];
+}
+
+/**
+ * Parse an LLM text response containing JSON with translations.
+ *
+ * The whole response is tried as JSON first; otherwise the first JSON object in it
+ * with a translations array is used, so prose or other JSON around it is ignored.
  */
-export function parseLLMResponse(
-  response: string,
-  expectedIds: string[]
-): ParsedTranslationResponse[] {
-  // Try to extract JSON from response
-  const jsonMatch = response.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('No JSON found in LLM response');
+export function parseLLMResponse(response: string, expectedIds: string[]): ParsedLLMResponse {
+  for (const candidate of findJsonObjects(response)) {
+    if (Array.isArray((candidate as Partial<LLMTranslationResult>).translations)) {
+      return parseTranslationResult(candidate, expectedIds);
+    }
   }
 
-  try {
-    const parsed = JSON.parse(jsonMatch[0]) as LLMTranslationResult;
+  return failAllUnits(expectedIds, 'No translations found in LLM response');
+}
+
+/**
+ * Parse a translation result that is already a JSON value, such as tool input.
+ *
+ * Items for unknown units are ignored; expected units with a missing, duplicate or
+ * non-string translation are reported as failures.
+ */
+export function parseTranslationResult(value: unknown, expectedIds: string[]): ParsedLLMResponse {
+  const items = (value as Partial<LLMTranslationResult> | null)?.translations;
+  if (!Array.isArray(items)) {
+    return failAllUnits(expectedIds, 'Missing translations array');
+  }
+
+  const expected = new Set(expectedIds);
+  const translations = new Map<string, ParsedTranslationResponse>();
+  const reasons = new Map<string, string>();
+
+  for (const item of items as unknown[]) {
+    const { id, translation } = (item ?? {}) as Partial<Record<string, unknown>>;
+    if (typeof id !== 'string' || !expected.has(id)) {
+      logger.debug(`Ignoring translation for unknown unit: ${String(id)}`);
+      continue;
+    }
 
-    if (!parsed.translations || !Array.isArray(parsed.translations)) {
-      throw new Error('Invalid response format: missing translations array');
+    if (translations.has(id)) {
+      logger.debug(`Ignoring duplicate translation for unit: ${id}`);
+    } else if (typeof translation !== 'string') {
+      reasons.set(id, 'Translation is not a string');
+    } else if (translation === '') {
+      reasons.set(id, 'Translation is empty');
+    } else {
+      translations.set(id, { id, source: '', translation });
     }
+  }
 
-    const results: ParsedTranslationResponse[] = [];
+  return {
+    translations: expectedIds.flatMap(id => translations.get(id) ?? []),
+    failures: expectedIds
+      .filter(id => !translations.has(id))
+      .map(id => ({ id, reason: reasons.get(id) ?? 'No translation returned' })),
+  };
+}
 
-    for (const item of parsed.translations) {
-      if (typeof item.id !== 'string' || typeof item.translation !== 'string') {
-        continue;
-      }
+/**
+ * Create a parse result in which every expected unit failed for the same reason
+ */
+export function failAllUnits(expectedIds: string[], reason: string): ParsedLLMResponse {
+  return {
+    translations: [],
+    failures: expectedIds.map(id => ({ id, reason })),
+  };
+}
+
+/**
+ * Map parsed translations back to the request units, logging the units without one
+ */
+export function toTranslatedUnits(
+  units: TranslationUnit[],
+  parsed: ParsedLLMResponse
+): Pick<TranslationResponse, 'translations' | 'failures'> {
+  const translationMap = new Map(parsed.translations.map(p => [p.id, p.translation]));
+  const translations: TranslatedUnit[] = [];
+
+  for (const unit of units) {
+    const translation = translationMap.get(unit.id);
+    if (translation) {
+      translations.push({ id: unit.id, source: unit.source, target: translation });
+    }
+  }
 
-      if (!expectedIds.includes(item.id)) {
-        continue;
+  for (const failure of parsed.failures) {
+    logger.warning(`No translation for unit ${failure.id}: ${failure.reason}`);
+  }
+
+  return { translations, failures: parsed.failures };
+}
+
+/**
+ * Find the JSON objects in a text: the whole text, or each balanced {...} in it
+ */
+export function* findJsonObjects(text: string): Generator<unknown> {
+  const whole = tryParseJson(text.trim());
+  if (whole !== undefined) {
+    yield whole;
+    return;
+  }
+
+  let index = text.indexOf('{');
+  while (index !== -1) {
+    const end = findObjectEnd(text, index);
+    const value = end === -1 ? undefined : tryParseJson(text.slice(index, end));
+    if (value !== undefined) {
+      yield value;
+    }
+    // After a valid object, continue behind it; otherwise try the next brace inside it
+    index = text.indexOf('{', value !== undefined ? end : index + 1);
+  }
+}
+
+/**
+ * Find the offset after the brace that closes the one at the given offset,
+ * skipping braces in JSON strings
+ */
+function findObjectEnd(text: string, open: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = open; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
       }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i + 1;
+    }
+  }
+
+  return -1;
+}
 
-      results.push({
-        id: item.id,
-        source: '', // Will be filled by caller
-        translation: item.translation,
-      });
+/**
+ * Parse a JSON object, returning undefined for invalid JSON and other values
+ */
+function tryParseJson(text: string): unknown {
+  try {
+    const value: unknown = JSON.parse(text);
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Add up token usage, keeping cache token counts only when a provider reported them.
+ * Returns undefined when no usage was reported.
+ */
+export function sumTokenUsage(usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  let total: TokenUsage | undefined;
+
+  for (const usage of usages) {
+    if (!usage) {
+      continue;
     }
 
-    return results;
-  } catch (error) {
-    throw new Error(
-      `Failed to parse LLM response: ${error instanceof Error ? error.message : 'Unknown error'}`
-    );
+    const previous = total;
+    total = {
+      inputTokens: (previous?.inputTokens ?? 0) + usage.inputTokens,
+      outputTokens: (previous?.outputTokens ?? 0) + usage.outputTokens,
+    };
+    for (const key of ['cacheReadInputTokens', 'cacheWriteInputTokens'] as const) {
+      if (previous?.[key] !== undefined || usage[key] !== undefined) {
+        total[key] = (previous?.[key] ?? 0) + (usage[key] ?? 0);
+      }
+    }
   }
+
+  return total;
 }
 
 /**
@@ -0,0 +1,143 @@
+import type { TranslationRequest, TranslationResponse } from '../types/translation';
+import type { BaseTranslator } from './base';
+
+/**
+ * A translation request submitted as part of a batch job
+ */
+export interface BatchJobRequest {
+  /** ID that matches the request's result in the job output */
+  customId: string;
+  request: TranslationRequest;
+}
+
+/**
+ * Processing state of a batch job
+ * - in_progress: results are not available yet
+ * - ended: results are available (some requests may have failed or expired)
+ * - failed: the job was rejected and has no results
+ */
+export type BatchJobStatus = 'in_progress' | 'ended' | 'failed';
+
+/**
+ * Translators that can run requests through an asynchronous batch endpoint
+ */
+export interface BatchJobProvider {
+  /**
+   * Submit requests as one batch job and return the job ID
+   */
+  submitBatchJob(requests: BatchJobRequest[]): Promise<string>;
+
+  /**
+   * Get the processing state of a batch job
+   */
+  getBatchJobStatus(jobId: string): Promise<BatchJobStatus>;
+
+  /**
+   * Download the results of an ended batch job, keyed by custom ID.
+   * Requests without a result are left out.
+   */
+  getBatchJobResults(
+    jobId: string,
+    requests: BatchJobRequest[]
+  ): Promise<Map<string, TranslationResponse>>;
+}
+
+/**
+ * Check whether a translator supports batch jobs
+ */
+export function supportsBatchJobs(
+  translator: BaseTranslator
+): translator is BaseTranslator & BatchJobProvider {
+  const candidate = translator as Partial<BatchJobProvider>;
+  return (
+    typeof candidate.submitBatchJob === 'function' &&
+    typeof candidate.getBatchJobStatus === 'function' &&
+    typeof candidate.getBatchJobResults === 'function'
+  );
+}
+
+/**
+ * Current batch job state format version
+ */
+export const BATCH_JOB_STATE_VERSION = 1;
+
+/**
+ * The units of one source file and target language sent in a batch job request
+ */
+export interface BatchJobRequestRecord {
+  customId: string;
+  filePath: string;
+  targetLanguage: string;
+  /** Source hash of each unit at submission, keyed by unit ID */
+  units: Record<string, string>;
+}
+
+/**
+ * A submitted batch job
+ */
+export interface BatchJobRecord {
+  id: string;
+  provider: string;
+  model: string;
+  /** Route the job was submitted through (the default route when not set) */
+  route?: string;
+  submittedAt: string;
+  requests: BatchJobRequestRecord[];
+}
+
+/**
+ * Storage format for the batch jobs that have not been collected yet
+ */
+export interface BatchJobState {
+  version: number;
+  jobs: BatchJobRecord[];
+}
+
+/**
+ * Create an empty batch job state
+ */
+export function createBatchJobState(): BatchJobState {
+  return {
+    version: BATCH_JOB_STATE_VERSION,
+    jobs: [],
+  };
+}
+
+/**
+ * Get the IDs of units of a file and target language that are waiting in a batch job
+ */
+export function getPendingUnitIds(
+  state: BatchJobState,
+  filePath: string,
+  targetLanguage: string
+): Set<string> {
+  const ids = new Set<string>();
+  for (const job of state.jobs) {
+    for (const record of job.requests) {
+      if (record.filePath === filePath && record.targetLanguage === targetLanguage) {
+        Object.keys(record.units).forEach(id => ids.add(id));
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Serialize batch job state to JSON
+ */
+export function serializeBatchJobState(state: BatchJobState): string {
+  return JSON.stringify(state, null, 2);
+}
+
+/**
+ * Parse batch job state from JSON
+ */
+export function parseBatchJobState(json: string): BatchJobState {
+  const parsed = JSON.parse(json) as BatchJobState;
+
+  if (parsed.version !== BATCH_JOB_STATE_VERSION) {
+    throw new Error(`Unsupported batch job state version: ${parsed.version}`);
+  }
+
+  return parsed;
+}
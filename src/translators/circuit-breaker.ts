@@ -0,0 +1,60 @@
+import { TranslatorError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * Default number of consecutive retryable errors after which a provider is skipped
+ */
+export const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 3;
+
+/**
+ * Circuit breaker for a translation provider.
+ *
+ * The circuit opens after a number of consecutive retryable translator errors,
+ * which are the errors left after the provider's own retries, and stays open for
+ * the rest of the run. A successful call resets the count.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private open = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly threshold: number = DEFAULT_CIRCUIT_BREAKER_THRESHOLD
+  ) {}
+
+  /**
+   * Check whether calls to the provider should be skipped
+   */
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  /**
+   * Record a successful call
+   */
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+  }
+
+  /**
+   * Record a failed call. Only retryable translator errors count towards the threshold.
+   */
+  recordFailure(error: unknown): void {
+    if (!(error instanceof TranslatorError) || !error.isRetryable) {
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (!this.open && this.consecutiveFailures >= this.threshold) {
+      this.trip(`${this.consecutiveFailures} consecutive errors, last: ${error.message}`);
+    }
+  }
+
+  /**
+   * Open the circuit
+   */
+  trip(reason: string): void {
+    this.open = true;
+    logger.warning(`Circuit breaker opened for ${this.name}: ${reason}`);
+  }
+}
@@ -1,5 +1,6 @@
-import type { TranslationUnit } from '../types/translation';
-import { parseICUMessage, hasICUPatterns } from '../icu/parser';
+import type { GlossaryEntry, TranslationExample, TranslationUnit } from '../types/translation';
+import { checkGlossaryTerms, isDoNotTranslate } from '../glossary/glossary';
+import { parseICUMessage, hasICUPatterns, maskInterpolations } from '../icu/parser';
 import { getCardinalCategories, formatCategoryDescription } from '../icu/cldr-rules';
 import type { PluralCategory } from '../icu/types';
 
@@ -28,9 +29,25 @@ export interface ContextBuilderOptions {
   handleICU: boolean;
 
   /**
-   * Glossary terms to include
+   * Glossary entries to include, and to check translations against
    */
-  glossary?: Record<string, string>;
+  glossary?: GlossaryEntry[];
+
+  /**
+   * Style guide of the project
+   */
+  styleGuide?: string;
+
+  /**
+   * Example translations that show the style to follow
+   */
+  examples?: TranslationExample[];
+
+  /**
+   * Whether single quotes are escaped by doubling them, as in the Java MessageFormat
+   * patterns of .properties files
+   */
+  doubledQuotes?: boolean;
 }
 
 const DEFAULT_OPTIONS: ContextBuilderOptions = {
@@ -65,6 +82,7 @@ CRITICAL RULES:
    - Variables like {name}, {count}, {0}, {1}
    - HTML tags like <b>, </b>, <br/>
    - ICU format elements like {count, plural, ...}
+   - Doubled single quotes ('') in MessageFormat strings like {0}
    - Do NOT translate placeholder names or content inside {{...}}
    - The double-brace placeholders represent UI variables - keep them EXACTLY as-is`;
   }
@@ -83,13 +101,22 @@ CRITICAL RULES:
 CONTEXT: ${opts.userContext}`;
   }
 
-  if (opts.glossary && Object.keys(opts.glossary).length > 0) {
+  if (opts.glossary && opts.glossary.length > 0) {
     prompt += `
 
-GLOSSARY (use these translations consistently):`;
-    for (const [term, translation] of Object.entries(opts.glossary)) {
-      prompt += `\n- "${term}" → "${translation}"`;
-    }
+${buildGlossaryPrompt(opts.glossary)}`;
+  }
+
+  if (opts.styleGuide) {
+    prompt += `
+
+${buildStyleGuidePrompt(opts.styleGuide)}`;
+  }
+
+  if (opts.examples && opts.examples.length > 0) {
+    prompt += `
+
+${buildExamplesPrompt(opts.examples)}`;
   }
 
   prompt += `
@@ -106,7 +133,44 @@ Respond ONLY with valid JSON in this exact format:
 }
 
 /**
- * Build the user prompt with strings to translate
+ * Build the glossary section of the system prompt
+ */
+export function buildGlossaryPrompt(glossary: GlossaryEntry[]): string {
+  let prompt = 'GLOSSARY (use these translations consistently):';
+
+  for (const entry of glossary) {
+    prompt += isDoNotTranslate(entry)
+      ? `\n- "${entry.term}" → keep as is, do not translate`
+      : `\n- "${entry.term}" → "${entry.translation}"`;
+  }
+
+  return prompt;
+}
+
+/**
+ * Build the style guide section of the system prompt
+ */
+export function buildStyleGuidePrompt(styleGuide: string): string {
+  return `STYLE GUIDE (follow it for tone, terminology and punctuation):
+${styleGuide.trim()}`;
+}
+
+/**
+ * Build the section of the system prompt with example translations
+ */
+export function buildExamplesPrompt(examples: TranslationExample[]): string {
+  let prompt = 'EXAMPLES (translate in the same style):';
+
+  for (const example of examples) {
+    prompt += `\n- "${example.source}" → "${example.target}"`;
+  }
+
+  return prompt;
+}
+
+/**
+ * Build the user prompt with strings to translate. Units with the existing
+ * translation of a changed source are listed by buildRevisionPrompt.
  */
 export function buildUserPrompt(
   units: TranslationUnit[],
@@ -115,35 +179,169 @@ export function buildUserPrompt(
   options?: Partial<ContextBuilderOptions>
 ): string {
   const opts = { ...DEFAULT_OPTIONS, ...options };
+  const newUnits = units.filter(unit => !unit.metadata.revision);
+  const revisedUnits = units.filter(unit => unit.metadata.revision);
+
+  let prompt = '';
+
+  if (newUnits.length > 0 || revisedUnits.length === 0) {
+    prompt += `Translate the following ${newUnits.length} string(s) from ${sourceLanguage} to ${targetLanguage}:\n\n`;
+
+    for (const unit of newUnits) {
+      prompt += `ID: ${unit.id}\n`;
+      prompt += `Source: ${unit.source}\n`;
+      prompt += buildUnitDetails(unit, targetLanguage, opts);
+      prompt += '\n';
+    }
+  }
+
+  if (revisedUnits.length > 0) {
+    prompt += buildRevisionPrompt(revisedUnits, sourceLanguage, targetLanguage, opts);
+  }
+
+  prompt += 'Respond with JSON containing all translations.';
+
+  return prompt;
+}
+
+/**
+ * Build the part of the user prompt with strings whose source changed. Each is
+ * sent with its previous source and existing translation, to be changed as little
+ * as the change of the source requires.
+ */
+export function buildRevisionPrompt(
+  units: TranslationUnit[],
+  sourceLanguage: string,
+  targetLanguage: string,
+  options?: Partial<ContextBuilderOptions>
+): string {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
 
-  let prompt = `Translate the following ${units.length} string(s) from ${sourceLanguage} to ${targetLanguage}:\n\n`;
+  let prompt = `Update the existing ${targetLanguage} translations of the following ${units.length} string(s), whose ${sourceLanguage} source changed. Change each translation minimally: keep its wording, terminology and style, and only change what the change of the source requires. Reviewed translations were edited or approved by a reviewer.\n\n`;
 
   for (const unit of units) {
+    const revision = unit.metadata.revision;
+
     prompt += `ID: ${unit.id}\n`;
+    if (revision?.previousSource !== undefined) {
+      prompt += `Previous source: ${revision.previousSource}\n`;
+    }
     prompt += `Source: ${unit.source}\n`;
-
-    // Add context if available
-    if (unit.context) {
-      prompt += `Context: ${unit.context}\n`;
+    if (revision) {
+      prompt += `${revision.reviewed ? 'Reviewed' : 'Existing'} translation: ${revision.translation}\n`;
     }
+    prompt += buildUnitDetails(unit, targetLanguage, opts);
+    prompt += '\n';
+  }
 
-    // Add notes if available
-    if (unit.metadata.notes) {
-      prompt += `Notes: ${unit.metadata.notes}\n`;
+  return prompt;
+}
+
+/**
+ * Build the lines of the user prompt that describe a unit besides its source
+ */
+function buildUnitDetails(
+  unit: TranslationUnit,
+  targetLanguage: string,
+  opts: ContextBuilderOptions
+): string {
+  let prompt = '';
+
+  // Add context if available
+  if (unit.context) {
+    prompt += `Context: ${unit.context}\n`;
+  }
+
+  // Add notes if available
+  if (unit.metadata.notes) {
+    prompt += `Notes: ${unit.metadata.notes}\n`;
+  }
+
+  // Add placeholders declared by the file format
+  if (unit.metadata.declaredPlaceholders) {
+    prompt += `Placeholders: ${unit.metadata.declaredPlaceholders.map(name => `{${name}}`).join(', ')}\n`;
+  }
+
+  // Add similar translations from the translation memory
+  for (const match of unit.metadata.memoryMatches ?? []) {
+    prompt += `Similar translation (${match.similarity}% match): "${match.source}" → "${match.target}"\n`;
+  }
+
+  // Send a rejected translation back with its issues
+  if (unit.metadata.correction) {
+    prompt += `Rejected translation: ${unit.metadata.correction.translation}\n`;
+    prompt += `Issues to fix: ${unit.metadata.correction.issues.join('; ')}\n`;
+  }
+
+  // Handle ICU patterns
+  if (opts.handleICU && hasICUPatterns(unit.source)) {
+    const icuInfo = buildICUInstructions(unit.source, targetLanguage);
+    if (icuInfo) {
+      prompt += `ICU Instructions: ${icuInfo}\n`;
     }
+  }
 
-    // Handle ICU patterns
-    if (opts.handleICU && hasICUPatterns(unit.source)) {
-      const icuInfo = buildICUInstructions(unit.source, targetLanguage);
-      if (icuInfo) {
-        prompt += `ICU Instructions: ${icuInfo}\n`;
-      }
+  return prompt;
+}
+
+/**
+ * Build the system prompt for scoring translations
+ */
+export function buildReviewSystemPrompt(
+  sourceLanguage: string,
+  targetLanguage: string,
+  userContext?: string
+): string {
+  let prompt = `You are a senior localization reviewer. You score translations of software strings from ${sourceLanguage} to ${targetLanguage}, following MQM.
+
+For each translation, give three scores from 0 to 100, where 100 means no errors and each minor, major or critical error lowers the score by about 5, 25 or 50:
+- accuracy: the meaning of the source is kept, with nothing added, left out or mistranslated
+- fluency: grammar, spelling, punctuation and natural phrasing in ${targetLanguage}
+- terminology: terms are correct for software UI and used consistently
+
+Placeholders, tags and ICU syntax are expected to be kept as they are; do not count them as errors.
+Give a one-sentence rationale that names the most serious error, or says that there is none.`;
+
+  if (userContext) {
+    prompt += `
+
+CONTEXT: ${userContext}`;
+  }
+
+  prompt += `
+
+RESPONSE FORMAT:
+Respond ONLY with valid JSON in this exact format:
+{
+  "scores": [
+    {"id": "string_id", "accuracy": 95, "fluency": 90, "terminology": 100, "rationale": "..."}
+  ]
+}`;
+
+  return prompt;
+}
+
+/**
+ * Build the user prompt with translations to score
+ */
+export function buildReviewUserPrompt(
+  units: Array<{ id: string; source: string; target: string; context?: string }>
+): string {
+  let prompt = `Score the following ${units.length} translation(s):\n\n`;
+
+  for (const unit of units) {
+    prompt += `ID: ${unit.id}\n`;
+    prompt += `Source: ${unit.source}\n`;
+    prompt += `Translation: ${unit.target}\n`;
+
+    if (unit.context) {
+      prompt += `Context: ${unit.context}\n`;
     }
 
     prompt += '\n';
   }
 
-  prompt += 'Respond with JSON containing all translations.';
+  prompt += 'Respond with JSON containing the scores of all translations.';
 
   return prompt;
 }
@@ -231,17 +429,42 @@ Respond with JSON:
 }
 
 /**
- * Validate that a translation preserves required elements
+ * Issue of a translation that is identical to its source. It can be right, as for
+ * names and loanwords, so a translation the model confirms is accepted.
+ */
+export const UNTRANSLATED_ISSUE = 'Translation appears to be identical to source';
+
+/**
+ * Issue of a MessageFormat translation with a single quote that is not doubled.
+ * Quotes may be typographic, so a translation the model confirms is accepted.
+ */
+export const UNDOUBLED_QUOTE_ISSUE = "Single quotes must be doubled ('') in MessageFormat patterns";
+
+/**
+ * Validate that a translation preserves required elements.
+ *
+ * Plural and select messages must stay valid ICU with the same arguments as the
+ * source; other messages must keep the source's placeholders and tags.
  */
 export function validateTranslation(
   source: string,
   translation: string,
-  options?: Partial<ContextBuilderOptions>
+  options?: Partial<ContextBuilderOptions>,
+  declaredPlaceholders?: string[]
 ): { valid: boolean; issues: string[] } {
   const opts = { ...DEFAULT_OPTIONS, ...options };
   const issues: string[] = [];
 
-  if (opts.preservePlaceholders) {
+  if (declaredPlaceholders && declaredPlaceholders.length > 0) {
+    issues.push(...validateDeclaredPlaceholders(source, translation, declaredPlaceholders));
+  }
+
+  const sourceICU = parseComplexICU(source);
+
+  if (opts.preservePlaceholders && sourceICU) {
+    issues.push(...compareArguments(sourceICU, translation));
+    issues.push(...compareInterpolations(source, translation));
+  } else if (opts.preservePlaceholders) {
     // Extract placeholders from source (including {{...}} markers for XLIFF elements)
     const placeholderRegex = /\{\{[^}]+\}\}|\{[^}]+\}|<[^>]+>|<\/[^>]+>/g;
     const sourcePlaceholders = new Set(source.match(placeholderRegex) ?? []);
@@ -262,6 +485,20 @@ export function validateTranslation(
     }
   }
 
+  // A pattern with arguments or escaped quotes is read by MessageFormat, which drops
+  // single quotes
+  if (
+    opts.doubledQuotes &&
+    /\{\d|''/.test(source) &&
+    translation.replace(/''/g, '').includes("'")
+  ) {
+    issues.push(UNDOUBLED_QUOTE_ISSUE);
+  }
+
+  if (opts.glossary && opts.glossary.length > 0) {
+    issues.push(...checkGlossaryTerms(source, translation, opts.glossary));
+  }
+
   // Check for empty translation
   if (translation.trim() === '') {
     issues.push('Translation is empty');
@@ -269,7 +506,7 @@ export function validateTranslation(
 
   // Check for untranslated content (source === translation for non-placeholder text)
   if (source === translation && source.length > 3 && !/^\{[^}]+\}$/.test(source)) {
-    issues.push('Translation appears to be identical to source');
+    issues.push(UNTRANSLATED_ISSUE);
   }
 
   return {
@@ -278,6 +515,111 @@ export function validateTranslation(
   };
 }
 
+/**
+ * Get the argument names of a message with plural or select elements, or undefined
+ * for other messages and messages that are not valid ICU. Double-brace
+ * interpolations in the variants, as in i18next plurals, are not ICU arguments.
+ */
+function parseComplexICU(message: string): Set<string> | undefined {
+  if (!hasICUPatterns(message)) {
+    return undefined;
+  }
+
+  try {
+    return collectArgumentNames(maskInterpolations(message).message);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check that a translation is valid ICU with the same arguments as its source
+ */
+function compareArguments(sourceArguments: Set<string>, translation: string): string[] {
+  let translationArguments: Set<string>;
+  try {
+    translationArguments = collectArgumentNames(maskInterpolations(translation).message);
+  } catch (error) {
+    return [`Invalid ICU message: ${error instanceof Error ? error.message : String(error)}`];
+  }
+
+  return [
+    ...[...sourceArguments]
+      .filter(name => !translationArguments.has(name))
+      .map(name => `Missing argument: {${name}}`),
+    ...[...translationArguments]
+      .filter(name => !sourceArguments.has(name))
+      .map(name => `Unexpected argument: {${name}}`),
+  ];
+}
+
+/**
+ * Check that a translation keeps the double-brace interpolations of its ICU source
+ */
+function compareInterpolations(source: string, translation: string): string[] {
+  const sourceInterpolations = new Set(maskInterpolations(source).interpolations);
+  const translationInterpolations = new Set(maskInterpolations(translation).interpolations);
+
+  return [
+    ...[...sourceInterpolations]
+      .filter(interpolation => !translationInterpolations.has(interpolation))
+      .map(interpolation => `Missing placeholder: ${interpolation}`),
+    ...[...translationInterpolations]
+      .filter(interpolation => !sourceInterpolations.has(interpolation))
+      .map(interpolation => `Unexpected placeholder: ${interpolation}`),
+  ];
+}
+
+/**
+ * Check that a translation keeps every declared placeholder the source uses,
+ * including placeholders nested in plural and select branches
+ */
+export function validateDeclaredPlaceholders(
+  source: string,
+  translation: string,
+  declaredPlaceholders: string[]
+): string[] {
+  let sourceArguments: Set<string>;
+  let translationArguments: Set<string>;
+
+  try {
+    sourceArguments = collectArgumentNames(source);
+  } catch {
+    return [];
+  }
+
+  try {
+    translationArguments = collectArgumentNames(translation);
+  } catch (error) {
+    return [`Invalid ICU message: ${error instanceof Error ? error.message : String(error)}`];
+  }
+
+  return declaredPlaceholders
+    .filter(name => sourceArguments.has(name) && !translationArguments.has(name))
+    .map(name => `Missing placeholder: {${name}}`);
+}
+
+/**
+ * Collect argument names from an ICU message and all of its branches
+ */
+function collectArgumentNames(message: string, names = new Set<string>()): Set<string> {
+  const parsed = parseICUMessage(message);
+
+  for (const element of parsed.elements) {
+    if (element.type === 'argument') {
+      names.add(element.name);
+    } else if (element.type === 'plural' || element.type === 'selectordinal') {
+      names.add(element.name);
+      element.variants.forEach(variant => collectArgumentNames(variant.text, names));
+    } else if (element.type === 'select') {
+      names.add(element.name);
+      element.options.forEach(option => collectArgumentNames(option.value, names));
+    }
+  }
+
+  return names;
+}
+
 /**
  * Extract context from surrounding strings
  */
@@ -1,13 +1,27 @@
-import { ConfigError } from '../utils/errors';
+import { checkGlossaryTerms, isGlossaryIssue, selectGlossaryTerms } from '../glossary/glossary';
+import { composeResponse, decomposeRequest } from '../icu/decomposer';
+import { ConfigError, TranslatorError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import type { ProviderConfig, Provider } from '../config/types';
-import type { TranslationRequest, TranslationResponse } from '../types/translation';
-import { BaseTranslator } from './base';
+import type {
+  TranslatedUnit,
+  TranslationRequest,
+  TranslationResponse,
+  TranslationUnit,
+  UnitFailure,
+} from '../types/translation';
+import { BaseTranslator, sumTokenUsage } from './base';
+import { BatchJobProvider, BatchJobRequest, BatchJobStatus, supportsBatchJobs } from './batch-job';
 import { createBatches, TranslationBatch, BatchProcessor } from './batcher';
+import { CircuitBreaker, DEFAULT_CIRCUIT_BREAKER_THRESHOLD } from './circuit-breaker';
+import { UNDOUBLED_QUOTE_ISSUE, UNTRANSLATED_ISSUE, validateTranslation } from './context-builder';
+import { QualityReviewer, QualityReviewerOptions } from './quality';
 import { createProviderRateLimiter, RateLimiter } from './rate-limiter';
 import { AnthropicTranslator } from './providers/anthropic';
 import { OpenAITranslator } from './providers/openai';
 import { OllamaTranslator } from './providers/ollama';
+import { OpenAICompatibleTranslator } from './providers/openai-compatible';
+import { PseudoTranslator } from './providers/pseudo';
 
 /**
  * Options for the translator factory
@@ -37,6 +51,54 @@ export interface TranslatorFactoryOptions {
    * Concurrency limit for parallel processing
    */
   concurrencyLimit?: number;
+
+  /**
+   * Providers to fall back to, in order, when the providers before them are unavailable
+   */
+  fallbackProviders?: ProviderConfig[];
+
+  /**
+   * Consecutive retryable errors after which a provider is skipped
+   */
+  circuitBreakerThreshold?: number;
+
+  /**
+   * Circuit breakers by provider, shared by orchestrators so that a provider that is
+   * down is skipped by all of them
+   */
+  circuitBreakers?: Map<string, CircuitBreaker>;
+
+  /**
+   * Times a translation that fails validation is sent back to be corrected
+   */
+  maxValidationRetries?: number;
+}
+
+/**
+ * A provider of the fallback chain
+ */
+interface ProviderSlot {
+  translator: BaseTranslator;
+  rateLimiter: RateLimiter;
+  circuitBreaker: CircuitBreaker;
+}
+
+/**
+ * A translation that failed validation
+ */
+interface RejectedTranslation {
+  unit: TranslationUnit;
+  translation: TranslatedUnit;
+  issues: string[];
+}
+
+/**
+ * Check whether an issue is only a reason to ask again: a translation identical to
+ * its source can be right, a glossary term may need to be inflected, and a single
+ * quote may be typographic
+ */
+function isSoftIssue(issue: string): boolean {
+  return issue === UNTRANSLATED_ISSUE || issue === UNDOUBLED_QUOTE_ISSUE || isGlossaryIssue(issue);
 }
 
 /**
@@ -53,6 +115,12 @@ export function createTranslator(config: ProviderConfig): BaseTranslator {
     case 'ollama':
       return new OllamaTranslator(config);
 
+    case 'openai-compatible':
+      return new OpenAICompatibleTranslator(config);
+
+    case 'pseudo':
+      return new PseudoTranslator(config);
+
     default:
       throw new ConfigError(`Unknown provider: ${config.provider as string}`);
   }
@@ -69,47 +137,148 @@ export function getDefaultModel(provider: Provider): string {
       return 'gpt-4o-mini';
     case 'ollama':
       return 'llama3.2';
+    case 'openai-compatible':
+      throw new ConfigError('The openai-compatible provider has no default model');
+    case 'pseudo':
+      return 'pseudo';
     default:
       throw new ConfigError(`Unknown provider: ${provider as string}`);
   }
 }
 
 /**
- * Translation orchestrator that handles batching, rate limiting, and retry
+ * Translation orchestrator that handles batching, rate limiting, and retry.
+ *
+ * Batches go to the first provider of the fallback chain whose circuit breaker is
+ * closed. Batch jobs always use the primary provider.
  */
 export class TranslationOrchestrator {
   private translator: BaseTranslator;
-  private rateLimiter: RateLimiter;
+  private providers: ProviderSlot[];
   private options: Required<TranslatorFactoryOptions>;
 
   constructor(config: ProviderConfig, options?: TranslatorFactoryOptions) {
-    this.translator = createTranslator(config);
-
     this.options = {
       batchSize: options?.batchSize ?? 10,
       maxTokensPerBatch: options?.maxTokensPerBatch ?? 3000,
       rateLimitPerMinute: options?.rateLimitPerMinute ?? 50,
       concurrent: options?.concurrent ?? false,
       concurrencyLimit: options?.concurrencyLimit ?? 2,
+      fallbackProviders: options?.fallbackProviders ?? [],
+      circuitBreakerThreshold:
+        options?.circuitBreakerThreshold ?? DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+      circuitBreakers: options?.circuitBreakers ?? new Map<string, CircuitBreaker>(),
+      maxValidationRetries: options?.maxValidationRetries ?? 2,
     };
 
-    this.rateLimiter = createProviderRateLimiter(config.provider, {
-      requestsPerMinute: this.options.rateLimitPerMinute,
-    });
+    this.translator = createTranslator(config);
+    this.providers = [
+      this.createProviderSlot(config, this.translator),
+      ...this.options.fallbackProviders.map(fallback =>
+        this.createProviderSlot(fallback, createTranslator(fallback))
+      ),
+    ];
   }
 
   /**
-   * Validate translator configuration
+   * Create the rate limiter of a provider, and get its circuit breaker
+   */
+  private createProviderSlot(config: ProviderConfig, translator: BaseTranslator): ProviderSlot {
+    const name = `${translator.providerName} (${translator.getModel()})`;
+    const key = config.baseUrl ? `${name} at ${config.baseUrl}` : name;
+    let circuitBreaker = this.options.circuitBreakers.get(key);
+    if (!circuitBreaker) {
+      circuitBreaker = new CircuitBreaker(name, this.options.circuitBreakerThreshold);
+      this.options.circuitBreakers.set(key, circuitBreaker);
+    }
+
+    return {
+      translator,
+      rateLimiter: createProviderRateLimiter(config.provider, {
+        requestsPerMinute: this.options.rateLimitPerMinute,
+      }),
+      circuitBreaker,
+    };
+  }
+
+  /**
+   * Validate translator configuration.
+   *
+   * Providers are checked in order until one is available. Unavailable providers
+   * are skipped for the rest of the run, and fallbacks after the first available
+   * provider are only checked when they are needed.
    */
   async validate(): Promise<void> {
-    this.translator.validateConfig();
+    for (const { translator } of this.providers) {
+      translator.validateConfig();
+    }
 
-    const available = await this.translator.checkAvailability();
-    if (!available) {
-      throw new ConfigError(
-        `Provider ${this.translator.providerName} is not available. Check your configuration.`
-      );
+    for (const { translator, circuitBreaker } of this.providers) {
+      if (await translator.checkAvailability()) {
+        return;
+      }
+      if (this.providers.length > 1) {
+        circuitBreaker.trip('availability check failed');
+      }
     }
+
+    const names = this.providers.map(({ translator }) => translator.providerName).join(', ');
+    throw new ConfigError(
+      this.providers.length > 1
+        ? `None of the providers ${names} is available. Check your configuration.`
+        : `Provider ${names} is not available. Check your configuration.`
+    );
+  }
+
+  /**
+   * Translate a batch with the first provider whose circuit is closed. The batch
+   * that opens a provider's circuit moves on to the next provider. Each translation
+   * records the provider and model that produced it.
+   *
+   * Complex ICU messages are sent as one sentence per variant and reconstructed
+   * from their translations, and only the glossary terms of the batch are sent to
+   * providers that do not cache the system prompt.
+   */
+  private async translateBatch(request: TranslationRequest): Promise<TranslationResponse> {
+    const decomposed = decomposeRequest(request);
+    let lastError: unknown;
+
+    for (const { translator, rateLimiter, circuitBreaker } of this.providers) {
+      if (circuitBreaker.isOpen()) {
+        continue;
+      }
+
+      await rateLimiter.acquire();
+
+      try {
+        const response = await translator.translate(
+          translator.cachesPrompt ? decomposed.request : selectGlossaryTerms(decomposed.request)
+        );
+        circuitBreaker.recordSuccess();
+        return composeResponse(decomposed, {
+          ...response,
+          translations: response.translations.map(t => ({
+            ...t,
+            provider: response.provider,
+            model: response.model,
+          })),
+        });
+      } catch (error) {
+        circuitBreaker.recordFailure(error);
+        if (!circuitBreaker.isOpen()) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+
+    const reason = lastError instanceof Error ? `: ${lastError.message}` : '';
+    throw new TranslatorError(
+      `All providers are unavailable${reason}`,
+      this.translator.providerName,
+      false,
+      lastError instanceof Error ? lastError : undefined
+    );
   }
 
   /**
@@ -135,16 +304,13 @@ export class TranslationOrchestrator {
     // Process batches
     const processor = new BatchProcessor<TranslationBatch, TranslationResponse>(
       async batch => {
-        // Wait for rate limiter
-        await this.rateLimiter.acquire();
-
         // Create request for this batch
         const batchRequest: TranslationRequest = {
           ...request,
           units: batch.units,
         };
 
-        return this.translator.translate(batchRequest);
+        return this.correctTranslations(batchRequest, await this.translateBatch(batchRequest));
       },
       this.options.concurrent ? this.options.concurrencyLimit : 1
     );
@@ -155,32 +321,37 @@ export class TranslationOrchestrator {
 
     // Aggregate results
     const allTranslations: TranslationResponse['translations'] = [];
-    let totalInputTokens = 0;
-    let totalOutputTokens = 0;
+    const usages: TranslationResponse['usage'][] = [];
     let errors = 0;
+    const unitFailures = new Map<string, UnitFailure>();
 
     for (const result of results) {
       if ('error' in result) {
         errors++;
         logger.error(`Batch translation failed: ${result.error.message}`);
+        for (const unit of result.batch.units) {
+          unitFailures.set(unit.id, { id: unit.id, reason: result.error.message });
+        }
         continue;
       }
 
       allTranslations.push(...result.result.translations);
-
-      if (result.result.usage) {
-        totalInputTokens += result.result.usage.inputTokens;
-        totalOutputTokens += result.result.usage.outputTokens;
+      for (const failure of result.result.failures ?? []) {
+        unitFailures.set(failure.id, failure);
       }
+
+      usages.push(result.result.usage);
     }
 
     if (errors > 0) {
       logger.warning(`${errors} batch(es) failed during translation`);
     }
 
-    // Retry missing units
+    // Retry missing units, except those whose translations were already corrected
     const translatedIds = new Set(allTranslations.map(t => t.id));
-    const missingUnits = request.units.filter(u => !translatedIds.has(u.id));
+    const missingUnits = request.units.filter(
+      u => !translatedIds.has(u.id) && !unitFailures.get(u.id)?.issues
+    );
 
     if (missingUnits.length > 0) {
       logger.info(`Retrying ${missingUnits.length} missing unit(s)...`);
@@ -188,19 +359,23 @@ export class TranslationOrchestrator {
       const retryResponse = await this.retryMissingUnits(missingUnits, request);
 
       allTranslations.push(...retryResponse.translations);
-
-      if (retryResponse.usage) {
-        totalInputTokens += retryResponse.usage.inputTokens;
-        totalOutputTokens += retryResponse.usage.outputTokens;
+      for (const failure of retryResponse.failures ?? []) {
+        unitFailures.set(failure.id, failure);
       }
+
+      usages.push(retryResponse.usage);
     }
 
+    // Report each unit that is still untranslated with the last reason it failed
+    const finalIds = new Set(allTranslations.map(t => t.id));
+    const failures = request.units
+      .filter(u => !finalIds.has(u.id))
+      .map(u => unitFailures.get(u.id) ?? { id: u.id, reason: 'No translation returned' });
+
     return {
       translations: allTranslations,
-      usage:
-        totalInputTokens > 0 || totalOutputTokens > 0
-          ? { inputTokens: totalInputTokens, outputTokens: totalOutputTokens }
-          : undefined,
+      usage: sumTokenUsage(usages),
+      failures: failures.length > 0 ? failures : undefined,
       provider: this.translator.providerName,
       model: this.translator.getModel(),
     };
@@ -215,9 +390,9 @@ export class TranslationOrchestrator {
     maxRetries = 2
   ): Promise<TranslationResponse> {
     const allTranslations: TranslationResponse['translations'] = [];
-    let totalInputTokens = 0;
-    let totalOutputTokens = 0;
+    const usages: TranslationResponse['usage'][] = [];
     let remainingUnits = [...missingUnits];
+    const unitFailures = new Map<string, UnitFailure>();
 
     for (let attempt = 0; attempt < maxRetries && remainingUnits.length > 0; attempt++) {
       // Use smaller batches for retries (5 units max)
@@ -233,30 +408,35 @@ export class TranslationOrchestrator {
 
       for (const batch of batches) {
         try {
-          await this.rateLimiter.acquire();
-
           const batchRequest: TranslationRequest = {
             ...originalRequest,
             units: batch.units,
           };
 
-          const result = await this.translator.translate(batchRequest);
+          const result = await this.correctTranslations(
+            batchRequest,
+            await this.translateBatch(batchRequest)
+          );
           allTranslations.push(...result.translations);
-
-          if (result.usage) {
-            totalInputTokens += result.usage.inputTokens;
-            totalOutputTokens += result.usage.outputTokens;
+          for (const failure of result.failures ?? []) {
+            unitFailures.set(failure.id, failure);
           }
+
+          usages.push(result.usage);
         } catch (error) {
-          logger.warning(
-            `Retry batch failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-          );
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          logger.warning(`Retry batch failed: ${message}`);
+          for (const unit of batch.units) {
+            unitFailures.set(unit.id, { id: unit.id, reason: message });
+          }
         }
       }
 
-      // Check what's still missing
+      // Check what's still missing; rejected translations were already corrected
       const translatedIds = new Set(allTranslations.map(t => t.id));
-      remainingUnits = remainingUnits.filter(u => !translatedIds.has(u.id));
+      remainingUnits = remainingUnits.filter(
+        u => !translatedIds.has(u.id) && !unitFailures.get(u.id)?.issues
+      );
     }
 
     if (remainingUnits.length > 0) {
@@ -268,15 +448,222 @@ export class TranslationOrchestrator {
 
     return {
       translations: allTranslations,
-      usage:
-        totalInputTokens > 0 || totalOutputTokens > 0
-          ? { inputTokens: totalInputTokens, outputTokens: totalOutputTokens }
-          : undefined,
+      usage: sumTokenUsage(usages),
+      failures: missingUnits.flatMap(unit => {
+        const failure = unitFailures.get(unit.id);
+        return failure && !allTranslations.some(t => t.id === unit.id) ? [failure] : [];
+      }),
       provider: this.translator.providerName,
       model: this.translator.getModel(),
     };
   }
 
+  /**
+   * Validate the translations of a response and send the rejected ones back with
+   * their issues, up to maxValidationRetries times. Translations that still fail are
+   * removed from the response and reported as failures.
+   *
+   * A translation that is identical to its source or ignores a glossary term is sent
+   * back once, and accepted if the model keeps it. Translations kept with glossary
+   * issues carry them, so they can be marked for review.
+   */
+  async correctTranslations(
+    request: TranslationRequest,
+    response: TranslationResponse
+  ): Promise<TranslationResponse> {
+    const unitsById = new Map(request.units.map(unit => [unit.id, unit]));
+    const correctedIds = new Set<string>();
+    const usages = [response.usage];
+    let translations = response.translations;
+    let rejected: RejectedTranslation[] = [];
+
+    for (let attempt = 0; ; attempt++) {
+      rejected = translations.flatMap(translation => {
+        const unit = unitsById.get(translation.id);
+        if (!unit) {
+          return [];
+        }
+
+        const { issues } = validateTranslation(
+          unit.source,
+          translation.target,
+          {
+            preservePlaceholders: request.preservePlaceholders,
+            glossary: request.glossary,
+            doubledQuotes: unit.metadata.file.toLowerCase().endsWith('.properties'),
+          },
+          unit.metadata.declaredPlaceholders
+        );
+        const remaining = correctedIds.has(unit.id)
+          ? issues.filter(issue => !isSoftIssue(issue))
+          : issues;
+        return remaining.length > 0 ? [{ unit, translation, issues: remaining }] : [];
+      });
+
+      if (rejected.length === 0 || attempt >= this.options.maxValidationRetries) {
+        break;
+      }
+
+      logger.info(`Sending ${rejected.length} translation(s) back to correct validation issues`);
+
+      let correction: TranslationResponse;
+      try {
+        correction = await this.translateBatch({
+          ...request,
+          units: rejected.map(({ unit, translation, issues }) => ({
+            ...unit,
+            metadata: { ...unit.metadata, correction: { translation: translation.target, issues } },
+          })),
+        });
+      } catch (error) {
+        logger.warning(
+          `Correction batch failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+        break;
+      }
+
+      usages.push(correction.usage);
+      const corrections = new Map(correction.translations.map(t => [t.id, t]));
+      for (const { unit } of rejected) {
+        correctedIds.add(unit.id);
+      }
+      translations = translations.map(t => corrections.get(t.id) ?? t);
+    }
+
+    // Identical translations and glossary issues are only a reason to ask again, not to fail
+    const failed = rejected.filter(({ issues }) => issues.some(issue => !isSoftIssue(issue)));
+    const failedIds = new Set(failed.map(({ unit }) => unit.id));
+    const failures: UnitFailure[] = failed.map(({ unit, issues }) => {
+      logger.warning(`Rejecting translation of ${unit.id}: ${issues.join('; ')}`);
+      return { id: unit.id, reason: `Validation failed: ${issues.join('; ')}`, issues };
+    });
+
+    const kept = translations
+      .filter(t => !failedIds.has(t.id))
+      .map(t => {
+        const unit = unitsById.get(t.id);
+        const issues =
+          unit && request.glossary
+            ? checkGlossaryTerms(unit.source, t.target, request.glossary)
+            : [];
+        if (issues.length === 0) {
+          return t;
+        }
+        logger.warning(`Keeping translation of ${t.id} for review: ${issues.join('; ')}`);
+        return { ...t, issues };
+      });
+
+    return {
+      ...response,
+      translations: kept,
+      failures: [...(response.failures ?? []), ...failures],
+      usage: sumTokenUsage(usages),
+    };
+  }
+
+  /**
+   * Check whether the provider can run batch jobs
+   */
+  supportsBatchJobs(): boolean {
+    return supportsBatchJobs(this.translator);
+  }
+
+  /**
+   * Split translation requests into batches and submit them all as one batch job.
+   * Each job request records the index of the translation request it belongs to.
+   * Complex ICU messages are submitted as one sentence per variant, while the
+   * returned job requests keep the original units.
+   */
+  async submitBatchJob(
+    requests: TranslationRequest[]
+  ): Promise<{ id: string; requests: Array<BatchJobRequest & { requestIndex: number }> }> {
+    const translator = this.getBatchJobProvider();
+
+    const jobRequests = requests.flatMap((request, requestIndex) =>
+      createBatches(request.units, {
+        maxBatchSize: this.options.batchSize,
+        maxTokensPerBatch: this.options.maxTokensPerBatch,
+      }).map(batch => ({
+        customId: `r${requestIndex}_b${batch.index}`,
+        requestIndex,
+        request: { ...request, units: batch.units },
+      }))
+    );
+
+    logger.info(`Submitting ${jobRequests.length} batch(es) as a batch job`);
+
+    const id = await translator.submitBatchJob(
+      jobRequests.map(jobRequest => {
+        const { request } = decomposeRequest(jobRequest.request);
+        return {
+          ...jobRequest,
+          request: this.translator.cachesPrompt ? request : selectGlossaryTerms(request),
+        };
+      })
+    );
+    return { id, requests: jobRequests };
+  }
+
+  /**
+   * Get the processing state of a batch job
+   */
+  async getBatchJobStatus(jobId: string): Promise<BatchJobStatus> {
+    return this.getBatchJobProvider().getBatchJobStatus(jobId);
+  }
+
+  /**
+   * Download the results of an ended batch job, keyed by custom ID, and reconstruct
+   * the complex ICU messages that were submitted as sentences.
+   * Requests without a result get a response in which all their units failed.
+   */
+  async getBatchJobResults(
+    jobId: string,
+    requests: BatchJobRequest[]
+  ): Promise<Map<string, TranslationResponse>> {
+    const decomposed = new Map(
+      requests.map(({ customId, request }) => [customId, decomposeRequest(request)])
+    );
+    const results = await this.getBatchJobProvider().getBatchJobResults(
+      jobId,
+      requests.map(jobRequest => ({
+        ...jobRequest,
+        request: decomposed.get(jobRequest.customId)?.request ?? jobRequest.request,
+      }))
+    );
+
+    for (const [customId, response] of results) {
+      const decomposedRequest = decomposed.get(customId);
+      if (decomposedRequest) {
+        results.set(customId, composeResponse(decomposedRequest, response));
+      }
+    }
+
+    for (const { customId, request } of requests) {
+      if (!results.has(customId)) {
+        results.set(customId, {
+          translations: [],
+          failures: request.units.map(u => ({ id: u.id, reason: 'No result in batch job' })),
+          provider: this.translator.providerName,
+          model: this.translator.getModel(),
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get the translator as a batch job provider
+   */
+  private getBatchJobProvider(): BatchJobProvider {
+    if (!supportsBatchJobs(this.translator)) {
+      throw new ConfigError(
+        `Batch mode is not supported by the ${this.translator.providerName} provider`
+      );
+    }
+    return this.translator;
+  }
+
   /**
    * Get the underlying translator
    */
@@ -308,3 +695,13 @@ export function createOrchestrator(
 ): TranslationOrchestrator {
   return new TranslationOrchestrator(config, options);
 }
+
+/**
+ * Create a reviewer that scores translations with a provider
+ */
+export function createQualityReviewer(
+  config: ProviderConfig,
+  options: QualityReviewerOptions
+): QualityReviewer {
+  return new QualityReviewer(config, createTranslator(config), options);
+}
@@ -2,21 +2,63 @@ import Anthropic from '@anthropic-ai/sdk';
 import { AuthenticationError, RateLimitError, TranslatorError } from '../../utils/errors';
 import { logger } from '../../utils/logger';
 import type { ProviderConfig } from '../../config/types';
-import type {
-  TranslationRequest,
-  TranslationResponse,
-  TranslatedUnit,
-} from '../../types/translation';
-import { BaseTranslator, parseLLMResponse } from '../base';
-import { buildSystemPrompt, buildUserPrompt } from '../context-builder';
+import type { TranslationRequest, TranslationResponse } from '../../types/translation';
+import {
+  BaseTranslator,
+  TRANSLATION_RESULT_SCHEMA,
+  failAllUnits,
+  parseLLMResponse,
+  parseTranslationResult,
+  toTranslatedUnits,
+} from '../base';
+import type { BatchJobProvider, BatchJobRequest, BatchJobStatus } from '../batch-job';
+import {
+  buildExamplesPrompt,
+  buildGlossaryPrompt,
+  buildReviewSystemPrompt,
+  buildReviewUserPrompt,
+  buildStyleGuidePrompt,
+  buildSystemPrompt,
+  buildUserPrompt,
+} from '../context-builder';
+import {
+  QUALITY_RESULT_SCHEMA,
+  QualityEstimationProvider,
+  QualityEstimationRequest,
+  QualityEstimationResponse,
+  parseQualityResponse,
+  parseQualityResult,
+} from '../quality';
 import { withRetry } from '../retry';
 
+/**
+ * Tool the model is made to call with the translations, so its input follows the schema
+ */
+const TRANSLATION_TOOL: Anthropic.Tool = {
+  name: 'submit_translations',
+  description: 'Submit the translations of all units in the batch',
+  input_schema: TRANSLATION_RESULT_SCHEMA,
+};
+
+/**
+ * Tool the model is made to call with the quality scores
+ */
+const QUALITY_TOOL: Anthropic.Tool = {
+  name: 'submit_scores',
+  description: 'Submit the quality scores of all translations in the batch',
+  input_schema: QUALITY_RESULT_SCHEMA,
+};
+
 /**
  * Anthropic Claude translator implementation
  */
-export class AnthropicTranslator extends BaseTranslator {
+export class AnthropicTranslator
+  extends BaseTranslator
+  implements BatchJobProvider, QualityEstimationProvider
+{
   readonly providerName = 'anthropic';
   readonly defaultModel = 'claude-3-haiku-20240307';
+  override readonly cachesPrompt = true;
 
   private client: Anthropic | null = null;
 
@@ -35,6 +77,7 @@ export class AnthropicTranslator extends BaseTranslator {
 
       this.client = new Anthropic({
         apiKey: this.config.apiKey,
+        baseURL: this.config.baseUrl,
       });
     }
 
@@ -78,14 +121,149 @@ export class AnthropicTranslator extends BaseTranslator {
     this.validateConfig();
 
     const client = this.getClient();
-    const model = this.getModel();
 
-    const systemPrompt = buildSystemPrompt(request.sourceLanguage, request.targetLanguage, {
-      userContext: request.context,
-      preserveFormatting: request.preserveFormatting,
-      preservePlaceholders: request.preservePlaceholders,
+    logger.debug(`Translating ${request.units.length} units with Anthropic ${this.getModel()}`);
+
+    const params = this.buildMessageParams(request);
+    const response = await withRetry(() => this.callApi(() => client.messages.create(params)), {
+      maxRetries: 3,
     });
 
+    return this.parseMessage(response, request);
+  }
+
+  /**
+   * Score a batch of translations
+   */
+  async estimateQuality(request: QualityEstimationRequest): Promise<QualityEstimationResponse> {
+    this.validateConfig();
+
+    const client = this.getClient();
+
+    logger.debug(
+      `Reviewing ${request.units.length} translations with Anthropic ${this.getModel()}`
+    );
+
+    const message = await withRetry(
+      () =>
+        this.callApi(() =>
+          client.messages.create({
+            model: this.getModel(),
+            max_tokens: this.getMaxTokens(),
+            system: buildReviewSystemPrompt(
+              request.sourceLanguage,
+              request.targetLanguage,
+              request.context
+            ),
+            messages: [{ role: 'user', content: buildReviewUserPrompt(request.units) }],
+            tools: [QUALITY_TOOL],
+            tool_choice: { type: 'tool', name: QUALITY_TOOL.name },
+          })
+        ),
+      { maxRetries: 3 }
+    );
+
+    const expectedIds = request.units.map(u => u.id);
+    const toolUse = message.content.find(
+      (block): block is Anthropic.ToolUseBlock =>
+        block.type === 'tool_use' && block.name === QUALITY_TOOL.name
+    );
+
+    return {
+      estimates: toolUse
+        ? parseQualityResult(toolUse.input, expectedIds)
+        : parseQualityResponse(
+            message.content
+              .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+              .map(block => block.text)
+              .join(''),
+            expectedIds
+          ),
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+      },
+    };
+  }
+
+  /**
+   * Submit requests to the Message Batches API
+   */
+  async submitBatchJob(requests: BatchJobRequest[]): Promise<string> {
+    this.validateConfig();
+
+    const client = this.getClient();
+    const batch = await withRetry(
+      () =>
+        this.callApi(() =>
+          client.messages.batches.create({
+            requests: requests.map(({ customId, request }) => ({
+              custom_id: customId,
+              params: this.buildMessageParams(request),
+            })),
+          })
+        ),
+      { maxRetries: 3 }
+    );
+
+    logger.debug(`Submitted ${requests.length} request(s) as Anthropic message batch ${batch.id}`);
+
+    return batch.id;
+  }
+
+  /**
+   * Get the processing state of a message batch
+   */
+  async getBatchJobStatus(jobId: string): Promise<BatchJobStatus> {
+    const client = this.getClient();
+    const batch = await withRetry(() =>
+      this.callApi(() => client.messages.batches.retrieve(jobId))
+    );
+
+    return batch.processing_status === 'ended' ? 'ended' : 'in_progress';
+  }
+
+  /**
+   * Download the results of an ended message batch
+   */
+  async getBatchJobResults(
+    jobId: string,
+    requests: BatchJobRequest[]
+  ): Promise<Map<string, TranslationResponse>> {
+    const client = this.getClient();
+    const requestMap = new Map(requests.map(r => [r.customId, r.request]));
+    const results = new Map<string, TranslationResponse>();
+
+    const decoder = await withRetry(() =>
+      this.callApi(() => client.messages.batches.results(jobId))
+    );
+
+    for await (const item of decoder) {
+      const request = requestMap.get(item.custom_id);
+      if (!request) {
+        continue;
+      }
+
+      const { result } = item;
+      if (result.type === 'succeeded') {
+        results.set(item.custom_id, this.parseMessage(result.message, request));
+        continue;
+      }
+
+      const reason =
+        result.type === 'errored' ? result.error.error.message : `Batch request ${result.type}`;
+      results.set(item.custom_id, this.createFailedResponse(request, reason));
+    }
+
+    return results;
+  }
+
+  /**
+   * Build the Messages API parameters for a translation request
+   */
+  private buildMessageParams(
+    request: TranslationRequest
+  ): Anthropic.MessageCreateParamsNonStreaming {
     const userPrompt = buildUserPrompt(
       request.units,
       request.sourceLanguage,
@@ -96,64 +274,115 @@ export class AnthropicTranslator extends BaseTranslator {
       }
     );
 
-    const expectedIds = request.units.map(u => u.id);
+    return {
+      model: this.getModel(),
+      max_tokens: this.getMaxTokens(),
+      system: this.buildSystemBlocks(request),
+      messages: [{ role: 'user', content: userPrompt }],
+      tools: [TRANSLATION_TOOL],
+      tool_choice: { type: 'tool', name: TRANSLATION_TOOL.name },
+    };
+  }
 
-    logger.debug(`Translating ${request.units.length} units with Anthropic ${model}`);
+  /**
+   * Build the system prompt as the stable prefix of the request: the instructions,
+   * the glossary of the language, the style guide and the examples, each in a block
+   * of its own. They are the same for every batch of a language, so the last block
+   * carries the cache breakpoint and the tools and system prompt are read from the
+   * prompt cache after the first call (once they reach the model's minimum
+   * cacheable length).
+   */
+  private buildSystemBlocks(request: TranslationRequest): Anthropic.TextBlockParam[] {
+    const systemPrompt = buildSystemPrompt(request.sourceLanguage, request.targetLanguage, {
+      userContext: request.context,
+      preserveFormatting: request.preserveFormatting,
+      preservePlaceholders: request.preservePlaceholders,
+    });
 
-    const response = await withRetry(
-      async () => {
-        try {
-          return await client.messages.create({
-            model,
-            max_tokens: this.getMaxTokens(),
-            system: systemPrompt,
-            messages: [{ role: 'user', content: userPrompt }],
-          });
-        } catch (error) {
-          this.handleApiError(error);
-          throw error;
-        }
-      },
-      { maxRetries: 3 }
-    );
+    const blocks: Anthropic.TextBlockParam[] = [{ type: 'text', text: systemPrompt }];
+    if (request.glossary && request.glossary.length > 0) {
+      blocks.push({ type: 'text', text: buildGlossaryPrompt(request.glossary) });
+    }
+    if (request.styleGuide) {
+      blocks.push({ type: 'text', text: buildStyleGuidePrompt(request.styleGuide) });
+    }
+    if (request.examples && request.examples.length > 0) {
+      blocks.push({ type: 'text', text: buildExamplesPrompt(request.examples) });
+    }
 
-    // Extract text from response
-    const responseText = response.content
-      .filter(block => block.type === 'text')
-      .map(block => (block as Anthropic.TextBlock).text)
-      .join('');
-
-    // Parse response
-    const parsed = parseLLMResponse(responseText, expectedIds);
-
-    // Map back to units
-    const translations: TranslatedUnit[] = [];
-    const parsedMap = new Map(parsed.map(p => [p.id, p.translation]));
-
-    for (const unit of request.units) {
-      const translation = parsedMap.get(unit.id);
-      if (translation) {
-        translations.push({
-          id: unit.id,
-          source: unit.source,
-          target: translation,
-        });
-      } else {
-        logger.warning(`No translation returned for unit: ${unit.id}`);
-      }
+    const last = blocks[blocks.length - 1];
+    if (last) {
+      last.cache_control = { type: 'ephemeral' };
     }
 
+    return blocks;
+  }
+
+  /**
+   * Map a message back to the units of a translation request
+   */
+  private parseMessage(
+    message: Anthropic.Message,
+    request: TranslationRequest
+  ): TranslationResponse {
+    const expectedIds = request.units.map(u => u.id);
+
+    // Use the tool input, or JSON in the text when the model did not call the tool
+    const toolUse = message.content.find(
+      (block): block is Anthropic.ToolUseBlock =>
+        block.type === 'tool_use' && block.name === TRANSLATION_TOOL.name
+    );
+    const parsed = toolUse
+      ? parseTranslationResult(toolUse.input, expectedIds)
+      : parseLLMResponse(
+          message.content
+            .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+            .map(block => block.text)
+            .join(''),
+          expectedIds
+        );
+
     return {
-      translations,
+      ...toTranslatedUnits(request.units, parsed),
       usage: {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+        cacheReadInputTokens: message.usage.cache_read_input_tokens ?? 0,
+        cacheWriteInputTokens: message.usage.cache_creation_input_tokens ?? 0,
       },
       provider: this.providerName,
-      model,
+      model: this.getModel(),
     };
   }
 
+  /**
+   * Create a response in which every unit of a request failed
+   */
+  private createFailedResponse(request: TranslationRequest, reason: string): TranslationResponse {
+    return {
+      ...toTranslatedUnits(
+        request.units,
+        failAllUnits(
+          request.units.map(u => u.id),
+          reason
+        )
+      ),
+      provider: this.providerName,
+      model: this.getModel(),
+    };
+  }
+
+  /**
+   * Call the API, converting errors to translator errors
+   */
+  private async callApi<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      this.handleApiError(error);
+    }
+  }
+
   /**
    * Handle API errors and convert to appropriate error types
    */
@@ -2,13 +2,26 @@ import axios, { AxiosInstance, AxiosError } from 'axios';
 import { ConfigError, TranslatorError } from '../../utils/errors';
 import { logger } from '../../utils/logger';
 import type { ProviderConfig } from '../../config/types';
-import type {
-  TranslationRequest,
-  TranslationResponse,
-  TranslatedUnit,
-} from '../../types/translation';
-import { BaseTranslator, parseLLMResponse } from '../base';
-import { buildSystemPrompt, buildUserPrompt } from '../context-builder';
+import type { TokenUsage, TranslationRequest, TranslationResponse } from '../../types/translation';
+import {
+  BaseTranslator,
+  TRANSLATION_RESULT_SCHEMA,
+  parseLLMResponse,
+  toTranslatedUnits,
+} from '../base';
+import {
+  buildReviewSystemPrompt,
+  buildReviewUserPrompt,
+  buildSystemPrompt,
+  buildUserPrompt,
+} from '../context-builder';
+import {
+  QUALITY_RESULT_SCHEMA,
+  QualityEstimationProvider,
+  QualityEstimationRequest,
+  QualityEstimationResponse,
+  parseQualityResponse,
+} from '../quality';
 import { withRetry } from '../retry';
 
 /**
@@ -33,7 +46,7 @@ interface OllamaChatResponse {
 /**
  * Ollama local translator implementation
  */
-export class OllamaTranslator extends BaseTranslator {
+export class OllamaTranslator extends BaseTranslator implements QualityEstimationProvider {
   readonly providerName = 'ollama';
   readonly defaultModel = 'llama3.2';
 
@@ -93,13 +106,15 @@ export class OllamaTranslator extends BaseTranslator {
   async translate(request: TranslationRequest): Promise<TranslationResponse> {
     this.validateConfig();
 
-    const client = this.getClient();
     const model = this.getModel();
 
     const systemPrompt = buildSystemPrompt(request.sourceLanguage, request.targetLanguage, {
       userContext: request.context,
       preserveFormatting: request.preserveFormatting,
       preservePlaceholders: request.preservePlaceholders,
+      glossary: request.glossary,
+      styleGuide: request.styleGuide,
+      examples: request.examples,
     });
 
     const userPrompt = buildUserPrompt(
@@ -116,17 +131,61 @@ export class OllamaTranslator extends BaseTranslator {
 
     logger.debug(`Translating ${request.units.length} units with Ollama ${model}`);
 
+    const response = await this.chat(systemPrompt, userPrompt, TRANSLATION_RESULT_SCHEMA);
+    const parsed = parseLLMResponse(response.message.content, expectedIds);
+
+    return {
+      ...toTranslatedUnits(request.units, parsed),
+      usage: getUsage(response),
+      provider: this.providerName,
+      model,
+    };
+  }
+
+  /**
+   * Score a batch of translations
+   */
+  async estimateQuality(request: QualityEstimationRequest): Promise<QualityEstimationResponse> {
+    this.validateConfig();
+
+    logger.debug(`Reviewing ${request.units.length} translations with Ollama ${this.getModel()}`);
+
+    const response = await this.chat(
+      buildReviewSystemPrompt(request.sourceLanguage, request.targetLanguage, request.context),
+      buildReviewUserPrompt(request.units),
+      QUALITY_RESULT_SCHEMA
+    );
+
+    return {
+      estimates: parseQualityResponse(
+        response.message.content,
+        request.units.map(u => u.id)
+      ),
+      usage: getUsage(response),
+    };
+  }
+
+  /**
+   * Send a chat request whose response follows a JSON schema
+   */
+  private async chat(
+    systemPrompt: string,
+    userPrompt: string,
+    format: object
+  ): Promise<OllamaChatResponse> {
+    const client = this.getClient();
+
     const response = await withRetry(
       async () => {
         try {
           const result = await client.post<OllamaChatResponse>('/api/chat', {
-            model,
+            model: this.getModel(),
             messages: [
               { role: 'system', content: systemPrompt },
               { role: 'user', content: userPrompt },
             ],
             stream: false,
-            format: 'json',
+            format,
             options: {
               temperature: this.getTemperature(),
               num_predict: this.getMaxTokens(),
@@ -142,48 +201,11 @@ export class OllamaTranslator extends BaseTranslator {
       { maxRetries: 2 } // Fewer retries for local model
     );
 
-    // Extract text from response
-    const responseText = response.message?.content ?? '';
-
-    if (!responseText) {
+    if (!response.message?.content) {
       throw new TranslatorError('Empty response from Ollama', 'ollama', true);
     }
 
-    // Parse response
-    const parsed = parseLLMResponse(responseText, expectedIds);
-
-    // Map back to units
-    const translations: TranslatedUnit[] = [];
-    const parsedMap = new Map(parsed.map(p => [p.id, p.translation]));
-
-    for (const unit of request.units) {
-      const translation = parsedMap.get(unit.id);
-      if (translation) {
-        translations.push({
-          id: unit.id,
-          source: unit.source,
-          target: translation,
-        });
-      } else {
-        logger.warning(`No translation returned for unit: ${unit.id}`);
-      }
-    }
-
-    // Calculate rough token estimates from Ollama metrics
-    const usage =
-      response.prompt_eval_count !== undefined && response.eval_count !== undefined
-        ? {
-            inputTokens: response.prompt_eval_count,
-            outputTokens: response.eval_count,
-          }
-        : undefined;
-
-    return {
-      translations,
-      usage,
-      provider: this.providerName,
-      model,
-    };
+    return response;
   }
 
   /**
@@ -263,3 +285,15 @@ export class OllamaTranslator extends BaseTranslator {
     }
   }
 }
+
+/**
+ * Get the token usage reported by Ollama
+ */
+function getUsage(response: OllamaChatResponse): TokenUsage | undefined {
+  return response.prompt_eval_count !== undefined && response.eval_count !== undefined
+    ? {
+        inputTokens: response.prompt_eval_count,
+        outputTokens: response.eval_count,
+      }
+    : undefined;
+}
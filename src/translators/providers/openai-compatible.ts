@@ -0,0 +1,448 @@
+import OpenAI from 'openai';
+import {
+  AuthenticationError,
+  ConfigError,
+  RateLimitError,
+  TranslatorError,
+} from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import type { OpenAICompatibleFeatures, ProviderConfig } from '../../config/types';
+import type { TokenUsage, TranslationRequest, TranslationResponse } from '../../types/translation';
+import {
+  BaseTranslator,
+  TRANSLATION_RESULT_SCHEMA,
+  failAllUnits,
+  parseLLMResponse,
+  toTranslatedUnits,
+} from '../base';
+import {
+  buildReviewSystemPrompt,
+  buildReviewUserPrompt,
+  buildSystemPrompt,
+  buildUserPrompt,
+} from '../context-builder';
+import {
+  QUALITY_RESULT_SCHEMA,
+  QualityEstimationProvider,
+  QualityEstimationRequest,
+  QualityEstimationResponse,
+  parseQualityResponse,
+} from '../quality';
+import { withRetry } from '../retry';
+
+/**
+ * Features assumed for a server that does not declare them: plain text output
+ * works everywhere, and most servers report usage
+ */
+export const DEFAULT_OPENAI_COMPATIBLE_FEATURES: OpenAICompatibleFeatures = {
+  jsonMode: 'none',
+  tools: false,
+  usage: true,
+};
+
+/**
+ * Function the model is asked to call with its translations
+ */
+const TRANSLATION_FUNCTION: OpenAI.FunctionDefinition = {
+  name: 'submit_translations',
+  description: 'Submit the translation of every unit in the request',
+  parameters: TRANSLATION_RESULT_SCHEMA,
+};
+
+/**
+ * Function the model is asked to call with its quality scores
+ */
+const QUALITY_FUNCTION: OpenAI.FunctionDefinition = {
+  name: 'submit_scores',
+  description: 'Submit the quality scores of every translation in the request',
+  parameters: QUALITY_RESULT_SCHEMA,
+};
+
+/**
+ * Translator for servers that implement the OpenAI Chat Completions API, such as
+ * vLLM, LM Studio, the llama.cpp server and Azure OpenAI.
+ *
+ * Structured output is only requested when the server declares support for it,
+ * and is turned off for the rest of the run when the server rejects it. The JSON
+ * is then parsed from the plain text response.
+ */
+export class OpenAICompatibleTranslator
+  extends BaseTranslator
+  implements QualityEstimationProvider
+{
+  readonly providerName = 'openai-compatible';
+  readonly defaultModel = '';
+
+  private client: OpenAI | null = null;
+  private features: OpenAICompatibleFeatures;
+
+  constructor(config: ProviderConfig) {
+    super(config);
+    this.features = { ...DEFAULT_OPENAI_COMPATIBLE_FEATURES, ...config.features };
+  }
+
+  /**
+   * Get or create the OpenAI client for the server
+   */
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        // The SDK requires a key; it is not sent unless the auth scheme is bearer
+        apiKey: this.config.apiKey ?? 'none',
+        baseURL: this.config.baseUrl,
+        defaultHeaders: this.buildHeaders(),
+        defaultQuery: this.config.apiVersion
+          ? { 'api-version': this.config.apiVersion }
+          : undefined,
+      });
+    }
+
+    return this.client;
+  }
+
+  /**
+   * Build the headers sent with every request. A null value removes a header the
+   * SDK would otherwise send.
+   */
+  private buildHeaders(): Record<string, string | null> {
+    const headers: Record<string, string | null> = { ...this.config.headers };
+
+    switch (this.getAuthScheme()) {
+      case 'bearer':
+        break;
+      case 'api-key':
+        headers['Authorization'] = null;
+        headers['api-key'] = this.config.apiKey ?? '';
+        break;
+      case 'none':
+        headers['Authorization'] = null;
+        break;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Get the auth scheme, bearer when a key is set and none otherwise
+   */
+  private getAuthScheme(): NonNullable<ProviderConfig['authScheme']> {
+    return this.config.authScheme ?? (this.config.apiKey ? 'bearer' : 'none');
+  }
+
+  /**
+   * Validate configuration
+   */
+  validateConfig(): void {
+    if (!this.config.baseUrl) {
+      throw new ConfigError('Base URL is required for openai-compatible provider');
+    }
+
+    if (!this.config.model) {
+      throw new ConfigError('Model is required for openai-compatible provider');
+    }
+
+    if (this.getAuthScheme() !== 'none' && !this.config.apiKey) {
+      throw new AuthenticationError(this.providerName);
+    }
+  }
+
+  /**
+   * Check if the server is available
+   */
+  async checkAvailability(): Promise<boolean> {
+    try {
+      const client = this.getClient();
+      // Not every server lists models (Azure deployments don't), so send a minimal completion
+      await client.chat.completions.create({
+        model: this.getModel(),
+        max_tokens: 10,
+        messages: [{ role: 'user', content: 'test' }],
+      });
+      return true;
+    } catch (error) {
+      logger.warning(`OpenAI-compatible server at ${this.config.baseUrl} is not available`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Translate a batch of units
+   */
+  async translate(request: TranslationRequest): Promise<TranslationResponse> {
+    this.validateConfig();
+
+    logger.debug(
+      `Translating ${request.units.length} units with ${this.getModel()} at ${this.config.baseUrl}`
+    );
+
+    const systemPrompt = buildSystemPrompt(request.sourceLanguage, request.targetLanguage, {
+      userContext: request.context,
+      preserveFormatting: request.preserveFormatting,
+      preservePlaceholders: request.preservePlaceholders,
+      glossary: request.glossary,
+      styleGuide: request.styleGuide,
+      examples: request.examples,
+    });
+
+    const userPrompt = buildUserPrompt(
+      request.units,
+      request.sourceLanguage,
+      request.targetLanguage,
+      {
+        preserveFormatting: request.preserveFormatting,
+        preservePlaceholders: request.preservePlaceholders,
+      }
+    );
+
+    const response = await this.complete(systemPrompt, userPrompt, TRANSLATION_FUNCTION);
+
+    return this.parseCompletion(response, request);
+  }
+
+  /**
+   * Score a batch of translations
+   */
+  async estimateQuality(request: QualityEstimationRequest): Promise<QualityEstimationResponse> {
+    this.validateConfig();
+
+    logger.debug(
+      `Reviewing ${request.units.length} translations with ${this.getModel()} at ${this.config.baseUrl}`
+    );
+
+    const response = await this.complete(
+      buildReviewSystemPrompt(request.sourceLanguage, request.targetLanguage, request.context),
+      buildReviewUserPrompt(request.units),
+      QUALITY_FUNCTION
+    );
+
+    const message = response.choices[0]?.message;
+    if (message?.refusal) {
+      throw new TranslatorError(`Review refused: ${message.refusal}`, this.providerName, false);
+    }
+
+    const toolCall = message?.tool_calls?.find(
+      call => call.function.name === QUALITY_FUNCTION.name
+    );
+
+    return {
+      estimates: parseQualityResponse(
+        toolCall?.function.arguments ?? message?.content ?? '',
+        request.units.map(u => u.id)
+      ),
+      usage: this.getUsage(response),
+    };
+  }
+
+  /**
+   * Send a request whose answer is the arguments of a function, falling back to
+   * plain text for the rest of the run when the server rejects structured output.
+   * Other bad requests, such as a prompt that is too long, are errors as usual.
+   */
+  private async complete(
+    systemPrompt: string,
+    userPrompt: string,
+    output: OpenAI.FunctionDefinition
+  ): Promise<OpenAI.ChatCompletion> {
+    try {
+      return await this.createCompletion(systemPrompt, userPrompt, output);
+    } catch (error) {
+      if (!this.usesStructuredOutput() || !isStructuredOutputRejection(error)) {
+        throw error;
+      }
+
+      logger.warning(
+        `Server rejected structured output, falling back to plain text: ${error.message}`
+      );
+      this.features = { ...this.features, jsonMode: 'none', tools: false };
+      return this.createCompletion(systemPrompt, userPrompt, output);
+    }
+  }
+
+  /**
+   * Send a request to the server
+   */
+  private async createCompletion(
+    systemPrompt: string,
+    userPrompt: string,
+    output: OpenAI.FunctionDefinition
+  ): Promise<OpenAI.ChatCompletion> {
+    const client = this.getClient();
+    const params = this.buildCompletionParams(systemPrompt, userPrompt, output);
+
+    return withRetry(() => this.callApi(() => client.chat.completions.create(params)), {
+      maxRetries: 3,
+    });
+  }
+
+  /**
+   * Check whether requests ask for structured output
+   */
+  private usesStructuredOutput(): boolean {
+    return this.features.tools || this.features.jsonMode !== 'none';
+  }
+
+  /**
+   * Build the Chat Completions parameters for the features the server supports
+   */
+  private buildCompletionParams(
+    systemPrompt: string,
+    userPrompt: string,
+    output: OpenAI.FunctionDefinition
+  ): OpenAI.ChatCompletionCreateParamsNonStreaming {
+    const params: OpenAI.ChatCompletionCreateParamsNonStreaming = {
+      model: this.getModel(),
+      max_tokens: this.getMaxTokens(),
+      temperature: this.getTemperature(),
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+    };
+
+    if (this.features.tools) {
+      params.tools = [{ type: 'function', function: output }];
+      params.tool_choice = { type: 'function', function: { name: output.name } };
+    } else if (this.features.jsonMode === 'json_schema') {
+      params.response_format = {
+        type: 'json_schema',
+        json_schema: {
+          name: output.name,
+          strict: true,
+          schema: output.parameters,
+        },
+      };
+    } else if (this.features.jsonMode === 'json_object') {
+      params.response_format = { type: 'json_object' };
+    }
+
+    return params;
+  }
+
+  /**
+   * Map a chat completion back to the units of a translation request
+   */
+  private parseCompletion(
+    response: OpenAI.ChatCompletion,
+    request: TranslationRequest
+  ): TranslationResponse {
+    const expectedIds = request.units.map(u => u.id);
+    const message = response.choices[0]?.message;
+
+    if (message?.refusal) {
+      return this.createFailedResponse(request, `Refused: ${message.refusal}`);
+    }
+
+    // Servers without strict tool support may answer in text despite tool_choice
+    const toolCall = message?.tool_calls?.find(
+      call => call.function.name === TRANSLATION_FUNCTION.name
+    );
+    const responseText = toolCall?.function.arguments ?? message?.content ?? '';
+
+    if (!responseText) {
+      throw new TranslatorError(
+        `Empty response from ${this.config.baseUrl}`,
+        this.providerName,
+        true
+      );
+    }
+
+    const parsed = parseLLMResponse(responseText, expectedIds);
+
+    return {
+      ...toTranslatedUnits(request.units, parsed),
+      usage: this.getUsage(response),
+      provider: this.providerName,
+      model: this.getModel(),
+    };
+  }
+
+  /**
+   * Get the token usage of a completion, if the server reports it
+   */
+  private getUsage(response: OpenAI.ChatCompletion): TokenUsage | undefined {
+    return this.features.usage && response.usage
+      ? {
+          inputTokens: response.usage.prompt_tokens,
+          outputTokens: response.usage.completion_tokens,
+        }
+      : undefined;
+  }
+
+  /**
+   * Create a response in which every unit of a request failed
+   */
+  private createFailedResponse(request: TranslationRequest, reason: string): TranslationResponse {
+    return {
+      ...toTranslatedUnits(
+        request.units,
+        failAllUnits(
+          request.units.map(u => u.id),
+          reason
+        )
+      ),
+      provider: this.providerName,
+      model: this.getModel(),
+    };
+  }
+
+  /**
+   * Call the API, converting errors to translator errors
+   */
+  private async callApi<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      this.handleApiError(error);
+    }
+  }
+
+  /**
+   * Handle API errors and convert to appropriate error types
+   */
+  private handleApiError(error: unknown): never {
+    if (error instanceof OpenAI.APIError) {
+      if (error.status === 401 || error.status === 403) {
+        throw new AuthenticationError(this.providerName, error);
+      }
+
+      if (error.status === 429) {
+        const retryAfter = error.headers?.['retry-after'];
+        throw new RateLimitError(
+          this.providerName,
+          retryAfter ? parseInt(retryAfter, 10) : undefined,
+          error
+        );
+      }
+
+      // Connection errors have no status; local servers may still be loading the model
+      const retryable = error.status === undefined || error.status >= 500;
+      throw new TranslatorError(
+        `OpenAI-compatible API error: ${error.message}`,
+        this.providerName,
+        retryable,
+        error
+      );
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Parameters of structured output that servers may not support
+ */
+const STRUCTURED_OUTPUT_PATTERN = /response_format|json_schema|json_object|tool_choice|\btools\b/i;
+
+/**
+ * Check whether an error is the server rejecting a request as malformed because of
+ * its structured output parameters
+ */
+function isStructuredOutputRejection(error: unknown): error is TranslatorError {
+  return (
+    error instanceof TranslatorError &&
+    error.cause instanceof OpenAI.BadRequestError &&
+    STRUCTURED_OUTPUT_PATTERN.test(error.cause.message)
+  );
+}
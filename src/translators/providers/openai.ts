@@ -1,20 +1,52 @@
-import OpenAI from 'openai';
+import OpenAI, { toFile } from 'openai';
 import { AuthenticationError, RateLimitError, TranslatorError } from '../../utils/errors';
 import { logger } from '../../utils/logger';
 import type { ProviderConfig } from '../../config/types';
-import type {
-  TranslationRequest,
-  TranslationResponse,
-  TranslatedUnit,
-} from '../../types/translation';
-import { BaseTranslator, parseLLMResponse } from '../base';
-import { buildSystemPrompt, buildUserPrompt } from '../context-builder';
+import type { TranslationRequest, TranslationResponse } from '../../types/translation';
+import {
+  BaseTranslator,
+  TRANSLATION_RESULT_SCHEMA,
+  failAllUnits,
+  parseLLMResponse,
+  toTranslatedUnits,
+} from '../base';
+import type { BatchJobProvider, BatchJobRequest, BatchJobStatus } from '../batch-job';
+import {
+  buildReviewSystemPrompt,
+  buildReviewUserPrompt,
+  buildSystemPrompt,
+  buildUserPrompt,
+} from '../context-builder';
+import {
+  QUALITY_RESULT_SCHEMA,
+  QualityEstimationProvider,
+  QualityEstimationRequest,
+  QualityEstimationResponse,
+  parseQualityResponse,
+} from '../quality';
 import { withRetry } from '../retry';
 
+/**
+ * Endpoint that batch requests are run against
+ */
+const BATCH_ENDPOINT = '/v1/chat/completions';
+
+/**
+ * A line of a Batch API output or error file
+ */
+interface BatchOutputLine {
+  custom_id: string;
+  response?: { status_code: number; body: unknown } | null;
+  error?: { code?: string; message?: string } | null;
+}
+
 /**
  * OpenAI GPT translator implementation
  */
-export class OpenAITranslator extends BaseTranslator {
+export class OpenAITranslator
+  extends BaseTranslator
+  implements BatchJobProvider, QualityEstimationProvider
+{
   readonly providerName = 'openai';
   readonly defaultModel = 'gpt-4o-mini';
 
@@ -79,12 +111,188 @@ export class OpenAITranslator extends BaseTranslator {
     this.validateConfig();
 
     const client = this.getClient();
-    const model = this.getModel();
 
+    logger.debug(`Translating ${request.units.length} units with OpenAI ${this.getModel()}`);
+
+    const params = this.buildCompletionParams(request);
+    const response = await withRetry(
+      () => this.callApi(() => client.chat.completions.create(params)),
+      { maxRetries: 3 }
+    );
+
+    return this.parseCompletion(response, request);
+  }
+
+  /**
+   * Score a batch of translations
+   */
+  async estimateQuality(request: QualityEstimationRequest): Promise<QualityEstimationResponse> {
+    this.validateConfig();
+
+    const client = this.getClient();
+
+    logger.debug(`Reviewing ${request.units.length} translations with OpenAI ${this.getModel()}`);
+
+    const response = await withRetry(
+      () =>
+        this.callApi(() =>
+          client.chat.completions.create({
+            model: this.getModel(),
+            max_tokens: this.getMaxTokens(),
+            temperature: this.getTemperature(),
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'quality_result', strict: true, schema: QUALITY_RESULT_SCHEMA },
+            },
+            messages: [
+              {
+                role: 'system',
+                content: buildReviewSystemPrompt(
+                  request.sourceLanguage,
+                  request.targetLanguage,
+                  request.context
+                ),
+              },
+              { role: 'user', content: buildReviewUserPrompt(request.units) },
+            ],
+          })
+        ),
+      { maxRetries: 3 }
+    );
+
+    const message = response.choices[0]?.message;
+    if (message?.refusal) {
+      throw new TranslatorError(`Review refused: ${message.refusal}`, 'openai', false);
+    }
+
+    return {
+      estimates: parseQualityResponse(
+        message?.content ?? '',
+        request.units.map(u => u.id)
+      ),
+      usage: response.usage
+        ? {
+            inputTokens: response.usage.prompt_tokens,
+            outputTokens: response.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Upload requests as a JSONL file and submit it to the Batch API
+   */
+  async submitBatchJob(requests: BatchJobRequest[]): Promise<string> {
+    this.validateConfig();
+
+    const client = this.getClient();
+    const lines = requests.map(({ customId, request }) =>
+      JSON.stringify({
+        custom_id: customId,
+        method: 'POST',
+        url: BATCH_ENDPOINT,
+        body: this.buildCompletionParams(request),
+      })
+    );
+
+    const file = await withRetry(
+      async () =>
+        this.callApi(async () =>
+          client.files.create({
+            file: await toFile(Buffer.from(lines.join('\n') + '\n'), 'translations.jsonl'),
+            purpose: 'batch',
+          })
+        ),
+      { maxRetries: 3 }
+    );
+
+    const batch = await withRetry(
+      () =>
+        this.callApi(() =>
+          client.batches.create({
+            input_file_id: file.id,
+            endpoint: BATCH_ENDPOINT,
+            completion_window: '24h',
+          })
+        ),
+      { maxRetries: 3 }
+    );
+
+    logger.debug(`Submitted ${requests.length} request(s) as OpenAI batch ${batch.id}`);
+
+    return batch.id;
+  }
+
+  /**
+   * Get the processing state of a batch
+   */
+  async getBatchJobStatus(jobId: string): Promise<BatchJobStatus> {
+    const client = this.getClient();
+    const batch = await withRetry(() => this.callApi(() => client.batches.retrieve(jobId)));
+
+    switch (batch.status) {
+      case 'failed':
+        return 'failed';
+      // Expired and cancelled batches keep the results of the requests that completed
+      case 'completed':
+      case 'expired':
+      case 'cancelled':
+        return 'ended';
+      default:
+        return 'in_progress';
+    }
+  }
+
+  /**
+   * Download the output and error files of an ended batch
+   */
+  async getBatchJobResults(
+    jobId: string,
+    requests: BatchJobRequest[]
+  ): Promise<Map<string, TranslationResponse>> {
+    const client = this.getClient();
+    const requestMap = new Map(requests.map(r => [r.customId, r.request]));
+    const results = new Map<string, TranslationResponse>();
+
+    const batch = await withRetry(() => this.callApi(() => client.batches.retrieve(jobId)));
+    const fileIds = [batch.output_file_id, batch.error_file_id].filter((id): id is string => !!id);
+
+    for (const fileId of fileIds) {
+      const content = await withRetry(() =>
+        this.callApi(async () => (await client.files.content(fileId)).text())
+      );
+
+      for (const line of content.split('\n')) {
+        if (line.trim() === '') {
+          continue;
+        }
+
+        const item = JSON.parse(line) as BatchOutputLine;
+        const request = requestMap.get(item.custom_id);
+        if (!request) {
+          continue;
+        }
+
+        results.set(item.custom_id, this.parseBatchOutput(item, request));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Build the Chat Completions parameters for a translation request
+   */
+  private buildCompletionParams(
+    request: TranslationRequest
+  ): OpenAI.ChatCompletionCreateParamsNonStreaming {
     const systemPrompt = buildSystemPrompt(request.sourceLanguage, request.targetLanguage, {
       userContext: request.context,
       preserveFormatting: request.preserveFormatting,
       preservePlaceholders: request.preservePlaceholders,
+      glossary: request.glossary,
+      styleGuide: request.styleGuide,
+      examples: request.examples,
     });
 
     const userPrompt = buildUserPrompt(
@@ -97,60 +305,50 @@ export class OpenAITranslator extends BaseTranslator {
       }
     );
 
-    const expectedIds = request.units.map(u => u.id);
+    return {
+      model: this.getModel(),
+      max_tokens: this.getMaxTokens(),
+      temperature: this.getTemperature(),
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: 'translation_result',
+          strict: true,
+          schema: TRANSLATION_RESULT_SCHEMA,
+        },
+      },
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt },
+      ],
+    };
+  }
 
-    logger.debug(`Translating ${request.units.length} units with OpenAI ${model}`);
+  /**
+   * Map a chat completion back to the units of a translation request
+   */
+  private parseCompletion(
+    response: OpenAI.ChatCompletion,
+    request: TranslationRequest
+  ): TranslationResponse {
+    const expectedIds = request.units.map(u => u.id);
+    const message = response.choices[0]?.message;
 
-    const response = await withRetry(
-      async () => {
-        try {
-          return await client.chat.completions.create({
-            model,
-            max_tokens: this.getMaxTokens(),
-            temperature: this.getTemperature(),
-            response_format: { type: 'json_object' },
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt },
-            ],
-          });
-        } catch (error) {
-          this.handleApiError(error);
-          throw error;
-        }
-      },
-      { maxRetries: 3 }
-    );
+    // With structured outputs, the model either follows the schema or refuses
+    if (message?.refusal) {
+      return this.createFailedResponse(request, `Refused: ${message.refusal}`);
+    }
 
-    // Extract text from response
-    const responseText = response.choices[0]?.message?.content ?? '';
+    const responseText = message?.content ?? '';
 
     if (!responseText) {
       throw new TranslatorError('Empty response from OpenAI', 'openai', true);
     }
 
-    // Parse response
     const parsed = parseLLMResponse(responseText, expectedIds);
 
-    // Map back to units
-    const translations: TranslatedUnit[] = [];
-    const parsedMap = new Map(parsed.map(p => [p.id, p.translation]));
-
-    for (const unit of request.units) {
-      const translation = parsedMap.get(unit.id);
-      if (translation) {
-        translations.push({
-          id: unit.id,
-          source: unit.source,
-          target: translation,
-        });
-      } else {
-        logger.warning(`No translation returned for unit: ${unit.id}`);
-      }
-    }
-
     return {
-      translations,
+      ...toTranslatedUnits(request.units, parsed),
       usage: response.usage
         ? {
             inputTokens: response.usage.prompt_tokens,
@@ -158,10 +356,65 @@ export class OpenAITranslator extends BaseTranslator {
           }
         : undefined,
       provider: this.providerName,
-      model,
+      model: this.getModel(),
     };
   }
 
+  /**
+   * Map a line of a batch output or error file back to the units of a request
+   */
+  private parseBatchOutput(
+    item: BatchOutputLine,
+    request: TranslationRequest
+  ): TranslationResponse {
+    const { response, error } = item;
+
+    if (response?.status_code === 200) {
+      try {
+        return this.parseCompletion(response.body as OpenAI.ChatCompletion, request);
+      } catch (parseError) {
+        return this.createFailedResponse(
+          request,
+          parseError instanceof Error ? parseError.message : 'Unknown error'
+        );
+      }
+    }
+
+    const body = response?.body as { error?: { message?: string } } | undefined;
+    return this.createFailedResponse(
+      request,
+      error?.message ?? body?.error?.message ?? `HTTP ${response?.status_code ?? 'error'}`
+    );
+  }
+
+  /**
+   * Create a response in which every unit of a request failed
+   */
+  private createFailedResponse(request: TranslationRequest, reason: string): TranslationResponse {
+    return {
+      ...toTranslatedUnits(
+        request.units,
+        failAllUnits(
+          request.units.map(u => u.id),
+          reason
+        )
+      ),
+      provider: this.providerName,
+      model: this.getModel(),
+    };
+  }
+
+  /**
+   * Call the API, converting errors to translator errors
+   */
+  private async callApi<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      this.handleApiError(error);
+    }
+  }
+
   /**
    * Handle API errors and convert to appropriate error types
    */
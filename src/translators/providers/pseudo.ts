@@ -0,0 +1,230 @@
+import { parseICUMessage } from '../../icu/parser';
+import {
+  reconstructPlural,
+  reconstructSelect,
+  reconstructSelectordinal,
+} from '../../icu/reconstructor';
+import { ConfigError, ICUParseError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import type { ProviderConfig, PseudoLocalizationOptions } from '../../config/types';
+import type { TranslationRequest, TranslationResponse } from '../../types/translation';
+import { BaseTranslator } from '../base';
+
+/**
+ * Default pseudo-localization options, as used for an en-XA locale
+ */
+export const DEFAULT_PSEUDO_LOCALIZATION_OPTIONS: PseudoLocalizationOptions = {
+  accents: true,
+  expansion: 35,
+  brackets: true,
+  mirror: false,
+};
+
+/**
+ * ASCII letters and their accented look-alikes, at the same positions
+ */
+const ASCII_LETTERS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const ACCENTED_LETTERS = 'åƀçðéƒĝĥîĵķļɱñöþǫŕšţûṽŵẋýžÅƁÇÐÉƑĜĤÎĴĶĻṀÑÖÞǪŔŠŢÛṼŴẊÝŽ';
+
+/**
+ * Words appended to expand text
+ */
+const FILLER_WORDS = [
+  'one',
+  'two',
+  'three',
+  'four',
+  'five',
+  'six',
+  'seven',
+  'eight',
+  'nine',
+  'ten',
+];
+
+/**
+ * Parts of text that are never changed: XML and HTML tags, entities, {{markers}},
+ * ${...} and {...} placeholders, and printf-style format specifiers
+ */
+const PROTECTED_PATTERN =
+  /<[^<>]+>|&(?:#\d+|#x[0-9a-f]+|\w+);|\{\{[^{}]*\}\}|\$\{[^{}]*\}|\{[^{}]*\}|%(?:\d+\$)?[-+ 0#]*\d*(?:\.\d+)?[a-zA-Z@%]/gi;
+
+/**
+ * Right-to-left override and pop directional formatting characters
+ */
+const RTL_OVERRIDE = '\u202e';
+const POP_DIRECTIONAL_FORMATTING = '\u202c';
+
+/**
+ * Pseudo-localize a message. Only text is changed: ICU arguments, plural and select
+ * syntax, tags and placeholders are kept as they are. Messages that are not valid ICU
+ * are treated as plain text.
+ */
+export function pseudoLocalize(
+  message: string,
+  options: PseudoLocalizationOptions = DEFAULT_PSEUDO_LOCALIZATION_OPTIONS
+): string {
+  const localized = pseudoLocalizeMessage(message, options);
+  return options.brackets ? `[${localized}]` : localized;
+}
+
+/**
+ * Pseudo-localize the text segments of an ICU message, including the text of its
+ * plural and select variants. Each message and variant is expanded on its own.
+ */
+function pseudoLocalizeMessage(message: string, options: PseudoLocalizationOptions): string {
+  let parsed;
+  try {
+    parsed = parseICUMessage(message);
+  } catch (error) {
+    if (!(error instanceof ICUParseError)) {
+      throw error;
+    }
+    return transformText(message, options) + createFiller(countText(message), options);
+  }
+
+  let result = '';
+  let textLength = 0;
+
+  for (const element of parsed.elements) {
+    // Text is taken from the message so that ICU quoting is kept
+    const raw = message.slice(element.start, element.end);
+
+    switch (element.type) {
+      case 'text':
+        result += transformText(raw, options);
+        textLength += countText(raw);
+        break;
+      case 'argument':
+        result += raw;
+        break;
+      case 'plural':
+        result += reconstructPlural(
+          element.name,
+          element.variants.map(v => ({ ...v, text: pseudoLocalizeMessage(v.text, options) })),
+          element.offset
+        );
+        break;
+      case 'selectordinal':
+        result += reconstructSelectordinal(
+          element.name,
+          element.variants.map(v => ({ ...v, text: pseudoLocalizeMessage(v.text, options) }))
+        );
+        break;
+      case 'select':
+        result += reconstructSelect(
+          element.name,
+          element.options.map(o => ({ ...o, value: pseudoLocalizeMessage(o.value, options) }))
+        );
+        break;
+    }
+  }
+
+  return result + createFiller(textLength, options);
+}
+
+/**
+ * Transform the text between the protected parts of a string
+ */
+function transformText(text: string, options: PseudoLocalizationOptions): string {
+  let result = '';
+  let index = 0;
+
+  for (const match of text.matchAll(PROTECTED_PATTERN)) {
+    result += transformRun(text.slice(index, match.index), options) + match[0];
+    index = match.index + match[0].length;
+  }
+
+  return result + transformRun(text.slice(index), options);
+}
+
+/**
+ * Transform a run of text without protected parts
+ */
+function transformRun(run: string, options: PseudoLocalizationOptions): string {
+  let result = options.accents
+    ? run.replace(/[a-zA-Z]/g, c => ACCENTED_LETTERS.charAt(ASCII_LETTERS.indexOf(c)))
+    : run;
+
+  if (options.mirror) {
+    result = result.replace(/\S+/g, word => RTL_OVERRIDE + word + POP_DIRECTIONAL_FORMATTING);
+  }
+
+  return result;
+}
+
+/**
+ * Count the characters of a string outside its protected parts, ignoring
+ * surrounding whitespace
+ */
+function countText(text: string): number {
+  return text.replace(PROTECTED_PATTERN, '').trim().length;
+}
+
+/**
+ * Create the filler that expands text of the given length, such as " one two".
+ * It is made of whole words, so it can be a little longer than the expansion.
+ */
+function createFiller(textLength: number, options: PseudoLocalizationOptions): string {
+  const length = Math.ceil((textLength * options.expansion) / 100);
+  let filler = '';
+
+  for (let i = 0; filler.length < length; i++) {
+    filler += ` ${FILLER_WORDS[i % FILLER_WORDS.length]}`;
+  }
+
+  return filler;
+}
+
+/**
+ * Pseudo-localization provider. It transforms source text locally, without a model,
+ * to find hard-coded, truncated and concatenated strings in the UI.
+ */
+export class PseudoTranslator extends BaseTranslator {
+  readonly providerName = 'pseudo';
+  readonly defaultModel = 'pseudo';
+
+  private readonly options: PseudoLocalizationOptions;
+
+  constructor(config: ProviderConfig) {
+    super(config);
+    this.options = { ...DEFAULT_PSEUDO_LOCALIZATION_OPTIONS, ...config.pseudo };
+  }
+
+  /**
+   * Validate configuration
+   */
+  validateConfig(): void {
+    const { expansion } = this.options;
+    if (!Number.isFinite(expansion) || expansion < 0) {
+      throw new ConfigError('Pseudo-localization expansion must be a percentage of 0 or more');
+    }
+  }
+
+  /**
+   * The pseudo provider is always available
+   */
+  checkAvailability(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+
+  /**
+   * Pseudo-localize a batch of units
+   */
+  translate(request: TranslationRequest): Promise<TranslationResponse> {
+    this.validateConfig();
+
+    logger.debug(`Pseudo-localizing ${request.units.length} units for ${request.targetLanguage}`);
+
+    return Promise.resolve({
+      translations: request.units.map(unit => ({
+        id: unit.id,
+        source: unit.source,
+        target: pseudoLocalize(unit.source, this.options),
+      })),
+      failures: [],
+      provider: this.providerName,
+      model: this.getModel(),
+    });
+  }
+}
@@ -0,0 +1,291 @@
+import { ConfigError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import type { ProviderConfig } from '../config/types';
+import type {
+  QualityEstimate,
+  TokenUsage,
+  TranslationRequest,
+  TranslationResponse,
+} from '../types/translation';
+import { BaseTranslator, findJsonObjects, sumTokenUsage } from './base';
+import { createProviderRateLimiter, RateLimiter } from './rate-limiter';
+
+/**
+ * A translation to be scored
+ */
+export interface QualityEstimationUnit {
+  id: string;
+  source: string;
+  target: string;
+  /** Context or notes of the unit */
+  context?: string;
+}
+
+/**
+ * Request to score a batch of translations
+ */
+export interface QualityEstimationRequest {
+  units: QualityEstimationUnit[];
+  sourceLanguage: string;
+  targetLanguage: string;
+  context?: string;
+}
+
+/**
+ * Scores of a batch of translations, keyed by unit ID. Units the model did not
+ * score are left out.
+ */
+export interface QualityEstimationResponse {
+  estimates: Map<string, QualityEstimate>;
+  usage?: TokenUsage;
+}
+
+/**
+ * Translators that can score translations
+ */
+export interface QualityEstimationProvider {
+  /**
+   * Score the accuracy, fluency and terminology of a batch of translations
+   */
+  estimateQuality(request: QualityEstimationRequest): Promise<QualityEstimationResponse>;
+}
+
+/**
+ * Check whether a translator can score translations
+ */
+export function supportsQualityEstimation(
+  translator: BaseTranslator
+): translator is BaseTranslator & QualityEstimationProvider {
+  return typeof (translator as Partial<QualityEstimationProvider>).estimateQuality === 'function';
+}
+
+/**
+ * Scores of a batch of translations as returned by an LLM
+ */
+export interface LLMQualityResult {
+  scores: Array<{ id: string } & QualityEstimate>;
+}
+
+/**
+ * JSON schema of LLMQualityResult, used for tool input and structured outputs
+ */
+export const QUALITY_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    scores: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          accuracy: { type: 'integer' },
+          fluency: { type: 'integer' },
+          terminology: { type: 'integer' },
+          rationale: { type: 'string' },
+        },
+        required: ['id', 'accuracy', 'fluency', 'terminology', 'rationale'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['scores'],
+  additionalProperties: false,
+} as const;
+
+/**
+ * Parse scores that are already a JSON value, such as tool input. Items for unknown
+ * units and items without numeric scores are ignored; scores are clamped to 0–100.
+ */
+export function parseQualityResult(
+  value: unknown,
+  expectedIds: string[]
+): Map<string, QualityEstimate> {
+  const items = (value as Partial<LLMQualityResult> | null)?.scores;
+  const expected = new Set(expectedIds);
+  const estimates = new Map<string, QualityEstimate>();
+
+  if (!Array.isArray(items)) {
+    return estimates;
+  }
+
+  for (const item of items as unknown[]) {
+    const { id, accuracy, fluency, terminology, rationale } = (item ?? {}) as Partial<
+      Record<string, unknown>
+    >;
+    if (typeof id !== 'string' || !expected.has(id) || estimates.has(id)) {
+      continue;
+    }
+
+    const scores = [accuracy, fluency, terminology];
+    if (!scores.every(score => typeof score === 'number' && Number.isFinite(score))) {
+      logger.debug(`Ignoring quality estimate without scores for unit: ${id}`);
+      continue;
+    }
+
+    const [a, f, t] = (scores as number[]).map(score =>
+      Math.min(100, Math.max(0, Math.round(score)))
+    );
+    estimates.set(id, {
+      accuracy: a ?? 0,
+      fluency: f ?? 0,
+      terminology: t ?? 0,
+      rationale: typeof rationale === 'string' ? rationale : '',
+    });
+  }
+
+  return estimates;
+}
+
+/**
+ * Parse an LLM text response containing JSON with scores, using the first JSON
+ * object in it with a scores array
+ */
+export function parseQualityResponse(
+  response: string,
+  expectedIds: string[]
+): Map<string, QualityEstimate> {
+  for (const candidate of findJsonObjects(response)) {
+    if (Array.isArray((candidate as Partial<LLMQualityResult>).scores)) {
+      return parseQualityResult(candidate, expectedIds);
+    }
+  }
+
+  return new Map();
+}
+
+/**
+ * Get the overall score of an estimate, the average of its dimensions
+ */
+export function getQualityScore(estimate: QualityEstimate): number {
+  return Math.round((estimate.accuracy + estimate.fluency + estimate.terminology) / 3);
+}
+
+/**
+ * Options of the quality reviewer
+ */
+export interface QualityReviewerOptions {
+  /** Score below which a translation needs review */
+  threshold: number;
+  /** Translations scored per request */
+  batchSize?: number;
+  /** Custom rate limit (requests per minute) */
+  rateLimitPerMinute?: number;
+}
+
+/**
+ * Scores translations with a provider, possibly another one than the translator's,
+ * and sets their confidence. A batch that cannot be scored is logged and left
+ * without scores, since the review never stops translations from being written.
+ */
+export class QualityReviewer {
+  private rateLimiter: RateLimiter;
+  private batchSize: number;
+
+  constructor(
+    config: ProviderConfig,
+    private readonly translator: BaseTranslator,
+    private readonly options: QualityReviewerOptions
+  ) {
+    this.batchSize = options.batchSize ?? 10;
+    this.rateLimiter = createProviderRateLimiter(config.provider, {
+      requestsPerMinute: options.rateLimitPerMinute ?? 50,
+    });
+  }
+
+  /**
+   * Validate the review provider's configuration and check that it is available
+   */
+  async validate(): Promise<void> {
+    if (!supportsQualityEstimation(this.translator)) {
+      throw new ConfigError(
+        `The ${this.translator.providerName} provider cannot review translations`
+      );
+    }
+
+    this.translator.validateConfig();
+
+    if (!(await this.translator.checkAvailability())) {
+      throw new ConfigError(
+        `Review provider ${this.translator.providerName} is not available. Check your configuration.`
+      );
+    }
+  }
+
+  /**
+   * Score the translations of a response. Each scored translation gets its
+   * estimate and a confidence, and the review's token usage is added to the
+   * response's.
+   */
+  async review(
+    request: TranslationRequest,
+    response: TranslationResponse
+  ): Promise<TranslationResponse> {
+    const translator = this.translator;
+    if (!supportsQualityEstimation(translator) || response.translations.length === 0) {
+      return response;
+    }
+
+    const unitsById = new Map(request.units.map(unit => [unit.id, unit]));
+    const units: QualityEstimationUnit[] = response.translations.map(t => {
+      const unit = unitsById.get(t.id);
+      return {
+        id: t.id,
+        source: t.source,
+        target: t.target,
+        context: unit?.context ?? unit?.metadata.notes,
+      };
+    });
+
+    const estimates = new Map<string, QualityEstimate>();
+    const usages = [response.usage];
+
+    for (let i = 0; i < units.length; i += this.batchSize) {
+      const batch = units.slice(i, i + this.batchSize);
+      await this.rateLimiter.acquire();
+
+      try {
+        const result = await translator.estimateQuality({
+          units: batch,
+          sourceLanguage: request.sourceLanguage,
+          targetLanguage: request.targetLanguage,
+          context: request.context,
+        });
+        for (const [id, estimate] of result.estimates) {
+          estimates.set(id, estimate);
+        }
+        usages.push(result.usage);
+      } catch (error) {
+        logger.warning(
+          `Quality review failed for ${batch.length} translation(s): ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    logger.info(
+      `Reviewed ${estimates.size}/${units.length} translation(s) with ${translator.providerName} (${translator.getModel()})`
+    );
+
+    return {
+      ...response,
+      translations: response.translations.map(t => {
+        const quality = estimates.get(t.id);
+        return quality ? { ...t, quality, confidence: getQualityScore(quality) } : t;
+      }),
+      usage: sumTokenUsage(usages),
+    };
+  }
+
+  /**
+   * Check whether a translation scored below the threshold
+   */
+  needsReview(translation: { confidence?: number }): boolean {
+    return translation.confidence !== undefined && translation.confidence < this.options.threshold;
+  }
+
+  /**
+   * Get the score below which a translation needs review
+   */
+  getThreshold(): number {
+    return this.options.threshold;
+  }
+}
@@ -252,6 +252,14 @@ export const PROVIDER_RATE_LIMITS: Record<string, RateLimiterOptions> = {
     requestsPerMinute: 120, // Local, so more lenient
     burstAllowance: 20,
   },
+  'openai-compatible': {
+    requestsPerMinute: 60,
+    burstAllowance: 10,
+  },
+  pseudo: {
+    requestsPerMinute: 6000, // No network
+    burstAllowance: 1000,
+  },
 };
 
 /**
@@ -0,0 +1,120 @@
+import { minimatch } from 'minimatch';
+import { ConfigError } from '../utils/errors';
+import type { ProviderConfig, RouteConfig } from '../config/types';
+import { CircuitBreaker } from './circuit-breaker';
+import { createOrchestrator, TranslationOrchestrator, TranslatorFactoryOptions } from './factory';
+
+/**
+ * Name of the route for files and languages that no configured route applies to
+ */
+export const DEFAULT_ROUTE = 'default';
+
+/**
+ * Check whether a route applies to a target language. A route language also covers
+ * its regional variants: "zh" applies to "zh-TW".
+ */
+function matchesLanguage(route: RouteConfig, targetLanguage: string): boolean {
+  if (!route.languages || route.languages.length === 0) {
+    return true;
+  }
+
+  const target = targetLanguage.toLowerCase();
+  return route.languages.some(language => {
+    const routeLanguage = language.toLowerCase();
+    return target === routeLanguage || target.startsWith(`${routeLanguage}-`);
+  });
+}
+
+/**
+ * Check whether a route applies to a source file path
+ */
+function matchesFile(route: RouteConfig, filePath: string): boolean {
+  if (!route.files || route.files.length === 0) {
+    return true;
+  }
+
+  return route.files.some(pattern => minimatch(filePath, pattern, { dot: true }));
+}
+
+/**
+ * Picks the provider for each source file and target language.
+ *
+ * Routes are tried in order, and the first one that applies to both the file and
+ * the language is used; the default route covers the rest. Each route has its own
+ * orchestrator, created when it is first needed. Orchestrators share the circuit
+ * breakers of their providers, so a provider that is down is skipped by every route.
+ */
+export class TranslationRouter {
+  private orchestrators = new Map<string, TranslationOrchestrator>();
+  private circuitBreakers = new Map<string, CircuitBreaker>();
+
+  constructor(
+    private readonly defaultProvider: ProviderConfig,
+    private readonly routes: RouteConfig[],
+    private readonly options?: TranslatorFactoryOptions
+  ) {}
+
+  /**
+   * Get the name of the route for a source file and target language
+   */
+  resolve(filePath: string, targetLanguage: string): string {
+    const route = this.routes.find(
+      r => matchesLanguage(r, targetLanguage) && matchesFile(r, filePath)
+    );
+    return route?.name ?? DEFAULT_ROUTE;
+  }
+
+  /**
+   * Get the orchestrator of a route
+   */
+  getOrchestrator(name: string): TranslationOrchestrator {
+    let orchestrator = this.orchestrators.get(name);
+
+    if (!orchestrator) {
+      orchestrator = createOrchestrator(this.getProviderConfig(name), {
+        ...this.options,
+        circuitBreakers: this.circuitBreakers,
+      });
+      this.orchestrators.set(name, orchestrator);
+    }
+
+    return orchestrator;
+  }
+
+  /**
+   * Get the names of the routes that can apply to any of the target languages,
+   * default route first
+   */
+  getRouteNames(targetLanguages: string[]): string[] {
+    const names = this.routes
+      .filter(route => targetLanguages.some(language => matchesLanguage(route, language)))
+      .map(route => route.name);
+
+    return [DEFAULT_ROUTE, ...names];
+  }
+
+  /**
+   * Validate the orchestrators of the routes that can apply to the target languages
+   */
+  async validate(targetLanguages: string[]): Promise<void> {
+    for (const name of this.getRouteNames(targetLanguages)) {
+      await this.getOrchestrator(name).validate();
+    }
+  }
+
+  /**
+   * Get the provider configuration of a route
+   */
+  private getProviderConfig(name: string): ProviderConfig {
+    if (name === DEFAULT_ROUTE) {
+      return this.defaultProvider;
+    }
+
+    const route = this.routes.find(r => r.name === name);
+    if (!route) {
+      throw new ConfigError(`Unknown route: ${name}`);
+    }
+
+    return route.provider;
+  }
+}
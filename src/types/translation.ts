@@ -12,6 +12,19 @@ export interface XliffPlaceholder {
   tagName: string;
   /** The element attributes (id, equiv-text, ctype, etc.) */
   attributes: Record<string, string>;
+  /** The element content, such as the original code inside TMX inline tags */
+  content?: string;
+}
+
+/**
+ * Existing translation of a unit whose source changed
+ */
+export interface TranslationRevision {
+  /** Source text the translation was made for, when it is known */
+  previousSource?: string;
+  translation: string;
+  /** The translation was edited or approved by a reviewer */
+  reviewed?: boolean;
 }
 
 /**
@@ -27,6 +40,38 @@ export interface TranslationUnitMetadata {
   approved?: boolean;
   /** XLIFF placeholder elements that need to be preserved in translations */
   placeholders?: XliffPlaceholder[];
+  /** Placeholder names declared by the file format (e.g., ARB "placeholders") */
+  declaredPlaceholders?: string[];
+  /** Source code references (e.g., gettext "#: src/app.py:42") */
+  references?: string[];
+  /** Format-specific flags (e.g., gettext "fuzzy", "python-format") */
+  flags?: string[];
+  /** A translation that failed validation, sent back with its issues to be corrected */
+  correction?: TranslationCorrection;
+  /** The translation scored below the review threshold and needs a human review */
+  needsReview?: boolean;
+  /** The existing translation of a changed source, sent to be changed minimally */
+  revision?: TranslationRevision;
+  /** Similar translations from the translation memory, sent as references */
+  memoryMatches?: TranslationMemoryMatch[];
+}
+
+/**
+ * A translation memory entry whose source is similar to a unit's source
+ */
+export interface TranslationMemoryMatch {
+  source: string;
+  target: string;
+  /** Similarity of the sources from 0 to 100 */
+  similarity: number;
+}
+
+/**
+ * A rejected translation and the issues found in it
+ */
+export interface TranslationCorrection {
+  translation: string;
+  issues: string[];
 }
 
 /**
@@ -45,7 +90,22 @@ export interface TranslationUnit {
  * File format information
  */
 export interface FormatInfo {
-  format: 'xliff-1.2' | 'xliff-2.0' | 'json-flat' | 'json-nested';
+  format:
+    | 'xliff-1.2'
+    | 'xliff-2.0'
+    | 'json-flat'
+    | 'json-nested'
+    | 'yaml'
+    | 'po'
+    | 'android-xml'
+    | 'ios-strings'
+    | 'ios-stringsdict'
+    | 'xcstrings'
+    | 'arb'
+    | 'properties'
+    | 'resx'
+    | 'fluent'
+    | 'i18next';
   version?: string;
   encoding?: string;
 }
@@ -73,6 +133,34 @@ export interface TranslationRequest {
   context?: string;
   preserveFormatting: boolean;
   preservePlaceholders: boolean;
+  /** Glossary of the target language; each batch is sent the terms its units use */
+  glossary?: GlossaryEntry[];
+  /** Style guide of the project, sent with every batch */
+  styleGuide?: string;
+  /** Example translations of the target language, sent with every batch */
+  examples?: TranslationExample[];
+}
+
+/**
+ * A glossary term and how it is translated
+ */
+export interface GlossaryEntry {
+  /** Term in the source language */
+  term: string;
+  /** Translation to use; a term without one is never translated, as for brand names */
+  translation?: string;
+  /** Target language the entry is for, all languages when not set */
+  language?: string;
+}
+
+/**
+ * Example translation that shows the model the style to follow
+ */
+export interface TranslationExample {
+  source: string;
+  target: string;
+  /** Target language the example is for, all languages when not set */
+  language?: string;
 }
 
 /**
@@ -80,14 +168,26 @@ export interface TranslationRequest {
  */
 export interface TranslationResponse {
   translations: TranslatedUnit[];
-  usage?: {
-    inputTokens: number;
-    outputTokens: number;
-  };
+  usage?: TokenUsage;
+  /** Units that got no usable translation, with the reason */
+  failures?: UnitFailure[];
   provider: string;
   model: string;
 }
 
+/**
+ * Tokens used by translation requests
+ */
+export interface TokenUsage {
+  /** Input tokens, not counting those read from or written to the prompt cache */
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens read from the prompt cache */
+  cacheReadInputTokens?: number;
+  /** Input tokens written to the prompt cache */
+  cacheWriteInputTokens?: number;
+}
+
 /**
  * A translated unit
  */
@@ -95,7 +195,40 @@ export interface TranslatedUnit {
   id: string;
   source: string;
   target: string;
+  /** Quality score from 0 to 100, set by the review pass */
   confidence?: number;
+  /** Scores and rationale of the review pass */
+  quality?: QualityEstimate;
+  /** Issues of a translation that was kept despite them, such as ignored glossary terms */
+  issues?: string[];
+  /** Provider and model that produced the translation */
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * Quality estimate of a translation, MQM-style: each dimension is scored from 0 to
+ * 100, where 100 means no errors
+ */
+export interface QualityEstimate {
+  /** Meaning is kept, with nothing added or left out */
+  accuracy: number;
+  /** Grammar, spelling and natural phrasing in the target language */
+  fluency: number;
+  /** Consistent, domain-appropriate terms */
+  terminology: number;
+  /** Short explanation of the scores */
+  rationale: string;
+}
+
+/**
+ * A unit whose translation could not be used
+ */
+export interface UnitFailure {
+  id: string;
+  reason: string;
+  /** Issues of a translation that was rejected by validation */
+  issues?: string[];
 }
 
 /**
@@ -119,6 +252,8 @@ export interface DiffEntry {
   unit: TranslationUnit;
   changeType: ChangeType;
   previousHash?: string;
+  /** Target language the unit was diffed for (set when diffing against a hash store) */
+  targetLanguage?: string;
 }
 
 /**
@@ -156,6 +291,16 @@ export interface TranslationReport {
     failedUnits: number;
     skippedUnits: number;
   };
+  /** Tokens used, when the provider reported any */
+  usage?: TokenUsage;
+  /** Providers and models that produced the translations */
+  providers?: ProviderReport[];
+  /** Translations and usage by route, when routes are configured */
+  routes?: RouteReport[];
+  /** Quality scores, when the review pass is enabled */
+  quality?: QualityReport;
+  /** Translation memory use, when the memory is enabled */
+  memory?: MemoryReport;
   errors: ErrorEntry[];
 }
 
@@ -169,6 +314,53 @@ export interface FileReport {
   unitsTranslated: number;
   unitsFailed: number;
   unitsSkipped: number;
+  /** Providers and models that produced the translations */
+  providers?: ProviderReport[];
+}
+
+/**
+ * Translations and token usage of a route
+ */
+export interface RouteReport {
+  name: string;
+  provider: string;
+  model: string;
+  translatedUnits: number;
+  usage?: TokenUsage;
+}
+
+/**
+ * Quality scores of the reviewed translations
+ */
+export interface QualityReport {
+  /** Score below which a translation needs review */
+  threshold: number;
+  reviewedUnits: number;
+  needsReview: number;
+  averageScore: number;
+  /** Reviewed units by score range, highest range first */
+  distribution: Array<{ range: string; units: number }>;
+}
+
+/**
+ * Units served from the translation memory
+ */
+export interface MemoryReport {
+  /** Units whose translation was reused from an exact match, without an API call */
+  reusedUnits: number;
+  /** Units sent with similar translations as references */
+  referencedUnits: number;
+  /** Estimated input and output tokens the reused units would have used */
+  estimatedTokensSaved: number;
+}
+
+/**
+ * Translations produced by a provider and model
+ */
+export interface ProviderReport {
+  provider: string;
+  model: string;
+  translatedUnits: number;
 }
 
 /**
@@ -0,0 +1,32 @@
+import * as fs from 'fs';
+
+/**
+ * Text encodings recognized when reading translation files
+ */
+export type TextEncoding = 'UTF-8' | 'ISO-8859-1';
+
+// ignoreBOM keeps a byte order mark in the content, as fs.readFileSync does
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true, ignoreBOM: true });
+
+/**
+ * Read a text file as UTF-8, falling back to ISO-8859-1 when the bytes are not
+ * valid UTF-8 (e.g. Java .properties files written before Java 9).
+ */
+export function readTextFile(filePath: string): { content: string; encoding: TextEncoding } {
+  const buffer = fs.readFileSync(filePath);
+
+  try {
+    return { content: utf8Decoder.decode(buffer), encoding: 'UTF-8' };
+  } catch {
+    return { content: buffer.toString('latin1'), encoding: 'ISO-8859-1' };
+  }
+}
+
+/**
+ * Write a text file in the given encoding. Content that cannot be represented in
+ * ISO-8859-1 is written as UTF-8 instead of being corrupted.
+ */
+export function writeTextFile(filePath: string, content: string, encoding?: string): void {
+  const latin1 = encoding === 'ISO-8859-1' && !/[\u0100-\uffff]/.test(content);
+  fs.writeFileSync(filePath, content, latin1 ? 'latin1' : 'utf-8');
+}
@@ -1,4 +1,11 @@
 import * as path from 'path';
+import type { OutputLayout } from '../config/types';
+import type { FormatInfo } from '../types/translation';
+
+/**
+ * Extensions whose file names carry locales with underscores (app_pt_BR.arb)
+ */
+const UNDERSCORE_LOCALE_EXTENSIONS = ['.arb', '.properties'];
 
 /**
  * Generate a language-specific output file path.
@@ -8,20 +15,63 @@ import * as path from 'path';
  *   - messages.xlf + 'de' → messages.de.xlf
  *   - src/i18n/messages.xlf + 'es' → src/i18n/messages.es.xlf
  *   - locale/en.json + 'fr' → locale/fr.json
+ *   - messages.pot + 'de' → messages.de.po
+ *   - res/values/strings.xml + 'pt-BR' → res/values-pt-rBR/strings.xml (android layout)
+ *   - en.lproj/Localizable.strings + 'de' → de.lproj/Localizable.strings (apple layout)
+ *   - Localizable.xcstrings + 'de' → Localizable.xcstrings (String Catalogs hold every language)
+ *   - lib/l10n/app_en.arb + 'pt-BR' → lib/l10n/app_pt_BR.arb
+ *   - messages.properties + 'pt-BR' → messages_pt_BR.properties
+ *   - locales/en/main.ftl + 'de' → locales/de/main.ftl
+ *   - locales/en/translation.json + 'pl' → locales/pl/translation.json (i18next format)
  *
  * @param sourcePath - The original source file path
  * @param targetLanguage - The target language code (e.g., 'de', 'es', 'fr')
  * @param sourceLanguage - The source language code (e.g., 'en')
+ * @param layout - The output layout (default: auto)
+ * @param format - The format of the source file, if known
  * @returns The language-specific output file path
  */
 export function getOutputFilePath(
   sourcePath: string,
   targetLanguage: string,
-  sourceLanguage: string
+  sourceLanguage: string,
+  layout: OutputLayout = 'auto',
+  format?: FormatInfo['format']
 ): string {
+  if (layout === 'android' || (layout === 'auto' && isAndroidValuesPath(sourcePath))) {
+    return getAndroidOutputFilePath(sourcePath, targetLanguage);
+  }
+
+  if (layout === 'apple' || (layout === 'auto' && isLprojPath(sourcePath))) {
+    return getLprojOutputFilePath(sourcePath, targetLanguage);
+  }
+
+  if (path.extname(sourcePath).toLowerCase() === '.xcstrings') {
+    return sourcePath;
+  }
+
+  if (layout === 'auto' && isLocaleDirPath(sourcePath, sourceLanguage, format)) {
+    return path.join(
+      path.dirname(path.dirname(sourcePath)),
+      targetLanguage,
+      path.basename(sourcePath)
+    );
+  }
+
   const dir = path.dirname(sourcePath);
-  const ext = path.extname(sourcePath);
-  const baseName = path.basename(sourcePath, ext);
+  const sourceExt = path.extname(sourcePath);
+
+  // Flutter and Java ResourceBundle locales use underscores in file names
+  const underscoreLocale = UNDERSCORE_LOCALE_EXTENSIONS.includes(sourceExt.toLowerCase());
+  if (underscoreLocale) {
+    targetLanguage = toUnderscoreLocale(targetLanguage);
+    sourceLanguage = toUnderscoreLocale(sourceLanguage);
+  }
+
+  const baseName = path.basename(sourcePath, sourceExt);
+
+  // Gettext templates produce catalogs
+  const ext = sourceExt.toLowerCase() === '.pot' ? '.po' : sourceExt;
 
   // Check if the filename already contains the source language code
   // e.g., "messages.en.xlf" or "en.json"
@@ -45,8 +95,119 @@ export function getOutputFilePath(
   }
 
   // Otherwise, insert the target language before the extension
-  // e.g., "messages.xlf" → "messages.de.xlf"
-  return path.join(dir, `${baseName}.${targetLanguage}${ext}`);
+  // e.g., "messages.xlf" → "messages.de.xlf", "messages.properties" → "messages_de.properties"
+  const separator = underscoreLocale ? '_' : '.';
+  return path.join(dir, `${baseName}${separator}${targetLanguage}${ext}`);
+}
+
+/**
+ * Generate the output path in a sibling values-<qualifier> directory.
+ * The source may live in res/values or in a language-qualified values directory.
+ */
+function getAndroidOutputFilePath(sourcePath: string, targetLanguage: string): string {
+  const valuesDir = path.dirname(sourcePath);
+  const resDir = path.dirname(valuesDir);
+  return path.join(
+    resDir,
+    `values-${toAndroidQualifier(targetLanguage)}`,
+    path.basename(sourcePath)
+  );
+}
+
+/**
+ * Generate the output path in a sibling <lang>.lproj directory.
+ * The source may live in Base.lproj or in a language's .lproj directory.
+ */
+function getLprojOutputFilePath(sourcePath: string, targetLanguage: string): string {
+  const bundleDir = path.dirname(path.dirname(sourcePath));
+  return path.join(bundleDir, `${targetLanguage}.lproj`, path.basename(sourcePath));
+}
+
+/**
+ * Check if a path is inside an Apple <lang>.lproj directory.
+ */
+export function isLprojPath(filePath: string): boolean {
+  return path.extname(path.dirname(filePath)).toLowerCase() === '.lproj';
+}
+
+/**
+ * Check if a Fluent resource or an i18next namespace lives in a directory named after
+ * the source locale (locales/en/main.ftl, locales/en/translation.json). Other JSON
+ * files keep the file name layout, and a directory of a regional variant (en-GB) is
+ * not taken for that of its language.
+ */
+export function isLocaleDirPath(
+  filePath: string,
+  sourceLanguage: string,
+  format?: FormatInfo['format']
+): boolean {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext !== '.ftl' && !(ext === '.json' && format === 'i18next')) {
+    return false;
+  }
+  return path.basename(path.dirname(filePath)).toLowerCase() === sourceLanguage.toLowerCase();
+}
+
+/**
+ * Check if a path is an XML resource file inside an Android values directory.
+ */
+export function isAndroidValuesPath(filePath: string): boolean {
+  const dirName = path.basename(path.dirname(filePath));
+  return path.extname(filePath).toLowerCase() === '.xml' && /^values(-.+)?$/.test(dirName);
+}
+
+/**
+ * Convert a BCP-47 language code to an Android resource qualifier.
+ * Examples:
+ *   - de → de
+ *   - pt-BR → pt-rBR
+ *   - sr-Latn → b+sr+Latn
+ *   - zh-Hans-CN → b+zh+Hans+CN
+ *
+ * @param languageCode - The language code (e.g., 'de', 'pt-BR')
+ * @returns The resource qualifier used in values-<qualifier> directory names
+ */
+export function toAndroidQualifier(languageCode: string): string {
+  const [language = '', ...subtags] = languageCode.split(/[-_]/);
+  const region = subtags[0];
+
+  if (subtags.length === 0) {
+    return language.toLowerCase();
+  }
+
+  // Legacy qualifiers only support a two-letter language and region
+  if (subtags.length === 1 && region && /^[A-Za-z]{2}$/.test(region) && language.length === 2) {
+    return `${language.toLowerCase()}-r${region.toUpperCase()}`;
+  }
+
+  return ['b', language.toLowerCase(), ...subtags.map(formatSubtag)].join('+');
+}
+
+/**
+ * Convert a BCP-47 language code to an underscore locale, as used by Flutter ARB
+ * files and Java ResourceBundles.
+ * Examples:
+ *   - de → de
+ *   - pt-BR → pt_BR
+ *   - zh-Hant-TW → zh_Hant_TW
+ *
+ * @param languageCode - The language code (e.g., 'de', 'pt-BR')
+ * @returns The locale used in app_<locale>.arb and messages_<locale>.properties
+ *   file names and in @@locale
+ */
+export function toUnderscoreLocale(languageCode: string): string {
+  const [language = '', ...subtags] = languageCode.split(/[-_]/);
+  return [language.toLowerCase(), ...subtags.map(formatSubtag)].join('_');
+}
+
+/**
+ * Apply BCP-47 casing conventions to a subtag (Latn, CN, 419)
+ */
+function formatSubtag(subtag: string): string {
+  if (subtag.length === 4) {
+    return subtag.charAt(0).toUpperCase() + subtag.slice(1).toLowerCase();
+  }
+  return subtag.toUpperCase();
 }
 
 /**
@@ -0,0 +1,177 @@
+import { XMLParser } from 'fast-xml-parser';
+
+/**
+ * An ordered plist dictionary (key order is preserved when writing back)
+ */
+export interface PlistDict {
+  type: 'dict';
+  entries: Array<[string, PlistValue]>;
+}
+
+/**
+ * A value in an XML property list
+ */
+export type PlistValue = string | number | boolean | PlistDict | PlistValue[];
+
+type XmlNode = Record<string, unknown>;
+
+const PLIST_HEADER =
+  '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">\n';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  textNodeName: '#text',
+  preserveOrder: true,
+  trimValues: false,
+  parseTagValue: false,
+});
+
+/**
+ * Parse an XML property list and return its root value
+ */
+export function parsePlist(content: string): PlistValue {
+  const nodes = parser.parse(content) as XmlNode[];
+  const plist = nodes.find(node => 'plist' in node);
+
+  if (!plist) {
+    throw new Error('Missing <plist> root element');
+  }
+
+  const root = getElementChildren(plist['plist'])[0];
+  if (!root) {
+    throw new Error('Empty <plist> element');
+  }
+
+  return parseValue(root);
+}
+
+/**
+ * Serialize a value as an XML property list using Xcode's tab indentation
+ */
+export function serializePlist(value: PlistValue): string {
+  return `${PLIST_HEADER}<plist version="1.0">\n${serializeValue(value, '')}\n</plist>\n`;
+}
+
+/**
+ * Create an empty plist dictionary
+ */
+export function createPlistDict(entries: Array<[string, PlistValue]> = []): PlistDict {
+  return { type: 'dict', entries };
+}
+
+/**
+ * Check whether a plist value is a dictionary
+ */
+export function isPlistDict(value: PlistValue | undefined): value is PlistDict {
+  return typeof value === 'object' && !Array.isArray(value) && value.type === 'dict';
+}
+
+/**
+ * Get a value from a plist dictionary
+ */
+export function getPlistValue(dict: PlistDict, key: string): PlistValue | undefined {
+  return dict.entries.find(([entryKey]) => entryKey === key)?.[1];
+}
+
+/**
+ * Parse a single element node
+ */
+function parseValue(node: XmlNode): PlistValue {
+  const tagName = Object.keys(node).find(key => key !== ':@');
+  const children = tagName ? node[tagName] : undefined;
+
+  switch (tagName) {
+    case 'dict': {
+      const elements = getElementChildren(children);
+      const entries: Array<[string, PlistValue]> = [];
+      for (let i = 0; i + 1 < elements.length; i += 2) {
+        const keyNode = elements[i];
+        const valueNode = elements[i + 1];
+        if (keyNode && valueNode) {
+          entries.push([getText(keyNode['key']), parseValue(valueNode)]);
+        }
+      }
+      return createPlistDict(entries);
+    }
+    case 'array':
+      return getElementChildren(children).map(parseValue);
+    case 'string':
+    case 'date':
+    case 'data':
+      return getText(children);
+    case 'integer':
+    case 'real':
+      return Number(getText(children));
+    case 'true':
+      return true;
+    case 'false':
+      return false;
+    default:
+      throw new Error(`Unsupported plist element: ${String(tagName)}`);
+  }
+}
+
+/**
+ * Get element children, skipping whitespace text nodes and comments
+ */
+function getElementChildren(children: unknown): XmlNode[] {
+  if (!Array.isArray(children)) {
+    return [];
+  }
+  return (children as XmlNode[]).filter(child => !('#text' in child) && !('#comment' in child));
+}
+
+/**
+ * Get the text content of an element
+ */
+function getText(children: unknown): string {
+  if (!Array.isArray(children)) {
+    return '';
+  }
+  return (children as XmlNode[])
+    .map(child => (typeof child['#text'] === 'string' ? child['#text'] : ''))
+    .join('');
+}
+
+/**
+ * Serialize a value at the given indentation
+ */
+function serializeValue(value: PlistValue, indent: string): string {
+  if (typeof value === 'string') {
+    return `${indent}<string>${escapeXml(value)}</string>`;
+  }
+  if (typeof value === 'boolean') {
+    return `${indent}<${value ? 'true' : 'false'}/>`;
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value)
+      ? `${indent}<integer>${value}</integer>`
+      : `${indent}<real>${value}</real>`;
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return `${indent}<array/>`;
+    }
+    const items = value.map(item => serializeValue(item, indent + '\t')).join('\n');
+    return `${indent}<array>\n${items}\n${indent}</array>`;
+  }
+  if (value.entries.length === 0) {
+    return `${indent}<dict/>`;
+  }
+  const entries = value.entries
+    .map(
+      ([key, entryValue]) =>
+        `${indent}\t<key>${escapeXml(key)}</key>\n${serializeValue(entryValue, indent + '\t')}`
+    )
+    .join('\n');
+  return `${indent}<dict>\n${entries}\n${indent}</dict>`;
+}
+
+/**
+ * Escape special XML characters in element text
+ */
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}